@@ -0,0 +1,7 @@
+'use client';
+
+import { PresetGallery } from '@/components/gallery/PresetGallery';
+
+export default function GalleryPage() {
+  return <PresetGallery />;
+}
@@ -1,15 +1,44 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Settings } from 'lucide-react';
 import { ViewportContainer } from '@/components/viewport/ViewportContainer';
 import { ParameterPanel } from '@/components/parameters/ParameterPanel';
 import { useMediaQuery } from '@/hooks/useMediaQuery';
+import { useDesignUrlSync } from '@/hooks/useDesignUrlSync';
+import { useDesignStore } from '@/store/designStore';
+
+/** True when a keystroke belongs to a text field (leave its native undo alone) */
+function isTextInput(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || target.tagName === 'TEXTAREA') return true;
+  return target.tagName === 'INPUT' && (target as HTMLInputElement).type !== 'range';
+}
 
 /** Main editor composition: sidebar (parameter panel) + 3D viewport */
 export function EditorLayout() {
   const isDesktop = useMediaQuery('(min-width: 1024px)');
   const [mobileOpen, setMobileOpen] = useState(false);
+  useDesignUrlSync();
+
+  // Undo: Ctrl/Cmd+Z — Redo: Ctrl/Cmd+Shift+Z (or Ctrl+Y)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextInput(e.target)) return;
+      const key = e.key.toLowerCase();
+      const { undo, redo } = useDesignStore.getState();
+      if (key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) redo();
+        else undo();
+      } else if (key === 'y' && !e.shiftKey) {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
 
   return (
     <div className="flex h-screen w-screen overflow-hidden bg-bg-primary">
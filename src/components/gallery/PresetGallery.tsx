@@ -0,0 +1,156 @@
+'use client';
+
+import React, { useState, useMemo, useCallback } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { ArrowLeft } from 'lucide-react';
+import { useDesignStore } from '@/store/designStore';
+import { DESIGN_QUERY_PARAM, encodeDesign } from '@/store/urlState';
+import { VASE_PRESETS, PRESET_CATEGORIES, resolvePresetParams } from '@/presets/vasePresets';
+import type { PresetCategory, VasePreset } from '@/types/preset';
+import { makeSilhouettePath, makeTopOutlinePath } from './thumbnailPaths';
+
+type CategoryFilter = PresetCategory | 'all';
+
+interface PresetCardProps {
+  preset: VasePreset;
+  onCustomize: (preset: VasePreset) => void;
+}
+
+/** Single gallery tile: silhouette thumbnail, cross-section inset and details */
+const PresetCard = React.memo(function PresetCard({ preset, onCustomize }: PresetCardProps) {
+  const paths = useMemo(() => {
+    const params = resolvePresetParams(preset);
+    return { silhouette: makeSilhouettePath(params), outline: makeTopOutlinePath(params) };
+  }, [preset]);
+
+  return (
+    <article
+      data-testid={`preset-${preset.id}`}
+      className="flex flex-col gap-2 p-3 rounded-lg bg-[var(--bg-tertiary)]
+        border border-transparent hover:border-[var(--bg-elevated)] transition-colors"
+    >
+      <div className="relative flex justify-center py-2">
+        <svg viewBox="0 0 60 80" className="w-24 h-32" aria-hidden="true">
+          <path
+            d={paths.silhouette}
+            fill="var(--bg-elevated)"
+            stroke="var(--accent-primary)"
+            strokeWidth="1"
+            strokeLinejoin="round"
+          />
+        </svg>
+        <svg viewBox="0 0 24 24" className="absolute top-1 right-1 w-8 h-8" aria-hidden="true">
+          <path
+            d={paths.outline}
+            fill="none"
+            stroke="var(--text-tertiary)"
+            strokeWidth="0.75"
+            strokeLinejoin="round"
+          />
+        </svg>
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <h2 className="font-display text-lg font-light text-text-primary">{preset.name}</h2>
+        <p className="text-xs font-sans text-text-secondary">{preset.description}</p>
+        <ul className="flex flex-wrap gap-1" aria-label="Tags">
+          {preset.tags.map((tag) => (
+            <li
+              key={tag}
+              className="text-[10px] font-sans text-[var(--text-tertiary)] px-1.5 py-0.5 rounded-sm
+                bg-[var(--bg-elevated)]"
+            >
+              {tag}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <button
+        onClick={() => onCustomize(preset)}
+        data-testid={`customize-${preset.id}`}
+        className="mt-auto text-xs font-sans font-medium px-3 py-1.5 rounded-sm
+          bg-[var(--accent-primary)] text-[var(--bg-primary)] hover:opacity-90 transition-opacity"
+      >
+        Customize
+      </button>
+    </article>
+  );
+});
+
+/** Preset gallery: category filter + thumbnail grid; Customize opens the preset in the editor */
+export function PresetGallery() {
+  const router = useRouter();
+  const [category, setCategory] = useState<CategoryFilter>('all');
+
+  const visible = useMemo(
+    () => (category === 'all' ? VASE_PRESETS : VASE_PRESETS.filter((p) => p.category === category)),
+    [category]
+  );
+
+  const handleCustomize = useCallback(
+    (preset: VasePreset) => {
+      const params = resolvePresetParams(preset);
+      const { setObjectType, setParams, clearHistory } = useDesignStore.getState();
+      // Presets are vases, even when the editor was last showing a lamp
+      setObjectType('vase');
+      setParams(params);
+      // The preset is the starting point — not an undoable edit
+      clearHistory();
+      router.push(`/editor?${DESIGN_QUERY_PARAM}=${encodeDesign(params)}`);
+    },
+    [router]
+  );
+
+  const filters: { value: CategoryFilter; label: string }[] = [
+    { value: 'all', label: 'All' },
+    ...PRESET_CATEGORIES,
+  ];
+
+  return (
+    <div className="min-h-screen p-6 sidebar-gradient">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="font-display text-2xl font-light text-text-primary tracking-wide">
+          Presets
+        </h1>
+        <Link
+          href="/editor"
+          className="flex items-center gap-1.5 text-xs font-sans text-text-secondary
+            hover:text-text-primary px-2 py-1.5 rounded-sm transition-colors"
+        >
+          <ArrowLeft size={14} />
+          Back to editor
+        </Link>
+      </div>
+
+      <div className="flex gap-1 mb-4" role="radiogroup" aria-label="Preset category">
+        {filters.map(({ value, label }) => {
+          const isActive = category === value;
+          return (
+            <button
+              key={value}
+              onClick={() => setCategory(value)}
+              data-testid={`category-${value}`}
+              role="radio"
+              aria-checked={isActive}
+              className={`text-xs font-sans px-3 py-1.5 rounded-sm transition-colors ${
+                isActive
+                  ? 'bg-[var(--bg-elevated)] text-[var(--accent-primary)]'
+                  : 'text-text-secondary hover:text-text-primary'
+              }`}
+            >
+              {label}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4" data-testid="preset-grid">
+        {visible.map((preset) => (
+          <PresetCard key={preset.id} preset={preset} onCustomize={handleCustomize} />
+        ))}
+      </div>
+    </div>
+  );
+}
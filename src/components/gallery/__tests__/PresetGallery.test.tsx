@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { PresetGallery } from '../PresetGallery';
+import { useDesignStore } from '@/store/designStore';
+import { DEFAULT_VASE_PARAMS } from '@/types/design';
+import { readDesignFromSearch } from '@/store/urlState';
+import { VASE_PRESETS, getPreset, resolvePresetParams } from '@/presets/vasePresets';
+
+const push = vi.fn();
+vi.mock('next/navigation', () => ({
+  useRouter: () => ({ push }),
+}));
+
+describe('PresetGallery', () => {
+  beforeEach(() => {
+    push.mockClear();
+    useDesignStore.getState().setObjectType('vase');
+    useDesignStore.getState().setParams({ ...DEFAULT_VASE_PARAMS });
+    useDesignStore.getState().clearHistory();
+  });
+
+  it('renders a thumbnail card for every preset', () => {
+    render(<PresetGallery />);
+    VASE_PRESETS.forEach((preset) => {
+      const card = screen.getByTestId(`preset-${preset.id}`);
+      expect(card.querySelector('path')?.getAttribute('d')).toMatch(/^M[\d.]+,[\d.]+ L/);
+    });
+  });
+
+  it('filters by category', async () => {
+    const user = userEvent.setup();
+    render(<PresetGallery />);
+    await user.click(screen.getByTestId('category-geometric'));
+
+    const expected = VASE_PRESETS.filter((p) => p.category === 'geometric');
+    expect(screen.getByTestId('preset-grid').children).toHaveLength(expected.length);
+    expect(screen.queryByTestId('preset-amphora')).toBeNull();
+  });
+
+  it('Customize loads the preset into the store and opens the editor', async () => {
+    const user = userEvent.setup();
+    render(<PresetGallery />);
+    await user.click(screen.getByTestId('customize-amphora'));
+
+    const expected = resolvePresetParams(getPreset('amphora')!);
+    const state = useDesignStore.getState();
+    expect(state.params).toEqual(expected);
+    // Loading a preset starts a fresh history
+    expect(state.past).toHaveLength(0);
+
+    expect(push).toHaveBeenCalledTimes(1);
+    const url = new URL(push.mock.calls[0][0], 'http://localhost');
+    expect(url.pathname).toBe('/editor');
+    expect({ ...DEFAULT_VASE_PARAMS, ...readDesignFromSearch(url.search) }).toEqual(expected);
+  });
+
+  it('Customize switches the editor back to a vase', async () => {
+    const user = userEvent.setup();
+    useDesignStore.getState().setObjectType('lamp');
+    render(<PresetGallery />);
+    await user.click(screen.getByTestId('customize-amphora'));
+
+    expect(useDesignStore.getState().objectType).toBe('vase');
+  });
+});
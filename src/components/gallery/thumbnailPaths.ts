@@ -0,0 +1,55 @@
+import type { VaseParams } from '@/types/design';
+import { createLayerSampler } from '@/generators/shared/layerSampler';
+
+/** Layers sampled up the silhouette */
+const SILHOUETTE_LAYERS = 32;
+/** Cross-section resolution for thumbnails — shape only, no need for export detail */
+const THUMBNAIL_RESOLUTION = 48;
+
+/** Farthest point of a layer outline from the vase axis */
+function outlineRadius(points: [number, number][]): number {
+  let max = 0;
+  for (const [x, y] of points) {
+    const r = Math.hypot(x, y);
+    if (r > max) max = r;
+  }
+  return max;
+}
+
+/**
+ * Side silhouette of a vase as an SVG path, fitted into a width × height box
+ * with the base at the bottom. Uses the outer radius per layer, so twisted
+ * ridges read as their envelope.
+ */
+export function makeSilhouettePath(params: VaseParams, width = 60, height = 80): string {
+  const sample = createLayerSampler(params, { resolution: THUMBNAIL_RESOLUTION, wallInset: 0 });
+  const radii: number[] = [];
+  for (let i = 0; i <= SILHOUETTE_LAYERS; i++) {
+    radii.push(outlineRadius(sample(i / SILHOUETTE_LAYERS)));
+  }
+
+  const pad = 4;
+  const maxRadius = Math.max(...radii, 1e-6);
+  const scale = Math.min((width / 2 - pad) / maxRadius, (height - pad * 2) / params.height);
+  const cx = width / 2;
+  const bottom = height - pad;
+  const yAt = (i: number) => bottom - (i / SILHOUETTE_LAYERS) * params.height * scale;
+
+  const right = radii.map((r, i) => `${(cx + r * scale).toFixed(2)},${yAt(i).toFixed(2)}`);
+  const left = radii
+    .map((r, i) => `${(cx - r * scale).toFixed(2)},${yAt(i).toFixed(2)}`)
+    .reverse();
+
+  return `M${right.join(' L')} L${left.join(' L')} Z`;
+}
+
+/** Mid-height cross-section outline as an SVG path, centred in a size × size box */
+export function makeTopOutlinePath(params: VaseParams, size = 24): string {
+  const sample = createLayerSampler(params, { resolution: THUMBNAIL_RESOLUTION, wallInset: 0 });
+  const points = sample(0.5);
+  const scale = (size / 2 - 1) / Math.max(outlineRadius(points), 1e-6);
+  const c = size / 2;
+
+  const coords = points.map(([x, y]) => `${(c + x * scale).toFixed(2)},${(c - y * scale).toFixed(2)}`);
+  return `M${coords.join(' L')} Z`;
+}
@@ -8,7 +8,7 @@ import type { CrossSection } from '@/types/design';
 interface ShapeOption {
   value: CrossSection;
   label: string;
-  family: 'smooth' | 'organic' | 'geometric';
+  family: 'smooth' | 'organic' | 'geometric' | 'custom';
 }
 
 const SHAPES: ShapeOption[] = [
@@ -22,32 +22,44 @@ const SHAPES: ShapeOption[] = [
   { value: 'teardrop', label: 'Teardrop', family: 'organic' },
   { value: 'petal', label: 'Petal', family: 'organic' },
   { value: 'leaf', label: 'Leaf', family: 'organic' },
+  { value: 'noise', label: 'Organic', family: 'organic' },
   // Geometric family
   { value: 'polygon', label: 'Polygon', family: 'geometric' },
   { value: 'star', label: 'Star', family: 'geometric' },
   { value: 'gear', label: 'Gear', family: 'geometric' },
   { value: 'flower', label: 'Flower', family: 'geometric' },
+  // Drawn or imported outline
+  { value: 'custom', label: 'Custom', family: 'custom' },
 ];
 
-/** Visual cross-section picker — 4×3 grid of SVG shape outlines */
-export const CrossSectionPicker = React.memo(function CrossSectionPicker() {
-  const crossSection = useDesignStore((s) => s.params.crossSection);
+interface CrossSectionPickerProps {
+  /** Which end of the body the picker edits — the rim only when morphing */
+  paramKey?: 'crossSection' | 'crossSectionTop';
+}
+
+/** Visual cross-section picker — 4-column grid of SVG shape outlines */
+export const CrossSectionPicker = React.memo(function CrossSectionPicker({
+  paramKey = 'crossSection',
+}: CrossSectionPickerProps) {
+  const crossSection = useDesignStore((s) => s.params[paramKey]);
+  const customRadii = useDesignStore((s) => s.params.customCrossSection);
   const setParam = useDesignStore((s) => s.setParam);
+  const isTop = paramKey === 'crossSectionTop';
 
   return (
     <div
       className="grid grid-cols-4 gap-2"
-      data-testid="cross-section-picker"
+      data-testid={isTop ? 'cross-section-top-picker' : 'cross-section-picker'}
       role="radiogroup"
-      aria-label="Cross section shape"
+      aria-label={isTop ? 'Top cross section shape' : 'Cross section shape'}
     >
       {SHAPES.map(({ value, label }) => {
         const isActive = crossSection === value;
         return (
           <button
             key={value}
-            onClick={() => setParam('crossSection', value)}
-            data-testid={`shape-${value}`}
+            onClick={() => setParam(paramKey, value)}
+            data-testid={isTop ? `shape-top-${value}` : `shape-${value}`}
             role="radio"
             aria-checked={isActive}
             className={`
@@ -67,7 +79,7 @@ export const CrossSectionPicker = React.memo(function CrossSectionPicker() {
               aria-hidden="true"
             >
               <path
-                d={makeShapePath(value)}
+                d={makeShapePath(value, customRadii)}
                 fill="none"
                 stroke={isActive ? 'var(--accent-primary)' : 'var(--text-tertiary)'}
                 strokeWidth="1.5"
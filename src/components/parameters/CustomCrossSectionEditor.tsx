@@ -0,0 +1,209 @@
+'use client';
+
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import { AlertTriangle, FileUp, X } from 'lucide-react';
+import { useDesignStore } from '@/store/designStore';
+import { outlineToRadii, sampleCustomRadius } from '@/generators/shared/customOutline';
+import { parseSvgOutline } from '@/generators/shared/svgOutline';
+import type { Point2 } from '@/generators/shared/voronoi';
+
+// SVG layout (viewBox units)
+const VIEW_SIZE = 160;
+const CENTER = VIEW_SIZE / 2;
+/** ViewBox units for a unit radius */
+const RADIUS_UNIT = 64;
+const PREVIEW_STEPS = 96;
+/** Minimum pointer travel (viewBox units) between recorded stroke points */
+const MIN_STROKE_STEP = 2;
+
+const HULL_WARNING =
+  'Parts of this outline are hidden from its centre, so its convex hull is used instead.';
+
+/** Convert a pointer event to viewBox coordinates */
+function eventToView(svg: SVGSVGElement, clientX: number, clientY: number): Point2 {
+  const rect = svg.getBoundingClientRect();
+  return [
+    rect.width > 0 ? ((clientX - rect.left) / rect.width) * VIEW_SIZE : CENTER,
+    rect.height > 0 ? ((clientY - rect.top) / rect.height) * VIEW_SIZE : CENTER,
+  ];
+}
+
+/**
+ * Outline for the custom cross-section: draw a closed shape freehand on
+ * the pad (the stroke closes itself on release) or import one from an
+ * SVG file. The outline is stored as a polar radius table; outlines not
+ * star-shaped from their centre fall back to the convex hull, with a
+ * warning.
+ */
+export const CustomCrossSectionEditor = React.memo(function CustomCrossSectionEditor() {
+  const radii = useDesignStore((s) => s.params.customCrossSection);
+  const setParam = useDesignStore((s) => s.setParam);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [stroke, setStroke] = useState<Point2[] | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const outlinePath = useMemo(() => {
+    if (radii.length === 0) return '';
+    const points: string[] = [];
+    for (let i = 0; i < PREVIEW_STEPS; i++) {
+      const angle = (i / PREVIEW_STEPS) * Math.PI * 2;
+      const r = sampleCustomRadius(radii, angle) * RADIUS_UNIT;
+      points.push(`${(CENTER + Math.cos(angle) * r).toFixed(1)} ${(CENTER - Math.sin(angle) * r).toFixed(1)}`);
+    }
+    return `M ${points.join(' L ')} Z`;
+  }, [radii]);
+
+  /** Store an outline given in Y-up coordinates */
+  const applyOutline = useCallback(
+    (points: Point2[] | null, source: string) => {
+      const result = points ? outlineToRadii(points) : null;
+      if (!result) {
+        setNotice(`${source} has no closed shape to use.`);
+        return;
+      }
+      setParam('customCrossSection', result.radii);
+      setNotice(result.starShaped ? null : HULL_WARNING);
+    },
+    [setParam]
+  );
+
+  const handlePointerDown = useCallback((e: React.PointerEvent<SVGSVGElement>) => {
+    if (!svgRef.current) return;
+    (e.target as Element).setPointerCapture?.(e.pointerId);
+    setStroke([eventToView(svgRef.current, e.clientX, e.clientY)]);
+  }, []);
+
+  const handlePointerMove = useCallback(
+    (e: React.PointerEvent<SVGSVGElement>) => {
+      if (!stroke || !svgRef.current) return;
+      const point = eventToView(svgRef.current, e.clientX, e.clientY);
+      const last = stroke[stroke.length - 1];
+      if (Math.hypot(point[0] - last[0], point[1] - last[1]) < MIN_STROKE_STEP) return;
+      setStroke(stroke.concat([point]));
+    },
+    [stroke]
+  );
+
+  const endStroke = useCallback(() => {
+    if (!stroke) return;
+    setStroke(null);
+    // A tap or a short scribble isn't a shape — keep the current outline
+    if (stroke.length < 3) return;
+    applyOutline(stroke.map(([x, y]) => [x, -y] as Point2), 'The drawing');
+  }, [stroke, applyOutline]);
+
+  const handleFile = useCallback(
+    async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      // Reset so picking the same file again still fires a change
+      e.target.value = '';
+      if (!file) return;
+      applyOutline(parseSvgOutline(await file.text()), file.name);
+    },
+    [applyOutline]
+  );
+
+  const handleClear = useCallback(() => {
+    setParam('customCrossSection', []);
+    setNotice(null);
+  }, [setParam]);
+
+  return (
+    <div className="flex flex-col gap-1.5">
+      <span className="text-xs text-text-secondary font-sans tracking-wide uppercase">
+        Custom Outline
+      </span>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${VIEW_SIZE} ${VIEW_SIZE}`}
+        className="w-full h-auto bg-bg-tertiary rounded-sm touch-none select-none cursor-crosshair"
+        data-testid="custom-outline-pad"
+        aria-label="Draw a closed outline"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={endStroke}
+        onPointerLeave={endStroke}
+      >
+        <circle
+          cx={CENTER}
+          cy={CENTER}
+          r={RADIUS_UNIT}
+          fill="none"
+          stroke="var(--text-tertiary)"
+          strokeWidth="0.5"
+          strokeDasharray="2 3"
+        />
+        {outlinePath && (
+          <path
+            d={outlinePath}
+            fill="var(--accent-primary)"
+            fillOpacity="0.12"
+            stroke="var(--accent-primary)"
+            strokeWidth="1.5"
+            strokeLinejoin="round"
+            data-testid="custom-outline-path"
+          />
+        )}
+        {stroke && (
+          <polyline
+            points={stroke.map(([x, y]) => `${x.toFixed(1)},${y.toFixed(1)}`).join(' ')}
+            fill="none"
+            stroke="var(--text-primary)"
+            strokeWidth="1"
+            strokeLinejoin="round"
+          />
+        )}
+        {!outlinePath && !stroke && (
+          <text
+            x={CENTER}
+            y={CENTER}
+            textAnchor="middle"
+            dominantBaseline="middle"
+            fill="var(--text-tertiary)"
+            fontSize="9"
+          >
+            Draw a closed shape
+          </text>
+        )}
+      </svg>
+      <div className="flex items-center gap-2">
+        <label
+          className="flex-1 flex items-center gap-1.5 min-w-0 cursor-pointer bg-bg-tertiary
+            rounded-sm px-2 py-2 text-xs font-sans text-text-secondary hover:text-text-primary
+            transition-colors"
+        >
+          <FileUp size={14} className="flex-shrink-0" />
+          <span className="truncate">Import SVG…</span>
+          <input
+            type="file"
+            accept=".svg,image/svg+xml"
+            onChange={handleFile}
+            data-testid="custom-outline-input"
+            aria-label="Outline SVG file"
+            className="sr-only"
+          />
+        </label>
+        {radii.length > 0 && (
+          <button
+            onClick={handleClear}
+            data-testid="custom-outline-clear"
+            aria-label="Clear outline"
+            title="Clear outline"
+            className="p-2 rounded-sm text-text-secondary hover:text-text-primary transition-colors"
+          >
+            <X size={14} />
+          </button>
+        )}
+      </div>
+      {notice && (
+        <p
+          className="flex items-start gap-1.5 text-xs text-warning font-sans"
+          data-testid="custom-outline-notice"
+        >
+          <AlertTriangle size={12} className="flex-shrink-0 mt-0.5" />
+          {notice}
+        </p>
+      )}
+    </div>
+  );
+});
@@ -9,6 +9,8 @@ import { LampStyleSelector } from './LampStyleSelector';
 import { LampParamSlider } from './LampParamSlider';
 import { LampParamSelect } from './LampParamSelect';
 import { LampParamToggle } from './LampParamToggle';
+import { LightPatternPicker } from './LightPatternPicker';
+import { ThreadSettings } from './ThreadSettings';
 import {
   LAMP_SHAPE_PARAMS,
   LAMP_CROSS_SECTION_SUB_PARAMS,
@@ -24,6 +26,12 @@ import type { DecorativeShellParams, ConnectionType } from '@/types/design';
 
 type LampPart = 'base' | 'shade';
 
+const CONNECTION_LABELS: Record<ConnectionType, string> = {
+  'friction-fit': 'Friction Fit',
+  'gravity-sit': 'Gravity Sit',
+  threaded: 'Threaded',
+};
+
 function renderLampParam(
   config: LampParamConfig,
   part: LampPart,
@@ -178,7 +186,7 @@ export function LampParameterPanel() {
             role="radiogroup"
             aria-label="Connection type"
           >
-            {(['friction-fit', 'gravity-sit'] as const).map((value) => (
+            {(['friction-fit', 'gravity-sit', 'threaded'] as const).map((value) => (
               <button
                 key={value}
                 role="radio"
@@ -191,12 +199,14 @@ export function LampParameterPanel() {
                     : 'text-text-secondary hover:text-text-primary'
                 }`}
               >
-                {value === 'friction-fit' ? 'Friction Fit' : 'Gravity Sit'}
+                {CONNECTION_LABELS[value]}
               </button>
             ))}
           </div>
         </div>
 
+        {connectionType === 'threaded' && <ThreadSettings />}
+
         {/* Wire channel toggle */}
         <div className="flex flex-col gap-1.5">
           <label className="text-xs text-text-secondary font-sans tracking-wide uppercase">
@@ -252,6 +262,14 @@ export function LampParameterPanel() {
         <PartParams part={activeTab} />
       </div>
 
+      {activeTab === 'shade' && (
+        <div className="border-t border-bg-tertiary">
+          <ParamSection title="Light Pattern">
+            <LightPatternPicker />
+          </ParamSection>
+        </div>
+      )}
+
       {/* Global resolution */}
       <div className="border-t border-bg-tertiary">
         <ParamSection title="Resolution" defaultOpen={false}>
@@ -0,0 +1,92 @@
+'use client';
+
+import { useDesignStore } from '@/store/designStore';
+import type { LampParams } from '@/types/design';
+
+type NumericLampKey = {
+  [K in keyof LampParams]: LampParams[K] extends number ? K : never;
+}[keyof LampParams];
+
+export interface LampSettingSliderOption {
+  key: NumericLampKey;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  unit?: string;
+}
+
+/** Segmented control over a lamp-wide string setting */
+export function LampSettingToggle<T extends string>({
+  label,
+  value,
+  options,
+  onChange,
+  testId,
+}: {
+  label: string;
+  value: T;
+  options: { value: T; label: string }[];
+  onChange: (value: T) => void;
+  testId: string;
+}) {
+  return (
+    <div className="flex flex-col gap-1.5">
+      <label className="text-xs text-text-secondary font-sans tracking-wide uppercase">
+        {label}
+      </label>
+      <div
+        className="flex bg-bg-tertiary rounded-sm overflow-hidden"
+        role="radiogroup"
+        aria-label={label}
+      >
+        {options.map((opt) => (
+          <button
+            key={opt.value}
+            role="radio"
+            aria-checked={value === opt.value}
+            onClick={() => onChange(opt.value)}
+            data-testid={`${testId}-${opt.value}`}
+            className={`flex-1 text-[11px] font-sans tracking-wider py-2 transition-colors ${
+              value === opt.value
+                ? 'bg-accent-primary/15 text-accent-primary'
+                : 'text-text-secondary hover:text-text-primary'
+            }`}
+          >
+            {opt.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/** Range slider over a lamp-wide numeric setting */
+export function LampSettingSlider({ option }: { option: LampSettingSliderOption }) {
+  const value = useDesignStore((s) => s.lampParams[option.key]);
+  const setLampParam = useDesignStore((s) => s.setLampParam);
+
+  return (
+    <div className="flex flex-col gap-1.5">
+      <div className="flex items-center justify-between">
+        <label className="text-xs text-text-secondary font-sans tracking-wide uppercase">
+          {option.label}
+        </label>
+        <span className="text-xs font-mono text-text-primary">
+          {option.step < 1 ? value.toFixed(option.step < 0.1 ? 2 : 1) : value}
+          {option.unit && <span className="text-text-tertiary ml-0.5">{option.unit}</span>}
+        </span>
+      </div>
+      <input
+        type="range"
+        min={option.min}
+        max={option.max}
+        step={option.step}
+        value={value}
+        onChange={(e) => setLampParam(option.key, Number(e.target.value))}
+        data-testid={`lamp-${option.key}-slider`}
+        aria-label={option.label}
+      />
+    </div>
+  );
+}
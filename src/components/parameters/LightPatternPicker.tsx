@@ -0,0 +1,91 @@
+'use client';
+
+import React from 'react';
+import { useDesignStore } from '@/store/designStore';
+import type { LightPattern } from '@/types/design';
+import { LampSettingSlider, LampSettingToggle } from './LampSettingControls';
+import type { LampSettingSliderOption } from './LampSettingControls';
+
+const PATTERNS: { value: LightPattern; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'lattice', label: 'Lattice' },
+  { value: 'spiral-slots', label: 'Spiral' },
+  { value: 'shadow-lines', label: 'Lines' },
+];
+
+const LATTICE_SLIDERS: LampSettingSliderOption[] = [
+  { key: 'latticeCellSize', label: 'Cell Size', min: 6, max: 30, step: 0.5, unit: 'mm' },
+  { key: 'latticeBarWidth', label: 'Bar Width', min: 2, max: 8, step: 0.5, unit: 'mm' },
+];
+
+const SLOT_SLIDERS: LampSettingSliderOption[] = [
+  { key: 'slotCount', label: 'Slot Count', min: 4, max: 48, step: 1 },
+  { key: 'slotWidth', label: 'Slot Width', min: 1.5, max: 12, step: 0.5, unit: 'mm' },
+];
+
+const LINE_SLIDERS: LampSettingSliderOption[] = [
+  { key: 'shadowLineCount', label: 'Line Count', min: 4, max: 60, step: 1 },
+  { key: 'shadowLineWidth', label: 'Line Width', min: 1, max: 8, step: 0.5, unit: 'mm' },
+];
+
+/**
+ * Light-pattern cutouts for the shade: the pattern, then its own settings.
+ * Bars never print thinner than the generator's minimum, whatever the sliders say.
+ */
+export const LightPatternPicker = React.memo(function LightPatternPicker() {
+  const lightPattern = useDesignStore((s) => s.lampParams.lightPattern);
+  const latticeShape = useDesignStore((s) => s.lampParams.latticeShape);
+  const shadowLineDirection = useDesignStore((s) => s.lampParams.shadowLineDirection);
+  const setLampParam = useDesignStore((s) => s.setLampParam);
+
+  return (
+    <div className="flex flex-col gap-4" data-testid="light-pattern-picker">
+      <LampSettingToggle
+        label="Pattern"
+        value={lightPattern}
+        options={PATTERNS}
+        onChange={(value) => setLampParam('lightPattern', value)}
+        testId="light-pattern"
+      />
+
+      {lightPattern === 'lattice' && (
+        <>
+          <LampSettingToggle
+            label="Cell Shape"
+            value={latticeShape}
+            options={[
+              { value: 'diamond', label: 'Diamond' },
+              { value: 'square', label: 'Square' },
+            ]}
+            onChange={(value) => setLampParam('latticeShape', value)}
+            testId="lattice-shape"
+          />
+          {LATTICE_SLIDERS.map((option) => (
+            <LampSettingSlider key={option.key} option={option} />
+          ))}
+        </>
+      )}
+
+      {lightPattern === 'spiral-slots' &&
+        SLOT_SLIDERS.map((option) => <LampSettingSlider key={option.key} option={option} />)}
+
+      {lightPattern === 'shadow-lines' && (
+        <>
+          <LampSettingToggle
+            label="Direction"
+            value={shadowLineDirection}
+            options={[
+              { value: 'radial', label: 'Radial' },
+              { value: 'parallel', label: 'Parallel' },
+            ]}
+            onChange={(value) => setLampParam('shadowLineDirection', value)}
+            testId="shadow-lines"
+          />
+          {LINE_SLIDERS.map((option) => (
+            <LampSettingSlider key={option.key} option={option} />
+          ))}
+        </>
+      )}
+    </div>
+  );
+});
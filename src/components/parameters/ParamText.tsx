@@ -0,0 +1,53 @@
+'use client';
+
+import React, { useCallback } from 'react';
+import { useDesignStore } from '@/store/designStore';
+import type { VaseParams } from '@/types/design';
+
+interface ParamTextProps {
+  paramKey: keyof VaseParams;
+  label: string;
+  maxLength: number;
+  placeholder?: string;
+}
+
+/** Single-line text input bound to a string param */
+export const ParamText = React.memo(function ParamText({
+  paramKey,
+  label,
+  maxLength,
+  placeholder,
+}: ParamTextProps) {
+  const value = useDesignStore((s) => s.params[paramKey]) as string;
+  const setParam = useDesignStore((s) => s.setParam);
+
+  const handleChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      setParam(paramKey, e.target.value.slice(0, maxLength) as VaseParams[typeof paramKey]);
+    },
+    [paramKey, maxLength, setParam]
+  );
+
+  return (
+    <div className="flex flex-col gap-1.5">
+      <label className="text-xs text-text-secondary font-sans tracking-wide uppercase">
+        {label}
+      </label>
+      <input
+        type="text"
+        value={value}
+        onChange={handleChange}
+        maxLength={maxLength}
+        placeholder={placeholder}
+        spellCheck={false}
+        data-testid={`${paramKey}-input`}
+        aria-label={label}
+        className="w-full bg-bg-tertiary text-text-primary text-sm font-sans
+          rounded-sm border border-transparent px-3 py-2
+          placeholder:text-text-tertiary
+          hover:border-bg-elevated focus:border-accent-primary/40
+          outline-none transition-colors"
+      />
+    </div>
+  );
+});
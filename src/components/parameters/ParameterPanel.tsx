@@ -1,25 +1,45 @@
 'use client';
 
+import { useMemo } from 'react';
+import Link from 'next/link';
+import { AlertTriangle, LayoutGrid } from 'lucide-react';
 import { useDesignStore } from '@/store/designStore';
 import { ThemeToggle } from '@/components/ui/ThemeToggle';
+import { ShareButton } from '@/components/ui/ShareButton';
 import { StyleSelector } from './StyleSelector';
 import { CrossSectionPicker } from './CrossSectionPicker';
+import { ProfileCurveEditor } from './ProfileCurveEditor';
+import { CustomCrossSectionEditor } from './CustomCrossSectionEditor';
 import { ParamSection } from './ParamSection';
 import { ParamSlider } from './ParamSlider';
 import { ParamSelect } from './ParamSelect';
 import { ParamToggle } from './ParamToggle';
+import { ParamText } from './ParamText';
+import { TextureUpload } from './TextureUpload';
+import { ObjectTypeToggle } from './ObjectTypeToggle';
+import { LampParameterPanel } from './LampParameterPanel';
 import {
   SHAPE_PARAMS,
   CROSS_SECTION_SUB_PARAMS,
+  MORPH_PARAMS,
   RIDGE_PARAMS,
   FIN_PARAMS,
+  WAVE_PARAMS,
+  TEXTURE_PARAMS,
+  TEXT_PARAMS,
+  FACET_PARAMS,
+  PATTERN_PARAMS,
   ADVANCED_PARAMS,
+  usesShape,
   type ParamConfig,
   type SliderConfig,
   type SelectConfig,
   type ToggleConfig,
+  type TextConfig,
 } from './parameterConfig';
 import type { VaseParams } from '@/types/design';
+import { SPIRALIZE_LINE_WIDTH } from '@/types/validation';
+import { checkSpiralizeCompatibility } from '@/generators/validation/spiralizeCheck';
 
 function renderParam(config: ParamConfig, params: VaseParams) {
   switch (config.type) {
@@ -60,27 +80,38 @@ function renderParam(config: ParamConfig, params: VaseParams) {
         />
       );
     }
+    case 'text': {
+      const c = config as TextConfig;
+      return (
+        <ParamText
+          key={c.key}
+          paramKey={c.key}
+          label={c.label}
+          maxLength={c.maxLength}
+          placeholder={c.placeholder}
+        />
+      );
+    }
   }
 }
 
-/** Full parameter panel: vase params */
-export function ParameterPanel() {
+/** Vase params, below the object type toggle */
+function VaseParameterSections() {
   const params = useDesignStore((s) => s.params);
+  const hasTextureImage = useDesignStore((s) => s.textureImage !== null);
 
   const filterVisible = (configs: ParamConfig[]) =>
     configs.filter((c) => !c.condition || c.condition(params as VaseParams));
 
   const isClassic = params.style === 'classic';
 
-  return (
-    <div className="flex flex-col gap-2 p-5 sidebar-gradient">
-      <div className="flex items-center justify-between mb-2">
-        <h1 className="font-display text-xl font-light text-text-primary tracking-wide">
-          LuminaForge
-        </h1>
-        <ThemeToggle />
-      </div>
+  const spiralize = useMemo(
+    () => (params.vaseModeOptimized ? checkSpiralizeCompatibility(params as VaseParams) : null),
+    [params]
+  );
 
+  return (
+    <>
       <div className="mt-3">
         <ParamSection title="Style" defaultOpen>
           <StyleSelector />
@@ -90,28 +121,123 @@ export function ParameterPanel() {
       <div className="border-t border-bg-tertiary">
         <ParamSection title="Shape" defaultOpen>
           <CrossSectionPicker />
+          {filterVisible(MORPH_PARAMS).map((c) => renderParam(c, params as VaseParams))}
+          {params.crossSectionMorph && (
+            <div className="flex flex-col gap-1.5">
+              <span className="text-xs text-text-secondary font-sans tracking-wide uppercase">
+                Top Shape
+              </span>
+              <CrossSectionPicker paramKey="crossSectionTop" />
+            </div>
+          )}
+          {usesShape(params as VaseParams, 'custom') && <CustomCrossSectionEditor />}
           {filterVisible(CROSS_SECTION_SUB_PARAMS).map((c) => renderParam(c, params as VaseParams))}
           {filterVisible(SHAPE_PARAMS).map((c) => renderParam(c, params as VaseParams))}
+          {params.profileMode === 'custom' && <ProfileCurveEditor />}
         </ParamSection>
       </div>
 
       <div className="border-t border-bg-tertiary">
-        {isClassic ? (
-          <ParamSection title="Ridges" defaultOpen>
-            {filterVisible(RIDGE_PARAMS).map((c) => renderParam(c, params as VaseParams))}
+        <ParamSection title="Facets" defaultOpen={false}>
+          {filterVisible(FACET_PARAMS).map((c) => renderParam(c, params as VaseParams))}
+        </ParamSection>
+      </div>
+
+      {!params.faceted && (
+        <div className="border-t border-bg-tertiary">
+          {isClassic ? (
+            <ParamSection title="Ridges" defaultOpen>
+              {filterVisible(RIDGE_PARAMS).map((c) => renderParam(c, params as VaseParams))}
+            </ParamSection>
+          ) : (
+            <ParamSection title="Fins" defaultOpen>
+              {filterVisible(FIN_PARAMS).map((c) => renderParam(c, params as VaseParams))}
+            </ParamSection>
+          )}
+        </div>
+      )}
+
+      {!params.faceted && (
+        <div className="border-t border-bg-tertiary">
+          <ParamSection title="Waves" defaultOpen={false}>
+            {filterVisible(WAVE_PARAMS).map((c) => renderParam(c, params as VaseParams))}
           </ParamSection>
-        ) : (
-          <ParamSection title="Fins" defaultOpen>
-            {filterVisible(FIN_PARAMS).map((c) => renderParam(c, params as VaseParams))}
+        </div>
+      )}
+
+      {!params.faceted && (
+        <div className="border-t border-bg-tertiary">
+          <ParamSection title="Texture" defaultOpen={false}>
+            <TextureUpload />
+            {hasTextureImage &&
+              filterVisible(TEXTURE_PARAMS).map((c) => renderParam(c, params as VaseParams))}
           </ParamSection>
-        )}
-      </div>
+        </div>
+      )}
+
+      {!params.faceted && (
+        <div className="border-t border-bg-tertiary">
+          <ParamSection title="Text" defaultOpen={false}>
+            {filterVisible(TEXT_PARAMS).map((c) => renderParam(c, params as VaseParams))}
+          </ParamSection>
+        </div>
+      )}
+
+      {!params.vaseModeOptimized && (
+        <div className="border-t border-bg-tertiary">
+          <ParamSection title="Pattern" defaultOpen={false}>
+            {filterVisible(PATTERN_PARAMS).map((c) => renderParam(c, params as VaseParams))}
+          </ParamSection>
+        </div>
+      )}
 
       <div className="border-t border-bg-tertiary">
         <ParamSection title="Advanced" defaultOpen={false}>
           {filterVisible(ADVANCED_PARAMS).map((c) => renderParam(c, params as VaseParams))}
+          {spiralize && !spiralize.compatible && (
+            <p
+              className="flex items-start gap-1.5 text-xs text-warning font-sans"
+              data-testid="spiralize-warning"
+            >
+              <AlertTriangle size={12} className="flex-shrink-0 mt-0.5" />
+              Fins or ridges near {(spiralize.height ?? 0).toFixed(0)} mm are thinner than a{' '}
+              {SPIRALIZE_LINE_WIDTH} mm line and will break the spiralized wall.
+            </p>
+          )}
         </ParamSection>
       </div>
+    </>
+  );
+}
+
+/** Full parameter panel: vase or lamp params, by object type */
+export function ParameterPanel() {
+  const objectType = useDesignStore((s) => s.objectType);
+
+  return (
+    <div className="flex flex-col gap-2 p-5 sidebar-gradient">
+      <div className="flex items-center justify-between mb-2">
+        <h1 className="font-display text-xl font-light text-text-primary tracking-wide">
+          LuminaForge
+        </h1>
+        <div className="flex items-center gap-1">
+          <Link
+            href="/gallery"
+            data-testid="presets-link"
+            className="flex items-center gap-1.5 text-xs font-sans text-text-secondary
+              hover:text-text-primary px-2 py-1.5 rounded-sm transition-colors"
+          >
+            <LayoutGrid size={14} />
+            Presets
+          </Link>
+          <ShareButton />
+          <ThemeToggle />
+        </div>
+      </div>
+
+      <ObjectTypeToggle />
+
+      {objectType === 'lamp' ? <LampParameterPanel /> : <VaseParameterSections />}
     </div>
   );
 }
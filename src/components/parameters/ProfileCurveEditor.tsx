@@ -0,0 +1,191 @@
+'use client';
+
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import { useDesignStore } from '@/store/designStore';
+import { getBezierProfileScale } from '@/generators/vase/profiles';
+import type { ProfileControlPoint } from '@/types/design';
+import { PROFILE_MIN_T_GAP, PROFILE_SCALE_RANGE } from '@/types/paramRanges';
+
+// SVG layout (viewBox units)
+const VIEW_W = 160;
+const VIEW_H = 200;
+const PAD_Y = 10;
+const CENTER_X = VIEW_W / 2;
+const PLOT_H = VIEW_H - PAD_Y * 2;
+/** Horizontal viewBox units per 1.0 of radius scale */
+const SCALE_UNIT = 36;
+
+const MIN_SCALE = PROFILE_SCALE_RANGE.min;
+const MAX_SCALE = PROFILE_SCALE_RANGE.max;
+const MIN_T_GAP = PROFILE_MIN_T_GAP;
+const SILHOUETTE_STEPS = 48;
+
+const toX = (scale: number) => CENTER_X + scale * SCALE_UNIT;
+const toY = (t: number) => PAD_Y + (1 - t) * PLOT_H;
+
+const clamp = (v: number, lo: number, hi: number) => Math.min(hi, Math.max(lo, v));
+
+/** Convert a pointer event to (t, scale) in profile space */
+function eventToProfile(
+  svg: SVGSVGElement,
+  clientX: number,
+  clientY: number
+): { t: number; scale: number } {
+  const rect = svg.getBoundingClientRect();
+  const x = rect.width > 0 ? ((clientX - rect.left) / rect.width) * VIEW_W : CENTER_X;
+  const y = rect.height > 0 ? ((clientY - rect.top) / rect.height) * VIEW_H : PAD_Y;
+  return {
+    t: clamp(1 - (y - PAD_Y) / PLOT_H, 0, 1),
+    scale: clamp((x - CENTER_X) / SCALE_UNIT, MIN_SCALE, MAX_SCALE),
+  };
+}
+
+/**
+ * Drag-to-edit Bezier profile over a 2D silhouette preview.
+ * Drag handles to reshape, double-click empty space to add a point,
+ * double-click an interior handle to remove it. The bottom and top
+ * points are pinned to t=0 and t=1.
+ */
+export const ProfileCurveEditor = React.memo(function ProfileCurveEditor() {
+  const points = useDesignStore((s) => s.params.profilePoints);
+  const setParam = useDesignStore((s) => s.setParam);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const silhouette = useMemo(() => {
+    const right: string[] = [];
+    const left: string[] = [];
+    for (let i = 0; i <= SILHOUETTE_STEPS; i++) {
+      const t = i / SILHOUETTE_STEPS;
+      const scale = getBezierProfileScale(points, t);
+      const y = toY(t).toFixed(1);
+      right.push(`${toX(scale).toFixed(1)} ${y}`);
+      left.push(`${(2 * CENTER_X - toX(scale)).toFixed(1)} ${y}`);
+    }
+    return `M ${left.reverse().join(' L ')} L ${right.join(' L ')} Z`;
+  }, [points]);
+
+  const controlPolygon = useMemo(
+    () => points.map((p) => `${toX(p.scale).toFixed(1)},${toY(p.t).toFixed(1)}`).join(' '),
+    [points]
+  );
+
+  const updatePoint = useCallback(
+    (index: number, t: number, scale: number) => {
+      const last = points.length - 1;
+      let nextT: number;
+      if (index === 0) nextT = 0;
+      else if (index === last) nextT = 1;
+      else nextT = clamp(t, points[index - 1].t + MIN_T_GAP, points[index + 1].t - MIN_T_GAP);
+
+      const next: ProfileControlPoint[] = points.map((p, i) =>
+        i === index ? { t: nextT, scale } : p
+      );
+      setParam('profilePoints', next);
+    },
+    [points, setParam]
+  );
+
+  const handlePointerMove = useCallback(
+    (e: React.PointerEvent<SVGSVGElement>) => {
+      if (dragIndex === null || !svgRef.current) return;
+      const { t, scale } = eventToProfile(svgRef.current, e.clientX, e.clientY);
+      updatePoint(dragIndex, t, scale);
+    },
+    [dragIndex, updatePoint]
+  );
+
+  const endDrag = useCallback(() => setDragIndex(null), []);
+
+  const handleAddPoint = useCallback(
+    (e: React.MouseEvent<SVGSVGElement>) => {
+      if (!svgRef.current) return;
+      const { t, scale } = eventToProfile(svgRef.current, e.clientX, e.clientY);
+      const insertAt = points.findIndex((p) => p.t > t);
+      if (insertAt <= 0) return;
+      const prev = points[insertAt - 1];
+      const next = points[insertAt];
+      if (t - prev.t < MIN_T_GAP || next.t - t < MIN_T_GAP) return;
+      setParam('profilePoints', [
+        ...points.slice(0, insertAt),
+        { t, scale },
+        ...points.slice(insertAt),
+      ]);
+    },
+    [points, setParam]
+  );
+
+  const handleRemovePoint = useCallback(
+    (index: number) => {
+      if (index === 0 || index === points.length - 1) return;
+      setParam('profilePoints', points.filter((_, i) => i !== index));
+    },
+    [points, setParam]
+  );
+
+  return (
+    <div className="flex flex-col gap-1.5">
+      <label className="text-xs text-text-secondary font-sans tracking-wide uppercase">
+        Profile Curve
+      </label>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${VIEW_W} ${VIEW_H}`}
+        className="w-full h-auto bg-bg-tertiary rounded-sm touch-none select-none"
+        data-testid="profile-curve-editor"
+        onPointerMove={handlePointerMove}
+        onPointerUp={endDrag}
+        onPointerLeave={endDrag}
+        onDoubleClick={handleAddPoint}
+      >
+        <line
+          x1={CENTER_X}
+          y1={PAD_Y}
+          x2={CENTER_X}
+          y2={VIEW_H - PAD_Y}
+          stroke="var(--text-tertiary)"
+          strokeWidth="0.5"
+          strokeDasharray="2 3"
+        />
+        <path
+          d={silhouette}
+          fill="var(--accent-primary)"
+          fillOpacity="0.12"
+          stroke="var(--accent-primary)"
+          strokeWidth="1.5"
+          strokeLinejoin="round"
+          data-testid="profile-silhouette"
+        />
+        <polyline
+          points={controlPolygon}
+          fill="none"
+          stroke="var(--text-tertiary)"
+          strokeWidth="0.75"
+          strokeDasharray="3 2"
+        />
+        {points.map((p, i) => (
+          <circle
+            key={i}
+            cx={toX(p.scale)}
+            cy={toY(p.t)}
+            r={dragIndex === i ? 5 : 4}
+            fill={dragIndex === i ? 'var(--accent-primary)' : 'var(--bg-elevated)'}
+            stroke="var(--accent-primary)"
+            strokeWidth="1.5"
+            className="cursor-grab"
+            data-testid={`profile-point-${i}`}
+            onPointerDown={(e) => {
+              e.stopPropagation();
+              (e.target as Element).setPointerCapture?.(e.pointerId);
+              setDragIndex(i);
+            }}
+            onDoubleClick={(e) => {
+              e.stopPropagation();
+              handleRemovePoint(i);
+            }}
+          />
+        ))}
+      </svg>
+    </div>
+  );
+});
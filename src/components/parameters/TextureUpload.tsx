@@ -0,0 +1,61 @@
+'use client';
+
+import React, { useCallback } from 'react';
+import { ImagePlus, X } from 'lucide-react';
+import { useDesignStore } from '@/store/designStore';
+
+/** Picks the grayscale image embossed onto the outer wall */
+export const TextureUpload = React.memo(function TextureUpload() {
+  const textureImage = useDesignStore((s) => s.textureImage);
+  const setTextureImage = useDesignStore((s) => s.setTextureImage);
+
+  const handleChange = useCallback(
+    async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      // Reset so picking the same file again still fires a change
+      e.target.value = '';
+      if (!file) return;
+      setTextureImage({ name: file.name, data: await file.arrayBuffer() });
+    },
+    [setTextureImage]
+  );
+
+  return (
+    <div className="flex flex-col gap-1.5">
+      <span className="text-xs text-text-secondary font-sans tracking-wide uppercase">
+        Image
+      </span>
+      <div className="flex items-center gap-2">
+        <label
+          className="flex-1 flex items-center gap-1.5 min-w-0 cursor-pointer bg-bg-tertiary
+            rounded-sm px-2 py-2 text-xs font-sans text-text-secondary hover:text-text-primary
+            transition-colors"
+        >
+          <ImagePlus size={14} className="flex-shrink-0" />
+          <span className="truncate" data-testid="texture-name">
+            {textureImage ? textureImage.name : 'Choose PNG…'}
+          </span>
+          <input
+            type="file"
+            accept="image/png"
+            onChange={handleChange}
+            data-testid="texture-input"
+            aria-label="Texture image"
+            className="sr-only"
+          />
+        </label>
+        {textureImage && (
+          <button
+            onClick={() => setTextureImage(null)}
+            data-testid="texture-clear"
+            aria-label="Remove texture"
+            title="Remove texture"
+            className="p-2 rounded-sm text-text-secondary hover:text-text-primary transition-colors"
+          >
+            <X size={14} />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+});
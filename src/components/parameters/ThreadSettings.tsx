@@ -0,0 +1,43 @@
+'use client';
+
+import React from 'react';
+import { useDesignStore } from '@/store/designStore';
+import type { ThreadProfile } from '@/types/design';
+import { LampSettingSlider, LampSettingToggle } from './LampSettingControls';
+import type { LampSettingSliderOption } from './LampSettingControls';
+
+const PROFILES: { value: ThreadProfile; label: string }[] = [
+  { value: 'triangular', label: 'V' },
+  { value: 'trapezoidal', label: 'Trapezoid' },
+  { value: 'square', label: 'Square' },
+];
+
+const THREAD_SLIDERS: LampSettingSliderOption[] = [
+  { key: 'threadPitch', label: 'Pitch', min: 2, max: 6, step: 0.5, unit: 'mm' },
+  { key: 'threadTurns', label: 'Turns', min: 1, max: 4, step: 0.5 },
+  { key: 'threadClearance', label: 'Clearance', min: 0.1, max: 0.6, step: 0.05, unit: 'mm' },
+];
+
+/**
+ * Screw-thread settings for the threaded connection. V threads print
+ * best; steep profiles give up depth to keep their crests printable.
+ */
+export const ThreadSettings = React.memo(function ThreadSettings() {
+  const threadProfile = useDesignStore((s) => s.lampParams.threadProfile);
+  const setLampParam = useDesignStore((s) => s.setLampParam);
+
+  return (
+    <div className="flex flex-col gap-4" data-testid="thread-settings">
+      <LampSettingToggle
+        label="Thread Profile"
+        value={threadProfile}
+        options={PROFILES}
+        onChange={(value) => setLampParam('threadProfile', value)}
+        testId="thread-profile"
+      />
+      {THREAD_SLIDERS.map((option) => (
+        <LampSettingSlider key={option.key} option={option} />
+      ))}
+    </div>
+  );
+});
@@ -0,0 +1,25 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { CrossSectionPicker } from '../CrossSectionPicker';
+import { useDesignStore } from '@/store/designStore';
+
+describe('CrossSectionPicker', () => {
+  beforeEach(() => {
+    useDesignStore.getState().setParams({ crossSection: 'circle', crossSectionTop: 'circle' });
+  });
+
+  it('edits the base shape by default', () => {
+    render(<CrossSectionPicker />);
+    fireEvent.click(screen.getByTestId('shape-star'));
+    expect(useDesignStore.getState().params.crossSection).toBe('star');
+    expect(useDesignStore.getState().params.crossSectionTop).toBe('circle');
+  });
+
+  it('edits the top shape and marks it active', () => {
+    render(<CrossSectionPicker paramKey="crossSectionTop" />);
+    fireEvent.click(screen.getByTestId('shape-top-gear'));
+    expect(useDesignStore.getState().params.crossSectionTop).toBe('gear');
+    expect(useDesignStore.getState().params.crossSection).toBe('circle');
+    expect(screen.getByTestId('shape-top-gear')).toHaveAttribute('aria-checked', 'true');
+  });
+});
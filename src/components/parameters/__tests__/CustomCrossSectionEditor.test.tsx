@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { CustomCrossSectionEditor } from '../CustomCrossSectionEditor';
+import { useDesignStore } from '@/store/designStore';
+import { CUSTOM_OUTLINE_SAMPLES } from '@/generators/shared/customOutline';
+
+const svgFile = (body: string, name = 'shape.svg') =>
+  new File([`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100">${body}</svg>`], name, {
+    type: 'image/svg+xml',
+  });
+
+describe('CustomCrossSectionEditor', () => {
+  beforeEach(() => {
+    useDesignStore.getState().setParams({ crossSection: 'custom', customCrossSection: [] });
+  });
+
+  it('prompts for a shape when no outline is set', () => {
+    render(<CustomCrossSectionEditor />);
+    expect(screen.getByText('Draw a closed shape')).toBeInTheDocument();
+    expect(screen.queryByTestId('custom-outline-path')).not.toBeInTheDocument();
+    expect(screen.queryByTestId('custom-outline-clear')).not.toBeInTheDocument();
+  });
+
+  it('imports the largest shape of an SVG file', async () => {
+    const user = userEvent.setup();
+    render(<CustomCrossSectionEditor />);
+    await user.upload(
+      screen.getByTestId('custom-outline-input'),
+      svgFile('<circle cx="5" cy="5" r="2"/><rect x="10" y="10" width="40" height="40"/>')
+    );
+
+    await waitFor(() =>
+      expect(useDesignStore.getState().params.customCrossSection).toHaveLength(CUSTOM_OUTLINE_SAMPLES)
+    );
+    // The square, not the small circle: corners at 45° reach the maximum
+    const radii = useDesignStore.getState().params.customCrossSection;
+    expect(radii[CUSTOM_OUTLINE_SAMPLES / 8]).toBeCloseTo(1, 6);
+    expect(radii[0]).toBeCloseTo(Math.SQRT1_2, 6);
+    expect(screen.getByTestId('custom-outline-path')).toBeInTheDocument();
+    expect(screen.queryByTestId('custom-outline-notice')).not.toBeInTheDocument();
+  });
+
+  it('warns when the convex hull replaces the outline', async () => {
+    const user = userEvent.setup();
+    render(<CustomCrossSectionEditor />);
+    await user.upload(
+      screen.getByTestId('custom-outline-input'),
+      svgFile('<path d="M0 0 H100 V40 H20 V60 H100 V100 H0 Z"/>')
+    );
+
+    await waitFor(() => expect(screen.getByTestId('custom-outline-notice')).toHaveTextContent('convex hull'));
+    expect(useDesignStore.getState().params.customCrossSection).toHaveLength(CUSTOM_OUTLINE_SAMPLES);
+  });
+
+  it('keeps the outline and explains when a file has no shape', async () => {
+    const user = userEvent.setup();
+    useDesignStore.getState().setParams({ customCrossSection: Array(8).fill(1) });
+    render(<CustomCrossSectionEditor />);
+    await user.upload(screen.getByTestId('custom-outline-input'), svgFile('<g/>', 'empty.svg'));
+
+    await waitFor(() =>
+      expect(screen.getByTestId('custom-outline-notice')).toHaveTextContent('empty.svg has no closed shape')
+    );
+    expect(useDesignStore.getState().params.customCrossSection).toEqual(Array(8).fill(1));
+  });
+
+  it('turns a freehand stroke into an outline', () => {
+    render(<CustomCrossSectionEditor />);
+    const pad = screen.getByTestId('custom-outline-pad');
+    // Without layout the pad maps every pointer to its centre — so stub a 160px box
+    pad.getBoundingClientRect = () =>
+      ({ left: 0, top: 0, width: 160, height: 160, right: 160, bottom: 160, x: 0, y: 0 }) as DOMRect;
+
+    fireEvent.pointerDown(pad, { clientX: 40, clientY: 40, pointerId: 1 });
+    fireEvent.pointerMove(pad, { clientX: 120, clientY: 40, pointerId: 1 });
+    fireEvent.pointerMove(pad, { clientX: 120, clientY: 120, pointerId: 1 });
+    fireEvent.pointerMove(pad, { clientX: 40, clientY: 120, pointerId: 1 });
+    fireEvent.pointerUp(pad, { pointerId: 1 });
+
+    expect(useDesignStore.getState().params.customCrossSection).toHaveLength(CUSTOM_OUTLINE_SAMPLES);
+  });
+
+  it('clears the outline', async () => {
+    const user = userEvent.setup();
+    useDesignStore.getState().setParams({ customCrossSection: Array(8).fill(1) });
+    render(<CustomCrossSectionEditor />);
+    await user.click(screen.getByTestId('custom-outline-clear'));
+    expect(useDesignStore.getState().params.customCrossSection).toEqual([]);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { LightPatternPicker } from '../LightPatternPicker';
+import { useDesignStore } from '@/store/designStore';
+
+describe('LightPatternPicker', () => {
+  beforeEach(() => {
+    useDesignStore.getState().resetLampParams();
+  });
+
+  it('shows no settings while the pattern is off', () => {
+    render(<LightPatternPicker />);
+    expect(screen.getByTestId('light-pattern-none')).toHaveAttribute('aria-checked', 'true');
+    expect(screen.queryByRole('slider')).not.toBeInTheDocument();
+  });
+
+  it('edits the lattice shape and cell size', async () => {
+    const user = userEvent.setup();
+    render(<LightPatternPicker />);
+
+    await user.click(screen.getByTestId('light-pattern-lattice'));
+    await user.click(screen.getByTestId('lattice-shape-square'));
+    fireEvent.change(screen.getByTestId('lamp-latticeCellSize-slider'), { target: { value: '18' } });
+
+    const { lampParams } = useDesignStore.getState();
+    expect(lampParams.lightPattern).toBe('lattice');
+    expect(lampParams.latticeShape).toBe('square');
+    expect(lampParams.latticeCellSize).toBe(18);
+  });
+
+  it('shows only the settings of the chosen pattern', async () => {
+    const user = userEvent.setup();
+    render(<LightPatternPicker />);
+
+    await user.click(screen.getByTestId('light-pattern-shadow-lines'));
+    await user.click(screen.getByTestId('shadow-lines-parallel'));
+
+    expect(useDesignStore.getState().lampParams.shadowLineDirection).toBe('parallel');
+    expect(screen.getByTestId('lamp-shadowLineCount-slider')).toBeInTheDocument();
+    expect(screen.queryByTestId('lamp-slotCount-slider')).not.toBeInTheDocument();
+    expect(screen.queryByTestId('lamp-latticeCellSize-slider')).not.toBeInTheDocument();
+  });
+});
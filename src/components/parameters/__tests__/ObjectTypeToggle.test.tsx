@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ObjectTypeToggle } from '../ObjectTypeToggle';
+import { LampParameterPanel } from '../LampParameterPanel';
+import { useDesignStore } from '@/store/designStore';
+
+describe('ObjectTypeToggle', () => {
+  beforeEach(() => {
+    useDesignStore.getState().setObjectType('vase');
+    useDesignStore.getState().resetLampParams();
+  });
+
+  it('switches between vase and lamp', async () => {
+    const user = userEvent.setup();
+    render(<ObjectTypeToggle />);
+
+    await user.click(screen.getByTestId('object-type-lamp'));
+    expect(useDesignStore.getState().objectType).toBe('lamp');
+
+    await user.click(screen.getByTestId('object-type-vase'));
+    expect(useDesignStore.getState().objectType).toBe('vase');
+  });
+});
+
+describe('LampParameterPanel', () => {
+  beforeEach(() => {
+    useDesignStore.getState().resetLampParams();
+  });
+
+  it('edits lamp-wide settings', async () => {
+    const user = userEvent.setup();
+    render(<LampParameterPanel />);
+
+    await user.click(screen.getByTestId('connection-gravity-sit'));
+    await user.click(screen.getByTestId('wire-channel-false'));
+
+    const { lampParams } = useDesignStore.getState();
+    expect(lampParams.connectionType).toBe('gravity-sit');
+    expect(lampParams.wireChannelEnabled).toBe(false);
+  });
+
+  it('shows thread settings only for the threaded connection', async () => {
+    const user = userEvent.setup();
+    render(<LampParameterPanel />);
+    expect(screen.queryByTestId('thread-settings')).not.toBeInTheDocument();
+
+    await user.click(screen.getByTestId('connection-threaded'));
+    await user.click(screen.getByTestId('thread-profile-square'));
+    fireEvent.change(screen.getByTestId('lamp-threadPitch-slider'), { target: { value: '4.5' } });
+
+    const { lampParams } = useDesignStore.getState();
+    expect(lampParams.connectionType).toBe('threaded');
+    expect(lampParams.threadProfile).toBe('square');
+    expect(lampParams.threadPitch).toBe(4.5);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ParamText } from '../ParamText';
+import { useDesignStore } from '@/store/designStore';
+
+describe('ParamText', () => {
+  beforeEach(() => {
+    useDesignStore.setState({
+      params: { ...useDesignStore.getState().params, textContent: 'Hello' },
+    });
+  });
+
+  it('renders label and current value from store', () => {
+    render(<ParamText paramKey="textContent" label="Text" maxLength={40} />);
+    expect(screen.getByText('Text')).toBeInTheDocument();
+    expect(screen.getByTestId('textContent-input')).toHaveValue('Hello');
+  });
+
+  it('typing updates store', () => {
+    render(<ParamText paramKey="textContent" label="Text" maxLength={40} />);
+    fireEvent.change(screen.getByTestId('textContent-input'), {
+      target: { value: 'Hi there' },
+    });
+    expect(useDesignStore.getState().params.textContent).toBe('Hi there');
+  });
+
+  it('truncates input to maxLength', () => {
+    render(<ParamText paramKey="textContent" label="Text" maxLength={5} />);
+    fireEvent.change(screen.getByTestId('textContent-input'), {
+      target: { value: 'abcdefgh' },
+    });
+    expect(useDesignStore.getState().params.textContent).toBe('abcde');
+  });
+});
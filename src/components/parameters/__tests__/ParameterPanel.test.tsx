@@ -29,12 +29,12 @@ describe('ParameterPanel', () => {
     expect(screen.getByTestId('cross-section-picker')).toBeInTheDocument();
   });
 
-  it('renders all 12 cross-section shapes', () => {
+  it('renders all 14 cross-section shapes', () => {
     render(<ParameterPanel />);
     const shapes = [
       'circle', 'oval', 'squircle', 'superellipse',
-      'heart', 'teardrop', 'petal', 'leaf',
-      'polygon', 'star', 'gear', 'flower',
+      'heart', 'teardrop', 'petal', 'leaf', 'noise',
+      'polygon', 'star', 'gear', 'flower', 'custom',
     ];
     for (const shape of shapes) {
       expect(screen.getByTestId(`shape-${shape}`)).toBeInTheDocument();
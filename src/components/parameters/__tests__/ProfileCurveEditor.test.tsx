@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ProfileCurveEditor } from '../ProfileCurveEditor';
+import { useDesignStore } from '@/store/designStore';
+
+const POINTS = [
+  { t: 0, scale: 1 },
+  { t: 0.5, scale: 1 },
+  { t: 1, scale: 1 },
+];
+
+/** Map the 160×200 viewBox 1:1 onto screen pixels */
+function mockRect(svg: Element) {
+  svg.getBoundingClientRect = () =>
+    ({ left: 0, top: 0, width: 160, height: 200, right: 160, bottom: 200 }) as DOMRect;
+}
+
+describe('ProfileCurveEditor', () => {
+  beforeEach(() => {
+    useDesignStore.setState({
+      params: { ...useDesignStore.getState().params, profileMode: 'custom', profilePoints: POINTS },
+    });
+  });
+
+  it('renders a handle per control point and the silhouette', () => {
+    render(<ProfileCurveEditor />);
+    expect(screen.getByTestId('profile-silhouette')).toBeInTheDocument();
+    expect(screen.getByTestId('profile-point-0')).toBeInTheDocument();
+    expect(screen.getByTestId('profile-point-1')).toBeInTheDocument();
+    expect(screen.getByTestId('profile-point-2')).toBeInTheDocument();
+  });
+
+  it('dragging a handle updates the store', () => {
+    render(<ProfileCurveEditor />);
+    const svg = screen.getByTestId('profile-curve-editor');
+    mockRect(svg);
+
+    fireEvent.pointerDown(screen.getByTestId('profile-point-1'), { pointerId: 1 });
+    // x = 80 + 1.5 * 36 = 134, y = 10 + (1 - 0.25) * 180 = 145
+    fireEvent.pointerMove(svg, { clientX: 134, clientY: 145, pointerId: 1 });
+    fireEvent.pointerUp(svg, { pointerId: 1 });
+
+    const [, mid] = useDesignStore.getState().params.profilePoints;
+    expect(mid.scale).toBeCloseTo(1.5, 2);
+    expect(mid.t).toBeCloseTo(0.25, 2);
+  });
+
+  it('end points stay pinned to the bottom and top', () => {
+    render(<ProfileCurveEditor />);
+    const svg = screen.getByTestId('profile-curve-editor');
+    mockRect(svg);
+
+    fireEvent.pointerDown(screen.getByTestId('profile-point-0'), { pointerId: 1 });
+    fireEvent.pointerMove(svg, { clientX: 110, clientY: 100, pointerId: 1 });
+
+    const [first] = useDesignStore.getState().params.profilePoints;
+    expect(first.t).toBe(0);
+    expect(first.scale).toBeCloseTo(30 / 36, 2);
+  });
+
+  it('double-click adds a point and double-clicking it removes it', () => {
+    render(<ProfileCurveEditor />);
+    const svg = screen.getByTestId('profile-curve-editor');
+    mockRect(svg);
+
+    // t = 0.75
+    fireEvent.doubleClick(svg, { clientX: 116, clientY: 55 });
+    expect(useDesignStore.getState().params.profilePoints).toHaveLength(4);
+    expect(useDesignStore.getState().params.profilePoints[2].t).toBeCloseTo(0.75, 2);
+
+    fireEvent.doubleClick(screen.getByTestId('profile-point-2'));
+    expect(useDesignStore.getState().params.profilePoints).toHaveLength(3);
+  });
+
+  it('end points cannot be removed', () => {
+    render(<ProfileCurveEditor />);
+    fireEvent.doubleClick(screen.getByTestId('profile-point-0'));
+    expect(useDesignStore.getState().params.profilePoints).toHaveLength(3);
+  });
+});
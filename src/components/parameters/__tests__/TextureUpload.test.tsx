@@ -0,0 +1,36 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { TextureUpload } from '../TextureUpload';
+import { useDesignStore } from '@/store/designStore';
+
+describe('TextureUpload', () => {
+  beforeEach(() => {
+    useDesignStore.setState({ textureImage: null });
+  });
+
+  it('prompts for an image when none is loaded', () => {
+    render(<TextureUpload />);
+    expect(screen.getByTestId('texture-name')).toHaveTextContent('Choose PNG');
+    expect(screen.queryByTestId('texture-clear')).not.toBeInTheDocument();
+  });
+
+  it('stores the picked file bytes', async () => {
+    const user = userEvent.setup();
+    render(<TextureUpload />);
+    const file = new File([new Uint8Array([137, 80, 78, 71])], 'logo.png', { type: 'image/png' });
+    await user.upload(screen.getByTestId('texture-input'), file);
+
+    await waitFor(() => expect(useDesignStore.getState().textureImage?.name).toBe('logo.png'));
+    expect(useDesignStore.getState().textureImage?.data.byteLength).toBe(4);
+    expect(screen.getByTestId('texture-name')).toHaveTextContent('logo.png');
+  });
+
+  it('removes the texture', async () => {
+    const user = userEvent.setup();
+    useDesignStore.setState({ textureImage: { name: 'logo.png', data: new ArrayBuffer(4) } });
+    render(<TextureUpload />);
+    await user.click(screen.getByTestId('texture-clear'));
+    expect(useDesignStore.getState().textureImage).toBeNull();
+  });
+});
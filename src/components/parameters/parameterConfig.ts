@@ -1,6 +1,8 @@
-import type { VaseParams, CrossSection } from '@/types/design';
+import { MAX_TEXT_LENGTH } from '@/types/design';
+import type { VaseParams, CrossSection, ProfileShape, SurfacePattern } from '@/types/design';
+import { PARAM_OPTIONS, PARAM_RANGES } from '@/types/paramRanges';
 
-export type ParamType = 'slider' | 'select' | 'toggle';
+export type ParamType = 'slider' | 'select' | 'toggle' | 'text';
 
 interface BaseParamConfig {
   key: keyof VaseParams;
@@ -20,17 +22,47 @@ export interface SliderConfig extends BaseParamConfig {
   dynamicMax?: (params: VaseParams) => number;
 }
 
+interface ParamOption {
+  value: string;
+  label: string;
+}
+
 export interface SelectConfig extends BaseParamConfig {
   type: 'select';
-  options: { value: string; label: string }[];
+  options: ParamOption[];
 }
 
 export interface ToggleConfig extends BaseParamConfig {
   type: 'toggle';
-  options: [{ value: string; label: string }, { value: string; label: string }];
+  options: [ParamOption, ParamOption];
+}
+
+export interface TextConfig extends BaseParamConfig {
+  type: 'text';
+  maxLength: number;
+  placeholder?: string;
 }
 
-export type ParamConfig = SliderConfig | SelectConfig | ToggleConfig;
+export type ParamConfig = SliderConfig | SelectConfig | ToggleConfig | TextConfig;
+
+/** A param's accepted values (PARAM_OPTIONS) as panel options, in the same order */
+function labelOptions<V extends readonly string[]>(
+  values: V,
+  labels: Record<V[number], string>
+): { -readonly [K in keyof V]: ParamOption } {
+  const options = values.map((value: V[number]) => ({ value, label: labels[value] }));
+  return options as unknown as { -readonly [K in keyof V]: ParamOption };
+}
+
+/** True when either end of the body (the rim only when morphing) uses the shape */
+export function usesShape(params: VaseParams, shape: CrossSection): boolean {
+  return params.crossSection === shape || (params.crossSectionMorph && params.crossSectionTop === shape);
+}
+
+/** True when the silhouette comes from the given named profile shape */
+function isPresetShape(params: VaseParams, shape: ProfileShape): boolean {
+  return params.profileMode !== 'custom' && params.profileShape === shape;
+}
 
 /** Shape parameters — cross-section picker is separate, these are sliders */
 export const SHAPE_PARAMS: ParamConfig[] = [
@@ -38,8 +70,7 @@ export const SHAPE_PARAMS: ParamConfig[] = [
     key: 'height',
     label: 'Height',
     type: 'slider',
-    min: 50,
-    max: 400,
+    ...PARAM_RANGES.height,
     step: 1,
     unit: 'mm',
   },
@@ -47,33 +78,127 @@ export const SHAPE_PARAMS: ParamConfig[] = [
     key: 'diameter',
     label: 'Diameter',
     type: 'slider',
-    min: 40,
-    max: 200,
+    ...PARAM_RANGES.diameter,
     step: 1,
     unit: 'mm',
   },
+  {
+    key: 'profileMode',
+    label: 'Profile',
+    type: 'toggle',
+    options: labelOptions(PARAM_OPTIONS.profileMode, {
+      curve: 'Preset',
+      custom: 'Custom',
+    }),
+  },
+  {
+    key: 'profileShape',
+    label: 'Profile Shape',
+    type: 'select',
+    options: labelOptions(PARAM_OPTIONS.profileShape, {
+      classic: 'Classic',
+      flared: 'Flared',
+      's-curve': 'S-Curve',
+      shouldered: 'Shouldered',
+      amphora: 'Amphora',
+      trumpet: 'Trumpet',
+    }),
+    condition: (params) => params.profileMode !== 'custom',
+  },
+  {
+    key: 'flareStart',
+    label: 'Flare Start',
+    type: 'slider',
+    ...PARAM_RANGES.flareStart,
+    step: 0.05,
+    condition: (params) => isPresetShape(params, 'flared'),
+  },
+  {
+    key: 'flareAmount',
+    label: 'Flare Amount',
+    type: 'slider',
+    ...PARAM_RANGES.flareAmount,
+    step: 0.05,
+    condition: (params) => isPresetShape(params, 'flared'),
+  },
+  {
+    key: 'sCurveAmount',
+    label: 'Curve Depth',
+    type: 'slider',
+    ...PARAM_RANGES.sCurveAmount,
+    step: 0.01,
+    condition: (params) => isPresetShape(params, 's-curve'),
+  },
+  {
+    key: 'sCurveMidpoint',
+    label: 'Inflection',
+    type: 'slider',
+    ...PARAM_RANGES.sCurveMidpoint,
+    step: 0.01,
+    condition: (params) => isPresetShape(params, 's-curve'),
+  },
+  {
+    key: 'shoulderHeight',
+    label: 'Shoulder Height',
+    type: 'slider',
+    ...PARAM_RANGES.shoulderHeight,
+    step: 0.01,
+    condition: (params) => isPresetShape(params, 'shouldered'),
+  },
+  {
+    key: 'bellyHeight',
+    label: 'Belly Height',
+    type: 'slider',
+    ...PARAM_RANGES.bellyHeight,
+    step: 0.01,
+    condition: (params) => isPresetShape(params, 'amphora'),
+  },
+  {
+    key: 'neckRatio',
+    label: 'Neck Ratio',
+    type: 'slider',
+    ...PARAM_RANGES.neckRatio,
+    step: 0.01,
+    condition: (params) =>
+      isPresetShape(params, 'shouldered') || isPresetShape(params, 'amphora'),
+  },
+  {
+    key: 'trumpetFlare',
+    label: 'Bell Flare',
+    type: 'slider',
+    ...PARAM_RANGES.trumpetFlare,
+    step: 0.05,
+    condition: (params) => isPresetShape(params, 'trumpet'),
+  },
+  {
+    key: 'trumpetCurvature',
+    label: 'Bell Curvature',
+    type: 'slider',
+    ...PARAM_RANGES.trumpetCurvature,
+    step: 0.1,
+    condition: (params) => isPresetShape(params, 'trumpet'),
+  },
   {
     key: 'taper',
     label: 'Taper',
     type: 'slider',
-    min: 0.3,
-    max: 1.7,
+    ...PARAM_RANGES.taper,
     step: 0.01,
+    condition: (params) => params.profileMode !== 'custom',
   },
   {
     key: 'profileCurve',
     label: 'Profile Curve',
     type: 'slider',
-    min: -1,
-    max: 1,
+    ...PARAM_RANGES.profileCurve,
     step: 0.05,
+    condition: (params) => isPresetShape(params, 'classic'),
   },
   {
     key: 'twistAngle',
     label: 'Twist',
     type: 'slider',
-    min: 0,
-    max: 720,
+    ...PARAM_RANGES.twistAngle,
     step: 1,
     unit: '\u00B0',
   },
@@ -85,73 +210,130 @@ export const CROSS_SECTION_SUB_PARAMS: ParamConfig[] = [
     key: 'ovalRatio',
     label: 'Oval Ratio',
     type: 'slider',
-    min: 0.4,
-    max: 1.0,
+    ...PARAM_RANGES.ovalRatio,
     step: 0.05,
-    condition: (params) => params.crossSection === 'oval',
+    condition: (params) => usesShape(params, 'oval'),
   },
   {
     key: 'squircleN',
     label: 'Roundness',
     type: 'slider',
-    min: 2.5,
-    max: 5,
+    ...PARAM_RANGES.squircleN,
     step: 0.1,
-    condition: (params) => params.crossSection === 'squircle',
+    condition: (params) => usesShape(params, 'squircle'),
   },
   {
     key: 'superN',
     label: 'Exponent',
     type: 'slider',
-    min: 0.5,
-    max: 5,
+    ...PARAM_RANGES.superN,
     step: 0.1,
-    condition: (params) => params.crossSection === 'superellipse',
+    condition: (params) => usesShape(params, 'superellipse'),
   },
   {
     key: 'polygonSides',
     label: 'Sides',
     type: 'slider',
-    min: 3,
-    max: 12,
+    ...PARAM_RANGES.polygonSides,
     step: 1,
-    condition: (params) => params.crossSection === 'polygon',
+    condition: (params) => usesShape(params, 'polygon'),
   },
   {
     key: 'starPoints',
     label: 'Points',
     type: 'slider',
-    min: 3,
-    max: 12,
+    ...PARAM_RANGES.starPoints,
     step: 1,
-    condition: (params) => params.crossSection === 'star',
+    condition: (params) => usesShape(params, 'star'),
   },
   {
     key: 'starInnerRatio',
     label: 'Inner Ratio',
     type: 'slider',
-    min: 0.2,
-    max: 0.8,
+    ...PARAM_RANGES.starInnerRatio,
     step: 0.05,
-    condition: (params) => params.crossSection === 'star',
+    condition: (params) => usesShape(params, 'star'),
   },
   {
     key: 'gearTeeth',
     label: 'Teeth',
     type: 'slider',
-    min: 6,
-    max: 24,
+    ...PARAM_RANGES.gearTeeth,
     step: 1,
-    condition: (params) => params.crossSection === 'gear',
+    condition: (params) => usesShape(params, 'gear'),
   },
   {
     key: 'petalCount',
     label: 'Petals',
     type: 'slider',
-    min: 3,
-    max: 8,
+    ...PARAM_RANGES.petalCount,
     step: 1,
-    condition: (params) => params.crossSection === 'flower',
+    condition: (params) => usesShape(params, 'flower'),
+  },
+  {
+    key: 'noiseAmplitude',
+    label: 'Distortion',
+    type: 'slider',
+    ...PARAM_RANGES.noiseAmplitude,
+    step: 0.01,
+    condition: (params) => usesShape(params, 'noise'),
+  },
+  {
+    key: 'noiseFrequency',
+    label: 'Frequency',
+    type: 'slider',
+    ...PARAM_RANGES.noiseFrequency,
+    step: 0.1,
+    condition: (params) => usesShape(params, 'noise'),
+  },
+  {
+    key: 'noiseOctaves',
+    label: 'Detail',
+    type: 'slider',
+    ...PARAM_RANGES.noiseOctaves,
+    step: 1,
+    condition: (params) => usesShape(params, 'noise'),
+  },
+  {
+    key: 'noiseHeightVariation',
+    label: 'Height Drift',
+    type: 'slider',
+    ...PARAM_RANGES.noiseHeightVariation,
+    step: 0.1,
+    condition: (params) => usesShape(params, 'noise'),
+  },
+  {
+    key: 'noiseSeed',
+    label: 'Seed',
+    type: 'slider',
+    ...PARAM_RANGES.noiseSeed,
+    step: 1,
+    condition: (params) => usesShape(params, 'noise'),
+  },
+];
+
+/** Cross-section morph — the rim shape has its own picker below these */
+export const MORPH_PARAMS: ParamConfig[] = [
+  {
+    key: 'crossSectionMorph',
+    label: 'Morph to Top Shape',
+    type: 'toggle',
+    options: [
+      { value: 'false', label: 'Off' },
+      { value: 'true', label: 'On' },
+    ],
+  },
+  {
+    key: 'crossSectionEasing',
+    label: 'Morph Easing',
+    type: 'select',
+    options: labelOptions(PARAM_OPTIONS.crossSectionEasing, {
+      linear: 'Linear',
+      easeIn: 'Ease In',
+      easeOut: 'Ease Out',
+      easeInOut: 'Ease In Out',
+    }),
+    condition: (params) => params.crossSectionMorph,
   },
 ];
 
@@ -161,16 +343,14 @@ export const RIDGE_PARAMS: ParamConfig[] = [
     key: 'ridgeCount',
     label: 'Ridge Count',
     type: 'slider',
-    min: 0,
-    max: 32,
+    ...PARAM_RANGES.ridgeCount,
     step: 1,
   },
   {
     key: 'ridgeDepth',
     label: 'Ridge Depth',
     type: 'slider',
-    min: 0,
-    max: 20,
+    ...PARAM_RANGES.ridgeDepth,
     step: 0.5,
     unit: 'mm',
   },
@@ -182,6 +362,7 @@ export const RIDGE_PARAMS: ParamConfig[] = [
       { value: 'true', label: 'Smooth' },
       { value: 'false', label: 'Ridged' },
     ],
+    condition: (params) => !params.vaseModeOptimized,
   },
 ];
 
@@ -191,16 +372,14 @@ export const FIN_PARAMS: ParamConfig[] = [
     key: 'finCount',
     label: 'Fin Count',
     type: 'slider',
-    min: 30,
-    max: 80,
+    ...PARAM_RANGES.finCount,
     step: 1,
   },
   {
     key: 'finHeight',
     label: 'Fin Height',
     type: 'slider',
-    min: 1,
-    max: 6,
+    ...PARAM_RANGES.finHeight,
     step: 0.5,
     unit: 'mm',
   },
@@ -208,8 +387,7 @@ export const FIN_PARAMS: ParamConfig[] = [
     key: 'finWidth',
     label: 'Fin Broadness',
     type: 'slider',
-    min: 0.5,
-    max: 4,
+    ...PARAM_RANGES.finWidth,
     step: 0.1,
   },
   {
@@ -220,26 +398,270 @@ export const FIN_PARAMS: ParamConfig[] = [
       { value: 'true', label: 'Smooth' },
       { value: 'false', label: 'Finned' },
     ],
+    condition: (params) => !params.vaseModeOptimized,
+  },
+];
+
+/** True when the given surface pattern is cut (never in vase mode — spiralize needs a closed wall) */
+function hasPattern(params: VaseParams, pattern?: SurfacePattern): boolean {
+  if (params.vaseModeOptimized || params.surfacePattern === 'none') return false;
+  return pattern === undefined || params.surfacePattern === pattern;
+}
+
+/** Surface pattern parameters — cutouts through the wall */
+export const PATTERN_PARAMS: ParamConfig[] = [
+  {
+    key: 'surfacePattern',
+    label: 'Pattern',
+    type: 'select',
+    options: labelOptions(PARAM_OPTIONS.surfacePattern, {
+      none: 'None',
+      honeycomb: 'Honeycomb',
+      voronoi: 'Voronoi',
+    }),
+  },
+  {
+    key: 'patternCellSize',
+    label: 'Cell Size',
+    type: 'slider',
+    ...PARAM_RANGES.patternCellSize,
+    step: 0.5,
+    unit: 'mm',
+    condition: (params) => hasPattern(params, 'honeycomb'),
+  },
+  {
+    key: 'patternBarWidth',
+    label: 'Bar Width',
+    type: 'slider',
+    ...PARAM_RANGES.patternBarWidth,
+    step: 0.1,
+    unit: 'mm',
+    condition: (params) => hasPattern(params, 'honeycomb'),
+  },
+  {
+    key: 'patternCellCount',
+    label: 'Cell Count',
+    type: 'slider',
+    ...PARAM_RANGES.patternCellCount,
+    step: 1,
+    condition: (params) => hasPattern(params, 'voronoi'),
+  },
+  {
+    key: 'patternBarWidth',
+    label: 'Strut Width',
+    type: 'slider',
+    ...PARAM_RANGES.patternBarWidth,
+    step: 0.1,
+    unit: 'mm',
+    condition: (params) => hasPattern(params, 'voronoi'),
+  },
+  {
+    key: 'patternRelaxIterations',
+    label: 'Relax',
+    type: 'slider',
+    ...PARAM_RANGES.patternRelaxIterations,
+    step: 1,
+    condition: (params) => hasPattern(params, 'voronoi'),
+  },
+  {
+    key: 'patternSeed',
+    label: 'Seed',
+    type: 'slider',
+    ...PARAM_RANGES.patternSeed,
+    step: 1,
+    condition: (params) => hasPattern(params, 'voronoi'),
+  },
+  {
+    key: 'patternBandStart',
+    label: 'Band Start',
+    type: 'slider',
+    ...PARAM_RANGES.patternBandStart,
+    step: 0.01,
+    condition: (params) => hasPattern(params),
+  },
+  {
+    key: 'patternBandEnd',
+    label: 'Band End',
+    type: 'slider',
+    ...PARAM_RANGES.patternBandEnd,
+    step: 0.01,
+    condition: (params) => hasPattern(params),
+  },
+];
+
+/** True when a surface wave is selected */
+function hasWaves(params: VaseParams): boolean {
+  return params.wavePattern !== 'none';
+}
+
+/** Surface wave parameters — 2D displacement over angle and height */
+export const WAVE_PARAMS: ParamConfig[] = [
+  {
+    key: 'wavePattern',
+    label: 'Wave',
+    type: 'select',
+    options: labelOptions(PARAM_OPTIONS.wavePattern, {
+      none: 'None',
+      vertical: 'Vertical Waves',
+      diagonal: 'Diagonal Lattice',
+      basket: 'Basket Weave',
+    }),
+  },
+  {
+    key: 'waveAmplitude',
+    label: 'Amplitude',
+    type: 'slider',
+    ...PARAM_RANGES.waveAmplitude,
+    step: 0.1,
+    unit: 'mm',
+    condition: (params) => hasWaves(params),
+  },
+  {
+    key: 'waveCount',
+    label: 'Around',
+    type: 'slider',
+    ...PARAM_RANGES.waveCount,
+    step: 1,
+    condition: (params) => hasWaves(params) && params.wavePattern !== 'vertical',
+  },
+  {
+    key: 'waveRows',
+    label: 'Up Height',
+    type: 'slider',
+    ...PARAM_RANGES.waveRows,
+    step: 1,
+    condition: (params) => hasWaves(params),
+  },
+];
+
+/** Heightmap texture parameters — shown once an image is loaded */
+export const TEXTURE_PARAMS: ParamConfig[] = [
+  {
+    key: 'textureDepth',
+    label: 'Depth',
+    type: 'slider',
+    ...PARAM_RANGES.textureDepth,
+    step: 0.1,
+    unit: 'mm',
+  },
+  {
+    key: 'textureInvert',
+    label: 'Raise',
+    type: 'toggle',
+    options: [
+      { value: 'false', label: 'Light' },
+      { value: 'true', label: 'Dark' },
+    ],
+  },
+  {
+    key: 'textureTilesU',
+    label: 'Tiles Around',
+    type: 'slider',
+    ...PARAM_RANGES.textureTilesU,
+    step: 1,
+  },
+  {
+    key: 'textureTilesV',
+    label: 'Tiles Up',
+    type: 'slider',
+    ...PARAM_RANGES.textureTilesV,
+    step: 1,
+  },
+  {
+    key: 'textureOffsetU',
+    label: 'Offset Around',
+    type: 'slider',
+    ...PARAM_RANGES.textureOffsetU,
+    step: 0.01,
+  },
+  {
+    key: 'textureOffsetV',
+    label: 'Offset Up',
+    type: 'slider',
+    ...PARAM_RANGES.textureOffsetV,
+    step: 0.01,
+  },
+  {
+    key: 'textureRotation',
+    label: 'Rotation',
+    type: 'slider',
+    ...PARAM_RANGES.textureRotation,
+    step: 1,
+    unit: '\u00B0',
+  },
+];
+
+/** Low-poly facet parameters — replace ridges/fins when faceted */
+export const FACET_PARAMS: ParamConfig[] = [
+  {
+    key: 'faceted',
+    label: 'Surface',
+    type: 'toggle',
+    options: [
+      { value: 'false', label: 'Smooth' },
+      { value: 'true', label: 'Faceted' },
+    ],
+  },
+  {
+    key: 'facetCount',
+    label: 'Facets',
+    type: 'slider',
+    ...PARAM_RANGES.facetCount,
+    step: 1,
+    condition: (params) => params.faceted,
+  },
+  {
+    key: 'facetBands',
+    label: 'Bands',
+    type: 'slider',
+    ...PARAM_RANGES.facetBands,
+    step: 1,
+    condition: (params) => params.faceted,
+  },
+  {
+    key: 'facetJitter',
+    label: 'Jitter',
+    type: 'slider',
+    ...PARAM_RANGES.facetJitter,
+    step: 0.1,
+    unit: 'mm',
+    condition: (params) => params.faceted,
+  },
+  {
+    key: 'facetSeed',
+    label: 'Seed',
+    type: 'slider',
+    ...PARAM_RANGES.facetSeed,
+    step: 1,
+    condition: (params) => params.faceted && params.facetJitter > 0,
   },
 ];
 
 /** Advanced parameters — collapsible, closed by default */
 export const ADVANCED_PARAMS: ParamConfig[] = [
+  {
+    key: 'vaseModeOptimized',
+    label: 'Output',
+    type: 'toggle',
+    options: [
+      { value: 'false', label: 'Double Wall' },
+      { value: 'true', label: 'Vase Mode' },
+    ],
+  },
   {
     key: 'wallThickness',
     label: 'Wall Thickness',
     type: 'slider',
-    min: 0.8,
-    max: 4,
+    ...PARAM_RANGES.wallThickness,
     step: 0.1,
     unit: 'mm',
+    condition: (params) => !params.vaseModeOptimized,
   },
   {
     key: 'baseThickness',
     label: 'Base Thickness',
     type: 'slider',
-    min: 1,
-    max: 6,
+    ...PARAM_RANGES.baseThickness,
     step: 0.5,
     unit: 'mm',
   },
@@ -247,8 +669,7 @@ export const ADVANCED_PARAMS: ParamConfig[] = [
     key: 'resolution',
     label: 'Resolution',
     type: 'slider',
-    min: 32,
-    max: 256,
+    ...PARAM_RANGES.resolution,
     step: 8,
     unit: 'seg',
   },
@@ -256,31 +677,83 @@ export const ADVANCED_PARAMS: ParamConfig[] = [
     key: 'twistDirection',
     label: 'Twist Direction',
     type: 'toggle',
-    options: [
-      { value: 'cw', label: 'CW' },
-      { value: 'ccw', label: 'CCW' },
-    ],
+    options: labelOptions(PARAM_OPTIONS.twistDirection, {
+      cw: 'CW',
+      ccw: 'CCW',
+    }),
   },
   {
     key: 'twistEasing',
     label: 'Twist Easing',
     type: 'select',
-    options: [
-      { value: 'linear', label: 'Linear' },
-      { value: 'easeIn', label: 'Ease In' },
-      { value: 'easeOut', label: 'Ease Out' },
-      { value: 'easeInOut', label: 'Ease In Out' },
-    ],
+    options: labelOptions(PARAM_OPTIONS.twistEasing, {
+      linear: 'Linear',
+      easeIn: 'Ease In',
+      easeOut: 'Ease Out',
+      easeInOut: 'Ease In Out',
+    }),
   },
   {
     key: 'ridgeProfile',
     label: 'Ridge Profile',
     type: 'select',
-    options: [
-      { value: 'round', label: 'Round' },
-      { value: 'sharp', label: 'Sharp' },
-      { value: 'flat', label: 'Flat' },
-    ],
+    options: labelOptions(PARAM_OPTIONS.ridgeProfile, {
+      round: 'Round',
+      sharp: 'Sharp',
+      flat: 'Flat',
+    }),
     condition: (params) => params.style === 'classic',
   },
 ];
+
+/** True when there is text to emboss or engrave */
+function hasText(params: VaseParams): boolean {
+  return params.textContent.trim().length > 0;
+}
+
+/** Text parameters — placement sliders only show once text is entered */
+export const TEXT_PARAMS: ParamConfig[] = [
+  {
+    key: 'textContent',
+    label: 'Text',
+    type: 'text',
+    maxLength: MAX_TEXT_LENGTH,
+    placeholder: 'Name, date, message\u2026',
+  },
+  {
+    key: 'textMode',
+    label: 'Mode',
+    type: 'toggle',
+    options: labelOptions(PARAM_OPTIONS.textMode, {
+      emboss: 'Emboss',
+      engrave: 'Engrave',
+    }),
+    condition: hasText,
+  },
+  {
+    key: 'textDepth',
+    label: 'Depth',
+    type: 'slider',
+    ...PARAM_RANGES.textDepth,
+    step: 0.1,
+    unit: 'mm',
+    condition: hasText,
+  },
+  {
+    key: 'textPosition',
+    label: 'Height',
+    type: 'slider',
+    ...PARAM_RANGES.textPosition,
+    step: 0.01,
+    condition: hasText,
+  },
+  {
+    key: 'textWrapAngle',
+    label: 'Wrap Angle',
+    type: 'slider',
+    ...PARAM_RANGES.textWrapAngle,
+    step: 1,
+    unit: '\u00B0',
+    condition: hasText,
+  },
+];
@@ -1,7 +1,12 @@
 import type { CrossSection } from '@/types/design';
+import { fractalNoise3 } from '@/generators/shared/noise';
+import { sampleCustomRadius } from '@/generators/shared/customOutline';
 
-/** Generate SVG path for a cross-section shape outline */
-export function makeShapePath(shape: CrossSection): string {
+/**
+ * Generate SVG path for a cross-section shape outline. The custom shape
+ * draws `customRadii` when an outline has been set.
+ */
+export function makeShapePath(shape: CrossSection, customRadii: number[] = []): string {
   const cx = 30;
   const cy = 30;
   const R = 20;
@@ -68,6 +73,10 @@ export function makeShapePath(shape: CrossSection): string {
     case 'leaf':
       pts = pointsAt((a) => (0.7 + 0.3 * Math.cos(a)) * (1 - 0.15 * Math.sin(2 * a)));
       break;
+    case 'noise':
+      // Default noise settings, seed 1, a little way into the field
+      pts = pointsAt((a) => 1 + 0.25 * fractalNoise3(Math.cos(a) * 2, Math.sin(a) * 2, 0.5, 3, 1));
+      break;
     case 'polygon': {
       // Hexagon
       const hex: [number, number][] = [];
@@ -94,6 +103,12 @@ export function makeShapePath(shape: CrossSection): string {
     case 'flower':
       pts = pointsAt((a) => 1 + 0.3 * Math.cos(5 * a));
       break;
+    case 'custom':
+      // Without an outline yet, a freehand-looking blob
+      pts = customRadii.length > 0
+        ? pointsAt((a) => sampleCustomRadius(customRadii, a))
+        : pointsAt((a) => 0.85 + 0.1 * Math.sin(3 * a + 0.4) + 0.05 * Math.cos(2 * a));
+      break;
     default:
       pts = pointsAt(() => 1);
   }
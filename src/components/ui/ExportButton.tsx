@@ -1,47 +1,130 @@
 'use client';
 
 import React, { useState, useCallback } from 'react';
-import { Download } from 'lucide-react';
+import { Download, ChevronDown } from 'lucide-react';
+import type { ExportFormat, MeshExportOptions } from '@/types/geometry';
+import type { ValidationIssue } from '@/types/validation';
 
 interface ExportButtonProps {
-  onExport: () => Promise<void>;
+  onExport: (format: ExportFormat, options: MeshExportOptions) => Promise<void>;
   isGenerating: boolean;
+  /** Errors block export; warnings ask for confirmation first (print check or lamp safety report) */
+  validation?: { issues: ValidationIssue[] } | null;
+  /** Formats offered (default: all) */
+  formats?: ExportFormat[];
 }
 
-/** Floating export button in bottom-right of viewport. */
+const FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'stl', label: 'STL' },
+  { value: '3mf', label: '3MF' },
+  { value: 'obj', label: 'OBJ' },
+  { value: 'ply', label: 'PLY' },
+];
+
+/** Formats that can carry smooth per-vertex normals */
+const NORMALS_FORMATS: ExportFormat[] = ['obj', 'ply'];
+
+/**
+ * Floating export button with format dropdown in bottom-right of viewport.
+ * OBJ and PLY get a toggle for writing smooth vertex normals.
+ */
 export const ExportButton = React.memo(function ExportButton({
   onExport,
   isGenerating,
+  validation = null,
+  formats,
 }: ExportButtonProps) {
   const [isExporting, setIsExporting] = useState(false);
+  const [selected, setFormat] = useState<ExportFormat>('stl');
+  const [normals, setNormals] = useState(true);
+
+  const options = formats ? FORMATS.filter((f) => formats.includes(f.value)) : FORMATS;
+  // A format dropped from the options falls back to the first one offered
+  const format = options.some((f) => f.value === selected) ? selected : options[0].value;
 
-  const disabled = isExporting || isGenerating;
+  const issues = validation?.issues ?? [];
+  const blocking = issues.filter((i) => i.severity === 'error');
+  const warnings = issues.filter((i) => i.severity === 'warning');
+
+  const disabled = isExporting || isGenerating || blocking.length > 0;
+  const formatLabel = FORMATS.find((f) => f.value === format)?.label ?? 'STL';
+  const offersNormals = NORMALS_FORMATS.includes(format);
 
   const handleClick = useCallback(async () => {
     if (disabled) return;
+    if (
+      warnings.length > 0 &&
+      !window.confirm(
+        `This design has print warnings:\n\n${warnings
+          .map((w) => `• ${w.message}`)
+          .join('\n')}\n\nExport anyway?`
+      )
+    ) {
+      return;
+    }
     setIsExporting(true);
     try {
-      await onExport();
+      await onExport(format, { normals });
     } finally {
       setIsExporting(false);
     }
-  }, [onExport, disabled]);
+  }, [onExport, format, normals, disabled, warnings]);
 
   return (
-    <button
-      onClick={handleClick}
-      disabled={disabled}
-      className="absolute bottom-6 right-6 flex items-center gap-2
-        bg-accent-primary hover:bg-accent-secondary
-        text-bg-primary font-sans text-sm font-medium
-        px-5 py-2.5 rounded-lg
-        shadow-lg hover:shadow-glow
-        transition-all duration-200
-        disabled:opacity-50 disabled:cursor-not-allowed
-        z-10"
-    >
-      <Download size={16} />
-      {isExporting ? 'Exporting...' : 'Export STL'}
-    </button>
+    <div className="absolute bottom-6 right-6 flex items-stretch gap-2 z-10">
+      <div className="relative">
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value as ExportFormat)}
+          disabled={isExporting}
+          data-testid="export-format-select"
+          aria-label="Export format"
+          className="h-full appearance-none bg-bg-elevated/90 backdrop-blur text-text-secondary
+            font-sans text-sm rounded-lg pl-3 pr-8 shadow-lg
+            hover:text-text-primary outline-none transition-colors cursor-pointer
+            disabled:opacity-50"
+        >
+          {options.map((f) => (
+            <option key={f.value} value={f.value}>
+              {f.label}
+            </option>
+          ))}
+        </select>
+        <ChevronDown
+          size={14}
+          className="absolute right-2.5 top-1/2 -translate-y-1/2 text-text-tertiary pointer-events-none"
+        />
+      </div>
+      {offersNormals && (
+        <button
+          onClick={() => setNormals((on) => !on)}
+          disabled={isExporting}
+          aria-pressed={normals}
+          data-testid="export-normals-toggle"
+          title="Write smooth vertex normals"
+          className={`bg-bg-elevated/90 backdrop-blur font-sans text-sm rounded-lg px-3 shadow-lg
+            outline-none transition-colors disabled:opacity-50
+            ${normals ? 'text-accent-primary' : 'text-text-tertiary hover:text-text-secondary'}`}
+        >
+          Normals
+        </button>
+      )}
+      <button
+        onClick={handleClick}
+        disabled={disabled}
+        data-testid="export-button"
+        title={blocking.length > 0 ? blocking.map((b) => b.message).join('\n') : undefined}
+        className="flex items-center gap-2
+          bg-accent-primary hover:bg-accent-secondary
+          text-bg-primary font-sans text-sm font-medium
+          px-5 py-2.5 rounded-lg
+          shadow-lg hover:shadow-glow
+          transition-all duration-200
+          disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Download size={16} />
+        {isExporting ? 'Exporting...' : `Export ${formatLabel}`}
+      </button>
+    </div>
   );
 });
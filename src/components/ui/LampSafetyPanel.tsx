@@ -0,0 +1,102 @@
+'use client';
+
+import React from 'react';
+import { AlertTriangle, CheckCircle2, XCircle } from 'lucide-react';
+import { useDesignStore } from '@/store/designStore';
+import type { BulbType } from '@/types/design';
+import type { LampSafetyReport } from '@/types/validation';
+import {
+  BULB_CLEARANCES,
+  MIN_BULB_CLEARANCE,
+  MIN_TOP_VENT_DIAMETER,
+} from '@/generators/lamp/socketConstants';
+
+const BULB_TYPES = Object.keys(BULB_CLEARANCES) as BulbType[];
+
+interface LampSafetyPanelProps {
+  report: LampSafetyReport | null;
+}
+
+/** Bulb-safety overlay in the top-left of the viewport for lamps: bulb, clearance, venting */
+export const LampSafetyPanel = React.memo(function LampSafetyPanel({
+  report,
+}: LampSafetyPanelProps) {
+  const bulbType = useDesignStore((s) => s.lampParams.bulbType);
+  const setLampParam = useDesignStore((s) => s.setLampParam);
+
+  return (
+    <div
+      className="absolute top-4 left-4 z-10 w-64 flex flex-col gap-2
+        bg-bg-elevated/90 backdrop-blur rounded-lg shadow-lg p-3"
+      data-testid="lamp-safety-panel"
+    >
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-sans font-light text-text-secondary tracking-[0.2em] uppercase">
+          Bulb Safety
+        </span>
+        {report && report.issues.length === 0 && (
+          <CheckCircle2 size={14} className="text-success" aria-label="No issues" />
+        )}
+      </div>
+
+      <select
+        value={bulbType}
+        onChange={(e) => setLampParam('bulbType', e.target.value as BulbType)}
+        data-testid="bulb-type-select"
+        aria-label="Bulb type"
+        className="w-full appearance-none bg-bg-tertiary text-text-primary text-xs font-sans
+          rounded-sm border border-transparent px-2 py-1.5
+          hover:border-bg-elevated focus:border-accent-primary/40
+          outline-none transition-colors cursor-pointer"
+      >
+        {BULB_TYPES.map((type) => (
+          <option key={type} value={type}>
+            {type} — ⌀{BULB_CLEARANCES[type].diameter} × {BULB_CLEARANCES[type].height} mm
+          </option>
+        ))}
+      </select>
+
+      {report && (
+        <dl className="grid grid-cols-2 gap-x-2 gap-y-0.5 text-[11px] font-sans">
+          <dt className="text-text-tertiary">Bulb clearance</dt>
+          <dd
+            className={`font-mono text-right ${
+              report.minClearance < MIN_BULB_CLEARANCE ? 'text-warning' : 'text-text-primary'
+            }`}
+          >
+            {report.minClearance > 0 ? `${report.minClearance.toFixed(1)} mm` : 'Touching'}
+          </dd>
+          <dt className="text-text-tertiary">Top vent</dt>
+          <dd
+            className={`font-mono text-right ${
+              report.closed && report.topVentDiameter < MIN_TOP_VENT_DIAMETER
+                ? 'text-warning'
+                : 'text-text-primary'
+            }`}
+          >
+            ⌀{report.topVentDiameter.toFixed(0)} mm
+          </dd>
+        </dl>
+      )}
+
+      {report && report.issues.length > 0 && (
+        <ul className="flex flex-col gap-1.5" data-testid="lamp-safety-issues">
+          {report.issues.map((issue) => (
+            <li
+              key={issue.code}
+              className="flex items-start gap-1.5 text-[11px] font-sans text-text-secondary"
+              data-testid={`validation-issue-${issue.code}`}
+            >
+              {issue.severity === 'error' ? (
+                <XCircle size={12} className="text-error flex-shrink-0 mt-0.5" />
+              ) : (
+                <AlertTriangle size={12} className="text-warning flex-shrink-0 mt-0.5" />
+              )}
+              <span>{issue.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+});
@@ -0,0 +1,90 @@
+'use client';
+
+import React from 'react';
+import { Lightbulb } from 'lucide-react';
+import { useViewportStore } from '@/store/viewportStore';
+import {
+  COLOR_TEMPERATURE_MAX,
+  COLOR_TEMPERATURE_MIN,
+  colorTemperatureToHex,
+} from '@/components/viewport/lightPreview';
+
+/** Lamp light-preview overlay in the bottom-left of the viewport: on/off, dimmer, color temperature */
+export const LightPreviewPanel = React.memo(function LightPreviewPanel() {
+  const lightPreview = useViewportStore((s) => s.lightPreview);
+  const toggleLightPreview = useViewportStore((s) => s.toggleLightPreview);
+  const dimmer = useViewportStore((s) => s.lightDimmer);
+  const setLightDimmer = useViewportStore((s) => s.setLightDimmer);
+  const colorTemperature = useViewportStore((s) => s.lightColorTemperature);
+  const setLightColorTemperature = useViewportStore((s) => s.setLightColorTemperature);
+
+  return (
+    <div
+      className="absolute bottom-6 left-4 z-10 w-56 flex flex-col gap-2
+        bg-bg-elevated/90 backdrop-blur rounded-lg shadow-lg p-3"
+      data-testid="light-preview-panel"
+    >
+      <button
+        type="button"
+        role="switch"
+        aria-checked={lightPreview}
+        onClick={toggleLightPreview}
+        data-testid="light-preview-toggle"
+        className="flex items-center justify-between"
+      >
+        <span className="text-[10px] font-sans font-light text-text-secondary tracking-[0.2em] uppercase">
+          Light Preview
+        </span>
+        <Lightbulb
+          size={14}
+          className={lightPreview ? 'text-accent-primary' : 'text-text-tertiary'}
+          aria-hidden
+        />
+      </button>
+
+      {lightPreview && (
+        <>
+          <div className="flex flex-col gap-1">
+            <div className="flex items-center justify-between text-[10px] font-sans text-text-tertiary">
+              <span>Dimmer</span>
+              <span className="font-mono text-text-primary">{Math.round(dimmer * 100)}%</span>
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={dimmer}
+              onChange={(e) => setLightDimmer(Number(e.target.value))}
+              data-testid="light-dimmer-slider"
+              aria-label="Dimmer"
+            />
+          </div>
+
+          <div className="flex flex-col gap-1">
+            <div className="flex items-center justify-between text-[10px] font-sans text-text-tertiary">
+              <span>Color temperature</span>
+              <span className="flex items-center gap-1 font-mono text-text-primary">
+                <span
+                  className="h-2 w-2 rounded-full"
+                  style={{ backgroundColor: colorTemperatureToHex(colorTemperature) }}
+                />
+                {colorTemperature}K
+              </span>
+            </div>
+            <input
+              type="range"
+              min={COLOR_TEMPERATURE_MIN}
+              max={COLOR_TEMPERATURE_MAX}
+              step={100}
+              value={colorTemperature}
+              onChange={(e) => setLightColorTemperature(Number(e.target.value))}
+              data-testid="light-temperature-slider"
+              aria-label="Color temperature"
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+});
@@ -0,0 +1,46 @@
+'use client';
+
+import React, { useState, useCallback, useEffect } from 'react';
+import { Check, Link } from 'lucide-react';
+import { useDesignStore } from '@/store/designStore';
+import { withDesignInUrl } from '@/store/urlState';
+
+/** How long the "Copied" confirmation stays visible */
+const COPIED_FEEDBACK_MS = 2000;
+
+/** Copies a link that reproduces the current design */
+export const ShareButton = React.memo(function ShareButton() {
+  const params = useDesignStore((s) => s.params);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), COPIED_FEEDBACK_MS);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const handleClick = useCallback(async () => {
+    const url = withDesignInUrl(window.location.href, params);
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+    } catch {
+      // Clipboard unavailable (insecure context, denied) — let the user copy by hand
+      window.prompt('Copy this link', url);
+    }
+  }, [params]);
+
+  return (
+    <button
+      onClick={handleClick}
+      data-testid="share-button"
+      aria-label="Copy link"
+      title="Copy link"
+      className="flex items-center gap-1.5 text-xs font-sans text-text-secondary
+        hover:text-text-primary px-2 py-1.5 rounded-sm transition-colors"
+    >
+      {copied ? <Check size={14} className="text-success" /> : <Link size={14} />}
+      {copied ? 'Copied' : 'Copy link'}
+    </button>
+  );
+});
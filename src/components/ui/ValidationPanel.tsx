@@ -0,0 +1,142 @@
+'use client';
+
+import React from 'react';
+import { AlertTriangle, CheckCircle2, XCircle } from 'lucide-react';
+import { useViewportStore } from '@/store/viewportStore';
+import type { AnalysisMode } from '@/types/geometry';
+import type { PrinterProfileId, ValidationReport } from '@/types/validation';
+import { PRINTER_PROFILES, MIN_WALL_THICKNESS, MAX_OVERHANG_ANGLE } from '@/types/validation';
+
+const ANALYSIS_OPTIONS: { value: AnalysisMode; label: string }[] = [
+  { value: 'none', label: 'Off' },
+  { value: 'overhang', label: 'Overhang' },
+  { value: 'thickness', label: 'Wall' },
+];
+
+interface ValidationPanelProps {
+  report: ValidationReport | null;
+}
+
+/** Print-check overlay in the top-left of the viewport: printer, stats, warnings */
+export const ValidationPanel = React.memo(function ValidationPanel({
+  report,
+}: ValidationPanelProps) {
+  const printerProfile = useViewportStore((s) => s.printerProfile);
+  const setPrinterProfile = useViewportStore((s) => s.setPrinterProfile);
+  const analysisMode = useViewportStore((s) => s.analysisMode);
+  const setAnalysisMode = useViewportStore((s) => s.setAnalysisMode);
+
+  return (
+    <div
+      className="absolute top-4 left-4 z-10 w-64 flex flex-col gap-2
+        bg-bg-elevated/90 backdrop-blur rounded-lg shadow-lg p-3"
+      data-testid="validation-panel"
+    >
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-sans font-light text-text-secondary tracking-[0.2em] uppercase">
+          Print Check
+        </span>
+        {report && report.issues.length === 0 && (
+          <CheckCircle2 size={14} className="text-success" aria-label="No issues" />
+        )}
+      </div>
+
+      <select
+        value={printerProfile}
+        onChange={(e) => setPrinterProfile(e.target.value as PrinterProfileId)}
+        data-testid="printer-profile-select"
+        aria-label="Printer profile"
+        className="w-full appearance-none bg-bg-tertiary text-text-primary text-xs font-sans
+          rounded-sm border border-transparent px-2 py-1.5
+          hover:border-bg-elevated focus:border-accent-primary/40
+          outline-none transition-colors cursor-pointer"
+      >
+        {Object.values(PRINTER_PROFILES).map((p) => (
+          <option key={p.id} value={p.id}>
+            {p.label}
+          </option>
+        ))}
+      </select>
+
+      <div className="flex flex-col gap-1">
+        <span className="text-[10px] font-sans text-text-tertiary">Highlight on model</span>
+        <div className="flex rounded-sm bg-bg-tertiary p-0.5" role="radiogroup" aria-label="Highlight on model">
+          {ANALYSIS_OPTIONS.map((opt) => (
+            <button
+              key={opt.value}
+              type="button"
+              role="radio"
+              aria-checked={analysisMode === opt.value}
+              onClick={() => setAnalysisMode(opt.value)}
+              data-testid={`analysis-mode-${opt.value}`}
+              className={`flex-1 rounded-sm px-2 py-1 text-[11px] font-sans transition-colors ${
+                analysisMode === opt.value
+                  ? 'bg-bg-elevated text-text-primary'
+                  : 'text-text-tertiary hover:text-text-secondary'
+              }`}
+            >
+              {opt.label}
+            </button>
+          ))}
+        </div>
+        {analysisMode !== 'none' && (
+          <div className="flex items-center gap-2 text-[10px] font-sans text-text-tertiary">
+            <span className="h-2 w-2 rounded-full bg-success" /> OK
+            <span className="h-2 w-2 rounded-full bg-warning" /> Near limit
+            <span className="h-2 w-2 rounded-full bg-error" /> Beyond
+          </div>
+        )}
+      </div>
+
+      {report && (
+        <dl className="grid grid-cols-2 gap-x-2 gap-y-0.5 text-[11px] font-sans">
+          <dt className="text-text-tertiary">Min wall</dt>
+          <dd
+            className={`font-mono text-right ${
+              report.minWallThickness !== null && report.minWallThickness < MIN_WALL_THICKNESS
+                ? 'text-warning'
+                : 'text-text-primary'
+            }`}
+          >
+            {report.minWallThickness === null
+              ? 'Vase mode'
+              : `${report.minWallThickness.toFixed(2)} mm`}
+          </dd>
+          <dt className="text-text-tertiary">Max overhang</dt>
+          <dd
+            className={`font-mono text-right ${
+              report.maxOverhangAngle > MAX_OVERHANG_ANGLE ? 'text-warning' : 'text-text-primary'
+            }`}
+          >
+            {report.maxOverhangAngle.toFixed(0)}°
+          </dd>
+          <dt className="text-text-tertiary">Size</dt>
+          <dd
+            className={`font-mono text-right ${report.fitsBed ? 'text-text-primary' : 'text-warning'}`}
+          >
+            {report.size.map((v) => v.toFixed(0)).join('×')}
+          </dd>
+        </dl>
+      )}
+
+      {report && report.issues.length > 0 && (
+        <ul className="flex flex-col gap-1.5" data-testid="validation-issues">
+          {report.issues.map((issue) => (
+            <li
+              key={issue.code}
+              className="flex items-start gap-1.5 text-[11px] font-sans text-text-secondary"
+              data-testid={`validation-issue-${issue.code}`}
+            >
+              {issue.severity === 'error' ? (
+                <XCircle size={12} className="text-error flex-shrink-0 mt-0.5" />
+              ) : (
+                <AlertTriangle size={12} className="text-warning flex-shrink-0 mt-0.5" />
+              )}
+              <span>{issue.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+});
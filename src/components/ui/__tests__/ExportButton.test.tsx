@@ -0,0 +1,34 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ExportButton } from '../ExportButton';
+
+describe('ExportButton', () => {
+  it('offers the normals toggle only for OBJ and PLY', async () => {
+    const user = userEvent.setup();
+    render(<ExportButton onExport={vi.fn().mockResolvedValue(undefined)} isGenerating={false} />);
+    expect(screen.queryByTestId('export-normals-toggle')).not.toBeInTheDocument();
+
+    await user.selectOptions(screen.getByTestId('export-format-select'), 'obj');
+    expect(screen.getByTestId('export-normals-toggle')).toBeInTheDocument();
+    await user.selectOptions(screen.getByTestId('export-format-select'), 'ply');
+    expect(screen.getByTestId('export-normals-toggle')).toBeInTheDocument();
+    await user.selectOptions(screen.getByTestId('export-format-select'), '3mf');
+    expect(screen.queryByTestId('export-normals-toggle')).not.toBeInTheDocument();
+  });
+
+  it('passes the normals choice to the export', async () => {
+    const user = userEvent.setup();
+    const onExport = vi.fn().mockResolvedValue(undefined);
+    render(<ExportButton onExport={onExport} isGenerating={false} />);
+
+    await user.selectOptions(screen.getByTestId('export-format-select'), 'obj');
+    await user.click(screen.getByTestId('export-button'));
+    expect(onExport).toHaveBeenLastCalledWith('obj', { normals: true });
+
+    await user.click(screen.getByTestId('export-normals-toggle'));
+    expect(screen.getByTestId('export-normals-toggle')).toHaveAttribute('aria-pressed', 'false');
+    await user.click(screen.getByTestId('export-button'));
+    expect(onExport).toHaveBeenLastCalledWith('obj', { normals: false });
+  });
+});
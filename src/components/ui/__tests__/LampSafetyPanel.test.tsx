@@ -0,0 +1,41 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { LampSafetyPanel } from '../LampSafetyPanel';
+import { useDesignStore } from '@/store/designStore';
+import type { LampSafetyReport } from '@/types/validation';
+
+const REPORT: LampSafetyReport = {
+  bulb: 'A19',
+  minClearance: 8.4,
+  minClearanceHeight: 150,
+  topVentDiameter: 140,
+  closed: true,
+  issues: [
+    {
+      code: 'bulb-clearance',
+      severity: 'warning',
+      message: 'The A19 bulb is 8.4 mm from the shade near 150 mm (minimum 15 mm)',
+    },
+  ],
+};
+
+describe('LampSafetyPanel', () => {
+  beforeEach(() => {
+    useDesignStore.getState().resetLampParams();
+  });
+
+  it('picks the bulb the design is checked against', async () => {
+    const user = userEvent.setup();
+    render(<LampSafetyPanel report={null} />);
+    await user.selectOptions(screen.getByTestId('bulb-type-select'), 'G25');
+    expect(useDesignStore.getState().lampParams.bulbType).toBe('G25');
+  });
+
+  it('lists clearance and venting issues', () => {
+    render(<LampSafetyPanel report={REPORT} />);
+    expect(screen.getByText('8.4 mm')).toBeInTheDocument();
+    expect(screen.getByTestId('validation-issue-bulb-clearance')).toHaveTextContent('8.4 mm from the shade');
+    expect(screen.queryByLabelText('No issues')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { LightPreviewPanel } from '../LightPreviewPanel';
+import { useViewportStore } from '@/store/viewportStore';
+
+describe('LightPreviewPanel', () => {
+  beforeEach(() => {
+    useViewportStore.setState({ lightPreview: false, lightDimmer: 0.8, lightColorTemperature: 2700 });
+  });
+
+  it('hides the bulb controls while the preview is off', () => {
+    render(<LightPreviewPanel />);
+    expect(screen.getByTestId('light-preview-toggle')).toHaveAttribute('aria-checked', 'false');
+    expect(screen.queryByTestId('light-dimmer-slider')).not.toBeInTheDocument();
+  });
+
+  it('turns the preview on and tunes the bulb', async () => {
+    const user = userEvent.setup();
+    render(<LightPreviewPanel />);
+
+    await user.click(screen.getByTestId('light-preview-toggle'));
+    fireEvent.change(screen.getByTestId('light-dimmer-slider'), { target: { value: '0.4' } });
+    fireEvent.change(screen.getByTestId('light-temperature-slider'), { target: { value: '4000' } });
+
+    const state = useViewportStore.getState();
+    expect(state.lightPreview).toBe(true);
+    expect(state.lightDimmer).toBe(0.4);
+    expect(state.lightColorTemperature).toBe(4000);
+    expect(screen.getByText('40%')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ShareButton } from '../ShareButton';
+import { useDesignStore } from '@/store/designStore';
+import { DEFAULT_VASE_PARAMS } from '@/types/design';
+import { readDesignFromSearch } from '@/store/urlState';
+
+describe('ShareButton', () => {
+  beforeEach(() => {
+    useDesignStore.getState().setParams({ ...DEFAULT_VASE_PARAMS, height: 123 });
+  });
+
+  it('copies a link encoding the current design', async () => {
+    const user = userEvent.setup();
+    const writeText = vi.fn().mockResolvedValue(undefined);
+    Object.defineProperty(navigator, 'clipboard', {
+      value: { writeText },
+      configurable: true,
+    });
+
+    render(<ShareButton />);
+    await user.click(screen.getByTestId('share-button'));
+
+    expect(writeText).toHaveBeenCalledTimes(1);
+    const url = new URL(writeText.mock.calls[0][0]);
+    expect(readDesignFromSearch(url.search)).toEqual({ height: 123 });
+    expect(screen.getByText('Copied')).toBeInTheDocument();
+  });
+
+  it('falls back to a prompt when the clipboard is unavailable', async () => {
+    const user = userEvent.setup();
+    Object.defineProperty(navigator, 'clipboard', {
+      value: { writeText: vi.fn().mockRejectedValue(new Error('denied')) },
+      configurable: true,
+    });
+    const prompt = vi.spyOn(window, 'prompt').mockReturnValue(null);
+
+    render(<ShareButton />);
+    await user.click(screen.getByTestId('share-button'));
+
+    expect(prompt).toHaveBeenCalledWith('Copy this link', expect.stringContaining('?d=1.'));
+    prompt.mockRestore();
+  });
+});
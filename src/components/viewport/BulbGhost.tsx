@@ -0,0 +1,31 @@
+'use client';
+
+import React from 'react';
+import { useDesignStore } from '@/store/designStore';
+import { getBulbEnvelope } from '@/generators/lamp/lampDimensions';
+
+/**
+ * Translucent stand-in for the chosen bulb, seated in the socket: the same
+ * envelope the safety check measures clearance against.
+ */
+export const BulbGhost = React.memo(function BulbGhost() {
+  const lampParams = useDesignStore((s) => s.lampParams);
+  const { radius, zBottom, zTop } = getBulbEnvelope(lampParams);
+  const zDome = Math.max(zTop - radius, zBottom);
+  const bodyHeight = zDome - zBottom;
+
+  return (
+    <group>
+      {bodyHeight > 0 && (
+        <mesh position={[0, zBottom + bodyHeight / 2, 0]} renderOrder={1}>
+          <cylinderGeometry args={[radius, radius, bodyHeight, 48, 1, true]} />
+          <meshBasicMaterial color="#FFE6B3" transparent opacity={0.18} depthWrite={false} />
+        </mesh>
+      )}
+      <mesh position={[0, zDome, 0]} renderOrder={1}>
+        <sphereGeometry args={[radius, 48, 16, 0, Math.PI * 2, 0, Math.PI / 2]} />
+        <meshBasicMaterial color="#FFE6B3" transparent opacity={0.18} depthWrite={false} />
+      </mesh>
+    </group>
+  );
+});
@@ -0,0 +1,59 @@
+'use client';
+
+import React from 'react';
+import { useDesignStore } from '@/store/designStore';
+import { useViewportStore } from '@/store/viewportStore';
+import {
+  PREVIEW_LIGHT_MAX_INTENSITY,
+  colorTemperatureToHex,
+  getPreviewWallDistance,
+  getSocketLightHeight,
+} from './lightPreview';
+
+/** Floor and wall extent, mm */
+const ROOM_SIZE = 1200;
+
+/**
+ * Dark room lit only by the lamp's bulb: a shadow-casting point light at the
+ * socket, with a floor and a wall behind the lamp to catch the pattern the
+ * shade throws. Replaces the studio lighting while the preview is on.
+ */
+export const LampLightPreview = React.memo(function LampLightPreview() {
+  const lampParams = useDesignStore((s) => s.lampParams);
+  const dimmer = useViewportStore((s) => s.lightDimmer);
+  const colorTemperature = useViewportStore((s) => s.lightColorTemperature);
+
+  const lightHeight = getSocketLightHeight(lampParams);
+  const wallDistance = getPreviewWallDistance(lampParams);
+  const color = colorTemperatureToHex(colorTemperature);
+
+  return (
+    <>
+      <pointLight
+        position={[0, lightHeight, 0]}
+        intensity={dimmer * PREVIEW_LIGHT_MAX_INTENSITY}
+        color={color}
+        decay={2}
+        castShadow
+        shadow-mapSize={[2048, 2048]}
+        shadow-bias={-0.0005}
+        shadow-camera-near={1}
+        shadow-camera-far={ROOM_SIZE * 2}
+      />
+      {/* Just enough room light to make out the lamp with the bulb off */}
+      <ambientLight intensity={0.03} color="#F0EDE8" />
+
+      {/* Floor, just under the display plate */}
+      <mesh position={[0, -3.01, 0]} rotation={[-Math.PI / 2, 0, 0]} receiveShadow>
+        <planeGeometry args={[ROOM_SIZE, ROOM_SIZE]} />
+        <meshStandardMaterial color="#3A3430" roughness={0.95} metalness={0} />
+      </mesh>
+
+      {/* Wall behind the lamp */}
+      <mesh position={[0, ROOM_SIZE / 2 - 3, -wallDistance]} receiveShadow>
+        <planeGeometry args={[ROOM_SIZE, ROOM_SIZE]} />
+        <meshStandardMaterial color="#E8E2DA" roughness={0.9} metalness={0} />
+      </mesh>
+    </>
+  );
+});
@@ -4,16 +4,22 @@ import React, { useRef, useEffect, useMemo } from 'react';
 import * as THREE from 'three';
 import type { GeometryResult } from '@/types/geometry';
 import { useDesignStore } from '@/store/designStore';
+import { useViewportStore } from '@/store/viewportStore';
+import { computeAnalysisColors } from './analysisColors';
 
 interface ModelRendererProps {
   geometry: GeometryResult | null;
 }
 
-/** Renders GeometryResult as a Three.js mesh with appropriate material per object type */
+/**
+ * Renders GeometryResult as a Three.js mesh with appropriate material per object type.
+ * In analysis mode the worker's per-vertex scalar channel is color-mapped instead.
+ */
 export const ModelRenderer = React.memo(function ModelRenderer({
   geometry,
 }: ModelRendererProps) {
   const objectType = useDesignStore((s) => s.objectType);
+  const analysisMode = useViewportStore((s) => s.analysisMode);
   const meshRef = useRef<THREE.Mesh>(null);
   const prevGeomRef = useRef<THREE.BufferGeometry | null>(null);
 
@@ -31,9 +37,24 @@ export const ModelRenderer = React.memo(function ModelRenderer({
     );
     geom.setIndex(new THREE.BufferAttribute(geometry.indices, 1));
     geom.computeVertexNormals();
+    if (geometry.scalars && geometry.analysis && geometry.analysis !== 'none') {
+      geom.setAttribute(
+        'color',
+        new THREE.BufferAttribute(
+          computeAnalysisColors(geometry.scalars, geometry.analysis),
+          3
+        )
+      );
+    }
     return geom;
   }, [geometry]);
 
+  // Geometry may lag one generation behind the toggle — only color-map when they agree
+  const showAnalysis =
+    analysisMode !== 'none' &&
+    geometry?.analysis === analysisMode &&
+    bufferGeometry?.hasAttribute('color') === true;
+
   // Dispose previous geometry when replaced
   useEffect(() => {
     const prev = prevGeomRef.current;
@@ -54,7 +75,14 @@ export const ModelRenderer = React.memo(function ModelRenderer({
 
   return (
     <mesh ref={meshRef} geometry={bufferGeometry} rotation={[-Math.PI / 2, 0, 0]} castShadow receiveShadow>
-      {objectType === 'lamp' ? (
+      {showAnalysis ? (
+        <meshStandardMaterial
+          key="analysis"
+          vertexColors
+          roughness={0.8}
+          metalness={0}
+        />
+      ) : objectType === 'lamp' ? (
         <meshPhysicalMaterial
           color="#D4A574"
           roughness={0.3}
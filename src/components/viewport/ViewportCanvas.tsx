@@ -3,11 +3,15 @@
 import React from 'react';
 import { Canvas } from '@react-three/fiber';
 import type { GeometryResult } from '@/types/geometry';
+import { useDesignStore } from '@/store/designStore';
+import { useViewportStore } from '@/store/viewportStore';
 import { SceneLighting } from './SceneLighting';
 import { ModelRenderer } from './ModelRenderer';
 import { CameraControls } from './CameraControls';
 import { GridFloor } from './GridFloor';
 import { DisplayPlate } from './DisplayPlate';
+import { LampLightPreview } from './LampLightPreview';
+import { BulbGhost } from './BulbGhost';
 
 interface ViewportCanvasProps {
   geometry: GeometryResult | null;
@@ -15,24 +19,33 @@ interface ViewportCanvasProps {
   plateRadius?: number;
 }
 
-/** R3F Canvas with camera, lighting, model, controls, grid, and plate */
+/**
+ * R3F Canvas with camera, lighting, model, controls, grid, and plate.
+ * Lamps show the bulb as a ghost, and can swap the studio rig for a light
+ * preview lit from the socket.
+ */
 export const ViewportCanvas = React.memo(function ViewportCanvas({
   geometry,
   vaseHeight = 150,
   plateRadius = 55,
 }: ViewportCanvasProps) {
   const targetY = vaseHeight / 2;
+  const objectType = useDesignStore((s) => s.objectType);
+  const lightPreview = useViewportStore((s) => s.lightPreview);
+  const isLightPreview = objectType === 'lamp' && lightPreview;
 
   return (
     <Canvas
+      shadows={isLightPreview}
       camera={{ position: [220, 180, 220], fov: 35, near: 1, far: 2000 }}
       gl={{ antialias: true, alpha: false }}
       style={{ background: '#0D0D0F' }}
     >
-      <SceneLighting />
+      {isLightPreview ? <LampLightPreview /> : <SceneLighting />}
       <ModelRenderer geometry={geometry} />
+      {objectType === 'lamp' && !isLightPreview && <BulbGhost />}
       <CameraControls targetY={targetY} />
-      <GridFloor />
+      {!isLightPreview && <GridFloor />}
       <DisplayPlate radius={plateRadius} />
     </Canvas>
   );
@@ -2,19 +2,33 @@
 
 import { useGeometryWorker } from '@/hooks/useGeometryWorker';
 import { useDesignStore } from '@/store/designStore';
+import type { LampExportFormat } from '@/types/geometry';
 import { ViewportCanvas } from './ViewportCanvas';
 import { ExportButton } from '@/components/ui/ExportButton';
 import { GeneratingIndicator } from '@/components/ui/GeneratingIndicator';
+import { ValidationPanel } from '@/components/ui/ValidationPanel';
+import { LightPreviewPanel } from '@/components/ui/LightPreviewPanel';
+import { LampSafetyPanel } from '@/components/ui/LampSafetyPanel';
+
+/** Lamp parts export as a zip of STLs or one multi-object 3MF */
+const LAMP_EXPORT_FORMATS: LampExportFormat[] = ['stl', '3mf'];
 
 /** Owns the geometry lifecycle. Passes geometry to canvas + export to button. */
 export function ViewportContainer() {
-  const { geometry, isGenerating, exportSTL } = useGeometryWorker();
+  const { geometry, isGenerating, validation, lampSafety, exportModel } = useGeometryWorker();
   const vaseHeight = useDesignStore((s) => s.params.height);
   const vaseDiameter = useDesignStore((s) => s.params.diameter);
   const vaseRidgeDepth = useDesignStore((s) => s.params.ridgeDepth);
+  const objectType = useDesignStore((s) => s.objectType);
+  const lampParams = useDesignStore((s) => s.lampParams);
 
-  const displayHeight = vaseHeight;
-  const plateRadius = vaseDiameter / 2 + vaseRidgeDepth + 8;
+  const isLamp = objectType === 'lamp';
+  // The assembled lamp stands on its base; the shade is usually the widest part
+  const displayHeight = isLamp ? lampParams.base.height + lampParams.shade.height : vaseHeight;
+  const plateRadius = isLamp
+    ? Math.max(lampParams.base.diameter, lampParams.shade.diameter) / 2 +
+      Math.max(lampParams.base.ridgeDepth, lampParams.shade.ridgeDepth) + 8
+    : vaseDiameter / 2 + vaseRidgeDepth + 8;
 
   return (
     <div className="relative flex-1 min-h-0">
@@ -23,7 +37,14 @@ export function ViewportContainer() {
         vaseHeight={displayHeight}
         plateRadius={plateRadius}
       />
-      <ExportButton onExport={exportSTL} isGenerating={isGenerating} />
+      <ExportButton
+        onExport={exportModel}
+        isGenerating={isGenerating}
+        validation={isLamp ? lampSafety : validation}
+        formats={isLamp ? LAMP_EXPORT_FORMATS : undefined}
+      />
+      {isLamp ? <LampSafetyPanel report={lampSafety} /> : <ValidationPanel report={validation} />}
+      {isLamp && <LightPreviewPanel />}
       <GeneratingIndicator isGenerating={isGenerating} />
     </div>
   );
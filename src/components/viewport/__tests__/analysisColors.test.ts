@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { analysisSeverity, computeAnalysisColors } from '../analysisColors';
+import { MAX_OVERHANG_ANGLE, MIN_WALL_THICKNESS } from '@/types/validation';
+
+describe('analysisSeverity', () => {
+  it('grows with overhang angle and passes 1 beyond the limit', () => {
+    expect(analysisSeverity(0, 'overhang')).toBe(0);
+    expect(analysisSeverity(MAX_OVERHANG_ANGLE, 'overhang')).toBe(1);
+    expect(analysisSeverity(MAX_OVERHANG_ANGLE + 1, 'overhang')).toBeGreaterThan(1);
+  });
+
+  it('grows as walls get thinner and passes 1 below the minimum', () => {
+    expect(analysisSeverity(MIN_WALL_THICKNESS * 3, 'thickness')).toBe(0);
+    expect(analysisSeverity(MIN_WALL_THICKNESS, 'thickness')).toBe(1);
+    expect(analysisSeverity(MIN_WALL_THICKNESS / 2, 'thickness')).toBeGreaterThan(1);
+  });
+});
+
+describe('computeAnalysisColors', () => {
+  it('writes one RGB triple per scalar', () => {
+    const colors = computeAnalysisColors(new Float32Array([0, 50, 80]), 'overhang');
+    expect(colors.length).toBe(9);
+  });
+
+  it('uses distinct colors for fine and failing values', () => {
+    const colors = computeAnalysisColors(new Float32Array([0, 80]), 'overhang');
+    const fine = Array.from(colors.slice(0, 3));
+    const failing = Array.from(colors.slice(3, 6));
+    expect(fine).not.toEqual(failing);
+    // Failing is the error red
+    expect(failing[0]).toBeGreaterThan(failing[1]);
+  });
+});
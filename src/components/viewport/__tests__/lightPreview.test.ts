@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import {
+  colorTemperatureToHex,
+  getPreviewWallDistance,
+  getSocketLightHeight,
+} from '../lightPreview';
+import { DEFAULT_LAMP_PARAMS } from '@/types/design';
+import { SOCKET_SPECS } from '@/generators/lamp/socketConstants';
+
+const channels = (hex: string) => [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16));
+
+describe('getSocketLightHeight', () => {
+  it('puts the light at the top of the socket collar on the base', () => {
+    const params = { ...DEFAULT_LAMP_PARAMS, socketType: 'E12' as const };
+    expect(getSocketLightHeight(params)).toBe(params.base.height + SOCKET_SPECS.E12.collarHeight);
+  });
+});
+
+describe('getPreviewWallDistance', () => {
+  it('keeps the wall clear of the widest part', () => {
+    const params = {
+      ...DEFAULT_LAMP_PARAMS,
+      shade: { ...DEFAULT_LAMP_PARAMS.shade, diameter: 300 },
+    };
+    expect(getPreviewWallDistance(params)).toBeGreaterThan(150);
+  });
+});
+
+describe('colorTemperatureToHex', () => {
+  it('is warm at low temperatures and near white at daylight', () => {
+    const [r, g, b] = channels(colorTemperatureToHex(2700));
+    expect(r).toBe(255);
+    expect(b).toBeLessThan(g);
+
+    const daylight = channels(colorTemperatureToHex(6500));
+    daylight.forEach((c) => expect(c).toBeGreaterThan(240));
+  });
+
+  it('gets bluer as the temperature rises', () => {
+    const blue = (k: number) => channels(colorTemperatureToHex(k))[2];
+    expect(blue(2200)).toBeLessThan(blue(4000));
+    expect(blue(4000)).toBeLessThan(blue(6500));
+  });
+});
@@ -0,0 +1,59 @@
+import type { AnalysisMode } from '@/types/geometry';
+import { MAX_OVERHANG_ANGLE, MIN_WALL_THICKNESS } from '@/types/validation';
+
+type RGB = [number, number, number];
+
+/** Theme status colors (globals.css --success / --warning / --error) as 0–1 RGB */
+const OK: RGB = [0x6b / 255, 0xbf / 255, 0x6a / 255];
+const WARN: RGB = [0xe0 / 255, 0xc3 / 255, 0x3c / 255];
+const BAD: RGB = [0xd9 / 255, 0x4b / 255, 0x4b / 255];
+
+/** Overhang angles this far below the limit start fading to the warning color */
+const OVERHANG_WARN_BAND = 15;
+
+/**
+ * Map a scalar to a 0–1 severity: 0 = fine, 1 = at the limit, >1 = beyond it.
+ * Overhang: degrees from vertical, worse as it grows.
+ * Thickness: mm, worse as it shrinks (double the minimum counts as fine).
+ */
+export function analysisSeverity(value: number, mode: AnalysisMode): number {
+  if (mode === 'overhang') {
+    const start = MAX_OVERHANG_ANGLE - OVERHANG_WARN_BAND;
+    if (value <= start) return 0;
+    if (value > MAX_OVERHANG_ANGLE) return 2;
+    return (value - start) / OVERHANG_WARN_BAND;
+  }
+  if (mode === 'thickness') {
+    if (value >= MIN_WALL_THICKNESS * 2) return 0;
+    if (value < MIN_WALL_THICKNESS) return 2;
+    return (MIN_WALL_THICKNESS * 2 - value) / MIN_WALL_THICKNESS;
+  }
+  return 0;
+}
+
+/** Build a per-vertex RGB color buffer for a scalar channel */
+export function computeAnalysisColors(
+  scalars: Float32Array,
+  mode: AnalysisMode
+): Float32Array {
+  const colors = new Float32Array(scalars.length * 3);
+
+  for (let i = 0; i < scalars.length; i++) {
+    const severity = analysisSeverity(scalars[i], mode);
+    let rgb: RGB;
+    if (severity > 1) {
+      rgb = BAD;
+    } else {
+      rgb = [
+        OK[0] + (WARN[0] - OK[0]) * severity,
+        OK[1] + (WARN[1] - OK[1]) * severity,
+        OK[2] + (WARN[2] - OK[2]) * severity,
+      ];
+    }
+    colors[i * 3] = rgb[0];
+    colors[i * 3 + 1] = rgb[1];
+    colors[i * 3 + 2] = rgb[2];
+  }
+
+  return colors;
+}
@@ -0,0 +1,46 @@
+import type { LampParams } from '@/types/design';
+import { SOCKET_SPECS } from '@/generators/lamp/socketConstants';
+
+/** Warm incandescent to daylight, K */
+export const COLOR_TEMPERATURE_MIN = 2200;
+export const COLOR_TEMPERATURE_MAX = 6500;
+
+/** Point-light intensity (cd) at full dimmer — lights a wall ~300 mm away like the studio rig */
+export const PREVIEW_LIGHT_MAX_INTENSITY = 90000;
+
+/** Gap (mm) between the lamp's widest part and the preview wall */
+const WALL_GAP = 80;
+
+/**
+ * Height (mm) of the bulb's light source above the floor: the top of the
+ * socket collar, which stands on the base's top surface.
+ */
+export function getSocketLightHeight(params: LampParams): number {
+  return params.base.height + SOCKET_SPECS[params.socketType].collarHeight;
+}
+
+/** Distance (mm) from the lamp's axis to the wall behind it */
+export function getPreviewWallDistance(params: LampParams): number {
+  return Math.max(params.base.diameter, params.shade.diameter) / 2 + WALL_GAP;
+}
+
+/**
+ * Approximate the color of a black-body light source as a CSS hex string.
+ * Curve fit after Tanner Helland, accurate to a few percent over 1000–40000 K.
+ */
+export function colorTemperatureToHex(kelvin: number): string {
+  const t = Math.min(Math.max(kelvin, 1000), 40000) / 100;
+
+  const r = t <= 66 ? 255 : 329.698727446 * Math.pow(t - 60, -0.1332047592);
+  const g =
+    t <= 66
+      ? 99.4708025861 * Math.log(t) - 161.1195681661
+      : 288.1221695283 * Math.pow(t - 60, -0.0755148492);
+  const b = t >= 66 ? 255 : t <= 19 ? 0 : 138.5177312231 * Math.log(t - 10) - 305.0447927307;
+
+  const channel = (v: number) =>
+    Math.round(Math.min(Math.max(v, 0), 255))
+      .toString(16)
+      .padStart(2, '0');
+  return `#${channel(r)}${channel(g)}${channel(b)}`;
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { primitives } from '@jscad/modeling';
+import { serializeOBJ } from '../obj';
+import { weldGeom3 } from '../../shared/meshWeld';
+
+const cube = weldGeom3(primitives.cuboid({ size: [10, 10, 10] }));
+
+function linesStartingWith(text: string, prefix: string): string[] {
+  return text.split('\n').filter((l) => l.startsWith(prefix));
+}
+
+describe('serializeOBJ', () => {
+  it('writes one shared vertex per welded vertex', () => {
+    const obj = serializeOBJ(cube, { normals: false });
+    expect(linesStartingWith(obj, 'v ')).toHaveLength(8);
+    expect(linesStartingWith(obj, 'f ')).toHaveLength(12);
+  });
+
+  it('omits normals when disabled', () => {
+    const obj = serializeOBJ(cube, { normals: false });
+    expect(linesStartingWith(obj, 'vn ')).toHaveLength(0);
+    expect(linesStartingWith(obj, 'f ')[0]).toMatch(/^f \d+ \d+ \d+$/);
+  });
+
+  it('writes one normal per vertex and v//vn faces when enabled', () => {
+    const obj = serializeOBJ(cube, { normals: true });
+    expect(linesStartingWith(obj, 'vn ')).toHaveLength(8);
+    expect(linesStartingWith(obj, 'f ')[0]).toMatch(/^f (\d+)\/\/\1 (\d+)\/\/\2 (\d+)\/\/\3$/);
+  });
+
+  it('uses 1-based face indices within range', () => {
+    const obj = serializeOBJ(cube, { normals: false });
+    for (const line of linesStartingWith(obj, 'f ')) {
+      for (const idx of line.slice(2).split(' ').map(Number)) {
+        expect(idx).toBeGreaterThanOrEqual(1);
+        expect(idx).toBeLessThanOrEqual(8);
+      }
+    }
+  });
+
+  it('names the object without whitespace', () => {
+    const obj = serializeOBJ(cube, { normals: false, objectName: 'My Vase' });
+    expect(obj).toContain('o My_Vase');
+  });
+});
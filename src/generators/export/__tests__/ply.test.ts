@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { primitives } from '@jscad/modeling';
+import { serializePLY } from '../ply';
+import { weldGeom3 } from '../../shared/meshWeld';
+
+const cube = weldGeom3(primitives.cuboid({ size: [10, 10, 10] }));
+
+/** Split a PLY buffer into its ASCII header and binary body */
+function splitPLY(bytes: Uint8Array): { header: string; body: DataView } {
+  const text = new TextDecoder().decode(bytes);
+  const end = text.indexOf('end_header\n') + 'end_header\n'.length;
+  return {
+    header: text.slice(0, end),
+    body: new DataView(bytes.buffer, bytes.byteOffset + end),
+  };
+}
+
+describe('serializePLY', () => {
+  it('declares binary little-endian format with vertex and face counts', () => {
+    const { header } = splitPLY(serializePLY(cube, { normals: false }));
+    expect(header.startsWith('ply\nformat binary_little_endian 1.0\n')).toBe(true);
+    expect(header).toContain('element vertex 8');
+    expect(header).toContain('element face 12');
+    expect(header).not.toContain('property float nx');
+  });
+
+  it('has the exact body size for positions + triangle lists', () => {
+    const bytes = serializePLY(cube, { normals: false });
+    const { body } = splitPLY(bytes);
+    expect(body.byteLength).toBe(8 * 12 + 12 * 13);
+  });
+
+  it('adds normal properties and data when enabled', () => {
+    const bytes = serializePLY(cube, { normals: true });
+    const { header, body } = splitPLY(bytes);
+    expect(header).toContain('property float nx');
+    expect(body.byteLength).toBe(8 * 24 + 12 * 13);
+
+    // First vertex normal is unit length
+    const nx = body.getFloat32(12, true);
+    const ny = body.getFloat32(16, true);
+    const nz = body.getFloat32(20, true);
+    expect(Math.sqrt(nx * nx + ny * ny + nz * nz)).toBeCloseTo(1, 5);
+  });
+
+  it('round-trips vertex positions and face indices', () => {
+    const { body } = splitPLY(serializePLY(cube, { normals: false }));
+    expect(body.getFloat32(0, true)).toBeCloseTo(cube.positions[0]);
+    const faceStart = 8 * 12;
+    expect(body.getUint8(faceStart)).toBe(3);
+    expect(body.getInt32(faceStart + 1, true)).toBe(cube.indices[0]);
+    expect(body.getInt32(faceStart + 9, true)).toBe(cube.indices[2]);
+  });
+});
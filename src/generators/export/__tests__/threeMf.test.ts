@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { primitives } from '@jscad/modeling';
+import {
+  serialize3MF,
+  serializeLamp3MF,
+  build3MFModelXml,
+  buildLamp3MFModelXml,
+  escapeXml,
+  LAMP_PARAMS_METADATA_NAME,
+  PARAMS_METADATA_NAME,
+  TEXTURE_METADATA_NAME,
+} from '../threeMf';
+import { generateVase } from '../../vase/vaseGenerator';
+import { DEFAULT_LAMP_PARAMS, DEFAULT_VASE_PARAMS } from '@/types/design';
+import type { VaseParams } from '@/types/design';
+
+const TEST_PARAMS: VaseParams = {
+  ...DEFAULT_VASE_PARAMS,
+  taper: 1,
+  style: 'classic',
+  resolution: 16,
+  height: 50,
+};
+
+const decoder = new TextDecoder();
+
+/** Read entry names + contents from a stored ZIP by walking local headers */
+function readStoredZip(bytes: Uint8Array): Map<string, string> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const entries = new Map<string, string>();
+  let offset = 0;
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const name = decoder.decode(bytes.subarray(offset + 30, offset + 30 + nameLength));
+    const dataStart = offset + 30 + nameLength;
+    entries.set(name, decoder.decode(bytes.subarray(dataStart, dataStart + size)));
+    offset = dataStart + size;
+  }
+  return entries;
+}
+
+describe('escapeXml', () => {
+  it('escapes markup characters', () => {
+    expect(escapeXml(`<a href="x">'&'</a>`)).toBe(
+      '&lt;a href=&quot;x&quot;&gt;&apos;&amp;&apos;&lt;/a&gt;'
+    );
+  });
+});
+
+describe('build3MFModelXml', () => {
+  it('writes a welded cube as 8 vertices and 12 triangles', () => {
+    const cube = primitives.cuboid({ size: [10, 10, 10] });
+    const xml = build3MFModelXml(cube, TEST_PARAMS, 'Cube');
+    expect(xml.match(/<vertex /g)).toHaveLength(8);
+    expect(xml.match(/<triangle /g)).toHaveLength(12);
+  });
+
+  it('declares millimetre units and the object name', () => {
+    const cube = primitives.cuboid({ size: [10, 10, 10] });
+    const xml = build3MFModelXml(cube, TEST_PARAMS, 'My <Vase>');
+    expect(xml).toContain('unit="millimeter"');
+    expect(xml).toContain('name="My &lt;Vase&gt;"');
+    expect(xml).toContain('<item objectid="1"/>');
+  });
+});
+
+describe('buildLamp3MFModelXml', () => {
+  it('writes one object and build item per part, with the lamp params', () => {
+    const xml = buildLamp3MFModelXml(
+      [
+        { name: 'Base', geom: primitives.cuboid({ size: [10, 10, 10] }) },
+        { name: 'Shade', geom: primitives.cuboid({ size: [10, 10, 10], center: [20, 0, 0] }) },
+      ],
+      DEFAULT_LAMP_PARAMS,
+      'Lamp'
+    );
+    expect(xml).toContain('<object id="1" name="Base" type="model">');
+    expect(xml).toContain('<object id="2" name="Shade" type="model">');
+    expect(xml).toContain('<item objectid="1"/>');
+    expect(xml).toContain('<item objectid="2"/>');
+    expect(xml.match(/<vertex /g)).toHaveLength(16);
+    expect(xml).toContain(`<metadata name="${LAMP_PARAMS_METADATA_NAME}" preserve="1">`);
+  });
+});
+
+describe('serialize3MF', () => {
+  let entries: Map<string, string>;
+
+  beforeAll(() => {
+    const geom = generateVase(TEST_PARAMS);
+    entries = readStoredZip(serialize3MF(geom, TEST_PARAMS));
+  });
+
+  it('contains the required OPC parts', () => {
+    expect(Array.from(entries.keys())).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      '3D/3dmodel.model',
+    ]);
+  });
+
+  it('relationship targets the model part', () => {
+    expect(entries.get('_rels/.rels')).toContain('Target="/3D/3dmodel.model"');
+  });
+
+  it('embeds the full params as recoverable JSON metadata', () => {
+    const model = entries.get('3D/3dmodel.model')!;
+    const match = model.match(
+      new RegExp(`<metadata name="${PARAMS_METADATA_NAME}" preserve="1">([^<]*)</metadata>`)
+    );
+    expect(match).not.toBeNull();
+    const json = match![1]
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&amp;/g, '&');
+    expect(JSON.parse(json)).toEqual(TEST_PARAMS);
+  });
+
+  it('dates the model with the injected timestamp', () => {
+    const modified = new Date(Date.UTC(2021, 4, 17, 12));
+    const cube = primitives.cuboid({ size: [10, 10, 10] });
+    const creationDate = '<metadata name="CreationDate">2021-05-17</metadata>';
+    const vase = readStoredZip(serialize3MF(cube, TEST_PARAMS, { modified }));
+    expect(vase.get('3D/3dmodel.model')).toContain(creationDate);
+    const lamp = readStoredZip(
+      serializeLamp3MF([{ name: 'Base', geom: cube }], DEFAULT_LAMP_PARAMS, { modified })
+    );
+    expect(lamp.get('3D/3dmodel.model')).toContain(creationDate);
+  });
+
+  it('embeds the heightmap texture and points the metadata at it', () => {
+    const cube = primitives.cuboid({ size: [10, 10, 10] });
+    const texture = new TextEncoder().encode('not really a PNG');
+    const textured = readStoredZip(serialize3MF(cube, TEST_PARAMS, { texture }));
+    expect(textured.get('3D/Textures/heightmap.png')).toBe('not really a PNG');
+    expect(textured.get('3D/_rels/3dmodel.model.rels')).toContain(
+      'Target="/3D/Textures/heightmap.png"'
+    );
+    expect(textured.get('[Content_Types].xml')).toContain('ContentType="image/png"');
+    expect(textured.get('3D/3dmodel.model')).toContain(
+      `<metadata name="${TEXTURE_METADATA_NAME}" preserve="1">/3D/Textures/heightmap.png</metadata>`
+    );
+
+    expect(entries.has('3D/Textures/heightmap.png')).toBe(false);
+    expect(entries.get('3D/3dmodel.model')).not.toContain(TEXTURE_METADATA_NAME);
+  });
+
+  it('every triangle references a valid vertex', () => {
+    const model = entries.get('3D/3dmodel.model')!;
+    const vertexCount = (model.match(/<vertex /g) ?? []).length;
+    expect(vertexCount).toBeGreaterThan(0);
+    const triangleRe = /<triangle v1="(\d+)" v2="(\d+)" v3="(\d+)"\/>/g;
+    let m: RegExpExecArray | null;
+    while ((m = triangleRe.exec(model)) !== null) {
+      for (const idx of [m[1], m[2], m[3]]) {
+        expect(Number(idx)).toBeLessThan(vertexCount);
+      }
+    }
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { createZip, crc32 } from '../zipWriter';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/** Read entries back out of a stored (uncompressed) ZIP via its central directory */
+function readZip(bytes: Uint8Array): Map<string, Uint8Array> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const eocd = bytes.length - 22;
+  expect(view.getUint32(eocd, true)).toBe(0x06054b50);
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+
+  const entries = new Map<string, Uint8Array>();
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(offset, true)).toBe(0x02014b50);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    expect(view.getUint32(localOffset, true)).toBe(0x04034b50);
+    const localNameLength = view.getUint16(localOffset + 26, true);
+    const dataStart = localOffset + 30 + localNameLength;
+    const data = bytes.subarray(dataStart, dataStart + size);
+    expect(crc32(data)).toBe(view.getUint32(offset + 16, true));
+
+    entries.set(name, data);
+    offset += 46 + nameLength;
+  }
+  return entries;
+}
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(encoder.encode('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('returns 0 for empty input', () => {
+    expect(crc32(new Uint8Array(0))).toBe(0);
+  });
+});
+
+describe('createZip', () => {
+  it('round-trips entries in order', () => {
+    const zip = createZip([
+      { path: 'a.txt', data: encoder.encode('hello') },
+      { path: 'dir/b.xml', data: encoder.encode('<b/>') },
+    ]);
+    const entries = readZip(zip);
+    expect(Array.from(entries.keys())).toEqual(['a.txt', 'dir/b.xml']);
+    expect(decoder.decode(entries.get('a.txt'))).toBe('hello');
+    expect(decoder.decode(entries.get('dir/b.xml'))).toBe('<b/>');
+  });
+
+  it('produces an empty archive with only the end record', () => {
+    const zip = createZip([]);
+    expect(zip.length).toBe(22);
+    expect(readZip(zip).size).toBe(0);
+  });
+
+  it('is deterministic for a fixed modification time', () => {
+    const modified = new Date(2024, 5, 1, 12, 30, 10);
+    const entries = [{ path: 'x', data: encoder.encode('data') }];
+    expect(createZip(entries, { modified })).toEqual(createZip(entries, { modified }));
+  });
+});
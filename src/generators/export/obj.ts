@@ -0,0 +1,57 @@
+/**
+ * Wavefront OBJ serializer for welded, indexed meshes.
+ *
+ * Emits shared vertices (`v`), optional smooth normals (`vn`, one per
+ * vertex so normal index = vertex index), and 1-based triangle faces (`f`).
+ * OBJ has no unit field — coordinates are millimetres by convention.
+ */
+
+import type { IndexedMesh } from '../shared/meshWeld';
+import { computeVertexNormals } from '../shared/meshWeld';
+
+export interface OBJOptions {
+  normals: boolean;
+  objectName?: string;
+}
+
+/** Format a coordinate compactly (µm precision, no trailing zeros) */
+function formatNumber(value: number): string {
+  return String(Number(value.toFixed(4)));
+}
+
+/** Serialize an indexed mesh to OBJ text */
+export function serializeOBJ(mesh: IndexedMesh, options: OBJOptions): string {
+  const { positions, indices } = mesh;
+  const lines: string[] = [];
+
+  lines.push('# LuminaForge OBJ export (units: mm)');
+  lines.push(`# vertices: ${positions.length / 3}, faces: ${indices.length / 3}`);
+  lines.push(`o ${(options.objectName ?? 'LuminaForge_Vase').replace(/\s+/g, '_')}`);
+
+  for (let i = 0; i < positions.length; i += 3) {
+    lines.push(
+      `v ${formatNumber(positions[i])} ${formatNumber(positions[i + 1])} ${formatNumber(positions[i + 2])}`
+    );
+  }
+
+  if (options.normals) {
+    const normals = computeVertexNormals(mesh);
+    for (let i = 0; i < normals.length; i += 3) {
+      lines.push(
+        `vn ${normals[i].toFixed(4)} ${normals[i + 1].toFixed(4)} ${normals[i + 2].toFixed(4)}`
+      );
+    }
+    lines.push('s 1');
+  }
+
+  for (let i = 0; i < indices.length; i += 3) {
+    const a = indices[i] + 1;
+    const b = indices[i + 1] + 1;
+    const c = indices[i + 2] + 1;
+    lines.push(
+      options.normals ? `f ${a}//${a} ${b}//${b} ${c}//${c}` : `f ${a} ${b} ${c}`
+    );
+  }
+
+  return lines.join('\n') + '\n';
+}
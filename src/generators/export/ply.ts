@@ -0,0 +1,75 @@
+/**
+ * Binary little-endian PLY serializer for welded, indexed meshes.
+ *
+ * Vertex element: float x, y, z (+ nx, ny, nz when normals are enabled).
+ * Face element: uchar count + int vertex_indices (always triangles).
+ */
+
+import type { IndexedMesh } from '../shared/meshWeld';
+import { computeVertexNormals } from '../shared/meshWeld';
+
+export interface PLYOptions {
+  normals: boolean;
+}
+
+/** Build the ASCII PLY header */
+function buildHeader(vertexCount: number, faceCount: number, normals: boolean): string {
+  const lines = [
+    'ply',
+    'format binary_little_endian 1.0',
+    'comment LuminaForge PLY export (units: mm)',
+    `element vertex ${vertexCount}`,
+    'property float x',
+    'property float y',
+    'property float z',
+  ];
+  if (normals) {
+    lines.push('property float nx', 'property float ny', 'property float nz');
+  }
+  lines.push(
+    `element face ${faceCount}`,
+    'property list uchar int vertex_indices',
+    'end_header'
+  );
+  return lines.join('\n') + '\n';
+}
+
+/** Serialize an indexed mesh to binary PLY bytes */
+export function serializePLY(mesh: IndexedMesh, options: PLYOptions): Uint8Array {
+  const { positions, indices } = mesh;
+  const vertexCount = positions.length / 3;
+  const faceCount = indices.length / 3;
+  const normals = options.normals ? computeVertexNormals(mesh) : null;
+
+  const header = new TextEncoder().encode(buildHeader(vertexCount, faceCount, options.normals));
+  const vertexStride = normals ? 24 : 12;
+  const faceStride = 1 + 3 * 4;
+  const out = new Uint8Array(header.length + vertexCount * vertexStride + faceCount * faceStride);
+  out.set(header, 0);
+
+  const view = new DataView(out.buffer);
+  let offset = header.length;
+
+  for (let v = 0; v < vertexCount; v++) {
+    const i = v * 3;
+    view.setFloat32(offset, positions[i], true);
+    view.setFloat32(offset + 4, positions[i + 1], true);
+    view.setFloat32(offset + 8, positions[i + 2], true);
+    if (normals) {
+      view.setFloat32(offset + 12, normals[i], true);
+      view.setFloat32(offset + 16, normals[i + 1], true);
+      view.setFloat32(offset + 20, normals[i + 2], true);
+    }
+    offset += vertexStride;
+  }
+
+  for (let f = 0; f < faceCount; f++) {
+    view.setUint8(offset, 3);
+    view.setInt32(offset + 1, indices[f * 3], true);
+    view.setInt32(offset + 5, indices[f * 3 + 1], true);
+    view.setInt32(offset + 9, indices[f * 3 + 2], true);
+    offset += faceStride;
+  }
+
+  return out;
+}
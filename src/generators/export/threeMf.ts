@@ -0,0 +1,213 @@
+/**
+ * 3MF serializer.
+ *
+ * Writes an OPC package (ZIP) containing:
+ * - [Content_Types].xml
+ * - _rels/.rels → points at the model part
+ * - 3D/3dmodel.model → millimetre-unit meshes, object names and metadata
+ * - 3D/Textures/heightmap.png + 3D/_rels/3dmodel.model.rels → the vase's
+ *   heightmap texture, when it has one
+ *
+ * A vase is a single object; a lamp writes one object per part, each a
+ * build item of its own. The full design parameters are embedded as JSON
+ * in a namespaced metadata entry so the exact design can be recovered
+ * from the file later; the texture image lives outside the params, so it
+ * travels as a part of its own.
+ */
+
+import type { Geom3 } from '@jscad/modeling';
+import type { LampParams, VaseParams } from '@/types/design';
+import { weldGeom3 } from '../shared/meshWeld';
+import { createZip, type ZipEntry } from './zipWriter';
+
+const CORE_NAMESPACE = 'http://schemas.microsoft.com/3dmanufacturing/core/2015/02';
+const MODEL_PATH = '3D/3dmodel.model';
+const MODEL_RELS_PATH = '3D/_rels/3dmodel.model.rels';
+const TEXTURE_PATH = '3D/Textures/heightmap.png';
+const TEXTURE_RELATIONSHIP_TYPE = 'http://schemas.microsoft.com/3dmanufacturing/2013/01/3dtexture';
+
+/** XML namespace + prefix for LuminaForge-specific metadata */
+export const LUMINAFORGE_NAMESPACE = 'https://luminaforge.app/3mf/2025';
+export const PARAMS_METADATA_NAME = 'luminaforge:VaseParams';
+export const LAMP_PARAMS_METADATA_NAME = 'luminaforge:LampParams';
+/** Names the package part holding the heightmap texture, when there is one */
+export const TEXTURE_METADATA_NAME = 'luminaforge:HeightmapTexture';
+
+/** A named mesh in a 3MF model */
+export interface ThreeMFObject {
+  name: string;
+  geom: Geom3;
+}
+
+export interface ThreeMFOptions {
+  /** Object name shown in the slicer's object list (the model title for lamps) */
+  objectName?: string;
+  /** Package modification and model creation time (defaults to now) */
+  modified?: Date;
+  /** PNG heightmap the vase is textured with, embedded so the design can be rebuilt */
+  texture?: Uint8Array;
+}
+
+const CONTENT_TYPES_XML =
+  '<?xml version="1.0" encoding="UTF-8"?>\n' +
+  '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">\n' +
+  '  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>\n' +
+  '  <Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/>\n' +
+  '  <Default Extension="png" ContentType="image/png"/>\n' +
+  '</Types>\n';
+
+const RELS_XML =
+  '<?xml version="1.0" encoding="UTF-8"?>\n' +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">\n' +
+  `  <Relationship Target="/${MODEL_PATH}" Id="rel0" ` +
+  'Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/>\n' +
+  '</Relationships>\n';
+
+const MODEL_RELS_XML =
+  '<?xml version="1.0" encoding="UTF-8"?>\n' +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">\n' +
+  `  <Relationship Target="/${TEXTURE_PATH}" Id="rel0" Type="${TEXTURE_RELATIONSHIP_TYPE}"/>\n` +
+  '</Relationships>\n';
+
+/** Escape text for use in XML attribute values and element content */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/** Format a coordinate compactly (µm precision, no trailing zeros) */
+function formatNumber(value: number): string {
+  return String(Number(value.toFixed(4)));
+}
+
+/** Model XML for one or more objects, each placed as its own build item */
+function buildModelXml(
+  objects: ThreeMFObject[],
+  title: string,
+  paramsMetadataName: string,
+  params: VaseParams | LampParams,
+  created: Date,
+  texturePath?: string
+): string {
+  const parts: string[] = [];
+
+  parts.push('<?xml version="1.0" encoding="UTF-8"?>\n');
+  parts.push(
+    `<model unit="millimeter" xml:lang="en-US" xmlns="${CORE_NAMESPACE}" ` +
+      `xmlns:luminaforge="${LUMINAFORGE_NAMESPACE}">\n`
+  );
+  parts.push(`  <metadata name="Title">${escapeXml(title)}</metadata>\n`);
+  parts.push('  <metadata name="Application">LuminaForge</metadata>\n');
+  parts.push(`  <metadata name="CreationDate">${created.toISOString().slice(0, 10)}</metadata>\n`);
+  parts.push(
+    `  <metadata name="${paramsMetadataName}" preserve="1">` +
+      `${escapeXml(JSON.stringify(params))}</metadata>\n`
+  );
+  if (texturePath) {
+    parts.push(`  <metadata name="${TEXTURE_METADATA_NAME}" preserve="1">/${texturePath}</metadata>\n`);
+  }
+  parts.push('  <resources>\n');
+  objects.forEach((object, i) => {
+    const { positions, indices } = weldGeom3(object.geom);
+    parts.push(`    <object id="${i + 1}" name="${escapeXml(object.name)}" type="model">\n`);
+    parts.push('      <mesh>\n        <vertices>\n');
+    for (let v = 0; v < positions.length; v += 3) {
+      parts.push(
+        `          <vertex x="${formatNumber(positions[v])}" ` +
+          `y="${formatNumber(positions[v + 1])}" z="${formatNumber(positions[v + 2])}"/>\n`
+      );
+    }
+    parts.push('        </vertices>\n        <triangles>\n');
+    for (let t = 0; t < indices.length; t += 3) {
+      parts.push(
+        `          <triangle v1="${indices[t]}" v2="${indices[t + 1]}" v3="${indices[t + 2]}"/>\n`
+      );
+    }
+    parts.push('        </triangles>\n      </mesh>\n    </object>\n');
+  });
+  parts.push('  </resources>\n');
+  parts.push('  <build>\n');
+  objects.forEach((_, i) => parts.push(`    <item objectid="${i + 1}"/>\n`));
+  parts.push('  </build>\n');
+  parts.push('</model>\n');
+
+  return parts.join('');
+}
+
+/** Build the 3D model part XML for a single mesh object */
+export function build3MFModelXml(
+  geom: Geom3,
+  params: VaseParams,
+  objectName: string,
+  created: Date = new Date(),
+  textured = false
+): string {
+  return buildModelXml(
+    [{ name: objectName, geom }],
+    objectName,
+    PARAMS_METADATA_NAME,
+    params,
+    created,
+    textured ? TEXTURE_PATH : undefined
+  );
+}
+
+/** Build the 3D model part XML for a lamp, one object per part */
+export function buildLamp3MFModelXml(
+  objects: ThreeMFObject[],
+  params: LampParams,
+  title: string,
+  created: Date = new Date()
+): string {
+  return buildModelXml(objects, title, LAMP_PARAMS_METADATA_NAME, params, created);
+}
+
+/** Zip a model part, and the texture it relates to if any, into an OPC package */
+function packageModel(modelXml: string, modified: Date, texture?: Uint8Array): Uint8Array {
+  const encoder = new TextEncoder();
+  const entries: ZipEntry[] = [
+    { path: '[Content_Types].xml', data: encoder.encode(CONTENT_TYPES_XML) },
+    { path: '_rels/.rels', data: encoder.encode(RELS_XML) },
+    { path: MODEL_PATH, data: encoder.encode(modelXml) },
+  ];
+  if (texture) {
+    entries.push(
+      { path: MODEL_RELS_PATH, data: encoder.encode(MODEL_RELS_XML) },
+      { path: TEXTURE_PATH, data: texture }
+    );
+  }
+  return createZip(entries, { modified });
+}
+
+/**
+ * Serialize a Geom3 to a 3MF package.
+ * Returns the raw ZIP bytes.
+ */
+export function serialize3MF(
+  geom: Geom3,
+  params: VaseParams,
+  options: ThreeMFOptions = {}
+): Uint8Array {
+  const objectName = options.objectName ?? 'LuminaForge Vase';
+  const modified = options.modified ?? new Date();
+  const modelXml = build3MFModelXml(geom, params, objectName, modified, !!options.texture);
+  return packageModel(modelXml, modified, options.texture);
+}
+
+/**
+ * Serialize lamp parts to one 3MF package, one object per part.
+ * Parts keep their positions, so lay them out on the plate first.
+ */
+export function serializeLamp3MF(
+  objects: ThreeMFObject[],
+  params: LampParams,
+  options: ThreeMFOptions = {}
+): Uint8Array {
+  const title = options.objectName ?? 'LuminaForge Lamp';
+  const modified = options.modified ?? new Date();
+  return packageModel(buildLamp3MFModelXml(objects, params, title, modified), modified);
+}
@@ -0,0 +1,132 @@
+/**
+ * Minimal ZIP archive writer (store method, no compression).
+ *
+ * Enough for OPC packages like 3MF, which only require a valid ZIP container.
+ * Layout: [local header + data]* → central directory → end of central directory.
+ */
+
+export interface ZipEntry {
+  path: string;
+  data: Uint8Array;
+}
+
+export interface ZipOptions {
+  /** Modification time stamped on every entry (defaults to now) */
+  modified?: Date;
+}
+
+const LOCAL_HEADER_SIG = 0x04034b50;
+const CENTRAL_HEADER_SIG = 0x02014b50;
+const END_OF_CENTRAL_DIR_SIG = 0x06054b50;
+const ZIP_VERSION = 20;
+/** General purpose flag bit 11: file names are UTF-8 */
+const FLAG_UTF8 = 0x0800;
+
+let _crcTable: Uint32Array | null = null;
+
+function getCrcTable(): Uint32Array {
+  if (_crcTable) return _crcTable;
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  _crcTable = table;
+  return table;
+}
+
+/** CRC-32 (IEEE 802.3) of a byte array */
+export function crc32(data: Uint8Array): number {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** Pack a Date into MS-DOS time and date words */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Build a ZIP archive from the given entries.
+ * Entries are written in order; paths use forward slashes.
+ */
+export function createZip(entries: ZipEntry[], options: ZipOptions = {}): Uint8Array {
+  const encoder = new TextEncoder();
+  const { time, date } = toDosDateTime(options.modified ?? new Date());
+
+  const prepared = entries.map((entry) => ({
+    name: encoder.encode(entry.path),
+    data: entry.data,
+    crc: crc32(entry.data),
+  }));
+
+  const localSize = prepared.reduce((sum, e) => sum + 30 + e.name.length + e.data.length, 0);
+  const centralSize = prepared.reduce((sum, e) => sum + 46 + e.name.length, 0);
+  const out = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(out.buffer);
+
+  let offset = 0;
+  const localOffsets: number[] = [];
+
+  // Local file headers + data
+  for (const e of prepared) {
+    localOffsets.push(offset);
+    view.setUint32(offset, LOCAL_HEADER_SIG, true);
+    view.setUint16(offset + 4, ZIP_VERSION, true);
+    view.setUint16(offset + 6, FLAG_UTF8, true);
+    view.setUint16(offset + 8, 0, true); // method: store
+    view.setUint16(offset + 10, time, true);
+    view.setUint16(offset + 12, date, true);
+    view.setUint32(offset + 14, e.crc, true);
+    view.setUint32(offset + 18, e.data.length, true);
+    view.setUint32(offset + 22, e.data.length, true);
+    view.setUint16(offset + 26, e.name.length, true);
+    view.setUint16(offset + 28, 0, true);
+    out.set(e.name, offset + 30);
+    out.set(e.data, offset + 30 + e.name.length);
+    offset += 30 + e.name.length + e.data.length;
+  }
+
+  // Central directory
+  const centralStart = offset;
+  prepared.forEach((e, i) => {
+    view.setUint32(offset, CENTRAL_HEADER_SIG, true);
+    view.setUint16(offset + 4, ZIP_VERSION, true);
+    view.setUint16(offset + 6, ZIP_VERSION, true);
+    view.setUint16(offset + 8, FLAG_UTF8, true);
+    view.setUint16(offset + 10, 0, true);
+    view.setUint16(offset + 12, time, true);
+    view.setUint16(offset + 14, date, true);
+    view.setUint32(offset + 16, e.crc, true);
+    view.setUint32(offset + 20, e.data.length, true);
+    view.setUint32(offset + 24, e.data.length, true);
+    view.setUint16(offset + 28, e.name.length, true);
+    // extra length, comment length, disk number, internal/external attrs: all zero
+    view.setUint32(offset + 42, localOffsets[i], true);
+    out.set(e.name, offset + 46);
+    offset += 46 + e.name.length;
+  });
+
+  // End of central directory
+  view.setUint32(offset, END_OF_CENTRAL_DIR_SIG, true);
+  view.setUint16(offset + 8, prepared.length, true);
+  view.setUint16(offset + 10, prepared.length, true);
+  view.setUint32(offset + 12, offset - centralStart, true);
+  view.setUint32(offset + 16, centralStart, true);
+
+  return out;
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { measurements, primitives } from '@jscad/modeling';
+import { generateLampPartForPrint, layoutOnPlate, PLATE_GAP } from '../lampPrintLayout';
+import { getLipHeight } from '../lampDimensions';
+import { DEFAULT_LAMP_PARAMS } from '@/types/design';
+import type { LampParams } from '@/types/design';
+
+/** Lightweight params for tests — classic style, resolution: 16, reduced heights */
+const TEST_LAMP_PARAMS: LampParams = {
+  ...DEFAULT_LAMP_PARAMS,
+  resolution: 16,
+  base: { ...DEFAULT_LAMP_PARAMS.base, height: 40 },
+  shade: { ...DEFAULT_LAMP_PARAMS.shade, height: 60, style: 'classic', ridgeCount: 0, ridgeDepth: 0 },
+};
+
+/** Max XY distance from the Z axis over vertices within a Z range */
+function maxRadiusNearZ(geom: any, zMin: number, zMax: number): number {
+  let maxR = 0;
+  for (const poly of geom.polygons) {
+    for (const v of poly.vertices) {
+      if (v[2] >= zMin && v[2] <= zMax) maxR = Math.max(maxR, Math.hypot(v[0], v[1]));
+    }
+  }
+  return maxR;
+}
+
+describe('generateLampPartForPrint', () => {
+  it('stands the base on its floor, centred', () => {
+    const [min, max] = measurements.measureBoundingBox(generateLampPartForPrint(TEST_LAMP_PARAMS, 'base'));
+    expect(min[2]).toBeCloseTo(0, 6);
+    expect(max[2]).toBeCloseTo(TEST_LAMP_PARAMS.base.height + getLipHeight(TEST_LAMP_PARAMS), 6);
+    expect(min[0] + max[0]).toBeCloseTo(0, 6);
+    expect(min[1] + max[1]).toBeCloseTo(0, 6);
+  });
+
+  it('prints the shade upside down on its wide rim', () => {
+    const shade = generateLampPartForPrint(TEST_LAMP_PARAMS, 'shade');
+    const [min, max] = measurements.measureBoundingBox(shade);
+    expect(min[2]).toBeCloseTo(0, 6);
+    expect(max[2]).toBeCloseTo(TEST_LAMP_PARAMS.shade.height + getLipHeight(TEST_LAMP_PARAMS), 6);
+
+    const rim = maxRadiusNearZ(shade, 0, 0.01);
+    const sleeveEnd = maxRadiusNearZ(shade, max[2] - 0.01, max[2]);
+    expect(rim).toBeCloseTo(TEST_LAMP_PARAMS.shade.diameter / 2, 0);
+    expect(sleeveEnd).toBeLessThan(rim);
+  });
+});
+
+describe('layoutOnPlate', () => {
+  it('places parts in a row, a gap apart and centred on the origin', () => {
+    const parts = layoutOnPlate([
+      primitives.cuboid({ size: [20, 20, 10], center: [0, 0, 5] }),
+      primitives.cuboid({ size: [40, 10, 10], center: [0, 0, 5] }),
+    ]);
+    const [aMin, aMax] = measurements.measureBoundingBox(parts[0]);
+    const [bMin, bMax] = measurements.measureBoundingBox(parts[1]);
+
+    expect(bMin[0] - aMax[0]).toBeCloseTo(PLATE_GAP, 6);
+    expect(aMin[0] + bMax[0]).toBeCloseTo(0, 6);
+    expect(aMin[2]).toBeCloseTo(0, 6);
+    expect(bMin[1]).toBeCloseTo(-5, 6);
+  });
+});
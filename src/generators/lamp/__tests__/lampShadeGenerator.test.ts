@@ -119,4 +119,10 @@ describe('generateLampShade', () => {
       expect(allFinite(geom)).toBe(true);
     }
   });
+
+  it('works with a threaded connection', () => {
+    const geom = generateLampShade(makeParams({ connectionType: 'threaded' }));
+    expect(polygonCount(geom)).toBeGreaterThan(0);
+    expect(allFinite(geom)).toBe(true);
+  });
 });
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { booleans, measurements, primitives, transforms } from '@jscad/modeling';
+import type { Geom3 } from '@jscad/modeling';
+import { DEFAULT_LAMP_PARAMS } from '@/types/design';
+import type { LampParams, ThreadProfile } from '@/types/design';
+import {
+  buildMaleThread,
+  buildThreadedSleeve,
+  getThreadDimensions,
+  getThreadedSleeveOuterRadius,
+} from '../lampThread';
+import { getBaseLipOuterRadius, getLipHeight } from '../lampDimensions';
+import { generateLampBase } from '../lampBaseGenerator';
+import { generateLampShade } from '../lampShadeGenerator';
+
+/** Lightweight params for tests — 32 segments per turn */
+const TEST_PARAMS: LampParams = {
+  ...DEFAULT_LAMP_PARAMS,
+  resolution: 16,
+  base: { ...DEFAULT_LAMP_PARAMS.base, height: 30 },
+  connectionType: 'threaded',
+};
+const ROOT_RADIUS = 40;
+const WALL = 2;
+const PROFILES: ThreadProfile[] = ['triangular', 'trapezoidal', 'square'];
+
+/** Base lip with its thread, in lip-local Z */
+function buildMale(params: LampParams): Geom3 {
+  const height = getLipHeight(params);
+  const center: [number, number, number] = [0, 0, height / 2];
+  const core = booleans.subtract(
+    primitives.cylinder({ radius: ROOT_RADIUS, height, segments: 32, center }),
+    primitives.cylinder({ radius: ROOT_RADIUS - WALL, height, segments: 32, center })
+  );
+  return booleans.union(core, buildMaleThread(params, ROOT_RADIUS));
+}
+
+function buildFemale(params: LampParams): Geom3 {
+  return buildThreadedSleeve(params, ROOT_RADIUS, getLipHeight(params), WALL);
+}
+
+describe('getThreadDimensions', () => {
+  it('keeps the crest open on steep profiles at tight clearance', () => {
+    const dims = getThreadDimensions({
+      ...TEST_PARAMS,
+      threadProfile: 'triangular',
+      threadPitch: 2,
+      threadClearance: 0.6,
+    });
+    const crestWidth = 2 * (dims.midHalfWidth - (dims.depth / 2) * dims.flankSlope);
+    expect(dims.depth).toBeGreaterThan(0);
+    expect(crestWidth).toBeGreaterThanOrEqual(0.1 * 2 - 1e-9);
+  });
+
+  it('leaves square threads at their nominal depth', () => {
+    const dims = getThreadDimensions({ ...TEST_PARAMS, threadProfile: 'square', threadPitch: 5 });
+    expect(dims.flankSlope).toBe(0);
+    expect(dims.depth).toBeCloseTo(2, 9);
+    expect(dims.flankOffset).toBeCloseTo(TEST_PARAMS.threadClearance, 9);
+  });
+});
+
+describe('threaded connection', () => {
+  it('makes the lip as tall as the turns plus a pitch', () => {
+    expect(getLipHeight({ ...TEST_PARAMS, threadPitch: 4, threadTurns: 3 })).toBe(16);
+  });
+
+  it.each(PROFILES)('%s male and female threads do not intersect at the configured clearance', (profile) => {
+    const params = { ...TEST_PARAMS, threadProfile: profile };
+    const overlap = booleans.intersect(buildMale(params), buildFemale(params));
+    expect(measurements.measureVolume(overlap)).toBeLessThan(1e-6);
+  });
+
+  it('meshes: the sleeve half a turn out of phase collides with the male thread', () => {
+    const female = transforms.rotateZ(Math.PI, buildFemale(TEST_PARAMS));
+    const overlap = booleans.intersect(buildMale(TEST_PARAMS), female);
+    expect(measurements.measureVolume(overlap)).toBeGreaterThan(1);
+  });
+
+  it('does not intersect at a wider clearance either', () => {
+    const params = { ...TEST_PARAMS, threadPitch: 4, threadClearance: 0.6, threadTurns: 1 };
+    const overlap = booleans.intersect(buildMale(params), buildFemale(params));
+    expect(measurements.measureVolume(overlap)).toBeLessThan(1e-6);
+  });
+
+  it('threads the base lip beyond the plain lip radius, inside the sleeve', () => {
+    const base = generateLampBase(TEST_PARAMS);
+    const lipOuter = getBaseLipOuterRadius(TEST_PARAMS);
+    const dims = getThreadDimensions(TEST_PARAMS);
+    let lipTop = 0;
+    let threadRadius = 0;
+    for (const poly of base.polygons) {
+      for (const [x, y, z] of poly.vertices) {
+        lipTop = Math.max(lipTop, z);
+        if (z > TEST_PARAMS.base.height + 0.5) threadRadius = Math.max(threadRadius, Math.hypot(x, y));
+      }
+    }
+
+    expect(lipTop).toBeCloseTo(TEST_PARAMS.base.height + getLipHeight(TEST_PARAMS), 0);
+    expect(threadRadius).toBeGreaterThan(lipOuter + dims.depth * 0.9);
+    expect(threadRadius).toBeLessThan(getThreadedSleeveOuterRadius(TEST_PARAMS, lipOuter, WALL));
+  });
+
+  it('generated base and shade screw together without overlapping', () => {
+    const params: LampParams = {
+      ...TEST_PARAMS,
+      base: { ...TEST_PARAMS.base, height: 20 },
+      shade: { ...TEST_PARAMS.shade, height: 30 },
+      threadTurns: 1,
+    };
+    const base = generateLampBase(params);
+    const shade = transforms.translate([0, 0, params.base.height], generateLampShade(params));
+    expect(measurements.measureVolume(booleans.intersect(base, shade))).toBeLessThan(1e-3);
+  });
+});
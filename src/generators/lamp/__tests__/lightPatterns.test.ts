@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import { measurements } from '@jscad/modeling';
+import {
+  LIGHT_PATTERN_MIN_BAR,
+  buildLightPatternCutters,
+  layoutLightPattern,
+} from '../lightPatterns';
+import { generateLampShade } from '../lampShadeGenerator';
+import { toShellParams } from '../lampDimensions';
+import { DEFAULT_LAMP_PARAMS } from '@/types/design';
+import type { LampParams } from '@/types/design';
+import type { PatternCutterOptions } from '../../shared/surfacePattern';
+import type { Point2 } from '../../shared/voronoi';
+
+/** Lightweight params for tests — classic smooth shade, resolution: 16, reduced heights */
+const TEST_LAMP_PARAMS: LampParams = {
+  ...DEFAULT_LAMP_PARAMS,
+  resolution: 16,
+  base: { ...DEFAULT_LAMP_PARAMS.base, height: 40 },
+  shade: {
+    ...DEFAULT_LAMP_PARAMS.shade,
+    height: 60,
+    style: 'classic',
+    ridgeCount: 0,
+    ridgeDepth: 0,
+    twistAngle: 0,
+  },
+};
+
+const OPTIONS: PatternCutterOptions = {
+  resolution: 16,
+  wallThickness: 1.6,
+  baseThickness: 0,
+  invertProfile: true,
+};
+
+function layout(overrides: Partial<LampParams>, shade: Partial<LampParams['shade']> = {}) {
+  const params = { ...TEST_LAMP_PARAMS, ...overrides };
+  const shell = toShellParams({ ...params.shade, ...shade });
+  return layoutLightPattern(shell, params, OPTIONS);
+}
+
+function pointSegmentDistance([px, pz]: Point2, [ax, az]: Point2, [bx, bz]: Point2): number {
+  const dx = bx - ax;
+  const dz = bz - az;
+  const t = Math.max(0, Math.min(1, ((px - ax) * dx + (pz - az) * dz) / (dx * dx + dz * dz)));
+  return Math.hypot(px - ax - t * dx, pz - az - t * dz);
+}
+
+/** Gap between two disjoint convex polygons */
+function polygonGap(a: Point2[], b: Point2[]): number {
+  let gap = Infinity;
+  [[a, b], [b, a]].forEach(([p, q]) => {
+    p.forEach((point) => {
+      q.forEach((start, i) => {
+        gap = Math.min(gap, pointSegmentDistance(point, start, q[(i + 1) % q.length]));
+      });
+    });
+  });
+  return gap;
+}
+
+/** Narrowest bar between any two cells, across the seam too */
+function narrowestBar(cells: Point2[][], circumference: number): number {
+  let bar = Infinity;
+  for (let i = 0; i < cells.length; i++) {
+    for (let j = i + 1; j < cells.length; j++) {
+      [-circumference, 0, circumference].forEach((shift) => {
+        const moved = cells[j].map(([u, z]) => [u + shift, z] as Point2);
+        bar = Math.min(bar, polygonGap(cells[i], moved));
+      });
+    }
+  }
+  return bar;
+}
+
+describe('layoutLightPattern', () => {
+  it('is empty without a pattern', () => {
+    const result = layout({ lightPattern: 'none' });
+    expect(result.cells).toHaveLength(0);
+    expect(result.slots).toHaveLength(0);
+  });
+
+  it.each(['diamond', 'square'] as const)('keeps %s lattice bars at the set width', (latticeShape) => {
+    const result = layout({ lightPattern: 'lattice', latticeShape, latticeCellSize: 10, latticeBarWidth: 3 });
+    expect(result.cells.length).toBeGreaterThan(10);
+    const circumference = 2 * Math.PI * result.referenceRadius;
+    expect(narrowestBar(result.cells, circumference)).toBeCloseTo(3, 6);
+  });
+
+  it('never lets lattice bars drop below the minimum', () => {
+    const result = layout({ lightPattern: 'lattice', latticeBarWidth: 0.5 });
+    const circumference = 2 * Math.PI * result.referenceRadius;
+    expect(narrowestBar(result.cells, circumference)).toBeGreaterThanOrEqual(LIGHT_PATTERN_MIN_BAR - 1e-9);
+  });
+
+  it('keeps lattice cells inside the band', () => {
+    const result = layout({ lightPattern: 'lattice', latticeShape: 'square' });
+    result.cells.forEach((cell) =>
+      cell.forEach(([, z]) => {
+        expect(z).toBeGreaterThanOrEqual(result.bandBottom - 1e-9);
+        expect(z).toBeLessThanOrEqual(result.bandTop + 1e-9);
+      })
+    );
+  });
+
+  it('narrows wide spiral slots to leave minimum bars across the helix', () => {
+    const straight = layout({ lightPattern: 'spiral-slots', slotCount: 12, slotWidth: 100 });
+    const twisted = layout({ lightPattern: 'spiral-slots', slotCount: 12, slotWidth: 100 }, { twistAngle: 360 });
+    expect(straight.slots).toHaveLength(12);
+    expect(twisted.slotsFollowTwist).toBe(true);
+
+    const pitch = (2 * Math.PI) / 12;
+    const straightBar = (pitch - 2 * straight.slots[0].halfWidth) * straight.referenceRadius;
+    expect(straightBar).toBeCloseTo(LIGHT_PATTERN_MIN_BAR, 6);
+    // Leaning slots leave narrower bars across the helix, so they give way more
+    expect(twisted.slots[0].halfWidth).toBeLessThan(straight.slots[0].halfWidth);
+  });
+
+  it('keeps narrow slots at their set width', () => {
+    const result = layout({ lightPattern: 'spiral-slots', slotCount: 8, slotWidth: 4 });
+    expect(2 * result.slots[0].halfWidth * result.referenceRadius).toBeCloseTo(4, 6);
+  });
+
+  it('lays radial shadow lines straight and parallel lines in bridged rows', () => {
+    const radial = layout({ lightPattern: 'shadow-lines', shadowLineDirection: 'radial', shadowLineCount: 20 });
+    expect(radial.slots).toHaveLength(20);
+    expect(radial.slotsFollowTwist).toBe(false);
+
+    const parallel = layout({
+      lightPattern: 'shadow-lines',
+      shadowLineDirection: 'parallel',
+      shadowLineCount: 6,
+      shadowLineWidth: 50,
+    });
+    expect(parallel.cells).toHaveLength(6 * 4);
+    const circumference = 2 * Math.PI * parallel.referenceRadius;
+    expect(narrowestBar(parallel.cells, circumference)).toBeGreaterThanOrEqual(LIGHT_PATTERN_MIN_BAR - 1e-9);
+  });
+
+  it('builds one cutter per opening', () => {
+    const params: LampParams = { ...TEST_LAMP_PARAMS, lightPattern: 'shadow-lines', shadowLineCount: 10 };
+    expect(buildLightPatternCutters(toShellParams(params.shade), params, OPTIONS)).toHaveLength(10);
+  });
+});
+
+describe('generateLampShade with a light pattern', () => {
+  const solidVolume = () => measurements.measureVolume(generateLampShade(TEST_LAMP_PARAMS));
+
+  it.each([
+    { lightPattern: 'lattice' as const },
+    { lightPattern: 'spiral-slots' as const },
+  ])('cuts the $lightPattern openings through the wall', (overrides) => {
+    const cut = generateLampShade({ ...TEST_LAMP_PARAMS, ...overrides });
+    expect(measurements.measureVolume(cut)).toBeLessThan(solidVolume() * 0.9);
+  });
+});
@@ -1,3 +1,4 @@
 export { generateLamp, generateLampBase, generateLampShade } from './lampGenerator';
+export { LAMP_PARTS, LAMP_PART_NAMES, generateLampPartForPrint, layoutOnPlate } from './lampPrintLayout';
 export { SOCKET_SPECS, BULB_CLEARANCES, WIRE_CHANNEL, CONNECTION_LIP, LAMP_BASE_THICKNESS } from './socketConstants';
 export type { SocketSpec, BulbClearance } from './socketConstants';
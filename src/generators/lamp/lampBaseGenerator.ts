@@ -1,7 +1,8 @@
 /**
  * Lamp base geometry generator.
  * Generates a hollow decorative base with socket cavity, wire channel,
- * and connection lip for shade attachment.
+ * and connection lip for shade attachment — threaded on the outside for
+ * the threaded connection.
  */
 
 import { primitives, booleans, transforms } from '@jscad/modeling';
@@ -9,13 +10,15 @@ import type { Geom3 } from '@jscad/modeling';
 import type { LampParams } from '@/types/design';
 import { buildDecorativeShell } from '../shared/shellBuilder';
 import { SOCKET_SPECS, WIRE_CHANNEL, CONNECTION_LIP, LAMP_BASE_THICKNESS } from './socketConstants';
+import { getBaseLipOuterRadius, getBaseTopRadius, getLipHeight, toShellParams } from './lampDimensions';
+import { buildMaleThread } from './lampThread';
 
 /**
  * Generate the lamp base.
  * Pure function: (LampParams) => Geom3
  */
 export function generateLampBase(params: LampParams): Geom3 {
-  const baseParams = params.base;
+  const baseParams = toShellParams(params.base);
   const socketSpec = SOCKET_SPECS[params.socketType];
 
   // 1. Build outer decorative shell (solid)
@@ -70,12 +73,10 @@ export function generateLampBase(params: LampParams): Geom3 {
     base = booleans.subtract(base, groove);
   }
 
-  // 7. Connection lip at top
-  const lipOuter = baseParams.diameter / 2 + CONNECTION_LIP.wallThickness;
-  const lipInner = baseParams.diameter / 2 - CONNECTION_LIP.tolerance;
-  const lipHeight = params.connectionType === 'friction-fit'
-    ? CONNECTION_LIP.height
-    : CONNECTION_LIP.height / 2;
+  // 7. Connection lip on the (tapered) top rim
+  const lipOuter = getBaseLipOuterRadius(params);
+  const lipInner = getBaseTopRadius(params) - CONNECTION_LIP.tolerance;
+  const lipHeight = getLipHeight(params);
 
   const outerLipCylinder = primitives.cylinder({
     radius: lipOuter,
@@ -89,7 +90,13 @@ export function generateLampBase(params: LampParams): Geom3 {
     segments: Math.max(params.resolution, 32),
     center: [0, 0, baseParams.height + lipHeight / 2],
   });
-  const lipRing = booleans.subtract(outerLipCylinder, innerLipCylinder);
+  let lipRing = booleans.subtract(outerLipCylinder, innerLipCylinder);
+  if (params.connectionType === 'threaded') {
+    lipRing = booleans.union(
+      lipRing,
+      transforms.translate([0, 0, baseParams.height], buildMaleThread(params, lipOuter))
+    );
+  }
   base = booleans.union(base, lipRing);
 
   return base;
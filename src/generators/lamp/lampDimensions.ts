@@ -0,0 +1,83 @@
+/**
+ * Dimensions shared by the lamp parts.
+ * Maps lamp tapers onto the shell builder and locates the connection lip
+ * and the bulb, so the base, the shade, the safety check and the assembled
+ * preview agree on where things sit.
+ */
+
+import type { DecorativeShellParams, LampParams } from '@/types/design';
+import { getShellProfileScale } from '../vase/profiles';
+import { BULB_CLEARANCES, CONNECTION_LIP, SOCKET_SPECS } from './socketConstants';
+
+/**
+ * Shell builder params for a lamp part. Lamp tapers are offsets
+ * (0 = straight) while the builder scales the top by a ratio.
+ */
+export function toShellParams(part: DecorativeShellParams): DecorativeShellParams {
+  return { ...part, taper: 1 + part.taper };
+}
+
+/**
+ * Height of the base lip and the shade sleeve. Gravity-sit seats are half
+ * as tall; threaded lips fit the turns plus a pitch of run-out.
+ */
+export function getLipHeight(params: LampParams): number {
+  switch (params.connectionType) {
+    case 'threaded':
+      return (params.threadTurns + 1) * params.threadPitch;
+    case 'gravity-sit':
+      return CONNECTION_LIP.height / 2;
+    case 'friction-fit':
+    default:
+      return CONNECTION_LIP.height;
+  }
+}
+
+/** Radius of the base's top rim, where the lip sits */
+export function getBaseTopRadius(params: LampParams): number {
+  return (params.base.diameter / 2) * getShellProfileScale(toShellParams(params.base), 1);
+}
+
+/** Outer radius of the base lip, which the shade sleeve slips over */
+export function getBaseLipOuterRadius(params: LampParams): number {
+  return getBaseTopRadius(params) + CONNECTION_LIP.wallThickness;
+}
+
+/** Outer radius of the shade's narrow bottom end (its profile runs upside down) */
+export function getShadeBottomRadius(params: LampParams): number {
+  return (params.shade.diameter / 2) * getShellProfileScale(toShellParams(params.shade), 1);
+}
+
+/**
+ * Space the bulb may occupy in the assembled lamp (Z up from the table):
+ * a cylinder of the bulb's diameter with a hemispherical top. The screw
+ * base sits in the socket collar, so the glass starts at the collar top.
+ */
+export interface BulbEnvelope {
+  radius: number;
+  zBottom: number;
+  zTop: number;
+}
+
+export function getBulbEnvelope(params: LampParams): BulbEnvelope {
+  const bulb = BULB_CLEARANCES[params.bulbType];
+  const zBottom = params.base.height + SOCKET_SPECS[params.socketType].collarHeight;
+  return {
+    radius: bulb.diameter / 2,
+    zBottom,
+    zTop: Math.max(params.base.height + bulb.height, zBottom),
+  };
+}
+
+/**
+ * Distance from a point (radius rho from the lamp's axis, height z) to the
+ * bulb envelope's surface. Negative inside the envelope.
+ */
+export function distanceToBulb(rho: number, z: number, envelope: BulbEnvelope): number {
+  const { radius, zBottom, zTop } = envelope;
+  // Centre of the hemispherical top; a bulb shorter than its radius is all dome
+  const zDome = Math.max(zTop - radius, zBottom);
+  if (z > zDome) return Math.hypot(rho, z - zDome) - radius;
+  if (z >= zBottom) return rho - radius;
+  return rho <= radius ? zBottom - z : Math.hypot(rho - radius, zBottom - z);
+}
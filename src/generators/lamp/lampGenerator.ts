@@ -9,22 +9,16 @@ import type { Geom3 } from '@jscad/modeling';
 import type { LampParams } from '@/types/design';
 import { generateLampBase } from './lampBaseGenerator';
 import { generateLampShade } from './lampShadeGenerator';
-import { CONNECTION_LIP } from './socketConstants';
 
 /**
  * Generate the complete lamp (base + shade) for 3D preview.
- * The shade is positioned on top of the base with connection lip gap.
+ * The shade's sleeve comes down over the base lip, so it sits at the base height.
  */
 export function generateLamp(params: LampParams): Geom3 {
   const base = generateLampBase(params);
   const shade = generateLampShade(params);
 
-  // Position shade on top of base: base height + lip height + small gap
-  const lipHeight = params.connectionType === 'friction-fit'
-    ? CONNECTION_LIP.height
-    : CONNECTION_LIP.height / 2;
-  const shadeOffset = params.base.height + lipHeight;
-  const shadePositioned = transforms.translate([0, 0, shadeOffset], shade);
+  const shadePositioned = transforms.translate([0, 0, params.base.height], shade);
 
   return booleans.union(base, shadePositioned);
 }
@@ -0,0 +1,60 @@
+/**
+ * Print orientation and plate layout for the lamp parts.
+ * The base prints as modelled, standing on its solid floor. The shade
+ * prints upside down on its wide rim, which is flat and far steadier than
+ * the narrow sleeve end. Each part is centred on the origin and rests on
+ * Z = 0, ready to export on its own or side by side on one plate.
+ */
+
+import { measurements, transforms } from '@jscad/modeling';
+import type { Geom3 } from '@jscad/modeling';
+import type { LampParams } from '@/types/design';
+import type { LampPart } from '@/types/geometry';
+import { generateLampBase } from './lampBaseGenerator';
+import { generateLampShade } from './lampShadeGenerator';
+
+/** Separately printed parts, in plate order */
+export const LAMP_PARTS: LampPart[] = ['base', 'shade'];
+
+/** Object names shown in the slicer */
+export const LAMP_PART_NAMES: Record<LampPart, string> = {
+  base: 'LuminaForge Lamp Base',
+  shade: 'LuminaForge Lamp Shade',
+};
+
+/** mm between parts laid out on one plate */
+export const PLATE_GAP = 10;
+
+/** Centre a part in XY and drop it onto Z = 0 */
+function placeOnPlate(geom: Geom3): Geom3 {
+  const [min, max] = measurements.measureBoundingBox(geom);
+  return transforms.translate(
+    [-(min[0] + max[0]) / 2, -(min[1] + max[1]) / 2, -min[2]],
+    geom
+  );
+}
+
+/** Generate one lamp part in its print orientation */
+export function generateLampPartForPrint(params: LampParams, part: LampPart): Geom3 {
+  if (part === 'base') return placeOnPlate(generateLampBase(params));
+  return placeOnPlate(transforms.rotateX(Math.PI, generateLampShade(params)));
+}
+
+/**
+ * Lay print-oriented parts out in a row along X, PLATE_GAP apart, with
+ * the row centred on the origin.
+ */
+export function layoutOnPlate(parts: Geom3[]): Geom3[] {
+  const widths = parts.map((geom) => {
+    const [min, max] = measurements.measureBoundingBox(geom);
+    return max[0] - min[0];
+  });
+  const total = widths.reduce((sum, w) => sum + w, 0) + PLATE_GAP * (parts.length - 1);
+
+  let left = -total / 2;
+  return parts.map((geom, i) => {
+    const placed = transforms.translate([left + widths[i] / 2, 0, 0], geom);
+    left += widths[i] + PLATE_GAP;
+    return placed;
+  });
+}
@@ -0,0 +1,106 @@
+/**
+ * Lamp shade geometry generator.
+ * Generates a hollow decorative shade, open at both ends, whose profile
+ * runs upside down so the narrow end meets the base. The light pattern is
+ * cut through the shell wall. A sleeve below the shell slips over (or, for
+ * the threaded connection, screws onto) the base's connection lip and a
+ * shoulder rests on it.
+ *
+ * Local coordinates: the sleeve spans Z = 0 to the lip height and the
+ * shell starts at the lip height, so translating the shade by the base
+ * height seats it on the base.
+ */
+
+import { primitives, booleans, transforms } from '@jscad/modeling';
+import type { Geom3 } from '@jscad/modeling';
+import type { LampParams } from '@/types/design';
+import { buildDecorativeShell } from '../shared/shellBuilder';
+import { CONNECTION_LIP } from './socketConstants';
+import { buildLightPatternCutters } from './lightPatterns';
+import { buildThreadedSleeve, getThreadedSleeveOuterRadius } from './lampThread';
+import {
+  getBaseLipOuterRadius,
+  getBaseTopRadius,
+  getLipHeight,
+  getShadeBottomRadius,
+  toShellParams,
+} from './lampDimensions';
+
+/** Annulus between two radii over [zMin, zMax] */
+function ring(inner: number, outer: number, zMin: number, zMax: number, segments: number): Geom3 {
+  const height = zMax - zMin;
+  const center: [number, number, number] = [0, 0, zMin + height / 2];
+  return booleans.subtract(
+    primitives.cylinder({ radius: outer, height, segments, center }),
+    primitives.cylinder({ radius: inner, height, segments, center })
+  );
+}
+
+/**
+ * Generate the lamp shade.
+ * Pure function: (LampParams) => Geom3
+ */
+export function generateLampShade(params: LampParams): Geom3 {
+  const shadeParams = toShellParams(params.shade);
+  const lipHeight = getLipHeight(params);
+  const segments = Math.max(params.resolution, 32);
+
+  // 1. Build outer decorative shell (solid, narrow end at the bottom)
+  const outerShell = buildDecorativeShell(shadeParams, {
+    resolution: params.resolution,
+    wallInset: 0,
+    invertProfile: true,
+  });
+
+  // 2. Build inner shell (wall offset)
+  const innerShell = buildDecorativeShell(shadeParams, {
+    resolution: params.resolution,
+    wallInset: shadeParams.wallThickness,
+    skipModulation: shadeParams.smoothInnerWall,
+    invertProfile: true,
+  });
+
+  // 3. Hollow shade (no baseThickness offset — open bottom)
+  let shell = booleans.subtract(outerShell, innerShell);
+
+  // 4. Light pattern — one subtract against the union is far cheaper than one per opening
+  const cutters = buildLightPatternCutters(shadeParams, params, {
+    resolution: params.resolution,
+    wallThickness: shadeParams.wallThickness,
+    baseThickness: 0,
+    invertProfile: true,
+  });
+  if (cutters.length > 0) shell = booleans.subtract(shell, booleans.union(...cutters));
+
+  // Raised above the sleeve
+  let shade = transforms.translate([0, 0, lipHeight], shell);
+
+  // 5. Sleeve around the base lip
+  const lipOuter = getBaseLipOuterRadius(params);
+  let sleeveOuter: number;
+  if (params.connectionType === 'threaded') {
+    sleeveOuter = getThreadedSleeveOuterRadius(params, lipOuter, CONNECTION_LIP.wallThickness);
+    shade = booleans.union(
+      shade,
+      buildThreadedSleeve(params, lipOuter, lipHeight, CONNECTION_LIP.wallThickness)
+    );
+  } else {
+    const sleeveInner = lipOuter + CONNECTION_LIP.tolerance;
+    sleeveOuter = sleeveInner + CONNECTION_LIP.wallThickness;
+    shade = booleans.union(shade, ring(sleeveInner, sleeveOuter, 0, lipHeight, segments));
+  }
+
+  // 6. Shoulder resting on the lip, bridging the sleeve to the shell wall
+  const shellOuter = getShadeBottomRadius(params);
+  const shoulderInner = Math.max(
+    Math.min(shellOuter - shadeParams.wallThickness, getBaseTopRadius(params) - CONNECTION_LIP.tolerance),
+    CONNECTION_LIP.wallThickness
+  );
+  const shoulderOuter = Math.max(sleeveOuter, shellOuter);
+  shade = booleans.union(
+    shade,
+    ring(shoulderInner, shoulderOuter, lipHeight, lipHeight + CONNECTION_LIP.wallThickness, segments)
+  );
+
+  return shade;
+}
@@ -0,0 +1,170 @@
+/**
+ * Screw-thread connection between the lamp base and shade.
+ *
+ * A right-hand thread of ridges sweeps helically around the outside of the
+ * base lip (male). The shade sleeve (female) is a ring with the male thread,
+ * grown by the clearance, cut out of it, so its ridges sit in the male's
+ * gaps with at least `threadClearance` all round. The groove runs out
+ * through the bottom of the sleeve so the shade can be screwed on.
+ *
+ * Both halves are built in lip-local coordinates — Z = 0 at the top of the
+ * base shell, which is the bottom of the shade — and the same helix phase,
+ * so they mesh in the assembled lamp.
+ */
+
+import { booleans, extrusions, geometries, primitives, transforms } from '@jscad/modeling';
+import type { Geom3 } from '@jscad/modeling';
+import type { LampParams } from '@/types/design';
+import { THREAD_PROFILES } from './socketConstants';
+
+/** Narrowest thread crest, as a fraction of pitch */
+const MIN_CREST_RATIO = 0.1;
+/** mm the male ridges sink into the lip so they fuse with it */
+const ROOT_OVERLAP = 0.2;
+
+export interface ThreadDimensions {
+  pitch: number;
+  turns: number;
+  clearance: number;
+  /** mm, radial height of a ridge */
+  depth: number;
+  /** Axial change of ridge half-width per mm of depth (tan of the flank angle) */
+  flankSlope: number;
+  /** mm, half the male ridge's width halfway up its flanks */
+  midHalfWidth: number;
+  /** mm, axial widening that keeps sloped flanks `clearance` apart */
+  flankOffset: number;
+}
+
+/**
+ * Thread dimensions for the lamp's settings. The male ridge and the female
+ * ridge are equally wide at mid-depth; the depth gives way on steep
+ * profiles so crests stay at least MIN_CREST_RATIO of the pitch wide.
+ */
+export function getThreadDimensions(params: LampParams): ThreadDimensions {
+  const pitch = params.threadPitch;
+  const clearance = params.threadClearance;
+  const profile = THREAD_PROFILES[params.threadProfile];
+  const flankAngle = (profile.flankAngle * Math.PI) / 180;
+  const flankSlope = Math.tan(flankAngle);
+  const flankOffset = clearance / Math.cos(flankAngle);
+  const midHalfWidth = pitch / 4 - flankOffset / 2;
+
+  let depth = profile.depthRatio * pitch;
+  if (flankSlope > 0) {
+    const crestLimit = (2 * (midHalfWidth - (MIN_CREST_RATIO * pitch) / 2)) / flankSlope;
+    depth = Math.max(Math.min(depth, crestLimit), 0);
+  }
+
+  return {
+    pitch,
+    turns: params.threadTurns,
+    clearance,
+    depth,
+    flankSlope,
+    midHalfWidth,
+    flankOffset,
+  };
+}
+
+/** Male ridge half-width at `u` mm outward from the thread root */
+function ridgeHalfWidth(dims: ThreadDimensions, u: number): number {
+  return dims.midHalfWidth + (dims.depth / 2 - u) * dims.flankSlope;
+}
+
+/**
+ * Thread cross-section between `uInner` and `uOuter` mm from the root, as
+ * (radius, axial) points CCW, centred on axial 0 and widened by `widen`
+ * on each flank.
+ */
+function threadProfile(
+  dims: ThreadDimensions,
+  rootRadius: number,
+  uInner: number,
+  uOuter: number,
+  widen: number
+): [number, number][] {
+  const inner = ridgeHalfWidth(dims, uInner) + widen;
+  const outer = ridgeHalfWidth(dims, uOuter) + widen;
+  return [
+    [rootRadius + uInner, -inner],
+    [rootRadius + uOuter, -outer],
+    [rootRadius + uOuter, outer],
+    [rootRadius + uInner, inner],
+  ];
+}
+
+/** Sweep a thread profile through `turns` turns, its centre starting at `zStart` at angle 0 */
+function sweepThread(
+  profile: [number, number][],
+  pitch: number,
+  turns: number,
+  zStart: number,
+  segments: number
+): Geom3 {
+  const helix = extrusions.extrudeHelical(
+    { angle: Math.PI * 2 * turns, pitch, segmentsPerRotation: segments },
+    geometries.geom2.fromPoints(profile)
+  );
+  return transforms.translate([0, 0, zStart], helix);
+}
+
+/**
+ * Male thread ridges around a lip of outer radius `rootRadius`, in
+ * lip-local Z. The ridge centres start half a pitch up so the thread stays
+ * within the lip height (getLipHeight).
+ */
+export function buildMaleThread(params: LampParams, rootRadius: number): Geom3 {
+  const dims = getThreadDimensions(params);
+  const segments = Math.max(params.resolution, 32);
+  return sweepThread(
+    threadProfile(dims, rootRadius, -ROOT_OVERLAP, dims.depth, 0),
+    dims.pitch,
+    dims.turns,
+    dims.pitch / 2,
+    segments
+  );
+}
+
+/**
+ * Threaded shade sleeve for a male lip of outer radius `rootRadius`, in
+ * lip-local Z from 0 to `height`: a ring clearing the male crests and
+ * roots by `threadClearance`, `wallThickness` thick behind the groove.
+ */
+export function buildThreadedSleeve(
+  params: LampParams,
+  rootRadius: number,
+  height: number,
+  wallThickness: number
+): Geom3 {
+  const dims = getThreadDimensions(params);
+  const segments = Math.max(params.resolution, 32);
+  const inner = rootRadius + dims.clearance;
+  const outer = getThreadedSleeveOuterRadius(params, rootRadius, wallThickness);
+  const center: [number, number, number] = [0, 0, height / 2];
+  const ring = booleans.subtract(
+    primitives.cylinder({ radius: outer, height, segments, center }),
+    primitives.cylinder({ radius: inner, height, segments, center })
+  );
+
+  // Same phase as the male thread, starting a turn lower so the groove
+  // runs out through the bottom of the sleeve
+  const groove = sweepThread(
+    threadProfile(dims, rootRadius, 0, dims.depth + dims.clearance, dims.flankOffset),
+    dims.pitch,
+    dims.turns + 2,
+    dims.pitch / 2 - dims.pitch,
+    segments
+  );
+  return booleans.subtract(ring, groove);
+}
+
+/** Outer radius of the threaded sleeve around a male lip of outer radius `rootRadius` */
+export function getThreadedSleeveOuterRadius(
+  params: LampParams,
+  rootRadius: number,
+  wallThickness: number
+): number {
+  const dims = getThreadDimensions(params);
+  return rootRadius + dims.depth + dims.clearance + wallThickness;
+}
@@ -0,0 +1,286 @@
+/**
+ * Light-pattern cutouts for lamp shades.
+ *
+ * Openings are laid out on the shade's unrolled surface (arc length at the
+ * narrowest layer × height, in the shell's own frame) between solid bands
+ * PATTERN_MIN_SOLID_BAND tall at the narrow end and at the rim. Sizing at
+ * the narrowest layer means bars are never thinner than
+ * LIGHT_PATTERN_MIN_BAR there and only widen where the shade flares.
+ *
+ * - Lattice: diamonds on a staggered grid, or squares in rows, separated by
+ *   latticeBarWidth bars.
+ * - Spiral slots: slots up the whole band that twist with the shade; slot
+ *   width gives way so bars stay wide enough across the helix.
+ * - Shadow lines: straight vertical slots all around (radial), or rows of
+ *   horizontal slots broken by staggered bridges (parallel).
+ *
+ * Only spiral slots follow the twist, so lattices and shadow lines cast
+ * regular shadows whatever the shade's decoration does.
+ */
+
+import type { Geom3 } from '@jscad/modeling';
+import type { DecorativeShellParams, LampParams } from '@/types/design';
+import {
+  PATTERN_MIN_SOLID_BAND,
+  buildCellCutter,
+  buildSlotCutter,
+  createPatternSampler,
+  getReferenceRadius,
+  meanRadius,
+} from '../shared/surfacePattern';
+import type { PatternCutterOptions, SlotSpec } from '../shared/surfacePattern';
+import { getLayerTwist } from '../shared/layerSampler';
+import type { LayerSampler } from '../shared/layerSampler';
+import type { Point2 } from '../shared/voronoi';
+
+/** Narrowest bar (mm) any light pattern leaves between openings */
+export const LIGHT_PATTERN_MIN_BAR = 2;
+/** Horizontal slots per parallel shadow line */
+const PARALLEL_SEGMENTS = 4;
+/** Width (mm) of the bridges joining a parallel line's slots */
+const PARALLEL_BRIDGE_WIDTH = 2 * LIGHT_PATTERN_MIN_BAR;
+/** Heights sampled when measuring the band */
+const BAND_SAMPLES = 8;
+
+export interface LightPatternLayout {
+  /** Convex openings as (u, Z) polygons, CCW — lattice cells and parallel lines */
+  cells: Point2[][];
+  /** Vertical or spiral slots */
+  slots: SlotSpec[];
+  /** Whether slots spiral with the shade's twist */
+  slotsFollowTwist: boolean;
+  /** mm, radius at which u maps to angle (u / referenceRadius) */
+  referenceRadius: number;
+  bandBottom: number;
+  bandTop: number;
+}
+
+/** Heights spread evenly over the band, ends included */
+function bandHeights(bandBottom: number, bandTop: number): number[] {
+  const heights: number[] = [];
+  for (let i = 0; i <= BAND_SAMPLES; i++) {
+    heights.push(bandBottom + (i / BAND_SAMPLES) * (bandTop - bandBottom));
+  }
+  return heights;
+}
+
+/**
+ * Squares in rows or diamonds on a staggered grid. Columns are fixed for
+ * the whole band; widening the column pitch to fill the circumference
+ * widens the openings, never the bars below latticeBarWidth.
+ */
+function layoutLattice(
+  params: LampParams,
+  circumference: number,
+  bandBottom: number,
+  bandTop: number
+): Point2[][] {
+  const bar = Math.max(params.latticeBarWidth, LIGHT_PATTERN_MIN_BAR);
+  const size = params.latticeCellSize;
+  const bandHeight = bandTop - bandBottom;
+  const cells: Point2[][] = [];
+
+  if (params.latticeShape === 'square') {
+    const pitch = size + bar;
+    const columns = Math.floor(circumference / pitch);
+    const rows = Math.floor((bandHeight + bar) / pitch);
+    if (columns < 3 || rows < 1) return cells;
+
+    const pitchU = circumference / columns;
+    const halfU = (pitchU - bar) / 2;
+    const zStart = bandBottom + (bandHeight - (rows * pitch - bar)) / 2 + size / 2;
+    for (let row = 0; row < rows; row++) {
+      const z = zStart + row * pitch;
+      for (let col = 0; col < columns; col++) {
+        const u = col * pitchU;
+        cells.push([
+          [u - halfU, z - size / 2],
+          [u + halfU, z - size / 2],
+          [u + halfU, z + size / 2],
+          [u - halfU, z + size / 2],
+        ]);
+      }
+    }
+    return cells;
+  }
+
+  // Diamonds: neighbours along the diagonals are pitch / √2 apart, and the
+  // half-diagonals shrink by k so parallel edges stay a bar apart
+  const pitch = size + bar * Math.SQRT2;
+  const columns = Math.floor(circumference / pitch);
+  if (columns < 3) return cells;
+  const pitchU = circumference / columns;
+  const k = 1 - bar * Math.sqrt(1 / (pitchU * pitchU) + 1 / (pitch * pitch));
+  const halfU = (k * pitchU) / 2;
+  const halfZ = (k * pitch) / 2;
+  const rowStep = pitch / 2;
+  if (bandHeight < 2 * halfZ) return cells;
+
+  const rows = Math.floor((bandHeight - 2 * halfZ) / rowStep) + 1;
+  const zStart = bandBottom + (bandHeight - 2 * halfZ - (rows - 1) * rowStep) / 2 + halfZ;
+  for (let row = 0; row < rows; row++) {
+    const z = zStart + row * rowStep;
+    const offset = row % 2 === 1 ? pitchU / 2 : 0;
+    for (let col = 0; col < columns; col++) {
+      const u = col * pitchU + offset;
+      cells.push([
+        [u, z - halfZ],
+        [u + halfU, z],
+        [u, z + halfZ],
+        [u - halfU, z],
+      ]);
+    }
+  }
+  return cells;
+}
+
+/**
+ * Factor by which a spiral slot's perpendicular bar width differs from its
+ * width along u at the reference radius: wider layers widen it, the
+ * helix's lean narrows it. The smallest value over the band counts.
+ */
+function getSpiralBarFactor(
+  shell: DecorativeShellParams,
+  sample: LayerSampler,
+  heights: number[],
+  referenceRadius: number
+): number {
+  const eps = 0.001;
+  let factor = 1;
+  for (const z of heights) {
+    const t = z / shell.height;
+    const r = meanRadius(sample(t));
+    const tLo = Math.max(0, t - eps);
+    const tHi = Math.min(1, t + eps);
+    const dTwistDz =
+      (getLayerTwist(shell, tHi) - getLayerTwist(shell, tLo)) / ((tHi - tLo) * shell.height);
+    const lean = r * dTwistDz;
+    factor = Math.min(factor, r / referenceRadius / Math.sqrt(1 + lean * lean));
+  }
+  return factor;
+}
+
+/** Evenly spaced slots over the band, or none if no opening fits between the bars */
+function layoutSlots(
+  count: number,
+  halfWidthU: number,
+  referenceRadius: number,
+  bandBottom: number,
+  bandTop: number
+): SlotSpec[] {
+  if (count < 1 || halfWidthU <= 0) return [];
+  const slots: SlotSpec[] = [];
+  for (let i = 0; i < count; i++) {
+    slots.push({
+      angle: (i / count) * Math.PI * 2,
+      halfWidth: halfWidthU / referenceRadius,
+      zBottom: bandBottom,
+      zTop: bandTop,
+    });
+  }
+  return slots;
+}
+
+/** Rows of horizontal slots, each row broken by bridges staggered from the row below */
+function layoutParallelLines(
+  params: LampParams,
+  circumference: number,
+  bandBottom: number,
+  bandTop: number
+): Point2[][] {
+  const rows = Math.round(params.shadowLineCount);
+  if (rows < 1) return [];
+  const pitch = (bandTop - bandBottom) / rows;
+  const height = Math.min(params.shadowLineWidth, pitch - LIGHT_PATTERN_MIN_BAR);
+  const segment = circumference / PARALLEL_SEGMENTS;
+  if (height <= 0 || segment <= PARALLEL_BRIDGE_WIDTH) return [];
+
+  const cells: Point2[][] = [];
+  for (let row = 0; row < rows; row++) {
+    const z = bandBottom + (row + 0.5) * pitch;
+    const offset = row % 2 === 1 ? segment / 2 : 0;
+    for (let s = 0; s < PARALLEL_SEGMENTS; s++) {
+      const u0 = offset + s * segment + PARALLEL_BRIDGE_WIDTH / 2;
+      const u1 = offset + (s + 1) * segment - PARALLEL_BRIDGE_WIDTH / 2;
+      cells.push([
+        [u0, z - height / 2],
+        [u1, z - height / 2],
+        [u1, z + height / 2],
+        [u0, z + height / 2],
+      ]);
+    }
+  }
+  return cells;
+}
+
+/**
+ * Lay out the shade's light pattern.
+ * `shell` is the shade as passed to the shell builder.
+ */
+export function layoutLightPattern(
+  shell: DecorativeShellParams,
+  params: LampParams,
+  options: PatternCutterOptions
+): LightPatternLayout {
+  const bandBottom = PATTERN_MIN_SOLID_BAND;
+  const bandTop = shell.height - PATTERN_MIN_SOLID_BAND;
+  const sample = createPatternSampler(shell, options);
+  const heights = bandHeights(bandBottom, bandTop);
+  const referenceRadius = getReferenceRadius(shell, sample, heights);
+
+  const layout: LightPatternLayout = {
+    cells: [],
+    slots: [],
+    slotsFollowTwist: false,
+    referenceRadius,
+    bandBottom,
+    bandTop,
+  };
+  if (bandTop - bandBottom <= LIGHT_PATTERN_MIN_BAR || !(referenceRadius > 0)) return layout;
+  const circumference = 2 * Math.PI * referenceRadius;
+
+  switch (params.lightPattern) {
+    case 'lattice':
+      layout.cells = layoutLattice(params, circumference, bandBottom, bandTop);
+      break;
+    case 'spiral-slots': {
+      const count = Math.round(params.slotCount);
+      const factor = getSpiralBarFactor(shell, sample, heights, referenceRadius);
+      const width = Math.min(params.slotWidth, circumference / count - LIGHT_PATTERN_MIN_BAR / factor);
+      layout.slots = layoutSlots(count, width / 2, referenceRadius, bandBottom, bandTop);
+      layout.slotsFollowTwist = true;
+      break;
+    }
+    case 'shadow-lines':
+      if (params.shadowLineDirection === 'parallel') {
+        layout.cells = layoutParallelLines(params, circumference, bandBottom, bandTop);
+      } else {
+        const count = Math.round(params.shadowLineCount);
+        const width = Math.min(params.shadowLineWidth, circumference / count - LIGHT_PATTERN_MIN_BAR);
+        layout.slots = layoutSlots(count, width / 2, referenceRadius, bandBottom, bandTop);
+      }
+      break;
+  }
+  return layout;
+}
+
+/**
+ * Build one cutter per opening of the shade's light pattern, in the
+ * shell's frame. Returns an empty array when the pattern is off or
+ * nothing fits.
+ */
+export function buildLightPatternCutters(
+  shell: DecorativeShellParams,
+  params: LampParams,
+  options: PatternCutterOptions
+): Geom3[] {
+  if (params.lightPattern === 'none') return [];
+  const layout = layoutLightPattern(shell, params, options);
+  const sample = createPatternSampler(shell, options);
+
+  return layout.cells
+    .map((cell) => buildCellCutter(shell, options, sample, cell, layout.referenceRadius, false))
+    .concat(
+      layout.slots.map((slot) => buildSlotCutter(shell, options, sample, slot, layout.slotsFollowTwist))
+    );
+}
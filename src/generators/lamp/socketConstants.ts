@@ -1,4 +1,4 @@
-import type { SocketType } from '@/types/design';
+import type { BulbType, SocketType, ThreadProfile } from '@/types/design';
 
 export interface SocketSpec {
   name: string;
@@ -45,7 +45,7 @@ export interface BulbClearance {
   height: number;    // mm — overall bulb height including base
 }
 
-export const BULB_CLEARANCES: Record<string, BulbClearance> = {
+export const BULB_CLEARANCES: Record<BulbType, BulbClearance> = {
   A19:  { diameter: 60,  height: 110 },
   A15:  { diameter: 48,  height: 89 },
   ST64: { diameter: 64,  height: 140 },
@@ -66,8 +66,21 @@ export const CONNECTION_LIP = {
   wallThickness: 2,   // mm
 } as const;
 
+// Screw-thread profiles for the threaded connection
+export interface ThreadProfileSpec {
+  flankAngle: number;  // degrees from radial, half the thread angle
+  depthRatio: number;  // thread depth as a fraction of pitch, before crest clamping
+}
+
+export const THREAD_PROFILES: Record<ThreadProfile, ThreadProfileSpec> = {
+  triangular:  { flankAngle: 30, depthRatio: 0.5 },
+  trapezoidal: { flankAngle: 15, depthRatio: 0.5 },
+  square:      { flankAngle: 0,  depthRatio: 0.4 },
+} as const;
+
 // Safety: LED bulbs only for 3D printed shades
 export const MIN_BULB_CLEARANCE = 15; // mm from bulb surface to shade inner wall
+export const MIN_TOP_VENT_DIAMETER = 50; // mm — heat escape through the top of a shade without cutouts
 
 // Base thickness for the solid bottom of the lamp base
 export const LAMP_BASE_THICKNESS = 3; // mm
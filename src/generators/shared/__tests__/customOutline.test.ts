@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CUSTOM_OUTLINE_SAMPLES,
+  MIN_CUSTOM_RADIUS,
+  convexHull,
+  isStarShaped,
+  outlineToRadii,
+  sampleCustomRadius,
+} from '../customOutline';
+import type { Point2 } from '../voronoi';
+
+const SQUARE: Point2[] = [[0, 0], [10, 0], [10, 10], [0, 10]];
+
+/** A "C": a square with a slot cut from the right side to past the centre */
+const C_SHAPE: Point2[] = [
+  [0, 0], [10, 0], [10, 4], [2, 4], [2, 6], [10, 6], [10, 10], [0, 10],
+];
+
+describe('outlineToRadii', () => {
+  it('samples a star-shaped outline around its centroid, max 1', () => {
+    const result = outlineToRadii(SQUARE)!;
+    expect(result.starShaped).toBe(true);
+    expect(result.radii).toHaveLength(CUSTOM_OUTLINE_SAMPLES);
+    // Corner (45°) is √2 times the mid-side (0°)
+    expect(result.radii[0]).toBeCloseTo(Math.SQRT1_2, 9);
+    expect(result.radii[CUSTOM_OUTLINE_SAMPLES / 8]).toBeCloseTo(1, 9);
+    expect(Math.max(...result.radii)).toBeCloseTo(1, 12);
+  });
+
+  it('ignores orientation, position, scale and a repeated closing point', () => {
+    const base = outlineToRadii(SQUARE)!.radii;
+    const moved = SQUARE.map(([x, y]) => [x * 3 - 50, y * 3 + 7] as Point2).reverse();
+    moved.push(moved[0]);
+    const radii = outlineToRadii(moved)!.radii;
+    radii.forEach((r, i) => expect(r).toBeCloseTo(base[i], 9));
+  });
+
+  it('falls back to the convex hull when rays would cross the outline twice', () => {
+    const result = outlineToRadii(C_SHAPE)!;
+    expect(result.starShaped).toBe(false);
+    // The slot is bridged: same radii as the full square
+    const square = outlineToRadii(SQUARE)!.radii;
+    result.radii.forEach((r, i) => expect(r).toBeCloseTo(square[i], 9));
+  });
+
+  it('never drops below the minimum radius', () => {
+    const spike: Point2[] = [[0, 0], [100, 1], [0, 2], [-1, 1]];
+    const result = outlineToRadii(spike)!;
+    expect(Math.min(...result.radii)).toBeGreaterThanOrEqual(MIN_CUSTOM_RADIUS);
+  });
+
+  it('returns null without an area', () => {
+    expect(outlineToRadii([[0, 0], [1, 1]])).toBeNull();
+    expect(outlineToRadii([[0, 0], [1, 1], [2, 2], [3, 3]])).toBeNull();
+    expect(outlineToRadii([[0, 0], [0, 0], [0, 0]])).toBeNull();
+  });
+});
+
+describe('isStarShaped / convexHull', () => {
+  it('checks visibility from the given centre', () => {
+    expect(isStarShaped(SQUARE, [5, 5])).toBe(true);
+    expect(isStarShaped(SQUARE, [15, 5])).toBe(false);
+    expect(isStarShaped(C_SHAPE, [4, 5])).toBe(false);
+  });
+
+  it('returns the hull counter-clockwise without interior points', () => {
+    const hull = convexHull(C_SHAPE.concat([[5, 5]]));
+    expect(hull).toHaveLength(4);
+    expect(hull).toEqual(expect.arrayContaining(SQUARE));
+    expect(isStarShaped(hull, [5, 5])).toBe(true);
+  });
+});
+
+describe('sampleCustomRadius', () => {
+  const radii = Array.from({ length: 8 }, (_, i) => 0.5 + i / 16);
+
+  it('hits the samples and interpolates between them', () => {
+    expect(sampleCustomRadius(radii, 0)).toBeCloseTo(0.5, 12);
+    expect(sampleCustomRadius(radii, Math.PI / 2)).toBeCloseTo(radii[2], 12);
+    expect(sampleCustomRadius(radii, Math.PI / 8)).toBeCloseTo((radii[0] + radii[1]) / 2, 12);
+  });
+
+  it('wraps around without a seam', () => {
+    const justBefore = sampleCustomRadius(radii, -1e-9);
+    expect(justBefore).toBeCloseTo(sampleCustomRadius(radii, 0), 6);
+    expect(sampleCustomRadius(radii, 2 * Math.PI + 0.3)).toBeCloseTo(sampleCustomRadius(radii, 0.3), 12);
+  });
+
+  it('reads as a circle without an outline', () => {
+    expect(sampleCustomRadius([], 1.2)).toBe(1);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import {
+  rgbaToHeightmap,
+  sampleHeightmap,
+  createTextureMapper,
+  getTextureSegmentCount,
+  getTextureSliceCount,
+  MAX_TEXTURE_SEGMENTS,
+} from '../heightmap';
+import type { Heightmap } from '../heightmap';
+import { DEFAULT_VASE_PARAMS } from '@/types/design';
+import type { VaseParams } from '@/types/design';
+
+/** 2×2 map: top row black/white, bottom row white/black */
+const CHECKER: Heightmap = { width: 2, height: 2, values: new Float32Array([0, 1, 1, 0]) };
+
+const PARAMS: VaseParams = {
+  ...DEFAULT_VASE_PARAMS,
+  height: 100,
+  diameter: 100 / Math.PI, // circumference 100 mm
+  textureDepth: 2,
+};
+
+describe('rgbaToHeightmap', () => {
+  it('converts to luminance scaled by alpha', () => {
+    const rgba = new Uint8Array([
+      255, 255, 255, 255, // white
+      0, 0, 0, 255, // black
+      255, 0, 0, 255, // red
+      255, 255, 255, 0, // transparent white
+    ]);
+    const map = rgbaToHeightmap(rgba, 2, 2);
+    expect(map.values[0]).toBeCloseTo(1, 6);
+    expect(map.values[1]).toBe(0);
+    expect(map.values[2]).toBeCloseTo(0.2126, 6);
+    expect(map.values[3]).toBe(0);
+  });
+});
+
+describe('sampleHeightmap', () => {
+  it('returns texel values at texel centres', () => {
+    expect(sampleHeightmap(CHECKER, 0.25, 0.25)).toBeCloseTo(0, 10);
+    expect(sampleHeightmap(CHECKER, 0.75, 0.25)).toBeCloseTo(1, 10);
+    expect(sampleHeightmap(CHECKER, 0.25, 0.75)).toBeCloseTo(1, 10);
+  });
+
+  it('blends between texels and wraps across tile edges', () => {
+    expect(sampleHeightmap(CHECKER, 0.5, 0.25)).toBeCloseTo(0.5, 10);
+    expect(sampleHeightmap(CHECKER, 0, 0.25)).toBeCloseTo(0.5, 10);
+    expect(sampleHeightmap(CHECKER, 1.25, -0.75)).toBeCloseTo(sampleHeightmap(CHECKER, 0.25, 0.25), 10);
+  });
+});
+
+describe('createTextureMapper', () => {
+  const angleAt = (x: number) => (x / 100) * 2 * Math.PI; // x in mm around the body
+
+  it('maps the image top-down onto the unrolled surface', () => {
+    const map = createTextureMapper(PARAMS, CHECKER);
+    // Upper-left quadrant of the body shows the top-left (black) texel
+    expect(map(angleAt(25), 0.75)).toBeCloseTo(0, 10);
+    expect(map(angleAt(75), 0.75)).toBeCloseTo(2, 10);
+    expect(map(angleAt(25), 0.25)).toBeCloseTo(2, 10);
+  });
+
+  it('tiles, offsets and inverts', () => {
+    const tiled = createTextureMapper({ ...PARAMS, textureTilesU: 2 }, CHECKER);
+    expect(tiled(angleAt(12.5), 0.75)).toBeCloseTo(0, 10);
+    expect(tiled(angleAt(37.5), 0.75)).toBeCloseTo(2, 10);
+    expect(tiled(angleAt(62.5), 0.75)).toBeCloseTo(0, 10);
+
+    const shifted = createTextureMapper({ ...PARAMS, textureOffsetU: 0.5 }, CHECKER);
+    expect(shifted(angleAt(25), 0.75)).toBeCloseTo(2, 10);
+
+    const inverted = createTextureMapper({ ...PARAMS, textureInvert: true }, CHECKER);
+    expect(inverted(angleAt(25), 0.75)).toBeCloseTo(2, 10);
+  });
+
+  it('rotates the image in millimetres', () => {
+    // Vertical stripes: left half black, right half white
+    const stripes: Heightmap = { width: 2, height: 1, values: new Float32Array([0, 1]) };
+    const square = { ...PARAMS, textureRotation: 90 };
+    const rotated = createTextureMapper(square, stripes);
+    // After a quarter turn the stripes run horizontally: constant around, varying up
+    expect(rotated(angleAt(20), 0.25)).toBeCloseTo(rotated(angleAt(40), 0.25), 10);
+    expect(rotated(angleAt(20), 0.25)).not.toBeCloseTo(rotated(angleAt(20), 0.75), 3);
+  });
+
+  it('stays seamless at θ = 0 when rotated or given a fractional tile count', () => {
+    const seam = 1e-7;
+    [
+      { textureRotation: 30 },
+      { textureTilesU: 2.4 },
+      { textureRotation: -65, textureTilesU: 3, textureTilesV: 1.7 },
+    ].forEach((overrides) => {
+      const map = createTextureMapper({ ...PARAMS, ...overrides }, CHECKER);
+      [0.1, 0.35, 0.8].forEach((t) => {
+        expect(map(angleAt(100 - seam), t)).toBeCloseTo(map(angleAt(seam), t), 4);
+      });
+    });
+  });
+
+  it('caps surface sampling for large images', () => {
+    const large: Heightmap = { width: 256, height: 256, values: new Float32Array(256 * 256) };
+    expect(getTextureSegmentCount({ ...PARAMS, textureTilesU: 4 }, large)).toBe(MAX_TEXTURE_SEGMENTS);
+    expect(getTextureSliceCount(PARAMS, CHECKER)).toBe(2);
+  });
+});
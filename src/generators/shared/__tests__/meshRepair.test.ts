@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { primitives } from '@jscad/modeling';
+import { weldGeom3 } from '../meshWeld';
+import { findOpenEdges, repairTJunctions } from '../meshRepair';
+
+describe('findOpenEdges', () => {
+  it('finds none on a closed mesh', () => {
+    expect(findOpenEdges(weldGeom3(primitives.cuboid({ size: [10, 10, 10] })))).toEqual([]);
+  });
+
+  it('reports every edge of a lone triangle', () => {
+    const mesh = {
+      positions: new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]),
+      indices: new Uint32Array([0, 1, 2]),
+    };
+    expect(findOpenEdges(mesh)).toEqual([[0, 1], [1, 2], [2, 0]]);
+  });
+
+  it('reports edges shared by more than two triangles', () => {
+    // Two copies of the same triangle, one flipped, plus a third on edge 0→1
+    const mesh = {
+      positions: new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0, 0, -1, 0]),
+      indices: new Uint32Array([0, 1, 2, 0, 2, 1, 1, 0, 3]),
+    };
+    expect(findOpenEdges(mesh)).toContainEqual([1, 0]);
+  });
+});
+
+describe('repairTJunctions', () => {
+  it('splits a triangle at a vertex lying on its edge', () => {
+    // Triangle 0-1-2 above the x axis; below it, two triangles meet at vertex 3,
+    // the midpoint of edge 0→1 — a T-junction
+    const mesh = {
+      positions: new Float32Array([0, 0, 0, 2, 0, 0, 1, 1, 0, 1, 0, 0, 1, -1, 0]),
+      indices: new Uint32Array([0, 1, 2, 0, 4, 3, 3, 4, 1]),
+    };
+    expect(findOpenEdges(mesh)).toContainEqual([0, 1]);
+
+    const repaired = repairTJunctions(mesh);
+    expect(repaired.indices.length).toBe(4 * 3);
+    // Only the outer boundary remains open
+    const open = findOpenEdges(repaired).map(([a, b]) => `${a}>${b}`).sort();
+    expect(open).toEqual(['0>4', '1>2', '2>0', '4>1']);
+  });
+
+  it('returns closed meshes unchanged', () => {
+    const mesh = weldGeom3(primitives.cuboid({ size: [10, 10, 10] }));
+    expect(repairTJunctions(mesh)).toBe(mesh);
+  });
+
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { booleans, geometries, primitives, transforms } from '@jscad/modeling';
+import { weldGeom3, computeVertexNormals } from '../meshWeld';
+import { findOpenEdges } from '../meshRepair';
+
+describe('weldGeom3', () => {
+  it('welds a cube to 8 shared vertices and 12 triangles', () => {
+    const mesh = weldGeom3(primitives.cuboid({ size: [10, 10, 10] }));
+    expect(mesh.positions.length).toBe(8 * 3);
+    expect(mesh.indices.length).toBe(12 * 3);
+  });
+
+  it('all indices are in bounds', () => {
+    const mesh = weldGeom3(primitives.cylinder({ radius: 5, height: 10, segments: 24 }));
+    const vertexCount = mesh.positions.length / 3;
+    mesh.indices.forEach((idx) => {
+      expect(idx).toBeLessThan(vertexCount);
+    });
+  });
+
+  it('produces a closed mesh (every edge shared by exactly two triangles)', () => {
+    const mesh = weldGeom3(primitives.cylinder({ radius: 5, height: 10, segments: 24 }));
+    const edges = new Map<string, number>();
+    for (let i = 0; i < mesh.indices.length; i += 3) {
+      const tri = [mesh.indices[i], mesh.indices[i + 1], mesh.indices[i + 2]];
+      for (let e = 0; e < 3; e++) {
+        const a = tri[e];
+        const b = tri[(e + 1) % 3];
+        const key = a < b ? `${a}-${b}` : `${b}-${a}`;
+        edges.set(key, (edges.get(key) ?? 0) + 1);
+      }
+    }
+    edges.forEach((count) => {
+      expect(count).toBe(2);
+    });
+  });
+
+  it('drops triangles that collapse under a coarse tolerance', () => {
+    const fine = weldGeom3(primitives.sphere({ radius: 1, segments: 16 }));
+    const coarse = weldGeom3(primitives.sphere({ radius: 1, segments: 16 }), 0.5);
+    expect(coarse.indices.length).toBeLessThan(fine.indices.length);
+    for (let i = 0; i < coarse.indices.length; i += 3) {
+      expect(coarse.indices[i]).not.toBe(coarse.indices[i + 1]);
+      expect(coarse.indices[i + 1]).not.toBe(coarse.indices[i + 2]);
+    }
+  });
+
+  it('welds near-coincident vertices that round into adjacent grid cells', () => {
+    // 0.4 and 0.6 tolerance steps along x — 0.2 apart, but either side of a cell edge
+    const geom = geometries.geom3.fromPoints([
+      [[4e-5, 0, 0], [1, 0, 0], [0, 1, 0]],
+      [[6e-5, 0, 0], [0, -1, 0], [1, 0, 0]],
+    ]);
+    const mesh = weldGeom3(geom);
+    expect(mesh.positions.length).toBe(4 * 3);
+  });
+
+  it('welds a CSG union into a watertight mesh', () => {
+    const base = primitives.cuboid({ size: [20, 20, 10] });
+    const top = transforms.translate([3, 2, 8], primitives.cylinder({ radius: 4, height: 6, segments: 16 }));
+    const mesh = weldGeom3(booleans.union(base, top));
+    expect(findOpenEdges(mesh)).toEqual([]);
+  });
+});
+
+describe('computeVertexNormals', () => {
+  it('returns unit normals, one per vertex', () => {
+    const mesh = weldGeom3(primitives.sphere({ radius: 5, segments: 24 }));
+    const normals = computeVertexNormals(mesh);
+    expect(normals.length).toBe(mesh.positions.length);
+    for (let i = 0; i < normals.length; i += 3) {
+      const len = Math.hypot(normals[i], normals[i + 1], normals[i + 2]);
+      expect(len).toBeCloseTo(1, 5);
+    }
+  });
+
+  it('sphere normals point radially outward', () => {
+    const mesh = weldGeom3(primitives.sphere({ radius: 5, segments: 32 }));
+    const normals = computeVertexNormals(mesh);
+    for (let i = 0; i < normals.length; i += 3) {
+      const px = mesh.positions[i] / 5;
+      const py = mesh.positions[i + 1] / 5;
+      const pz = mesh.positions[i + 2] / 5;
+      const dot = px * normals[i] + py * normals[i + 1] + pz * normals[i + 2];
+      expect(dot).toBeGreaterThan(0.95);
+    }
+  });
+
+  it('cube corner normals point diagonally outward', () => {
+    const mesh = weldGeom3(primitives.cuboid({ size: [2, 2, 2] }));
+    const normals = computeVertexNormals(mesh);
+    for (let i = 0; i < normals.length; i += 3) {
+      for (let k = 0; k < 3; k++) {
+        expect(Math.sign(normals[i + k])).toBe(Math.sign(mesh.positions[i + k]));
+      }
+    }
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { perlinNoise3, fractalNoise3 } from '../noise';
+
+describe('perlinNoise3', () => {
+  it('is reproducible for a seed and differs between seeds', () => {
+    const points = [[0.3, 1.7, 2.2], [5.5, -3.1, 0.9], [12.25, 4.75, -8.5]];
+    points.forEach(([x, y, z]) => {
+      expect(perlinNoise3(x, y, z, 7)).toBe(perlinNoise3(x, y, z, 7));
+    });
+    const diff = points.filter(([x, y, z]) => perlinNoise3(x, y, z, 7) !== perlinNoise3(x, y, z, 8));
+    expect(diff.length).toBeGreaterThan(0);
+  });
+
+  it('is zero on the integer lattice', () => {
+    expect(perlinNoise3(3, -2, 5, 1)).toBe(0);
+  });
+
+  it('is continuous', () => {
+    const a = perlinNoise3(1.2345, 2.5, 0.75, 3);
+    const b = perlinNoise3(1.2346, 2.5, 0.75, 3);
+    expect(Math.abs(a - b)).toBeLessThan(1e-3);
+  });
+});
+
+describe('fractalNoise3', () => {
+  it('stays within [-1, 1] and varies', () => {
+    let min = Infinity;
+    let max = -Infinity;
+    for (let i = 0; i < 2000; i++) {
+      const n = fractalNoise3(i * 0.173, i * 0.091, i * 0.037, 4, 11);
+      min = Math.min(min, n);
+      max = Math.max(max, n);
+    }
+    expect(min).toBeGreaterThanOrEqual(-1);
+    expect(max).toBeLessThanOrEqual(1);
+    expect(max - min).toBeGreaterThan(0.5);
+  });
+
+  it('with one octave equals plain noise', () => {
+    expect(fractalNoise3(0.4, 1.3, 2.6, 1, 5)).toBeCloseTo(perlinNoise3(0.4, 1.3, 2.6, 5), 12);
+  });
+});
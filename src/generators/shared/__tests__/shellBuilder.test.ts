@@ -10,7 +10,25 @@ function makeShellParams(overrides: Partial<DecorativeShellParams> = {}): Decora
     wallThickness: 2,
     style: 'classic',
     profileCurve: 0,
+    profileMode: 'curve',
+    profileShape: 'classic',
+    flareStart: 0.6,
+    flareAmount: 0.5,
+    sCurveAmount: 0.25,
+    sCurveMidpoint: 0.5,
+    shoulderHeight: 0.7,
+    neckRatio: 0.55,
+    bellyHeight: 0.4,
+    trumpetFlare: 0.8,
+    trumpetCurvature: 4,
+    profilePoints: [
+      { t: 0, scale: 1 },
+      { t: 1, scale: 1 },
+    ],
     crossSection: 'circle',
+    crossSectionMorph: false,
+    crossSectionTop: 'circle',
+    crossSectionEasing: 'linear',
     twistAngle: 0,
     twistDirection: 'ccw',
     twistEasing: 'linear',
@@ -18,6 +36,10 @@ function makeShellParams(overrides: Partial<DecorativeShellParams> = {}): Decora
     ridgeDepth: 0,
     ridgeProfile: 'sharp',
     smoothInnerWall: false,
+    wavePattern: 'none',
+    waveAmplitude: 2,
+    waveCount: 12,
+    waveRows: 8,
     finCount: 30,
     finHeight: 3,
     finWidth: 4,
@@ -29,6 +51,37 @@ function makeShellParams(overrides: Partial<DecorativeShellParams> = {}): Decora
     superN: 3,
     gearTeeth: 12,
     petalCount: 6,
+    noiseAmplitude: 0.15,
+    noiseFrequency: 2,
+    noiseOctaves: 3,
+    noiseSeed: 1,
+    noiseHeightVariation: 1,
+    customCrossSection: [],
+    surfacePattern: 'none',
+    patternCellSize: 12,
+    patternBarWidth: 2.5,
+    patternCellCount: 40,
+    patternRelaxIterations: 2,
+    patternSeed: 1,
+    patternBandStart: 0.15,
+    patternBandEnd: 0.85,
+    faceted: false,
+    facetCount: 12,
+    facetBands: 8,
+    facetJitter: 0,
+    facetSeed: 1,
+    textureDepth: 1,
+    textureTilesU: 1,
+    textureTilesV: 1,
+    textureOffsetU: 0,
+    textureOffsetV: 0,
+    textureRotation: 0,
+    textureInvert: false,
+    textContent: '',
+    textMode: 'emboss',
+    textPosition: 0.5,
+    textWrapAngle: 90,
+    textDepth: 1,
     ...overrides,
   };
 }
@@ -105,6 +158,18 @@ describe('buildDecorativeShell', () => {
     expect(allFinite(geom)).toBe(true);
   });
 
+  it.each(['flared', 's-curve', 'shouldered', 'amphora', 'trumpet'] as const)(
+    '%s profile shape works with wall inset',
+    (profileShape) => {
+      const geom = buildDecorativeShell(
+        makeShellParams({ profileShape }),
+        { resolution: 32, wallInset: 2 }
+      );
+      expect(polygonCount(geom)).toBeGreaterThan(0);
+      expect(allFinite(geom)).toBe(true);
+    }
+  );
+
   it.each([0, 90, 360, 720])('twist %d degrees works', (twistAngle) => {
     const geom = buildDecorativeShell(
       makeShellParams({ twistAngle }),
@@ -162,4 +227,38 @@ describe('buildDecorativeShell', () => {
     expect(polygonCount(geom)).toBeGreaterThan(0);
     expect(allFinite(geom)).toBe(true);
   });
+
+  it('custom Bezier profile produces valid geometry with and without inset', () => {
+    const params = makeShellParams({
+      profileMode: 'custom',
+      profilePoints: [
+        { t: 0, scale: 0.8 },
+        { t: 0.4, scale: 1.6 },
+        { t: 0.8, scale: 0.5 },
+        { t: 1, scale: 1.2 },
+      ],
+    });
+    const outer = buildDecorativeShell(params, { resolution: 32, wallInset: 0 });
+    const inner = buildDecorativeShell(params, { resolution: 32, wallInset: 2 });
+    expect(polygonCount(outer)).toBeGreaterThan(0);
+    expect(allFinite(outer)).toBe(true);
+    expect(allFinite(inner)).toBe(true);
+  });
+
+  it('custom profile ignores taper and profileCurve', () => {
+    const profilePoints = [
+      { t: 0, scale: 1 },
+      { t: 0.5, scale: 1.4 },
+      { t: 1, scale: 0.9 },
+    ];
+    const a = buildDecorativeShell(
+      makeShellParams({ profileMode: 'custom', profilePoints, taper: 0.5, profileCurve: -1 }),
+      { resolution: 32, wallInset: 0 }
+    );
+    const b = buildDecorativeShell(
+      makeShellParams({ profileMode: 'custom', profilePoints, taper: 1.5, profileCurve: 1 }),
+      { resolution: 32, wallInset: 0 }
+    );
+    expect((a as any).polygons[1].vertices).toEqual((b as any).polygons[1].vertices);
+  });
 });
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { measurements } from '@jscad/modeling';
+import {
+  layoutHoneycombCells,
+  layoutVoronoiCells,
+  buildPatternCutters,
+  PATTERN_MIN_SOLID_BAND,
+} from '../surfacePattern';
+import { getLayerTwist } from '../layerSampler';
+import { DEFAULT_VASE_PARAMS } from '@/types/design';
+import type { VaseParams } from '@/types/design';
+
+const PARAMS: VaseParams = {
+  ...DEFAULT_VASE_PARAMS,
+  style: 'classic',
+  surfacePattern: 'honeycomb',
+  taper: 1,
+  ridgeDepth: 0,
+  twistAngle: 0,
+  resolution: 48,
+};
+
+const OPTIONS = {
+  resolution: PARAMS.resolution,
+  wallThickness: PARAMS.wallThickness,
+  baseThickness: PARAMS.baseThickness,
+};
+const CIRCUMRADIUS = PARAMS.patternCellSize / Math.sqrt(3);
+
+describe('layoutHoneycombCells', () => {
+  it('keeps every cell inside the band', () => {
+    const layout = layoutHoneycombCells(PARAMS, OPTIONS);
+    expect(layout.cells.length).toBeGreaterThan(0);
+    expect(layout.bandBottom).toBeCloseTo(PARAMS.patternBandStart * PARAMS.height, 6);
+    expect(layout.bandTop).toBeCloseTo(PARAMS.patternBandEnd * PARAMS.height, 6);
+    layout.cells.forEach(({ z }) => {
+      expect(z - CIRCUMRADIUS).toBeGreaterThanOrEqual(layout.bandBottom - 1e-9);
+      expect(z + CIRCUMRADIUS).toBeLessThanOrEqual(layout.bandTop + 1e-9);
+    });
+  });
+
+  it('always keeps a solid base and rim band', () => {
+    const layout = layoutHoneycombCells(
+      { ...PARAMS, patternBandStart: 0, patternBandEnd: 1 },
+      OPTIONS
+    );
+    expect(layout.bandBottom).toBe(PARAMS.baseThickness + PATTERN_MIN_SOLID_BAND);
+    expect(layout.bandTop).toBe(PARAMS.height - PATTERN_MIN_SOLID_BAND);
+  });
+
+  it('staggers odd rows by half a column', () => {
+    const layout = layoutHoneycombCells(PARAMS, OPTIONS);
+    const rows = Array.from(new Set(layout.cells.map((c) => c.z))).sort((a, b) => a - b);
+    expect(rows.length).toBeGreaterThan(1);
+    const step = (2 * Math.PI) / layout.columns;
+    const firstAngle = (z: number) => layout.cells.find((c) => c.z === z)!.angle;
+    expect(firstAngle(rows[0])).toBeCloseTo(0, 9);
+    expect(firstAngle(rows[1])).toBeCloseTo(step / 2, 9);
+  });
+
+  it('spaces columns at least one cell plus one bar apart', () => {
+    const layout = layoutHoneycombCells(PARAMS, OPTIONS);
+    const radius = PARAMS.diameter / 2;
+    const arc = (2 * Math.PI * radius) / layout.columns;
+    expect(arc).toBeGreaterThanOrEqual(PARAMS.patternCellSize + PARAMS.patternBarWidth - 0.5);
+  });
+
+  it('returns no cells when the band is shorter than one cell', () => {
+    const layout = layoutHoneycombCells(
+      { ...PARAMS, patternBandStart: 0.45, patternBandEnd: 0.5 },
+      OPTIONS
+    );
+    expect(layout.cells).toEqual([]);
+  });
+});
+
+describe('buildPatternCutters', () => {
+  it('builds nothing when the pattern is off', () => {
+    expect(buildPatternCutters({ ...PARAMS, surfacePattern: 'none' }, OPTIONS)).toEqual([]);
+  });
+
+  it('builds one closed prism per cell', () => {
+    const cutters = buildPatternCutters(PARAMS, OPTIONS);
+    expect(cutters).toHaveLength(layoutHoneycombCells(PARAMS, OPTIONS).cells.length);
+    const hexArea = (3 * Math.sqrt(3) / 2) * CIRCUMRADIUS * CIRCUMRADIUS;
+    const volume = measurements.measureVolume(cutters[0]);
+    // Spans the wall plus clearance on both sides
+    expect(volume).toBeGreaterThan(hexArea * (PARAMS.wallThickness + 2) * 0.99);
+  });
+
+  it('builds one closed wedge per Voronoi cell', () => {
+    const voronoi = { ...PARAMS, surfacePattern: 'voronoi' as const, patternCellCount: 20 };
+    const { cells } = layoutVoronoiCells(voronoi, OPTIONS);
+    const cutters = buildPatternCutters(voronoi, OPTIONS);
+    expect(cells.length).toBeGreaterThan(0);
+    expect(cutters).toHaveLength(cells.length);
+    cutters.forEach((cutter) => expect(measurements.measureVolume(cutter)).toBeGreaterThan(0));
+  });
+
+  it('rotates each cell with the layer twist at its centre', () => {
+    const twisted = { ...PARAMS, twistAngle: 90 };
+    const cells = layoutHoneycombCells(twisted, OPTIONS).cells;
+    const cutters = buildPatternCutters(twisted, OPTIONS);
+
+    const i = cells.length - 1;
+    const [min, max] = measurements.measureBoundingBox(cutters[i]);
+    const centreAngle = Math.atan2((min[1] + max[1]) / 2, (min[0] + max[0]) / 2);
+    const expected = cells[i].angle + getLayerTwist(twisted, cells[i].z / twisted.height);
+    const diff = Math.atan2(Math.sin(centreAngle - expected), Math.cos(centreAngle - expected));
+    expect(Math.abs(diff)).toBeLessThan(0.05);
+  });
+});
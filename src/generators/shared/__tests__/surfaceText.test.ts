@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ENGRAVE_MIN_FLOOR,
+  TEXT_FRONT_ANGLE,
+  createTextMapper,
+  insertTextAngles,
+  insertTextHeights,
+  layoutText,
+  normalizeText,
+} from '../surfaceText';
+import { DEFAULT_VASE_PARAMS, MAX_TEXT_LENGTH } from '@/types/design';
+import type { VaseParams } from '@/types/design';
+import { MIN_WALL_THICKNESS } from '@/types/validation';
+
+const TEST_PARAMS: VaseParams = {
+  ...DEFAULT_VASE_PARAMS,
+  height: 100,
+  diameter: 60,
+  profileCurve: 0,
+  taper: 1,
+  textContent: 'Hello',
+  textWrapAngle: 90,
+  textPosition: 0.5,
+  textDepth: 1.5,
+};
+
+const OPTIONS = { wallThickness: 2, baseThickness: 3 };
+
+describe('normalizeText', () => {
+  it('trims, flattens line breaks and caps the length', () => {
+    expect(normalizeText('  a\nb\tc  ')).toBe('a b c');
+    expect(normalizeText('x'.repeat(100))).toHaveLength(MAX_TEXT_LENGTH);
+  });
+});
+
+describe('layoutText', () => {
+  it('returns null without text', () => {
+    expect(layoutText({ ...TEST_PARAMS, textContent: ' ' }, OPTIONS)).toBeNull();
+  });
+
+  it('spans the wrap angle, centred on the front', () => {
+    const layout = layoutText(TEST_PARAMS, OPTIONS)!;
+    expect(layout.referenceRadius).toBeCloseTo(30, 6);
+    const reach = layout.strokeWidth / 2 + layout.step;
+    const span = layout.bounds.uMax - layout.bounds.uMin - 2 * reach;
+    expect(span / layout.referenceRadius).toBeCloseTo(Math.PI / 2, 6);
+    expect(layout.bounds.uMin).toBeCloseTo(-layout.bounds.uMax, 9);
+    expect((layout.bounds.zMin + layout.bounds.zMax) / 2).toBeCloseTo(50, 6);
+  });
+
+  it('shrinks tall text to fit between the base and the rim', () => {
+    const layout = layoutText({ ...TEST_PARAMS, textContent: 'I', height: 20, textPosition: 0.9 }, OPTIONS)!;
+    layout.segments.forEach((segment) =>
+      segment.forEach(([, z]) => {
+        expect(z).toBeGreaterThanOrEqual(OPTIONS.baseThickness + 2 - 1e-9);
+        expect(z).toBeLessThanOrEqual(20 - 2 + 1e-9);
+      })
+    );
+  });
+
+  it('caps engraving depth so a floor of wall remains', () => {
+    const engrave = { ...TEST_PARAMS, textMode: 'engrave' as const, textDepth: 3 };
+    expect(ENGRAVE_MIN_FLOOR).toBeGreaterThanOrEqual(MIN_WALL_THICKNESS);
+    expect(layoutText(engrave, OPTIONS)!.depth).toBeCloseTo(-(OPTIONS.wallThickness - ENGRAVE_MIN_FLOOR), 9);
+    expect(layoutText(engrave, { ...OPTIONS, wallThickness: ENGRAVE_MIN_FLOOR })).toBeNull();
+    expect(layoutText({ ...TEST_PARAMS, textDepth: 3 }, OPTIONS)!.depth).toBe(3);
+  });
+});
+
+describe('createTextMapper', () => {
+  const layout = layoutText(TEST_PARAMS, OPTIONS)!;
+  const mapper = createTextMapper(TEST_PARAMS, layout);
+  const at = (u: number, z: number) =>
+    mapper(TEXT_FRONT_ANGLE + u / layout.referenceRadius, z / TEST_PARAMS.height);
+
+  it('is the full depth on a stroke and zero away from the text', () => {
+    const [[u0, z0], [u1, z1]] = layout.segments[0];
+    expect(at((u0 + u1) / 2, (z0 + z1) / 2)).toBeCloseTo(TEST_PARAMS.textDepth, 9);
+    expect(at(0, 5)).toBe(0);
+    expect(mapper(-TEXT_FRONT_ANGLE, 0.5)).toBe(0);
+  });
+
+  it('stays within [0, depth]', () => {
+    for (let u = layout.bounds.uMin; u <= layout.bounds.uMax; u += 0.37) {
+      for (let z = layout.bounds.zMin; z <= layout.bounds.zMax; z += 0.37) {
+        const d = at(u, z);
+        expect(d).toBeGreaterThanOrEqual(0);
+        expect(d).toBeLessThanOrEqual(TEST_PARAMS.textDepth);
+      }
+    }
+  });
+});
+
+describe('insertTextAngles / insertTextHeights', () => {
+  const layout = layoutText(TEST_PARAMS, OPTIONS)!;
+
+  it('adds step-spaced angles across the text only', () => {
+    const uniform = Array.from({ length: 32 }, (_, i) => (i / 32) * Math.PI * 2);
+    const angles = insertTextAngles(uniform, layout);
+    const maxGap = layout.step / layout.referenceRadius + 1e-9;
+    for (let i = 1; i < angles.length; i++) {
+      expect(angles[i]).toBeGreaterThan(angles[i - 1]);
+      const mid = (angles[i] + angles[i - 1]) / 2;
+      const u = Math.atan2(Math.sin(mid - TEXT_FRONT_ANGLE), Math.cos(mid - TEXT_FRONT_ANGLE)) * layout.referenceRadius;
+      if (u > layout.bounds.uMin && u < layout.bounds.uMax) {
+        expect(angles[i] - angles[i - 1]).toBeLessThanOrEqual(maxGap);
+      }
+    }
+    expect(angles[0]).toBeGreaterThanOrEqual(0);
+    expect(angles[angles.length - 1]).toBeLessThan(Math.PI * 2);
+    // Uniform samples away from the text survive
+    expect(angles).toContain(Math.PI / 2);
+  });
+
+  it('adds step-spaced slices across the text band only', () => {
+    const uniform = Array.from({ length: 11 }, (_, i) => i / 10);
+    const heights = insertTextHeights(uniform, layout, TEST_PARAMS.height);
+    expect(heights[0]).toBe(0);
+    expect(heights[heights.length - 1]).toBe(1);
+    expect(heights).toContain(0.1);
+    const inBand = heights.filter((t) => t * 100 >= layout.bounds.zMin && t * 100 <= layout.bounds.zMax);
+    for (let i = 1; i < inBand.length; i++) {
+      expect((inBand[i] - inBand[i - 1]) * 100).toBeLessThanOrEqual(layout.step + 1e-9);
+    }
+  });
+});
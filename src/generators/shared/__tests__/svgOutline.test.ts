@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { flattenSvgPath } from '../svgOutline';
+import { polygonArea } from '../voronoi';
+
+describe('flattenSvgPath', () => {
+  it('reads absolute and relative lines with implicit repeats', () => {
+    expect(flattenSvgPath('M0 0 L10 0 10 10 H0 Z')).toEqual([[[0, 0], [10, 0], [10, 10], [0, 10]]]);
+    expect(flattenSvgPath('m5,5 10,0 0,10 h-10 v-10 z')).toEqual([
+      [[5, 5], [15, 5], [15, 15], [5, 15], [5, 5]],
+    ]);
+  });
+
+  it('splits subpaths and starts after Z at the subpath start', () => {
+    const rings = flattenSvgPath('M0 0 L4 0 L4 4 Z l1 0 l0 1 M20 20 L30 20 L30 30');
+    expect(rings).toHaveLength(3);
+    expect(rings[1]).toEqual([[0, 0], [1, 0], [1, 1]]);
+    expect(rings[2][0]).toEqual([20, 20]);
+  });
+
+  it('flattens cubic curves onto their end points', () => {
+    const [ring] = flattenSvgPath('M0 0 C0 10 10 10 10 0 S20 -10 20 0');
+    expect(ring[ring.length - 1]).toEqual([20, 0]);
+    // Smooth continuation: the second curve dips below where the first rose
+    expect(Math.min(...ring.map(([, y]) => y))).toBeLessThan(-5);
+    expect(Math.max(...ring.map(([, y]) => y))).toBeGreaterThan(5);
+  });
+
+  it('flattens arcs, including compact flags', () => {
+    // Two half circles of radius 10
+    const [ring] = flattenSvgPath('M-10 0a10 10 0 1120 0A10 10 0 01-10 0z');
+    ring.forEach(([x, y]) => expect(Math.hypot(x, y)).toBeCloseTo(10, 6));
+    expect(Math.abs(polygonArea(ring))).toBeCloseTo(Math.PI * 100, -1);
+  });
+
+  it('keeps what was read before malformed data', () => {
+    expect(flattenSvgPath('M0 0 L10 0 L10 oops')).toEqual([[[0, 0], [10, 0]]]);
+    expect(flattenSvgPath('')).toEqual([]);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { createSeededRandom } from '../seededRandom';
+import {
+  scatterSeeds,
+  computeVoronoiCells,
+  relaxSeeds,
+  polygonArea,
+  polygonCentroid,
+} from '../voronoi';
+import type { Point2, VoronoiDomain } from '../voronoi';
+
+const DOMAIN: VoronoiDomain = { width: 200, bottom: 10, top: 110 };
+
+/** Distance from p to segment ab */
+function segmentDistance(p: Point2, a: Point2, b: Point2): number {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const lenSq = dx * dx + dy * dy;
+  const u = lenSq > 0 ? Math.max(0, Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / lenSq)) : 0;
+  return Math.hypot(a[0] + u * dx - p[0], a[1] + u * dy - p[1]);
+}
+
+/** Closest approach between two convex polygons that don't overlap */
+function polygonDistance(p: Point2[], q: Point2[]): number {
+  let min = Infinity;
+  const check = (from: Point2[], to: Point2[]) => {
+    for (const v of from) {
+      for (let i = 0; i < to.length; i++) {
+        min = Math.min(min, segmentDistance(v, to[i], to[(i + 1) % to.length]));
+      }
+    }
+  };
+  check(p, q);
+  check(q, p);
+  return min;
+}
+
+describe('createSeededRandom', () => {
+  it('is reproducible for the same seed', () => {
+    const a = createSeededRandom(42);
+    const b = createSeededRandom(42);
+    for (let i = 0; i < 20; i++) expect(a()).toBe(b());
+  });
+
+  it('differs between seeds and stays in [0, 1)', () => {
+    const a = createSeededRandom(1);
+    const b = createSeededRandom(2);
+    let same = 0;
+    for (let i = 0; i < 100; i++) {
+      const x = a();
+      const y = b();
+      if (x === y) same++;
+      expect(x).toBeGreaterThanOrEqual(0);
+      expect(x).toBeLessThan(1);
+    }
+    expect(same).toBe(0);
+  });
+});
+
+describe('polygon helpers', () => {
+  it('area and centroid of a rectangle', () => {
+    const rect: Point2[] = [[0, 0], [4, 0], [4, 2], [0, 2]];
+    expect(polygonArea(rect)).toBeCloseTo(8, 10);
+    expect(polygonCentroid(rect)).toEqual([2, 1]);
+  });
+});
+
+describe('computeVoronoiCells', () => {
+  const seeds = scatterSeeds(30, DOMAIN, createSeededRandom(7));
+
+  it('tiles the whole band, wrapping across the seam', () => {
+    const cells = computeVoronoiCells(seeds, DOMAIN);
+    const total = cells.reduce((sum, cell) => sum + polygonArea(cell), 0);
+    expect(total).toBeCloseTo(DOMAIN.width * (DOMAIN.top - DOMAIN.bottom), 4);
+    cells.forEach((cell) => expect(polygonArea(cell)).toBeGreaterThan(0));
+  });
+
+  it('leaves struts at least `gap` wide between neighbouring cells', () => {
+    const gap = 2.5;
+    const cells = computeVoronoiCells(seeds, DOMAIN, gap).filter((c) => c.length > 0);
+    const shift = (cell: Point2[], du: number): Point2[] => cell.map(([u, v]) => [u + du, v]);
+
+    for (let i = 0; i < cells.length; i++) {
+      for (let j = i + 1; j < cells.length; j++) {
+        for (const du of [-DOMAIN.width, 0, DOMAIN.width]) {
+          expect(polygonDistance(cells[i], shift(cells[j], du))).toBeGreaterThan(gap - 1e-6);
+        }
+      }
+    }
+  });
+
+  it('keeps cells inside the band', () => {
+    computeVoronoiCells(seeds, DOMAIN, 2).forEach((cell) => {
+      cell.forEach(([, v]) => {
+        expect(v).toBeGreaterThanOrEqual(DOMAIN.bottom - 1e-9);
+        expect(v).toBeLessThanOrEqual(DOMAIN.top + 1e-9);
+      });
+    });
+  });
+});
+
+describe('relaxSeeds', () => {
+  it('evens out cell areas and keeps seeds in the domain', () => {
+    const seeds = scatterSeeds(30, DOMAIN, createSeededRandom(3));
+    const spread = (points: Point2[]) => {
+      const areas = computeVoronoiCells(points, DOMAIN).map(polygonArea);
+      const mean = areas.reduce((a, b) => a + b, 0) / areas.length;
+      return Math.sqrt(areas.reduce((sum, a) => sum + (a - mean) ** 2, 0) / areas.length);
+    };
+
+    const relaxed = relaxSeeds(seeds, DOMAIN, 5);
+    expect(spread(relaxed)).toBeLessThan(spread(seeds) * 0.6);
+    relaxed.forEach(([u, v]) => {
+      expect(u).toBeGreaterThanOrEqual(0);
+      expect(u).toBeLessThan(DOMAIN.width);
+      expect(v).toBeGreaterThanOrEqual(DOMAIN.bottom);
+      expect(v).toBeLessThanOrEqual(DOMAIN.top);
+    });
+  });
+
+  it('is a no-op with zero iterations', () => {
+    const seeds = scatterSeeds(5, DOMAIN, createSeededRandom(3));
+    expect(relaxSeeds(seeds, DOMAIN, 0)).toEqual(seeds);
+  });
+});
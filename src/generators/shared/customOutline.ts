@@ -0,0 +1,160 @@
+/**
+ * Custom cross-sections from a drawn or imported outline.
+ *
+ * Bodies are built from a polar radius r(θ) around the vase axis, so an
+ * outline is stored as CUSTOM_OUTLINE_SAMPLES radii at evenly spaced
+ * angles around its area centroid, normalized so the largest is 1.
+ *
+ * A radius table can only describe outlines that are star-shaped from the
+ * centroid — every ray leaves through the edge exactly once. Any other
+ * outline is replaced by its convex hull (always star-shaped) and flagged
+ * so the editor can say so.
+ */
+
+import { polygonArea, polygonCentroid } from './voronoi';
+import type { Point2 } from './voronoi';
+
+/** Radii stored per outline */
+export const CUSTOM_OUTLINE_SAMPLES = 96;
+/** Fewest radii a stored outline may have — shorter tables read as a circle */
+export const MIN_CUSTOM_SAMPLES = 8;
+/** Smallest stored radius, so a deep notch never pinches the body to the axis */
+export const MIN_CUSTOM_RADIUS = 0.1;
+
+export interface OutlineRadii {
+  radii: number[];            // unit radii at angles 2π·i/radii.length, max 1
+  starShaped: boolean;        // false when the convex hull was used instead
+}
+
+/** Finite points without repeats (including a repeated closing point) */
+function cleanOutline(points: Point2[]): Point2[] {
+  const finite = points.filter(([x, y]) => isFinite(x) && isFinite(y));
+  const same = (a: Point2, b: Point2) => a[0] === b[0] && a[1] === b[1];
+  const cleaned = finite.filter((p, i) => i === 0 || !same(p, finite[i - 1]));
+  while (cleaned.length > 1 && same(cleaned[0], cleaned[cleaned.length - 1])) cleaned.pop();
+  return cleaned;
+}
+
+/** Convex hull, counter-clockwise (Andrew's monotone chain) */
+export function convexHull(points: Point2[]): Point2[] {
+  const sorted = points.slice().sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+  if (sorted.length < 3) return sorted;
+
+  const cross = (o: Point2, a: Point2, b: Point2) =>
+    (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+  const chain = (input: Point2[]) => {
+    const result: Point2[] = [];
+    input.forEach((p) => {
+      while (result.length >= 2 && cross(result[result.length - 2], result[result.length - 1], p) <= 0) {
+        result.pop();
+      }
+      result.push(p);
+    });
+    result.pop();
+    return result;
+  };
+
+  return chain(sorted).concat(chain(sorted.slice().reverse()));
+}
+
+/**
+ * True when every ray from `centre` crosses the counter-clockwise outline
+ * once: each edge turns strictly counter-clockwise around the centre and
+ * together they go round exactly once.
+ */
+export function isStarShaped(outline: Point2[], centre: Point2): boolean {
+  let swept = 0;
+  for (let i = 0; i < outline.length; i++) {
+    const ax = outline[i][0] - centre[0];
+    const ay = outline[i][1] - centre[1];
+    const bx = outline[(i + 1) % outline.length][0] - centre[0];
+    const by = outline[(i + 1) % outline.length][1] - centre[1];
+    const cross = ax * by - ay * bx;
+    if (cross <= 0) return false;
+    swept += Math.atan2(cross, ax * bx + ay * by);
+  }
+  return Math.abs(swept - Math.PI * 2) < 1e-6;
+}
+
+/** Distance from `centre` along the ray at `angle` to the farthest edge crossing */
+function rayRadius(outline: Point2[], centre: Point2, angle: number): number {
+  const dx = Math.cos(angle);
+  const dy = Math.sin(angle);
+  let farthest = 0;
+  for (let i = 0; i < outline.length; i++) {
+    const ax = outline[i][0] - centre[0];
+    const ay = outline[i][1] - centre[1];
+    const ex = outline[(i + 1) % outline.length][0] - centre[0] - ax;
+    const ey = outline[(i + 1) % outline.length][1] - centre[1] - ay;
+    const denom = dx * ey - dy * ex;
+    if (Math.abs(denom) < 1e-12) continue;
+    // Ray: s·d, edge: a + u·e
+    const s = (ax * ey - ay * ex) / denom;
+    const u = (ax * dy - ay * dx) / denom;
+    if (s > 0 && u >= -1e-9 && u <= 1 + 1e-9) farthest = Math.max(farthest, s);
+  }
+  return farthest;
+}
+
+/**
+ * Convert a closed outline (any orientation, any units) to a normalized
+ * radius table around its centroid. Returns null for outlines with fewer
+ * than three distinct points or no area.
+ */
+export function outlineToRadii(
+  points: Point2[],
+  samples: number = CUSTOM_OUTLINE_SAMPLES
+): OutlineRadii | null {
+  let outline = cleanOutline(points);
+  if (outline.length < 3) return null;
+
+  let minX = Infinity;
+  let maxX = -Infinity;
+  let minY = Infinity;
+  let maxY = -Infinity;
+  outline.forEach(([x, y]) => {
+    minX = Math.min(minX, x);
+    maxX = Math.max(maxX, x);
+    minY = Math.min(minY, y);
+    maxY = Math.max(maxY, y);
+  });
+  const area = polygonArea(outline);
+  const extent = Math.max(maxX - minX, maxY - minY);
+  if (!(Math.abs(area) > extent * extent * 1e-6)) return null;
+  if (area < 0) outline = outline.slice().reverse();
+
+  let centre = polygonCentroid(outline);
+  const starShaped = isStarShaped(outline, centre);
+  if (!starShaped) {
+    outline = convexHull(outline);
+    centre = polygonCentroid(outline);
+  }
+
+  const raw: number[] = [];
+  for (let i = 0; i < samples; i++) {
+    raw.push(rayRadius(outline, centre, (i / samples) * Math.PI * 2));
+  }
+  const max = Math.max.apply(null, raw);
+  if (!(max > 0)) return null;
+
+  return {
+    radii: raw.map((r) => Math.max(MIN_CUSTOM_RADIUS, r / max)),
+    starShaped,
+  };
+}
+
+/**
+ * Unit radius of a stored outline at any angle, interpolated linearly
+ * between samples. Tables too short to describe a shape read as a circle.
+ */
+export function sampleCustomRadius(radii: number[], angle: number): number {
+  const count = radii.length;
+  if (count < MIN_CUSTOM_SAMPLES) return 1;
+
+  const position = (angle / (Math.PI * 2)) * count;
+  const base = Math.floor(position);
+  const frac = position - base;
+  const i0 = ((base % count) + count) % count;
+  const i1 = (i0 + 1) % count;
+  return radii[i0] + (radii[i1] - radii[i0]) * frac;
+}
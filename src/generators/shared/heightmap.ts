@@ -0,0 +1,189 @@
+/**
+ * Grayscale heightmap textures for decorative shells.
+ *
+ * An image is mapped onto the unrolled outer surface — arc length around
+ * the nominal circumference (π · diameter) × height — tiled, offset and
+ * rotated in millimetres so texels stay square on the body. Bright pixels
+ * push the wall outward by up to textureDepth (inverted: dark pixels), so
+ * texture only ever adds material.
+ *
+ * Decoding uses createImageBitmap + OffscreenCanvas and runs in the
+ * geometry worker; everything else is pure math.
+ */
+
+import type { DecorativeShellParams } from '@/types/design';
+
+/** Decoded images are downsampled so their longest side fits this */
+export const MAX_HEIGHTMAP_SIZE = 256;
+/** Texture sampling caps (segments around, slices up) keep the CSG tractable */
+export const MAX_TEXTURE_SEGMENTS = 160;
+export const MAX_TEXTURE_SLICES = 120;
+
+/** Row-major grayscale values in [0, 1]; row 0 is the top of the image */
+export interface Heightmap {
+  width: number;
+  height: number;
+  values: Float32Array;
+}
+
+/**
+ * Convert RGBA pixels to luminance (Rec. 709). Transparent pixels count
+ * as black so logos on a transparent background emboss cleanly.
+ */
+export function rgbaToHeightmap(
+  rgba: Uint8ClampedArray | Uint8Array,
+  width: number,
+  height: number
+): Heightmap {
+  const values = new Float32Array(width * height);
+  for (let i = 0; i < values.length; i++) {
+    const r = rgba[i * 4];
+    const g = rgba[i * 4 + 1];
+    const b = rgba[i * 4 + 2];
+    const a = rgba[i * 4 + 3];
+    values[i] = ((0.2126 * r + 0.7152 * g + 0.0722 * b) / 255) * (a / 255);
+  }
+  return { width, height, values };
+}
+
+/** Decode a PNG (or any browser-readable image) — worker/browser only */
+export async function decodeHeightmap(image: ArrayBuffer): Promise<Heightmap> {
+  const bitmap = await createImageBitmap(new Blob([image]));
+  const scale = Math.min(1, MAX_HEIGHTMAP_SIZE / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const canvas = new OffscreenCanvas(width, height);
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('2D canvas is not available to decode the texture');
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  return rgbaToHeightmap(context.getImageData(0, 0, width, height).data, width, height);
+}
+
+/** Wrap into [0, 1) */
+function fract(x: number): number {
+  return x - Math.floor(x);
+}
+
+/**
+ * Bilinear sample at (u, v) in tile units — u left→right, v top→bottom —
+ * wrapping on both axes so tiles join seamlessly.
+ */
+export function sampleHeightmap(map: Heightmap, u: number, v: number): number {
+  const x = fract(u) * map.width - 0.5;
+  const y = fract(v) * map.height - 0.5;
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const fx = x - x0;
+  const fy = y - y0;
+
+  const at = (px: number, py: number) => {
+    const wx = ((px % map.width) + map.width) % map.width;
+    const wy = ((py % map.height) + map.height) % map.height;
+    return map.values[wy * map.width + wx];
+  };
+
+  const top = at(x0, y0) * (1 - fx) + at(x0 + 1, y0) * fx;
+  const bottom = at(x0, y0 + 1) * (1 - fx) + at(x0 + 1, y0 + 1) * fx;
+  return top * (1 - fy) + bottom * fy;
+}
+
+/** True when a texture displaces the surface */
+export function hasTexture(
+  params: DecorativeShellParams,
+  heightmap: Heightmap | null | undefined
+): heightmap is Heightmap {
+  return !!heightmap && params.textureDepth > 0;
+}
+
+interface TextureLattice {
+  cos: number;
+  sin: number;
+  tileWidth: number;   // mm
+  tileHeight: number;  // mm
+}
+
+/**
+ * Rotation and tile size for a seamless wrap. One turn around the body
+ * must step a whole number of tiles along both image axes, so the tiles
+ * are resized to fit; where not even one tile fits along an axis, the
+ * rotation snaps to the nearest axis instead.
+ */
+function getTextureLattice(params: DecorativeShellParams): TextureLattice {
+  const circumference = Math.PI * params.diameter;
+  const targetWidth = circumference / Math.max(1, params.textureTilesU);
+  const targetHeight = params.height / Math.max(1, params.textureTilesV);
+  const rotation = (params.textureRotation * Math.PI) / 180;
+  let cos = Math.cos(rotation);
+  let sin = Math.sin(rotation);
+
+  // Tiles stepped along the image's u and v axes per turn
+  let stepsU = Math.round((circumference * cos) / targetWidth);
+  let stepsV = Math.round((circumference * sin) / targetHeight);
+  if (stepsV === 0 && (stepsU !== 0 || Math.abs(cos) >= Math.abs(sin))) {
+    cos = cos < 0 ? -1 : 1;
+    sin = 0;
+    stepsU = cos * Math.max(1, Math.round(circumference / targetWidth));
+  } else if (stepsU === 0) {
+    cos = 0;
+    sin = sin < 0 ? -1 : 1;
+    stepsV = sin * Math.max(1, Math.round(circumference / targetHeight));
+  }
+
+  return {
+    cos,
+    sin,
+    tileWidth: stepsU === 0 ? targetWidth : (circumference * cos) / stepsU,
+    tileHeight: stepsV === 0 ? targetHeight : (circumference * sin) / stepsV,
+  };
+}
+
+/**
+ * Outward displacement (mm) at un-twisted angle θ and normalized height t.
+ * The image's top edge sits at the top of each tile; tiles are sized by
+ * getTextureLattice so the image joins up across θ = 0.
+ */
+export function createTextureMapper(
+  params: DecorativeShellParams,
+  heightmap: Heightmap
+): (angle: number, t: number) => number {
+  const circumference = Math.PI * params.diameter;
+  const { cos, sin, tileWidth, tileHeight } = getTextureLattice(params);
+
+  return (angle: number, t: number) => {
+    const x = fract(angle / (2 * Math.PI)) * circumference;
+    const y = t * params.height;
+    // Rotating the image CCW = sampling it at the point rotated CW
+    const rx = cos * x + sin * y;
+    const ry = -sin * x + cos * y;
+    const u = rx / tileWidth + params.textureOffsetU;
+    const v = ry / tileHeight + params.textureOffsetV;
+    const value = sampleHeightmap(heightmap, u, 1 - v);
+    return (params.textureInvert ? 1 - value : value) * params.textureDepth;
+  };
+}
+
+/** Push each point outward along its ray by the texture displacement */
+export function applyTextureDisplacement(
+  points: [number, number][],
+  t: number,
+  mapper: (angle: number, t: number) => number
+): [number, number][] {
+  return points.map(([x, y]) => {
+    const angle = Math.atan2(y, x);
+    const r = Math.sqrt(x * x + y * y) + mapper(angle, t);
+    return [Math.cos(angle) * r, Math.sin(angle) * r] as [number, number];
+  });
+}
+
+/** Cross-section segments needed to resolve the texture around the body */
+export function getTextureSegmentCount(params: DecorativeShellParams, heightmap: Heightmap): number {
+  return Math.min(MAX_TEXTURE_SEGMENTS, Math.ceil(params.textureTilesU * heightmap.width));
+}
+
+/** Slices needed to resolve the texture up the height */
+export function getTextureSliceCount(params: DecorativeShellParams, heightmap: Heightmap): number {
+  return Math.min(MAX_TEXTURE_SLICES, Math.ceil(params.textureTilesV * heightmap.height));
+}
@@ -0,0 +1,387 @@
+/**
+ * Per-layer cross-section sampling for decorative shells.
+ * Pure math (no JSCAD) so the shell builder, the print validator and the
+ * editor UI all see the exact same layer outlines.
+ *
+ * Faceted shells replace the smooth surface with facetCount vertices per
+ * layer and facetBands straight bands up the height; layers between bands
+ * are interpolated so every band face stays flat-sided.
+ *
+ * Surface waves, heightmap textures and text are applied per layer on
+ * the un-twisted outline, so they follow the profile and spiral with the
+ * twist like ridges do. A cross-section that morphs toward crossSectionTop
+ * or a noise outline that drifts with height is re-sampled for every layer.
+ */
+
+import type { DecorativeShellParams } from '@/types/design';
+import {
+  applyRidgeModulation,
+  applyFinModulation,
+  applyWaveDisplacement,
+  getLayerShapeRadius,
+  getWaveSamplesPerCycle,
+  hasCrossSectionMorph,
+  usesCrossSection,
+} from '../vase/crossSections';
+import { getShellProfileScale, getTwistProgress } from '../vase/profiles';
+import { CUSTOM_OUTLINE_SAMPLES } from './customOutline';
+import { offsetPolygonInward } from './offsetPolygon';
+import { createSeededRandom } from './seededRandom';
+import {
+  applyTextureDisplacement,
+  createTextureMapper,
+  getTextureSegmentCount,
+  hasTexture,
+} from './heightmap';
+import type { Heightmap } from './heightmap';
+import { applyTextDisplacement, createTextMapper, insertTextAngles } from './surfaceText';
+import type { TextLayout } from './surfaceText';
+
+/** Jitter never pulls a facet vertex below this fraction of its radius */
+const MIN_JITTER_SCALE = 0.5;
+/** Jitter is capped at this fraction of the facet width so facets never fold */
+const MAX_JITTER_RATIO = 0.4;
+/** Noise sampling: points per noise feature, capped around and up the body */
+const NOISE_SAMPLES_PER_FEATURE = 4;
+const MAX_NOISE_SEGMENTS = 256;
+const MAX_NOISE_SLICES = 120;
+
+export interface LayerSampleOptions {
+  resolution: number;
+  wallInset: number;
+  skipModulation?: boolean;
+  invertProfile?: boolean;  // true = narrow at Z=0, wide at Z=height
+  heightOffset?: number;    // mm the shell is raised by — faceted bands and noise drift follow the outer shell at world height
+  heightmap?: Heightmap | null;  // embossed onto this surface when textureDepth > 0
+  text?: TextLayout | null;      // embossed onto or engraved into this surface
+}
+
+/** Un-twisted 2D points of one shell layer at normalized height t */
+export type LayerSampler = (t: number) => [number, number][];
+
+/**
+ * Create a sampler for the cross-section of a decorative shell at any
+ * normalized height t: profile scaling, ridge/fin modulation and (when
+ * wallInset > 0) the slope-compensated inward offset. Twist is not applied.
+ */
+export function createLayerSampler(
+  params: DecorativeShellParams,
+  options: LayerSampleOptions
+): LayerSampler {
+  const { resolution, wallInset, skipModulation = false, invertProfile = false } = options;
+  const baseRadius = params.diameter / 2;
+  const minRadius = wallInset * 0.3;
+
+  if (params.faceted) return createFacetedSampler(params, options);
+
+  const isSpiralFin = params.style === 'spiral-fin' && !skipModulation;
+  const skipRidges = skipModulation;
+  const hasWaves = !skipModulation && hasWaveDisplacement(params);
+  const textureMapper = hasTexture(params, options.heightmap)
+    ? createTextureMapper(params, options.heightmap)
+    : null;
+  const textMapper = options.text ? createTextMapper(params, options.text) : null;
+
+  // Segment count for cross-section — uniform for all shapes since
+  // every shape is sampled via getBaseRadiusAtAngle.
+  let crossSectionSegments = Math.max(resolution, 32);
+
+  // Spiral-fin needs enough samples per fin cycle for smooth cosine waves
+  if (isSpiralFin) {
+    crossSectionSegments = Math.max(crossSectionSegments, params.finCount * 10);
+  }
+
+  if (hasWaves) {
+    crossSectionSegments = Math.max(
+      crossSectionSegments,
+      params.waveCount * getWaveSamplesPerCycle(params.wavePattern)
+    );
+  }
+
+  if (textureMapper && options.heightmap) {
+    crossSectionSegments = Math.max(
+      crossSectionSegments,
+      getTextureSegmentCount(params, options.heightmap)
+    );
+  }
+
+  if (usesCrossSection(params, 'noise')) {
+    crossSectionSegments = Math.max(crossSectionSegments, getNoiseSegmentCount(params));
+  }
+
+  // A sample per stored radius keeps the corners of a custom outline; stored
+  // outlines never hold more than CUSTOM_OUTLINE_SAMPLES, so neither does this
+  if (usesCrossSection(params, 'custom')) {
+    crossSectionSegments = Math.max(
+      crossSectionSegments,
+      Math.min(params.customCrossSection.length, CUSTOM_OUTLINE_SAMPLES)
+    );
+  }
+
+  let angles: number[] = [];
+  for (let i = 0; i < crossSectionSegments; i++) {
+    angles.push((i / crossSectionSegments) * Math.PI * 2);
+  }
+  // Text needs stroke-width spacing, but only across the arc it covers
+  if (options.text) angles = insertTextAngles(angles, options.text);
+
+  // Base cross-section points at unit radius — rebuilt per layer only when
+  // the shape morphs or the noise outline drifts with height
+  const tOffset = (options.heightOffset ?? 0) / params.height;
+  const basePoints = createUnitOutline(params, angles, tOffset);
+  const varies = hasVaryingOutline(params);
+
+  return (t: number) => {
+    const profileT = invertProfile ? 1 - t : t;
+    const profileScale = getShellProfileScale(params, profileT);
+    const layerRadius = baseRadius * profileScale;
+
+    let layerPoints: [number, number][];
+
+    const unitPoints = varies ? createUnitOutline(params, angles, profileT + tOffset) : basePoints;
+    const scaled = unitPoints.map(
+      ([x, y]) => [x * layerRadius, y * layerRadius] as [number, number]
+    );
+
+    if (isSpiralFin) {
+      const finHeightAtLayer = params.finHeight * profileScale;
+      layerPoints = applyFinModulation(
+        scaled,
+        params.finCount,
+        finHeightAtLayer,
+        params.finWidth
+      );
+    } else if (skipRidges) {
+      layerPoints = scaled;
+    } else {
+      const ridgeDepthAtLayer = params.ridgeDepth * profileScale;
+      layerPoints = applyRidgeModulation(
+        scaled,
+        params.ridgeCount,
+        ridgeDepthAtLayer > 0 ? ridgeDepthAtLayer : 0,
+        params.ridgeProfile
+      );
+    }
+
+    if (hasWaves) {
+      layerPoints = applyWaveDisplacement(
+        layerPoints,
+        t,
+        params.wavePattern,
+        params.waveAmplitude,
+        params.waveCount,
+        params.waveRows
+      );
+    }
+
+    if (textureMapper) {
+      layerPoints = applyTextureDisplacement(layerPoints, t, textureMapper);
+    }
+
+    if (textMapper) {
+      layerPoints = applyTextDisplacement(layerPoints, t, textMapper);
+    }
+
+    if (wallInset > 0) {
+      const slopeCompensation = getSlopeCompensation(params, profileT);
+      const adjustedInset = wallInset * slopeCompensation;
+      layerPoints = offsetPolygonInward(layerPoints, adjustedInset, minRadius);
+    }
+
+    return layerPoints;
+  };
+}
+
+/**
+ * Low-poly sampler: band outlines are built once (profile scale at each
+ * band height plus seeded radial jitter per vertex) and layers in between
+ * are linear blends of the two neighbouring bands. Ridges, fins, waves,
+ * textures and text are not applied — the facets are the surface detail.
+ *
+ * The wall inset is slope-compensated with the steepest facet edge that
+ * meets each band rather than the smooth profile, so the inner wall keeps
+ * at least wallInset of material behind every facet.
+ */
+function createFacetedSampler(
+  params: DecorativeShellParams,
+  options: LayerSampleOptions
+): LayerSampler {
+  const { wallInset, invertProfile = false, heightOffset = 0 } = options;
+  const baseRadius = params.diameter / 2;
+  const minRadius = wallInset * 0.3;
+  const facets = Math.max(3, Math.round(params.facetCount));
+  const bands = getFacetBandCount(params);
+  const bandHeight = params.height / bands;
+  const tOffset = heightOffset / params.height;
+
+  const angles: number[] = [];
+  for (let i = 0; i < facets; i++) angles.push((i / facets) * Math.PI * 2);
+
+  const random = createSeededRandom(params.facetSeed);
+  // Drawn band by band, vertex by vertex — the order is part of the seed contract
+  const bandLayers: [number, number][][] = [];
+  for (let k = 0; k <= bands; k++) {
+    const t = k / bands;
+    const profileT = invertProfile ? 1 - t : t;
+    const layerRadius = baseRadius * getShellProfileScale(params, profileT);
+    const basePoints = createUnitOutline(params, angles, profileT);
+    const maxJitter = Math.min(
+      params.facetJitter,
+      MAX_JITTER_RATIO * (2 * Math.PI * layerRadius) / facets
+    );
+    bandLayers.push(
+      basePoints.map(([x, y]) => {
+        const r = Math.hypot(x, y) * layerRadius;
+        const jitter = (random() * 2 - 1) * maxJitter;
+        const scale = r > 0 ? Math.max(r + jitter, r * MIN_JITTER_SCALE) / r : 0;
+        return [x * layerRadius * scale, y * layerRadius * scale] as [number, number];
+      })
+    );
+  }
+
+  // Steepest radial run per band-height rise over the facets of each band
+  const edgeSlopes: number[] = [];
+  for (let k = 0; k < bands; k++) {
+    let maxRun = 0;
+    bandLayers[k].forEach(([x0, y0], i) => {
+      const [x1, y1] = bandLayers[k + 1][i];
+      maxRun = Math.max(maxRun, Math.abs(Math.hypot(x1, y1) - Math.hypot(x0, y0)));
+    });
+    edgeSlopes.push(maxRun / bandHeight);
+  }
+  const bandCompensation = bandLayers.map((_, k) => {
+    const slope = Math.max(edgeSlopes[k - 1] ?? 0, edgeSlopes[k] ?? 0);
+    return Math.sqrt(1 + slope * slope);
+  });
+
+  return (t: number) => {
+    const position = Math.max(0, Math.min(1, t + tOffset)) * bands;
+    const k = Math.min(Math.floor(position), bands - 1);
+    const f = position - k;
+    const lower = bandLayers[k];
+    const upper = bandLayers[k + 1];
+
+    let layerPoints = lower.map(
+      ([x0, y0], i) =>
+        [x0 + (upper[i][0] - x0) * f, y0 + (upper[i][1] - y0) * f] as [number, number]
+    );
+
+    if (wallInset > 0) {
+      const compensation = Math.max(bandCompensation[k], bandCompensation[k + 1]);
+      layerPoints = offsetPolygonInward(layerPoints, wallInset * compensation, minRadius);
+    }
+
+    return layerPoints;
+  };
+}
+
+/**
+ * Unit-radius outline of the cross-section shape at the given angles, for
+ * the layer at normalized height t (only morphing and noise depend on t)
+ */
+function createUnitOutline(
+  params: DecorativeShellParams,
+  angles: number[],
+  t: number
+): [number, number][] {
+  const radiusAt = getLayerShapeRadius(params, t);
+  return angles.map((angle) => {
+    const r = radiusAt(angle);
+    return [Math.cos(angle) * r, Math.sin(angle) * r] as [number, number];
+  });
+}
+
+/** True when the unit outline changes from layer to layer */
+function hasVaryingOutline(params: DecorativeShellParams): boolean {
+  return hasCrossSectionMorph(params) || hasNoiseDrift(params);
+}
+
+/** True when the noise cross-section changes from layer to layer */
+export function hasNoiseDrift(params: DecorativeShellParams): boolean {
+  return (
+    usesCrossSection(params, 'noise') &&
+    params.noiseAmplitude > 0 &&
+    params.noiseHeightVariation > 0
+  );
+}
+
+/** Finest noise octave's features per unit of noise field (Perlin ≈ 1) */
+function getNoiseDetail(params: DecorativeShellParams): number {
+  return Math.pow(2, Math.max(1, Math.round(params.noiseOctaves)) - 1);
+}
+
+/** Cross-section segments needed to resolve the noise outline */
+function getNoiseSegmentCount(params: DecorativeShellParams): number {
+  const features = 2 * Math.PI * params.noiseFrequency * getNoiseDetail(params);
+  return Math.min(MAX_NOISE_SEGMENTS, Math.ceil(features * NOISE_SAMPLES_PER_FEATURE));
+}
+
+/** Slices needed to resolve the noise drift up the height (0 without drift) */
+export function getNoiseSliceCount(params: DecorativeShellParams): number {
+  if (!hasNoiseDrift(params)) return 0;
+  const features = params.noiseHeightVariation * getNoiseDetail(params);
+  return Math.min(MAX_NOISE_SLICES, Math.ceil(features * NOISE_SAMPLES_PER_FEATURE));
+}
+
+/** True when the shell carries a 2D surface wave */
+export function hasWaveDisplacement(params: DecorativeShellParams): boolean {
+  return params.wavePattern !== 'none' && params.waveAmplitude > 0;
+}
+
+/**
+ * Slices needed to resolve surface waves up the height (0 without waves)
+ */
+export function getWaveSliceCount(params: DecorativeShellParams): number {
+  if (!hasWaveDisplacement(params)) return 0;
+  return Math.ceil(params.waveRows * getWaveSamplesPerCycle(params.wavePattern));
+}
+
+function getFacetBandCount(params: DecorativeShellParams): number {
+  return Math.max(1, Math.round(params.facetBands));
+}
+
+/**
+ * Normalized heights at which a faceted shell must be sliced: both ends
+ * plus every band edge, shifted down by heightOffset so a raised inner
+ * shell bends exactly where the outer surface does.
+ */
+export function getFacetSliceHeights(
+  params: DecorativeShellParams,
+  heightOffset: number = 0
+): number[] {
+  const bands = getFacetBandCount(params);
+  const tOffset = heightOffset / params.height;
+  const heights = [0];
+  for (let k = 1; k <= bands; k++) {
+    const t = k / bands - tOffset;
+    if (t > 1e-6 && t < 1 - 1e-6) heights.push(t);
+  }
+  heights.push(1);
+  return heights;
+}
+
+/**
+ * Ratio of horizontal to surface-normal wall thickness at profile height t:
+ * sqrt(1 + (dR/dH)²), with dR/dH from a clamped central difference.
+ */
+export function getSlopeCompensation(
+  params: DecorativeShellParams,
+  profileT: number
+): number {
+  const eps = 0.001;
+  const tLo = Math.max(0, profileT - eps);
+  const tHi = Math.min(1, profileT + eps);
+  const pLo = getShellProfileScale(params, tLo);
+  const pHi = getShellProfileScale(params, tHi);
+  const dProfileDt = (pHi - pLo) / (tHi - tLo);
+  const dR_dH = (params.diameter / 2) * dProfileDt / params.height;
+  return Math.sqrt(1 + dR_dH * dR_dH);
+}
+
+/** Twist rotation (radians, CCW-positive) applied to the layer at height t */
+export function getLayerTwist(params: DecorativeShellParams, t: number): number {
+  const twistAngleRad =
+    (params.twistAngle * Math.PI) / 180 *
+    (params.twistDirection === 'cw' ? -1 : 1);
+  return twistAngleRad * getTwistProgress(params.twistEasing, t);
+}
@@ -0,0 +1,163 @@
+/**
+ * Watertightness checks and repair for welded meshes.
+ *
+ * CSG output is closed in exact arithmetic but, once welded, can keep
+ * T-junctions: a vertex of one face lying on the middle of a neighbour's
+ * edge. Slicers report those edges as open.
+ */
+
+import type { IndexedMesh } from './meshWeld';
+
+/** Max distance (mm) of a vertex from an edge for it to count as lying on it */
+const T_JUNCTION_TOLERANCE = 1e-4;
+
+/**
+ * Directed edges a→b that are not matched by exactly one b→a.
+ * Empty for a closed, consistently oriented 2-manifold.
+ */
+export function findOpenEdges(mesh: IndexedMesh): [number, number][] {
+  const { indices } = mesh;
+  const counts = new Map<string, number>();
+  for (let i = 0; i < indices.length; i += 3) {
+    for (let k = 0; k < 3; k++) {
+      const key = `${indices[i + k]}>${indices[i + ((k + 1) % 3)]}`;
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+  }
+
+  const open: [number, number][] = [];
+  counts.forEach((count, key) => {
+    const [a, b] = key.split('>');
+    if (count !== 1 || counts.get(`${b}>${a}`) !== 1) open.push([Number(a), Number(b)]);
+  });
+  return open;
+}
+
+/**
+ * Split triangles at T-junctions.
+ *
+ * CSG leaves vertices of one face lying on the middle of a neighbouring
+ * face's edge, so that edge has no matching twin and the mesh is not
+ * watertight. For every open edge, any open-edge endpoint lying on it is
+ * inserted by splitting the owning triangle (a, b, c) with v on a→b into
+ * (a, v, c) and (v, b, c).
+ */
+export function repairTJunctions(mesh: IndexedMesh): IndexedMesh {
+  const open = findOpenEdges(mesh);
+  if (open.length === 0) return mesh;
+
+  const { positions } = mesh;
+  // Open-edge endpoints sorted by x, so each edge only scans its own x-range
+  const candidates = Array.from(new Set(open.reduce<number[]>((acc, [a, b]) => {
+    acc.push(a, b);
+    return acc;
+  }, []))).sort((a, b) => positions[a * 3] - positions[b * 3]);
+  const firstAtOrAbove = (x: number): number => {
+    let lo = 0;
+    let hi = candidates.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (positions[candidates[mid] * 3] < x) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  };
+
+  // Interior vertices of each open edge, keyed "a>b"
+  const splits = new Map<string, number[]>();
+  for (const [a, b] of open) {
+    const ax = positions[a * 3];
+    const ay = positions[a * 3 + 1];
+    const az = positions[a * 3 + 2];
+    const dx = positions[b * 3] - ax;
+    const dy = positions[b * 3 + 1] - ay;
+    const dz = positions[b * 3 + 2] - az;
+    const lenSq = dx * dx + dy * dy + dz * dz;
+    if (lenSq === 0) continue;
+
+    const inside: number[] = [];
+    const maxX = Math.max(ax, ax + dx) + T_JUNCTION_TOLERANCE;
+    for (let j = firstAtOrAbove(Math.min(ax, ax + dx) - T_JUNCTION_TOLERANCE); j < candidates.length; j++) {
+      const v = candidates[j];
+      if (positions[v * 3] > maxX) break;
+      if (v === a || v === b) continue;
+      const vx = positions[v * 3] - ax;
+      const vy = positions[v * 3 + 1] - ay;
+      const vz = positions[v * 3 + 2] - az;
+      const u = (vx * dx + vy * dy + vz * dz) / lenSq;
+      if (u <= 0 || u >= 1) continue;
+      const ex = vx - u * dx;
+      const ey = vy - u * dy;
+      const ez = vz - u * dz;
+      if (ex * ex + ey * ey + ez * ez < T_JUNCTION_TOLERANCE * T_JUNCTION_TOLERANCE) {
+        inside.push(v);
+      }
+    }
+    if (inside.length > 0) splits.set(`${a}>${b}`, inside);
+  }
+  if (splits.size === 0) return mesh;
+
+  const out: number[] = [];
+  const { indices } = mesh;
+  for (let i = 0; i < indices.length; i += 3) {
+    const stack: [number, number, number][] = [[indices[i], indices[i + 1], indices[i + 2]]];
+    // Sub-triangles keep checking the original edges' split vertices
+    const edges: [number, number][] = [
+      [indices[i], indices[i + 1]],
+      [indices[i + 1], indices[i + 2]],
+      [indices[i + 2], indices[i]],
+    ];
+
+    while (stack.length > 0) {
+      const tri = stack.pop()!;
+      let split = false;
+
+      for (let k = 0; k < 3 && !split; k++) {
+        const p = tri[k];
+        const q = tri[(k + 1) % 3];
+        const r = tri[(k + 2) % 3];
+        for (const [ea, eb] of edges) {
+          const list = splits.get(`${ea}>${eb}`);
+          if (!list) continue;
+          // Only sub-segments of the original edge, never the new diagonals
+          const onLine = (x: number) => x === ea || x === eb || list.indexOf(x) >= 0;
+          if (!onLine(p) || !onLine(q)) continue;
+          for (const v of list) {
+            if (v === p || v === q || v === r) continue;
+            if (isBetween(positions, p, q, v)) {
+              stack.push([p, v, r], [v, q, r]);
+              split = true;
+              break;
+            }
+          }
+          if (split) break;
+        }
+      }
+
+      if (!split) out.push(tri[0], tri[1], tri[2]);
+    }
+  }
+
+  return { positions, indices: new Uint32Array(out) };
+}
+
+/** True when v lies strictly inside segment p–q (within T_JUNCTION_TOLERANCE) */
+function isBetween(positions: Float32Array, p: number, q: number, v: number): boolean {
+  const px = positions[p * 3];
+  const py = positions[p * 3 + 1];
+  const pz = positions[p * 3 + 2];
+  const dx = positions[q * 3] - px;
+  const dy = positions[q * 3 + 1] - py;
+  const dz = positions[q * 3 + 2] - pz;
+  const lenSq = dx * dx + dy * dy + dz * dz;
+  if (lenSq === 0) return false;
+  const vx = positions[v * 3] - px;
+  const vy = positions[v * 3 + 1] - py;
+  const vz = positions[v * 3 + 2] - pz;
+  const u = (vx * dx + vy * dy + vz * dz) / lenSq;
+  if (u <= 0 || u >= 1) return false;
+  const ex = vx - u * dx;
+  const ey = vy - u * dy;
+  const ez = vz - u * dz;
+  return ex * ex + ey * ey + ez * ez < T_JUNCTION_TOLERANCE * T_JUNCTION_TOLERANCE;
+}
@@ -0,0 +1,130 @@
+import { geometries } from '@jscad/modeling';
+import type { Geom3 } from '@jscad/modeling';
+import { repairTJunctions } from './meshRepair';
+
+/** Indexed triangle mesh with shared (welded) vertices */
+export interface IndexedMesh {
+  positions: Float32Array;  // xyz per unique vertex
+  indices: Uint32Array;     // 3 vertex indices per triangle
+}
+
+/** Default weld tolerance in mm — well below printer resolution */
+export const DEFAULT_WELD_TOLERANCE = 1e-4;
+
+/**
+ * Convert a JSCAD Geom3 into an indexed mesh, merging coincident vertices.
+ *
+ * Algorithm:
+ * 1. Quantize each vertex to a `tolerance` grid and look it up in a hash map
+ *    (falling back to the adjacent cells for points straddling a cell edge)
+ * 2. Fan-triangulate each polygon over the welded indices
+ * 3. Drop triangles that collapse after welding (two equal indices)
+ * 4. Split triangles at T-junctions left by CSG (see repairTJunctions)
+ */
+export function weldGeom3(
+  geom: Geom3,
+  tolerance: number = DEFAULT_WELD_TOLERANCE
+): IndexedMesh {
+  const polygons = geometries.geom3.toPolygons(geom);
+  const lookup = new Map<string, number>();
+  const positions: number[] = [];
+  const indices: number[] = [];
+
+  const indexOf = (v: [number, number, number]): number => {
+    const cx = Math.round(v[0] / tolerance);
+    const cy = Math.round(v[1] / tolerance);
+    const cz = Math.round(v[2] / tolerance);
+    const key = `${cx},${cy},${cz}`;
+    let index = lookup.get(key);
+    if (index !== undefined) return index;
+
+    // Near-coincident points can round into adjacent cells — check the neighbours
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dz = -1; dz <= 1; dz++) {
+          const near = lookup.get(`${cx + dx},${cy + dy},${cz + dz}`);
+          if (
+            near !== undefined &&
+            Math.abs(positions[near * 3] - v[0]) <= tolerance &&
+            Math.abs(positions[near * 3 + 1] - v[1]) <= tolerance &&
+            Math.abs(positions[near * 3 + 2] - v[2]) <= tolerance
+          ) {
+            lookup.set(key, near);
+            return near;
+          }
+        }
+      }
+    }
+
+    index = positions.length / 3;
+    positions.push(v[0], v[1], v[2]);
+    lookup.set(key, index);
+    return index;
+  };
+
+  for (const poly of polygons) {
+    const verts = poly.vertices;
+    if (verts.length < 3) continue;
+
+    const polyIndices = verts.map((v) => indexOf(v as [number, number, number]));
+    for (let i = 1; i < polyIndices.length - 1; i++) {
+      const a = polyIndices[0];
+      const b = polyIndices[i];
+      const c = polyIndices[i + 1];
+      if (a === b || b === c || a === c) continue;
+      indices.push(a, b, c);
+    }
+  }
+
+  return repairTJunctions({
+    positions: new Float32Array(positions),
+    indices: new Uint32Array(indices),
+  });
+}
+
+/**
+ * Compute smooth per-vertex normals for an indexed mesh.
+ * Each vertex normal is the area-weighted average of its incident face
+ * normals (unnormalized cross products carry the area weight for free).
+ */
+export function computeVertexNormals(mesh: IndexedMesh): Float32Array {
+  const { positions, indices } = mesh;
+  const normals = new Float32Array(positions.length);
+
+  for (let i = 0; i < indices.length; i += 3) {
+    const a = indices[i] * 3;
+    const b = indices[i + 1] * 3;
+    const c = indices[i + 2] * 3;
+
+    const e1x = positions[b] - positions[a];
+    const e1y = positions[b + 1] - positions[a + 1];
+    const e1z = positions[b + 2] - positions[a + 2];
+    const e2x = positions[c] - positions[a];
+    const e2y = positions[c + 1] - positions[a + 1];
+    const e2z = positions[c + 2] - positions[a + 2];
+
+    const nx = e1y * e2z - e1z * e2y;
+    const ny = e1z * e2x - e1x * e2z;
+    const nz = e1x * e2y - e1y * e2x;
+
+    for (const v of [a, b, c]) {
+      normals[v] += nx;
+      normals[v + 1] += ny;
+      normals[v + 2] += nz;
+    }
+  }
+
+  for (let i = 0; i < normals.length; i += 3) {
+    const len = Math.sqrt(normals[i] ** 2 + normals[i + 1] ** 2 + normals[i + 2] ** 2);
+    if (len === 0) {
+      // Isolated vertex — fallback normal
+      normals[i + 2] = 1;
+    } else {
+      normals[i] /= len;
+      normals[i + 1] /= len;
+      normals[i + 2] /= len;
+    }
+  }
+
+  return normals;
+}
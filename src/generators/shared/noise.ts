@@ -0,0 +1,107 @@
+/**
+ * Seeded 3D gradient noise (Ken Perlin's improved noise) and fractal sums
+ * of it. The permutation table is shuffled with the seeded generator, so a
+ * seed always produces the same field.
+ *
+ * Sampling the field on a circle (cos θ, sin θ, z) gives outlines that
+ * close without a seam; moving z gives a slowly evolving family of them.
+ */
+
+import { createSeededRandom } from './seededRandom';
+
+/** Per-seed permutation tables (512 entries: 0-255 shuffled, then repeated) */
+const permutations = new Map<number, number[]>();
+
+function getPermutation(seed: number): number[] {
+  const cached = permutations.get(seed);
+  if (cached) return cached;
+
+  const random = createSeededRandom(seed);
+  const table: number[] = [];
+  for (let i = 0; i < 256; i++) table.push(i);
+  for (let i = 255; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    const swap = table[i];
+    table[i] = table[j];
+    table[j] = swap;
+  }
+  const perm = table.concat(table);
+  permutations.set(seed, perm);
+  return perm;
+}
+
+function fade(t: number): number {
+  return t * t * t * (t * (t * 6 - 15) + 10);
+}
+
+function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * t;
+}
+
+/** Dot product with one of 12 cube-edge gradients picked by the hash */
+function grad(hash: number, x: number, y: number, z: number): number {
+  const h = hash & 15;
+  const u = h < 8 ? x : y;
+  const v = h < 4 ? y : h === 12 || h === 14 ? x : z;
+  return ((h & 1) === 0 ? u : -u) + ((h & 2) === 0 ? v : -v);
+}
+
+/** Gradient noise at (x, y, z), roughly in [-1, 1] and 0 at integer points */
+export function perlinNoise3(x: number, y: number, z: number, seed: number): number {
+  const p = getPermutation(seed);
+  const X = Math.floor(x) & 255;
+  const Y = Math.floor(y) & 255;
+  const Z = Math.floor(z) & 255;
+  const fx = x - Math.floor(x);
+  const fy = y - Math.floor(y);
+  const fz = z - Math.floor(z);
+  const u = fade(fx);
+  const v = fade(fy);
+  const w = fade(fz);
+
+  const A = p[X] + Y;
+  const AA = p[A] + Z;
+  const AB = p[A + 1] + Z;
+  const B = p[X + 1] + Y;
+  const BA = p[B] + Z;
+  const BB = p[B + 1] + Z;
+
+  return lerp(
+    lerp(
+      lerp(grad(p[AA], fx, fy, fz), grad(p[BA], fx - 1, fy, fz), u),
+      lerp(grad(p[AB], fx, fy - 1, fz), grad(p[BB], fx - 1, fy - 1, fz), u),
+      v
+    ),
+    lerp(
+      lerp(grad(p[AA + 1], fx, fy, fz - 1), grad(p[BA + 1], fx - 1, fy, fz - 1), u),
+      lerp(grad(p[AB + 1], fx, fy - 1, fz - 1), grad(p[BB + 1], fx - 1, fy - 1, fz - 1), u),
+      v
+    ),
+    w
+  );
+}
+
+/**
+ * Fractal (fBm) noise: `octaves` layers, each at twice the frequency and
+ * half the weight of the previous one, normalized and clamped to [-1, 1].
+ */
+export function fractalNoise3(
+  x: number,
+  y: number,
+  z: number,
+  octaves: number,
+  seed: number
+): number {
+  const layers = Math.max(1, Math.round(octaves));
+  let sum = 0;
+  let weight = 1;
+  let total = 0;
+  let frequency = 1;
+  for (let i = 0; i < layers; i++) {
+    sum += weight * perlinNoise3(x * frequency, y * frequency, z * frequency, seed);
+    total += weight;
+    weight *= 0.5;
+    frequency *= 2;
+  }
+  return Math.max(-1, Math.min(1, sum / total));
+}
@@ -0,0 +1,15 @@
+/**
+ * Deterministic PRNG (mulberry32) — the same seed always yields the same
+ * sequence of floats in [0, 1). Used wherever a design has a `seed` param
+ * so shared links and exports reproduce exactly.
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = Math.floor(seed) >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
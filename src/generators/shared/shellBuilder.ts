@@ -1,29 +1,29 @@
 /**
  * Shared decorative shell builder.
  * Builds a solid shape via extrudeFromSlices with per-layer profile scaling,
- * twist, and ridge/fin modulation. Used by vase generator.
+ * twist, ridge/fin modulation, surface waves, heightmap textures and text.
+ * Used by vase generator.
  */
 
 import { extrusions } from '@jscad/modeling';
 import type { Geom3 } from '@jscad/modeling';
 import type { DecorativeShellParams } from '@/types/design';
 import {
-  createCrossSection,
-  applyRidgeModulation,
-  applyFinModulation,
-} from '../vase/crossSections';
-import { getProfileScale, getTwistProgress } from '../vase/profiles';
-import { offsetPolygonInward } from './offsetPolygon';
+  createLayerSampler,
+  getFacetSliceHeights,
+  getLayerTwist,
+  getNoiseSliceCount,
+  getWaveSliceCount,
+} from './layerSampler';
+import { getTextureSliceCount, hasTexture } from './heightmap';
+import { insertTextHeights } from './surfaceText';
+import type { LayerSampleOptions } from './layerSampler';
 
 const { extrudeFromSlices, slice } = extrusions;
 
-export interface ShellBuildOptions {
-  resolution: number;
-  wallInset: number;
-  skipModulation?: boolean;
+export interface ShellBuildOptions extends LayerSampleOptions {
   closedBottom?: boolean;   // true = cap with solid bottom slice
   baseThickness?: number;   // inner shell Z offset (solid bottom)
-  invertProfile?: boolean;  // true = narrow at Z=0, wide at Z=height
 }
 
 /**
@@ -35,154 +35,47 @@ export function buildDecorativeShell(
   params: DecorativeShellParams,
   options: ShellBuildOptions
 ): Geom3 {
-  const { resolution, wallInset, skipModulation = false, invertProfile = false } = options;
-  const baseRadius = params.diameter / 2;
-  const minRadius = wallInset * 0.3;
   const sliceCount = Math.max(
     Math.ceil(params.height / 2),
     Math.ceil(Math.abs(params.twistAngle) / 10),
+    getWaveSliceCount(params),
+    getNoiseSliceCount(params),
+    hasTexture(params, options.heightmap) ? getTextureSliceCount(params, options.heightmap) : 0,
     16
   );
-
-  const isSpiralFin = params.style === 'spiral-fin' && !skipModulation;
-  const skipRidges = skipModulation;
-
-  // Segment count for cross-section — uniform for all shapes since
-  // createCrossSection samples via getBaseRadiusAtAngle for every shape.
-  let crossSectionSegments = Math.max(resolution, 32);
-
-  // Spiral-fin needs enough samples per fin cycle for smooth cosine waves
-  if (isSpiralFin) {
-    crossSectionSegments = Math.max(crossSectionSegments, params.finCount * 10);
+  // Faceted shells are sliced only at band edges so every facet stays flat,
+  // and a raised faceted shell twists with the outer band at its world height.
+  // Text adds slices only across its own band.
+  let sliceHeights: number[] | null = null;
+  if (params.faceted) {
+    sliceHeights = getFacetSliceHeights(params, options.heightOffset);
+  } else if (options.text) {
+    const uniform: number[] = [];
+    for (let k = 0; k <= sliceCount; k++) uniform.push(k / sliceCount);
+    sliceHeights = insertTextHeights(uniform, options.text, params.height);
   }
+  const twistOffset = params.faceted ? (options.heightOffset ?? 0) / params.height : 0;
 
-  // Create the base cross-section points at unit radius
-  const basePoints = createCrossSection(
-    params.crossSection,
-    1, // unit radius
-    crossSectionSegments,
-    params.polygonSides,
-    params.starPoints,
-    params.starInnerRatio,
-    params.ovalRatio,
-    params.squircleN,
-    params.superN,
-    params.gearTeeth,
-    params.petalCount
-  );
-
-  // Create initial slice (t=0)
-  let baseSlicePoints: [number, number][];
-
-  {
-    const initialProfileScale = invertProfile
-      ? getProfileScale(params.profileCurve, 1, params.taper)
-      : 1;
-    const initialRadius = baseRadius * initialProfileScale;
-
-    const scaledBasePoints = basePoints.map(
-      ([x, y]) => [x * initialRadius, y * initialRadius] as [number, number]
-    );
-
-    if (isSpiralFin) {
-      const finHeightAtBase = params.finHeight * initialProfileScale;
-      baseSlicePoints = applyFinModulation(
-        scaledBasePoints,
-        params.finCount,
-        finHeightAtBase,
-        params.finWidth
-      );
-    } else if (skipRidges) {
-      baseSlicePoints = scaledBasePoints;
-    } else {
-      const ridgeDepthAtBase = params.ridgeDepth * initialProfileScale;
-      baseSlicePoints = applyRidgeModulation(
-        scaledBasePoints,
-        params.ridgeCount,
-        ridgeDepthAtBase > 0 ? ridgeDepthAtBase : 0,
-        params.ridgeProfile
-      );
-    }
-
-    if (wallInset > 0) {
-      const eps = 0.001;
-      const slopeT0 = invertProfile ? 1 : 0;
-      const slopeTeps = invertProfile ? 1 - eps : eps;
-      const pLo = getProfileScale(params.profileCurve, slopeT0, params.taper);
-      const pHi = getProfileScale(params.profileCurve, slopeTeps, params.taper);
-      const dProfileDt = (pHi - pLo) / eps;
-      const dR_dH = baseRadius * dProfileDt / params.height;
-      const slopeCompensation = Math.sqrt(1 + dR_dH * dR_dH);
-      const adjustedInset = wallInset * slopeCompensation;
-      baseSlicePoints = offsetPolygonInward(baseSlicePoints, adjustedInset, minRadius);
-    }
-  }
+  const sampleLayer = createLayerSampler(params, options);
 
+  // Base slice is required by extrudeFromSlices; every slice (including
+  // t=0) is regenerated by the callback below.
   const baseSlice = slice.fromPoints(
-    baseSlicePoints.map(([x, y]) => [x, y, 0])
+    sampleLayer(0).map(([x, y]) => [x, y, 0])
   );
 
-  const twistAngleRad =
-    (params.twistAngle * Math.PI) / 180 *
-    (params.twistDirection === 'cw' ? -1 : 1);
-
   return extrudeFromSlices(
     {
-      numberOfSlices: sliceCount + 1,
+      numberOfSlices: sliceHeights ? sliceHeights.length : sliceCount + 1,
       capStart: true,
       capEnd: true,
-      callback: (progress: number, _index: number, _base: any) => {
-        const t = progress;
+      callback: (progress: number, index: number, _base: any) => {
+        const t = sliceHeights ? sliceHeights[index] : progress;
         const height = t * params.height;
 
-        const profileT = invertProfile ? 1 - t : t;
-        const profileScale = getProfileScale(
-          params.profileCurve,
-          profileT,
-          params.taper
-        );
-        const layerRadius = baseRadius * profileScale;
-
-        const twistProgress = getTwistProgress(params.twistEasing, t);
-        const layerTwist = twistAngleRad * twistProgress;
-
-        let layerPoints: [number, number][];
-
-        const scaled = basePoints.map(
-          ([x, y]) => [x * layerRadius, y * layerRadius] as [number, number]
-        );
-
-        if (isSpiralFin) {
-          const finHeightAtLayer = params.finHeight * profileScale;
-          layerPoints = applyFinModulation(
-            scaled,
-            params.finCount,
-            finHeightAtLayer,
-            params.finWidth
-          );
-        } else if (skipRidges) {
-          layerPoints = scaled;
-        } else {
-          const ridgeDepthAtLayer = params.ridgeDepth * profileScale;
-          layerPoints = applyRidgeModulation(
-            scaled,
-            params.ridgeCount,
-            ridgeDepthAtLayer > 0 ? ridgeDepthAtLayer : 0,
-            params.ridgeProfile
-          );
-        }
+        const layerTwist = getLayerTwist(params, Math.min(1, t + twistOffset));
 
-        if (wallInset > 0) {
-          const eps = 0.001;
-          const slopeT = invertProfile ? 1 - t : t;
-          const pLo = getProfileScale(params.profileCurve, Math.max(0, slopeT - eps), params.taper);
-          const pHi = getProfileScale(params.profileCurve, Math.min(1, slopeT + eps), params.taper);
-          const dProfileDt = (pHi - pLo) / (Math.min(1, slopeT + eps) - Math.max(0, slopeT - eps));
-          const dR_dH = baseRadius * dProfileDt / params.height;
-          const slopeCompensation = Math.sqrt(1 + dR_dH * dR_dH);
-          const adjustedInset = wallInset * slopeCompensation;
-          layerPoints = offsetPolygonInward(layerPoints, adjustedInset, minRadius);
-        }
+        const layerPoints = sampleLayer(t);
 
         const rotatedPoints = layerPoints.map(([x, y]) => {
           const cos = Math.cos(layerTwist);
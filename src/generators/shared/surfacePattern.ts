@@ -0,0 +1,467 @@
+/**
+ * Surface cutout patterns for decorative shells.
+ *
+ * Both patterns are laid out on the unrolled surface (angle or arc length
+ * around the axis × height) in the un-twisted frame, then projected back
+ * onto the shell with the layer twist applied so openings spiral with the
+ * body. Every cutter runs radially from just inside the inner wall to just
+ * outside the outer surface.
+ *
+ * - Honeycomb: pointy-top hexagonal prisms on a staggered lattice, each
+ *   rotated rigidly by the twist at its centre.
+ * - Voronoi: seeded, Lloyd-relaxed cells shrunk by the strut width; each
+ *   cell vertex is projected onto the twisted shell individually.
+ *
+ * Cells are kept inside the pattern band and never closer than
+ * PATTERN_MIN_SOLID_BAND to the solid base or the rim.
+ *
+ * The cutter primitives — a wedge through a polygon on the unrolled
+ * surface and a slot running up it — are shared with the lamp shade's
+ * light patterns.
+ */
+
+import { extrusions, geometries } from '@jscad/modeling';
+import type { Geom3, Vec3 } from '@jscad/modeling';
+import type { DecorativeShellParams } from '@/types/design';
+import { createLayerSampler, getLayerTwist, getSlopeCompensation } from './layerSampler';
+import type { LayerSampler } from './layerSampler';
+import type { Heightmap } from './heightmap';
+import type { TextLayout } from './surfaceText';
+import { createSeededRandom } from './seededRandom';
+import {
+  scatterSeeds,
+  relaxSeeds,
+  computeVoronoiCells,
+  polygonArea,
+  polygonCentroid,
+} from './voronoi';
+import type { Point2, VoronoiDomain } from './voronoi';
+
+const { extrudeFromSlices, slice } = extrusions;
+
+/** Solid wall (mm) always kept above the base and below the rim */
+export const PATTERN_MIN_SOLID_BAND = 4;
+/** Cross-section resolution cap used to measure the surface around each cell */
+const PATTERN_SAMPLE_RESOLUTION = 96;
+/** Radial overshoot (mm) so cutters fully clear both wall surfaces */
+const CUTTER_CLEARANCE = 1;
+/** Heights sampled when looking for the narrowest layer of the band */
+const REFERENCE_SAMPLES = 8;
+/** Maximum height (mm) between the slices of a slot cutter */
+const SLOT_SLICE_HEIGHT = 2;
+
+/** Centre of one pattern cell in the un-twisted frame */
+export interface PatternCell {
+  angle: number;              // radians around the axis
+  z: number;                  // mm, cell centre height
+}
+
+export interface PatternLayout {
+  cells: PatternCell[];
+  columns: number;            // cells per row
+  bandBottom: number;         // mm, lowest Z a cell may reach
+  bandTop: number;            // mm, highest Z a cell may reach
+}
+
+export interface VoronoiLayout {
+  cells: Point2[][];          // (arc length u, Z) polygons, CCW, shrunk by the strut width
+  referenceRadius: number;    // mm, radius at which u maps to angle (u / referenceRadius)
+  bandBottom: number;
+  bandTop: number;
+}
+
+export interface PatternCutterOptions {
+  /** Shell resolution — the surface is measured at up to this many segments */
+  resolution: number;
+  /** Wall depth (mm) the cutters must reach behind the outer surface */
+  wallThickness: number;
+  /** Z of the solid base top — cells stay PATTERN_MIN_SOLID_BAND above it */
+  baseThickness: number;
+  /** Texture embossed on the outer surface — cutters must clear it too */
+  heightmap?: Heightmap | null;
+  /** Embossed text — cutters must clear the letters too */
+  text?: TextLayout | null;
+  /** The shell was built with an upside-down profile (lamp shades) */
+  invertProfile?: boolean;
+}
+
+/** Hexagon circumradius for a given width across flats */
+function hexCircumradius(cellSize: number): number {
+  return cellSize / Math.sqrt(3);
+}
+
+/** Mean distance of a layer outline from the axis */
+export function meanRadius(points: [number, number][]): number {
+  let sum = 0;
+  for (const [x, y] of points) sum += Math.hypot(x, y);
+  return points.length > 0 ? sum / points.length : 0;
+}
+
+/** Wrap an angle difference into (-π, π] */
+function angleDelta(a: number, b: number): number {
+  const diff = a - b;
+  return Math.atan2(Math.sin(diff), Math.cos(diff));
+}
+
+/** Outer surface sampler the cutters are fitted to */
+export function createPatternSampler(
+  params: DecorativeShellParams,
+  options: PatternCutterOptions
+): LayerSampler {
+  return createLayerSampler(params, {
+    resolution: Math.min(options.resolution, PATTERN_SAMPLE_RESOLUTION),
+    wallInset: 0,
+    heightmap: options.heightmap,
+    text: options.text,
+    invertProfile: options.invertProfile,
+  });
+}
+
+/** Horizontal wall depth at height z, allowing for the profile's slope */
+function getWallDepth(params: DecorativeShellParams, options: PatternCutterOptions, z: number): number {
+  const t = z / params.height;
+  return options.wallThickness * getSlopeCompensation(params, options.invertProfile ? 1 - t : t);
+}
+
+/** Z range open to cells: the band limits, clamped clear of base and rim */
+function getPatternBand(
+  params: DecorativeShellParams,
+  options: PatternCutterOptions
+): { bandBottom: number; bandTop: number } {
+  return {
+    bandBottom: Math.max(
+      params.patternBandStart * params.height,
+      options.baseThickness + PATTERN_MIN_SOLID_BAND
+    ),
+    bandTop: Math.min(
+      params.patternBandEnd * params.height,
+      params.height - PATTERN_MIN_SOLID_BAND
+    ),
+  };
+}
+
+/** Smallest mean layer radius at the given heights */
+export function getReferenceRadius(
+  params: DecorativeShellParams,
+  sample: LayerSampler,
+  heights: number[]
+): number {
+  let radius = Infinity;
+  for (const z of heights) {
+    radius = Math.min(radius, meanRadius(sample(z / params.height)));
+  }
+  return radius;
+}
+
+/**
+ * Min/max outer radius of the (un-twisted) surface within an angular
+ * window around `angle`, over the given heights.
+ */
+function measureSurfaceRange(
+  params: DecorativeShellParams,
+  sample: LayerSampler,
+  heights: number[],
+  angle: number,
+  halfWindow: number
+): { rMin: number; rMax: number } {
+  let rMin = Infinity;
+  let rMax = 0;
+  for (const z of heights) {
+    for (const [x, y] of sample(z / params.height)) {
+      if (Math.abs(angleDelta(Math.atan2(y, x), angle)) > halfWindow) continue;
+      const r = Math.hypot(x, y);
+      if (r < rMin) rMin = r;
+      if (r > rMax) rMax = r;
+    }
+  }
+  return { rMin, rMax };
+}
+
+/**
+ * Honeycomb cell centres for a shell.
+ *
+ * Column count is fixed for the whole band (so odd rows stay offset by half
+ * a column) and sized from the narrowest layer in the band: bars are at
+ * least patternBarWidth there and wider where the body bulges.
+ */
+export function layoutHoneycombCells(
+  params: DecorativeShellParams,
+  options: PatternCutterOptions
+): PatternLayout {
+  const circumradius = hexCircumradius(params.patternCellSize);
+  const pitchX = params.patternCellSize + params.patternBarWidth;
+  const pitchZ = (pitchX * Math.sqrt(3)) / 2;
+  const { bandBottom, bandTop } = getPatternBand(params, options);
+
+  const empty: PatternLayout = { cells: [], columns: 0, bandBottom, bandTop };
+  if (bandTop - bandBottom < circumradius * 2) return empty;
+
+  const rows: number[] = [];
+  for (let z = bandBottom + circumradius; z + circumradius <= bandTop; z += pitchZ) {
+    rows.push(z);
+  }
+
+  const heights: number[] = [];
+  rows.forEach((z) => heights.push(z - circumradius, z, z + circumradius));
+  const referenceRadius = getReferenceRadius(params, createPatternSampler(params, options), heights);
+
+  const columns = Math.floor((2 * Math.PI * referenceRadius) / pitchX);
+  if (columns < 3) return empty;
+
+  const step = (2 * Math.PI) / columns;
+  const cells: PatternCell[] = [];
+  rows.forEach((z, row) => {
+    const offset = row % 2 === 1 ? step / 2 : 0;
+    for (let col = 0; col < columns; col++) {
+      cells.push({ angle: col * step + offset, z });
+    }
+  });
+
+  return { cells, columns, bandBottom, bandTop };
+}
+
+/**
+ * Seeded Voronoi cells on the unrolled band.
+ *
+ * Arc length is measured at the narrowest layer of the band, so struts are
+ * at least patternBarWidth there and wider where the body bulges. Cells
+ * left smaller than a strut-wide square stay solid.
+ */
+export function layoutVoronoiCells(
+  params: DecorativeShellParams,
+  options: PatternCutterOptions
+): VoronoiLayout {
+  const { bandBottom, bandTop } = getPatternBand(params, options);
+  const heights: number[] = [];
+  for (let i = 0; i <= REFERENCE_SAMPLES; i++) {
+    heights.push(bandBottom + (i / REFERENCE_SAMPLES) * (bandTop - bandBottom));
+  }
+  const referenceRadius = getReferenceRadius(params, createPatternSampler(params, options), heights);
+
+  const empty: VoronoiLayout = { cells: [], referenceRadius, bandBottom, bandTop };
+  if (bandTop - bandBottom <= params.patternBarWidth || referenceRadius <= 0) return empty;
+
+  const domain: VoronoiDomain = {
+    width: 2 * Math.PI * referenceRadius,
+    bottom: bandBottom,
+    top: bandTop,
+  };
+  const random = createSeededRandom(params.patternSeed);
+  const count = Math.max(1, Math.round(params.patternCellCount));
+  const seeds = relaxSeeds(
+    scatterSeeds(count, domain, random),
+    domain,
+    Math.max(0, Math.round(params.patternRelaxIterations))
+  );
+
+  const minArea = params.patternBarWidth * params.patternBarWidth;
+  const cells = computeVoronoiCells(seeds, domain, params.patternBarWidth).filter(
+    (cell) => cell.length >= 3 && polygonArea(cell) >= minArea
+  );
+
+  return { cells, referenceRadius, bandBottom, bandTop };
+}
+
+function buildHoneycombCutters(
+  params: DecorativeShellParams,
+  options: PatternCutterOptions
+): Geom3[] {
+  const layout = layoutHoneycombCells(params, options);
+  if (layout.cells.length === 0) return [];
+
+  const circumradius = hexCircumradius(params.patternCellSize);
+  // Pointy-top hexagon in (tangent, vertical) coordinates, CCW
+  const hex: [number, number][] = [];
+  for (let k = 0; k < 6; k++) {
+    const a = Math.PI / 2 + (k * Math.PI) / 3;
+    hex.push([Math.cos(a) * circumradius, Math.sin(a) * circumradius]);
+  }
+
+  const sample = createPatternSampler(params, options);
+  const halfSector = Math.PI / layout.columns;
+
+  return layout.cells.map(({ angle, z }) => {
+    const { rMin, rMax } = measureSurfaceRange(
+      params,
+      sample,
+      [z - circumradius, z, z + circumradius],
+      angle,
+      halfSector
+    );
+
+    const wallDepth = getWallDepth(params, options, z);
+    const rStart = Math.max(rMin - wallDepth - CUTTER_CLEARANCE, rMin * 0.1);
+    const rEnd = rMax + CUTTER_CLEARANCE;
+
+    const theta = angle + getLayerTwist(params, z / params.height);
+    const cos = Math.cos(theta);
+    const sin = Math.sin(theta);
+    const sliceAt = (r: number) =>
+      slice.fromPoints(hex.map(([u, v]) => [cos * r - sin * u, sin * r + cos * u, z + v]));
+
+    return extrudeFromSlices(
+      {
+        numberOfSlices: 2,
+        capStart: true,
+        capEnd: true,
+        callback: (progress: number) => sliceAt(rStart + progress * (rEnd - rStart)),
+      },
+      sliceAt(rStart)
+    );
+  });
+}
+
+/**
+ * Radial wedge through one convex cell on the unrolled surface, given as
+ * (arc length u at referenceRadius, Z). Every vertex (and the fan centre)
+ * is placed at its own angle — twisted with the shell unless followTwist
+ * is off — so the caps are triangulated rather than planar. The outer cap
+ * is pushed out by 1/cos(half span) so its flat triangles stay clear of
+ * the curved surface; cells should span well under 120°.
+ */
+export function buildCellCutter(
+  params: DecorativeShellParams,
+  options: PatternCutterOptions,
+  sample: LayerSampler,
+  cell: Point2[],
+  referenceRadius: number,
+  followTwist: boolean = true
+): Geom3 {
+  const centre = polygonCentroid(cell);
+  const ring = [centre, ...cell];
+  const baseAngles = ring.map(([u]) => u / referenceRadius);
+  const twists = ring.map(([, z]) => getLayerTwist(params, z / params.height));
+  const angles = baseAngles.map((a, i) => (followTwist ? a + twists[i] : a));
+  // Angles in the un-twisted frame the surface is sampled in
+  const frameAngles = angles.map((a, i) => a - twists[i]);
+
+  let zMin = Infinity;
+  let zMax = -Infinity;
+  for (const [, z] of cell) {
+    zMin = Math.min(zMin, z);
+    zMax = Math.max(zMax, z);
+  }
+  let halfWindow = 0;
+  let halfSpan = 0;
+  for (let i = 1; i < ring.length; i++) {
+    halfWindow = Math.max(halfWindow, Math.abs(angleDelta(frameAngles[i], frameAngles[0])));
+    halfSpan = Math.max(halfSpan, Math.abs(angleDelta(angles[i], angles[0])));
+  }
+
+  const { rMin, rMax } = measureSurfaceRange(
+    params,
+    sample,
+    [zMin, (zMin + zMax) / 2, zMax],
+    frameAngles[0],
+    halfWindow
+  );
+  const wallDepth = getWallDepth(params, options, centre[1]);
+  const rIn = Math.max(rMin - wallDepth - CUTTER_CLEARANCE, rMin * 0.1);
+  const rOut = (rMax + CUTTER_CLEARANCE) / Math.cos(Math.min(halfSpan, Math.PI / 3));
+
+  const at = (i: number, r: number): Vec3 => [
+    Math.cos(angles[i]) * r,
+    Math.sin(angles[i]) * r,
+    ring[i][1],
+  ];
+
+  // Cell is CCW in (u, z) and u runs along +tangent, so outward normals are
+  // +radial for the outer cap and -radial for the inner cap
+  const polygons: Vec3[][] = [];
+  const n = cell.length;
+  for (let i = 1; i <= n; i++) {
+    const j = (i % n) + 1;
+    polygons.push([at(0, rOut), at(i, rOut), at(j, rOut)]);
+    polygons.push([at(0, rIn), at(j, rIn), at(i, rIn)]);
+    polygons.push([at(i, rIn), at(j, rIn), at(j, rOut)]);
+    polygons.push([at(i, rIn), at(j, rOut), at(i, rOut)]);
+  }
+
+  return geometries.geom3.fromPoints(polygons);
+}
+
+/** A slot running up the surface between two heights */
+export interface SlotSpec {
+  angle: number;              // radians around the axis, before any twist
+  halfWidth: number;          // radians either side of the centre
+  zBottom: number;
+  zTop: number;
+}
+
+/**
+ * Radial wedge along a slot, sliced every SLOT_SLICE_HEIGHT so it can
+ * spiral with the shell's twist (followTwist) or run straight up.
+ */
+export function buildSlotCutter(
+  params: DecorativeShellParams,
+  options: PatternCutterOptions,
+  sample: LayerSampler,
+  slot: SlotSpec,
+  followTwist: boolean
+): Geom3 {
+  const count = Math.max(1, Math.ceil((slot.zTop - slot.zBottom) / SLOT_SLICE_HEIGHT));
+  const heights: number[] = [];
+  for (let k = 0; k <= count; k++) heights.push(slot.zBottom + (k / count) * (slot.zTop - slot.zBottom));
+
+  const sliceAt = (k: number) => {
+    const z = heights[k];
+    const twist = getLayerTwist(params, z / params.height);
+    const angle = followTwist ? slot.angle + twist : slot.angle;
+    const { rMin, rMax } = measureSurfaceRange(
+      params,
+      sample,
+      [heights[Math.max(0, k - 1)], z, heights[Math.min(count, k + 1)]],
+      angle - twist,
+      slot.halfWidth
+    );
+    const rIn = Math.max(rMin - getWallDepth(params, options, z) - CUTTER_CLEARANCE, rMin * 0.1);
+    const rOut = (rMax + CUTTER_CLEARANCE) / Math.cos(slot.halfWidth);
+    const a0 = angle - slot.halfWidth;
+    const a1 = angle + slot.halfWidth;
+    return slice.fromPoints([
+      [Math.cos(a0) * rIn, Math.sin(a0) * rIn, z],
+      [Math.cos(a0) * rOut, Math.sin(a0) * rOut, z],
+      [Math.cos(a1) * rOut, Math.sin(a1) * rOut, z],
+      [Math.cos(a1) * rIn, Math.sin(a1) * rIn, z],
+    ]);
+  };
+
+  return extrudeFromSlices(
+    {
+      numberOfSlices: count + 1,
+      capStart: true,
+      capEnd: true,
+      callback: (_progress: number, index: number) => sliceAt(index),
+    },
+    sliceAt(0)
+  );
+}
+
+function buildVoronoiCutters(
+  params: DecorativeShellParams,
+  options: PatternCutterOptions
+): Geom3[] {
+  const layout = layoutVoronoiCells(params, options);
+  const sample = createPatternSampler(params, options);
+  return layout.cells.map((cell) =>
+    buildCellCutter(params, options, sample, cell, layout.referenceRadius)
+  );
+}
+
+/**
+ * Build one cutter per pattern cell.
+ * Returns an empty array when the pattern is off or no cell fits.
+ */
+export function buildPatternCutters(
+  params: DecorativeShellParams,
+  options: PatternCutterOptions
+): Geom3[] {
+  switch (params.surfacePattern) {
+    case 'honeycomb':
+      return buildHoneycombCutters(params, options);
+    case 'voronoi':
+      return buildVoronoiCutters(params, options);
+    default:
+      return [];
+  }
+}
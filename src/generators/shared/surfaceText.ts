@@ -0,0 +1,257 @@
+/**
+ * Embossed or engraved text on decorative shells.
+ *
+ * Glyphs come from JSCAD's bundled Hershey single-stroke vector font. The
+ * string is laid out on the unrolled outer surface (arc length × height),
+ * centred on the front of the body and scaled to span textWrapAngle.
+ *
+ * Letters are not separate solids: like heightmap textures they displace
+ * the outer layer outline along each ray — outward by textDepth inside a
+ * stroke (emboss) or inward (engrave) — so they follow the profile, taper
+ * and twist, sit flush with the wall and never need a boolean. Samples are
+ * added around the body and up the height only where the text is.
+ */
+
+import { text } from '@jscad/modeling';
+import { MAX_TEXT_LENGTH } from '@/types/design';
+import type { DecorativeShellParams } from '@/types/design';
+import { MIN_WALL_THICKNESS } from '@/types/validation';
+import { getLayerShapeRadius } from '../vase/crossSections';
+import { getShellProfileScale } from '../vase/profiles';
+import type { Point2 } from './voronoi';
+
+/** Stroke width as a fraction of the capital letter height */
+export const TEXT_STROKE_RATIO = 0.14;
+/** Thinnest stroke (mm) that still prints as a solid line */
+export const MIN_TEXT_STROKE = 0.8;
+/** Wall (mm) always left behind engraved letters — never below what the validator accepts */
+export const ENGRAVE_MIN_FLOOR = MIN_WALL_THICKNESS;
+/** Angle (radians) of the text centre — the side facing the default camera */
+export const TEXT_FRONT_ANGLE = -Math.PI / 2;
+/** Sampling caps (extra segments around, extra slices up) keep the CSG tractable */
+export const MAX_TEXT_SEGMENTS = 240;
+export const MAX_TEXT_SLICES = 96;
+
+/** Cap height passed to the font; the layout is rescaled afterwards */
+const FONT_HEIGHT = 10;
+/** Solid wall (mm) kept clear of letters at the base and rim */
+const TEXT_MARGIN = 2;
+/** Surface samples across one stroke width */
+const SAMPLES_PER_STROKE = 3;
+/** Finest sample spacing (mm) — below a nozzle width nothing more prints */
+const MIN_SAMPLE_STEP = 0.4;
+
+export interface TextLayout {
+  segments: [Point2, Point2][];  // stroke segments in (arc length u from the centre line, Z)
+  referenceRadius: number;       // mm, radius at which u maps to angle (u / referenceRadius)
+  letterHeight: number;          // mm, capital height
+  strokeWidth: number;           // mm
+  depth: number;                 // mm, signed: > 0 raises the letters, < 0 engraves them
+  step: number;                  // mm, surface sample spacing under the text
+  bounds: { uMin: number; uMax: number; zMin: number; zMax: number };
+}
+
+export interface TextLayoutOptions {
+  /** Wall thickness (mm) — limits how deep letters may be engraved */
+  wallThickness: number;
+  /** Z of the solid base top — letters stay clear of it */
+  baseThickness: number;
+}
+
+/** Single line, length-capped text actually laid out */
+export function normalizeText(content: string): string {
+  return content.replace(/[\r\n\t]+/g, ' ').trim().slice(0, MAX_TEXT_LENGTH);
+}
+
+/** Wrap an angle difference into (-π, π] */
+function angleDelta(a: number, b: number): number {
+  const diff = a - b;
+  return Math.atan2(Math.sin(diff), Math.cos(diff));
+}
+
+/** Wrap an angle into [0, 2π) */
+function wrapAngle(angle: number): number {
+  const full = Math.PI * 2;
+  const wrapped = angle % full;
+  return wrapped < 0 ? wrapped + full : wrapped;
+}
+
+/** Radius of the plain body (no ridges, waves or texture) at the text front */
+function frontRadius(params: DecorativeShellParams, t: number): number {
+  const radius = (params.diameter / 2) * getShellProfileScale(params, t);
+  return radius * getLayerShapeRadius(params, t)(TEXT_FRONT_ANGLE);
+}
+
+/**
+ * Lay out the text on the unrolled surface. Letters are scaled so the
+ * string spans textWrapAngle at the radius of the text centre line, then
+ * shrunk if needed so they fit between the base and the rim. Returns null
+ * when there is no text or no room for it.
+ */
+export function layoutText(
+  params: DecorativeShellParams,
+  options: TextLayoutOptions
+): TextLayout | null {
+  const content = normalizeText(params.textContent);
+  if (content.length === 0 || params.textDepth <= 0) return null;
+
+  const engraveDepth = Math.min(params.textDepth, options.wallThickness - ENGRAVE_MIN_FLOOR);
+  if (params.textMode === 'engrave' && engraveDepth <= 0) return null;
+  const depth = params.textMode === 'engrave' ? -engraveDepth : params.textDepth;
+
+  const polylines = text.vectorText({ height: FONT_HEIGHT, input: content });
+  let minX = Infinity;
+  let maxX = -Infinity;
+  let minY = Infinity;
+  let maxY = -Infinity;
+  polylines.forEach((line) =>
+    line.forEach(([x, y]) => {
+      minX = Math.min(minX, x);
+      maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y);
+      maxY = Math.max(maxY, y);
+    })
+  );
+  if (!(maxY >= minY)) return null;
+
+  const bottom = options.baseThickness + TEXT_MARGIN;
+  const top = params.height - TEXT_MARGIN;
+  const available = top - bottom;
+  if (available <= 0) return null;
+
+  const centreZ = Math.max(bottom, Math.min(top, params.textPosition * params.height));
+  const referenceRadius = frontRadius(params, centreZ / params.height);
+
+  const arc = referenceRadius * (params.textWrapAngle * Math.PI) / 180;
+  // Letters (plus half a stroke above and below) must fit the open band
+  const glyphHeight = (maxY - minY) + FONT_HEIGHT * TEXT_STROKE_RATIO;
+  // A lone "I" has no width — only the height limits it
+  const scale = Math.min(maxX > minX ? arc / (maxX - minX) : Infinity, available / glyphHeight);
+  const letterHeight = FONT_HEIGHT * scale;
+  const strokeWidth = Math.max(MIN_TEXT_STROKE, letterHeight * TEXT_STROKE_RATIO);
+  const step = Math.max(MIN_SAMPLE_STEP, strokeWidth / SAMPLES_PER_STROKE);
+
+  // Keep the whole block inside the band around the requested centre
+  const halfHeight = (glyphHeight * scale) / 2;
+  const midZ = Math.max(bottom + halfHeight, Math.min(top - halfHeight, centreZ));
+  const midX = (minX + maxX) / 2;
+  const midY = (minY + maxY) / 2;
+
+  const segments: [Point2, Point2][] = [];
+  polylines.forEach((line) => {
+    const points = line.map(([x, y]) => [(x - midX) * scale, midZ + (y - midY) * scale] as Point2);
+    // A single point is a dot (e.g. the period) — a zero-length segment
+    if (points.length === 1) segments.push([points[0], points[0]]);
+    for (let i = 0; i + 1 < points.length; i++) segments.push([points[i], points[i + 1]]);
+  });
+
+  // Strokes plus the soft edge around them
+  const reach = strokeWidth / 2 + step;
+  const halfSpan = ((maxX - minX) * scale) / 2 + reach;
+  const halfRise = ((maxY - minY) * scale) / 2 + reach;
+
+  return {
+    segments,
+    referenceRadius,
+    letterHeight,
+    strokeWidth,
+    depth,
+    step,
+    bounds: {
+      uMin: -halfSpan,
+      uMax: halfSpan,
+      zMin: Math.max(0, midZ - halfRise),
+      zMax: Math.min(params.height, midZ + halfRise),
+    },
+  };
+}
+
+/** Distance from p to segment ab */
+function segmentDistance(pu: number, pz: number, a: Point2, b: Point2): number {
+  const du = b[0] - a[0];
+  const dz = b[1] - a[1];
+  const lenSq = du * du + dz * dz;
+  const s = lenSq > 0 ? Math.max(0, Math.min(1, ((pu - a[0]) * du + (pz - a[1]) * dz) / lenSq)) : 0;
+  return Math.hypot(a[0] + s * du - pu, a[1] + s * dz - pz);
+}
+
+/**
+ * Radial displacement (mm) at un-twisted angle θ and normalized height t:
+ * the full signed depth inside a stroke, 0 away from it, with a one-sample
+ * ramp across the stroke edge so letter walls don't alias into steps.
+ */
+export function createTextMapper(
+  params: DecorativeShellParams,
+  layout: TextLayout
+): (angle: number, t: number) => number {
+  const { bounds, segments, referenceRadius, step, depth } = layout;
+  const half = layout.strokeWidth / 2;
+
+  return (angle: number, t: number) => {
+    const u = angleDelta(angle, TEXT_FRONT_ANGLE) * referenceRadius;
+    const z = t * params.height;
+    if (u < bounds.uMin || u > bounds.uMax || z < bounds.zMin || z > bounds.zMax) return 0;
+
+    let nearest = Infinity;
+    for (let i = 0; i < segments.length; i++) {
+      nearest = Math.min(nearest, segmentDistance(u, z, segments[i][0], segments[i][1]));
+    }
+    const coverage = Math.max(0, Math.min(1, 0.5 + (half - nearest) / step));
+    return coverage * depth;
+  };
+}
+
+/** Move each point along its ray by the text displacement */
+export function applyTextDisplacement(
+  points: [number, number][],
+  t: number,
+  mapper: (angle: number, t: number) => number
+): [number, number][] {
+  return points.map(([x, y]) => {
+    const angle = Math.atan2(y, x);
+    const r = Math.sqrt(x * x + y * y) + mapper(angle, t);
+    return [Math.cos(angle) * r, Math.sin(angle) * r] as [number, number];
+  });
+}
+
+/**
+ * Evenly spaced values from min to max, `step` apart or fewer when more
+ * than `cap` would be needed
+ */
+function denseRange(min: number, max: number, step: number, cap: number): number[] {
+  const count = Math.max(1, Math.min(cap, Math.ceil((max - min) / step)));
+  const values: number[] = [];
+  for (let k = 0; k <= count; k++) values.push(min + ((max - min) * k) / count);
+  return values;
+}
+
+/**
+ * Cross-section sample angles in [0, 2π), ascending: the given angles
+ * outside the text plus samples layout.step apart across it.
+ */
+export function insertTextAngles(angles: number[], layout: TextLayout): number[] {
+  const { uMin, uMax } = layout.bounds;
+  const R = layout.referenceRadius;
+  const kept = angles.filter((a) => {
+    const u = angleDelta(a, TEXT_FRONT_ANGLE) * R;
+    return u < uMin || u > uMax;
+  });
+  const dense = denseRange(uMin, uMax, layout.step, MAX_TEXT_SEGMENTS)
+    .map((u) => TEXT_FRONT_ANGLE + u / R);
+  return kept.concat(dense).map(wrapAngle).sort((a, b) => a - b);
+}
+
+/**
+ * Normalized slice heights, ascending: the given heights outside the text
+ * band plus slices layout.step apart across it.
+ */
+export function insertTextHeights(
+  heights: number[],
+  layout: TextLayout,
+  height: number
+): number[] {
+  const { zMin, zMax } = layout.bounds;
+  const kept = heights.filter((t) => t * height < zMin || t * height > zMax);
+  const dense = denseRange(zMin, zMax, layout.step, MAX_TEXT_SLICES).map((z) => z / height);
+  return kept.concat(dense).sort((a, b) => a - b);
+}
@@ -0,0 +1,343 @@
+/**
+ * Outlines from SVG files, for custom cross-sections.
+ *
+ * Path data is flattened to polylines (curves and arcs sampled at fixed
+ * steps); polygons, polylines, circles, ellipses and rects are read
+ * directly. Transforms and units are ignored — the outline is re-centred
+ * and normalized afterwards, so only its shape matters. The ring with the
+ * largest area becomes the outline, with Y flipped from SVG's downward axis.
+ */
+
+import { polygonArea } from './voronoi';
+import type { Point2 } from './voronoi';
+
+/** Line segments per Bézier curve */
+const CURVE_STEPS = 16;
+/** Line segments per full turn of an arc, circle or ellipse */
+const ELLIPSE_STEPS = 64;
+
+const NUMBER = /^[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/;
+const SEPARATOR = /[\s,]/;
+
+/** Sequential reader over path data */
+function createScanner(d: string) {
+  let pos = 0;
+  const skip = () => {
+    while (pos < d.length && SEPARATOR.test(d.charAt(pos))) pos++;
+  };
+
+  return {
+    done(): boolean {
+      skip();
+      return pos >= d.length;
+    },
+    /** Consume and return a command letter, or null if a number (or junk) is next */
+    command(): string | null {
+      skip();
+      const c = d.charAt(pos);
+      if (/[MmLlHhVvCcSsQqTtAaZz]/.test(c)) {
+        pos++;
+        return c;
+      }
+      return null;
+    },
+    number(): number {
+      skip();
+      const match = NUMBER.exec(d.slice(pos));
+      if (!match) throw new Error(`Expected a number at ${pos} in path data`);
+      pos += match[0].length;
+      return parseFloat(match[0]);
+    },
+    /** Arc flags are single digits and may be written without separators ("011") */
+    flag(): number {
+      skip();
+      const c = d.charAt(pos);
+      if (c !== '0' && c !== '1') throw new Error(`Expected an arc flag at ${pos} in path data`);
+      pos++;
+      return c === '1' ? 1 : 0;
+    },
+  };
+}
+
+/** Points along an SVG elliptical arc after (x0, y0), ending exactly at (x1, y1) */
+function arcPoints(
+  x0: number,
+  y0: number,
+  rxIn: number,
+  ryIn: number,
+  rotationDeg: number,
+  largeArc: number,
+  sweep: number,
+  x1: number,
+  y1: number
+): Point2[] {
+  if (x0 === x1 && y0 === y1) return [];
+  let rx = Math.abs(rxIn);
+  let ry = Math.abs(ryIn);
+  if (rx === 0 || ry === 0) return [[x1, y1]];
+
+  // Endpoint to centre parameterization (SVG 1.1, appendix F.6.5)
+  const phi = (rotationDeg * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+  const hx = (x0 - x1) / 2;
+  const hy = (y0 - y1) / 2;
+  const px = cos * hx + sin * hy;
+  const py = -sin * hx + cos * hy;
+
+  // Radii too small to reach are scaled up until they just do
+  const lambda = (px * px) / (rx * rx) + (py * py) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const num = rx * rx * ry * ry - rx * rx * py * py - ry * ry * px * px;
+  const den = rx * rx * py * py + ry * ry * px * px;
+  const coef = (largeArc !== sweep ? 1 : -1) * Math.sqrt(Math.max(0, num / den));
+  const cxp = (coef * rx * py) / ry;
+  const cyp = (-coef * ry * px) / rx;
+  const cx = cos * cxp - sin * cyp + (x0 + x1) / 2;
+  const cy = sin * cxp + cos * cyp + (y0 + y1) / 2;
+
+  const start = Math.atan2((py - cyp) / ry, (px - cxp) / rx);
+  const end = Math.atan2((-py - cyp) / ry, (-px - cxp) / rx);
+  let delta = end - start;
+  if (!sweep && delta > 0) delta -= Math.PI * 2;
+  if (sweep && delta < 0) delta += Math.PI * 2;
+
+  const steps = Math.max(2, Math.ceil((Math.abs(delta) / (Math.PI * 2)) * ELLIPSE_STEPS));
+  const points: Point2[] = [];
+  for (let i = 1; i < steps; i++) {
+    const a = start + (delta * i) / steps;
+    const ex = rx * Math.cos(a);
+    const ey = ry * Math.sin(a);
+    points.push([cx + cos * ex - sin * ey, cy + sin * ex + cos * ey]);
+  }
+  points.push([x1, y1]);
+  return points;
+}
+
+/**
+ * Flatten SVG path data into one polyline per subpath. Supports every
+ * command (absolute and relative) including implicit repeats; malformed
+ * data ends the path at the last complete command.
+ */
+export function flattenSvgPath(d: string): Point2[][] {
+  const scan = createScanner(d);
+  const rings: Point2[][] = [];
+  let ring: Point2[] = [];
+  let x = 0;
+  let y = 0;
+  let startX = 0;
+  let startY = 0;
+  // Last curve control point, reflected by S / T
+  let control: Point2 | null = null;
+  let lastCurve: 'cubic' | 'quad' | null = null;
+  let command: string | null = null;
+
+  const finish = () => {
+    if (ring.length > 1) rings.push(ring);
+    ring = [];
+  };
+  const moveAlong = (points: Point2[]) => {
+    if (ring.length === 0) ring.push([x, y]);
+    points.forEach((p) => ring.push(p));
+    if (points.length > 0) [x, y] = points[points.length - 1];
+  };
+  const cubic = (c1: Point2, c2: Point2, end: Point2): Point2[] => {
+    const points: Point2[] = [];
+    for (let i = 1; i <= CURVE_STEPS; i++) {
+      const t = i / CURVE_STEPS;
+      const s = 1 - t;
+      const a = s * s * s;
+      const b = 3 * s * s * t;
+      const c = 3 * s * t * t;
+      const e = t * t * t;
+      points.push([
+        a * x + b * c1[0] + c * c2[0] + e * end[0],
+        a * y + b * c1[1] + c * c2[1] + e * end[1],
+      ]);
+    }
+    return points;
+  };
+  const quad = (c1: Point2, end: Point2): Point2[] => {
+    const points: Point2[] = [];
+    for (let i = 1; i <= CURVE_STEPS; i++) {
+      const t = i / CURVE_STEPS;
+      const s = 1 - t;
+      points.push([
+        s * s * x + 2 * s * t * c1[0] + t * t * end[0],
+        s * s * y + 2 * s * t * c1[1] + t * t * end[1],
+      ]);
+    }
+    return points;
+  };
+  const reflect = (kind: 'cubic' | 'quad'): Point2 =>
+    control && lastCurve === kind ? [2 * x - control[0], 2 * y - control[1]] : [x, y];
+
+  try {
+    while (!scan.done()) {
+      const next = scan.command();
+      if (next) command = next;
+      else if (!command || command === 'Z' || command === 'z') break;
+
+      const upper = command.toUpperCase();
+      const ox = command !== upper ? x : 0;
+      const oy = command !== upper ? y : 0;
+      let curve: 'cubic' | 'quad' | null = null;
+
+      switch (upper) {
+        case 'M': {
+          finish();
+          x = ox + scan.number();
+          y = oy + scan.number();
+          startX = x;
+          startY = y;
+          ring = [[x, y]];
+          // Further coordinate pairs are implicit line-tos
+          command = command === 'M' ? 'L' : 'l';
+          break;
+        }
+        case 'L': {
+          const nx = ox + scan.number();
+          moveAlong([[nx, oy + scan.number()]]);
+          break;
+        }
+        case 'H':
+          moveAlong([[ox + scan.number(), y]]);
+          break;
+        case 'V':
+          moveAlong([[x, oy + scan.number()]]);
+          break;
+        case 'C': {
+          const c1: Point2 = [ox + scan.number(), oy + scan.number()];
+          const c2: Point2 = [ox + scan.number(), oy + scan.number()];
+          const end: Point2 = [ox + scan.number(), oy + scan.number()];
+          moveAlong(cubic(c1, c2, end));
+          control = c2;
+          curve = 'cubic';
+          break;
+        }
+        case 'S': {
+          const c1 = reflect('cubic');
+          const c2: Point2 = [ox + scan.number(), oy + scan.number()];
+          const end: Point2 = [ox + scan.number(), oy + scan.number()];
+          moveAlong(cubic(c1, c2, end));
+          control = c2;
+          curve = 'cubic';
+          break;
+        }
+        case 'Q': {
+          const c1: Point2 = [ox + scan.number(), oy + scan.number()];
+          const end: Point2 = [ox + scan.number(), oy + scan.number()];
+          moveAlong(quad(c1, end));
+          control = c1;
+          curve = 'quad';
+          break;
+        }
+        case 'T': {
+          const c1 = reflect('quad');
+          const end: Point2 = [ox + scan.number(), oy + scan.number()];
+          moveAlong(quad(c1, end));
+          control = c1;
+          curve = 'quad';
+          break;
+        }
+        case 'A': {
+          const rx = scan.number();
+          const ry = scan.number();
+          const rotation = scan.number();
+          const large = scan.flag();
+          const sweep = scan.flag();
+          const ex = ox + scan.number();
+          const ey = oy + scan.number();
+          moveAlong(arcPoints(x, y, rx, ry, rotation, large, sweep, ex, ey));
+          break;
+        }
+        case 'Z':
+          finish();
+          x = startX;
+          y = startY;
+          break;
+      }
+      lastCurve = curve;
+      if (!curve) control = null;
+    }
+  } catch {
+    // Keep what was read before the malformed command
+  }
+
+  finish();
+  return rings;
+}
+
+/** Parse a polygon / polyline `points` attribute */
+function parsePointList(value: string): Point2[] {
+  const numbers = (value.match(/[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g) ?? []).map(parseFloat);
+  const points: Point2[] = [];
+  for (let i = 0; i + 1 < numbers.length; i += 2) points.push([numbers[i], numbers[i + 1]]);
+  return points;
+}
+
+function ellipseRing(cx: number, cy: number, rx: number, ry: number): Point2[] {
+  if (!(rx > 0 && ry > 0)) return [];
+  const points: Point2[] = [];
+  for (let i = 0; i < ELLIPSE_STEPS; i++) {
+    const a = (i / ELLIPSE_STEPS) * Math.PI * 2;
+    points.push([cx + rx * Math.cos(a), cy + ry * Math.sin(a)]);
+  }
+  return points;
+}
+
+/** Closed rings drawn by one SVG element (none for unsupported elements) */
+function elementRings(element: Element): Point2[][] {
+  const num = (name: string) => parseFloat(element.getAttribute(name) ?? '0') || 0;
+
+  switch (element.localName) {
+    case 'path':
+      return flattenSvgPath(element.getAttribute('d') ?? '');
+    case 'polygon':
+    case 'polyline':
+      return [parsePointList(element.getAttribute('points') ?? '')];
+    case 'circle':
+      return [ellipseRing(num('cx'), num('cy'), num('r'), num('r'))];
+    case 'ellipse':
+      return [ellipseRing(num('cx'), num('cy'), num('rx'), num('ry'))];
+    case 'rect': {
+      const x = num('x');
+      const y = num('y');
+      const w = num('width');
+      const h = num('height');
+      return w > 0 && h > 0 ? [[[x, y], [x + w, y], [x + w, y + h], [x, y + h]]] : [];
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * The largest closed outline in an SVG document, in Y-up coordinates, or
+ * null when the file has no drawable shape.
+ */
+export function parseSvgOutline(svg: string): Point2[] | null {
+  const doc = new DOMParser().parseFromString(svg, 'image/svg+xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) return null;
+
+  let rings: Point2[][] = [];
+  const elements = doc.getElementsByTagName('*');
+  for (let i = 0; i < elements.length; i++) rings = rings.concat(elementRings(elements[i]));
+
+  let best: Point2[] | null = null;
+  let bestArea = 0;
+  rings.forEach((ring) => {
+    const area = ring.length >= 3 ? Math.abs(polygonArea(ring)) : 0;
+    if (area > bestArea) {
+      best = ring;
+      bestArea = area;
+    }
+  });
+
+  const outline = best as Point2[] | null;
+  return outline ? outline.map(([x, y]) => [x, -y] as Point2) : null;
+}
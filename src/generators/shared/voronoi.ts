@@ -0,0 +1,145 @@
+/**
+ * Seeded 2D Voronoi tessellation of a horizontally periodic band.
+ *
+ * The band is the unrolled shell surface: u runs around the circumference
+ * (wrapping at `width`), v runs up the height between `bottom` and `top`.
+ * Each cell is the seed's bounding rectangle clipped by the bisector
+ * half-plane against every other seed and its ±width ghosts, so cells
+ * tessellate seamlessly across the wrap. A `gap` shifts every bisector
+ * towards its seed by gap/2, leaving struts exactly `gap` wide between
+ * neighbouring cells.
+ *
+ * Pure math (no JSCAD); all polygons are convex and counter-clockwise.
+ */
+
+export type Point2 = [number, number];
+
+export interface VoronoiDomain {
+  width: number;              // period along u
+  bottom: number;             // lowest v
+  top: number;                // highest v
+}
+
+/** Uniformly scatter `count` seeds over the domain */
+export function scatterSeeds(count: number, domain: VoronoiDomain, random: () => number): Point2[] {
+  const seeds: Point2[] = [];
+  for (let i = 0; i < count; i++) {
+    seeds.push([
+      random() * domain.width,
+      domain.bottom + random() * (domain.top - domain.bottom),
+    ]);
+  }
+  return seeds;
+}
+
+/** Signed area (positive for counter-clockwise) */
+export function polygonArea(polygon: Point2[]): number {
+  let area = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    const [x0, y0] = polygon[i];
+    const [x1, y1] = polygon[(i + 1) % polygon.length];
+    area += x0 * y1 - x1 * y0;
+  }
+  return area / 2;
+}
+
+/** Area centroid of a simple polygon (vertex mean for degenerate input) */
+export function polygonCentroid(polygon: Point2[]): Point2 {
+  const area = polygonArea(polygon);
+  if (Math.abs(area) < 1e-12) {
+    let sx = 0;
+    let sy = 0;
+    for (const [x, y] of polygon) {
+      sx += x;
+      sy += y;
+    }
+    return [sx / polygon.length, sy / polygon.length];
+  }
+
+  let cx = 0;
+  let cy = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    const [x0, y0] = polygon[i];
+    const [x1, y1] = polygon[(i + 1) % polygon.length];
+    const cross = x0 * y1 - x1 * y0;
+    cx += (x0 + x1) * cross;
+    cy += (y0 + y1) * cross;
+  }
+  return [cx / (6 * area), cy / (6 * area)];
+}
+
+/** Sutherland–Hodgman clip of a convex polygon to the half-plane n·p ≤ d */
+function clipHalfPlane(polygon: Point2[], nx: number, ny: number, d: number): Point2[] {
+  const out: Point2[] = [];
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    const da = nx * a[0] + ny * a[1] - d;
+    const db = nx * b[0] + ny * b[1] - d;
+    if (da <= 0) out.push(a);
+    if ((da < 0 && db > 0) || (da > 0 && db < 0)) {
+      const s = da / (da - db);
+      out.push([a[0] + s * (b[0] - a[0]), a[1] + s * (b[1] - a[1])]);
+    }
+  }
+  return out;
+}
+
+/**
+ * Voronoi cell of every seed, clipped to the band and shrunk by gap/2 on
+ * each shared edge. Cells that vanish are returned as empty arrays, so
+ * the result stays index-aligned with `seeds`.
+ */
+export function computeVoronoiCells(
+  seeds: Point2[],
+  domain: VoronoiDomain,
+  gap: number = 0
+): Point2[][] {
+  const { width, bottom, top } = domain;
+  // Every seed plus its ghosts one period to either side
+  const sites: Point2[] = [];
+  seeds.forEach(([u, v]) => {
+    sites.push([u, v], [u - width, v], [u + width, v]);
+  });
+
+  return seeds.map(([su, sv]) => {
+    let cell: Point2[] = [
+      [su - width / 2, bottom],
+      [su + width / 2, bottom],
+      [su + width / 2, top],
+      [su - width / 2, top],
+    ];
+
+    for (const [pu, pv] of sites) {
+      if (cell.length === 0) break;
+      const dx = pu - su;
+      const dy = pv - sv;
+      const dist = Math.hypot(dx, dy);
+      if (dist < 1e-9) continue;
+      const nx = dx / dist;
+      const ny = dy / dist;
+      // Bisector through the midpoint, pulled back towards the seed by gap/2
+      const d = nx * (su + dx / 2) + ny * (sv + dy / 2) - gap / 2;
+      cell = clipHalfPlane(cell, nx, ny, d);
+    }
+
+    return cell.length >= 3 ? cell : [];
+  });
+}
+
+/**
+ * Lloyd relaxation: move every seed to its cell's centroid `iterations`
+ * times, evening out cell sizes. Seeds are wrapped back into [0, width).
+ */
+export function relaxSeeds(seeds: Point2[], domain: VoronoiDomain, iterations: number): Point2[] {
+  let current = seeds;
+  for (let i = 0; i < iterations; i++) {
+    const cells = computeVoronoiCells(current, domain);
+    current = current.map((seed, k) => {
+      if (cells[k].length === 0) return seed;
+      const [cu, cv] = polygonCentroid(cells[k]);
+      return [((cu % domain.width) + domain.width) % domain.width, cv];
+    });
+  }
+  return current;
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_LAMP_PARAMS } from '@/types/design';
+import type { LampParams } from '@/types/design';
+import { MIN_BULB_CLEARANCE, MIN_TOP_VENT_DIAMETER } from '../../lamp/socketConstants';
+import { distanceToBulb, getBulbEnvelope } from '../../lamp/lampDimensions';
+import { measureBulbClearance, measureTopVent, validateLampSafety } from '../lampSafetyValidator';
+
+const TEST_PARAMS: LampParams = { ...DEFAULT_LAMP_PARAMS, resolution: 32 };
+
+function withShade(shade: Partial<LampParams['shade']>, params: Partial<LampParams> = {}): LampParams {
+  return { ...TEST_PARAMS, ...params, shade: { ...TEST_PARAMS.shade, ...shade } };
+}
+
+describe('distanceToBulb', () => {
+  const envelope = { radius: 30, zBottom: 100, zTop: 200 };
+
+  it('measures sideways along the body and radially around the dome', () => {
+    expect(distanceToBulb(50, 120, envelope)).toBeCloseTo(20, 9);
+    expect(distanceToBulb(0, 190, envelope)).toBeCloseTo(-10, 9);
+    expect(distanceToBulb(0, 215, envelope)).toBeCloseTo(15, 9);
+  });
+
+  it('measures to the bottom rim below the glass', () => {
+    expect(distanceToBulb(10, 90, envelope)).toBeCloseTo(10, 9);
+    expect(distanceToBulb(33, 96, envelope)).toBeCloseTo(5, 9);
+  });
+});
+
+describe('getBulbEnvelope', () => {
+  it('seats the glass on the socket collar', () => {
+    const e26 = getBulbEnvelope({ ...TEST_PARAMS, socketType: 'E26', bulbType: 'A19' });
+    const e12 = getBulbEnvelope({ ...TEST_PARAMS, socketType: 'E12', bulbType: 'A19' });
+    expect(e26.radius).toBe(30);
+    expect(e26.zBottom).toBeGreaterThan(e12.zBottom);
+    expect(e26.zTop).toBe(e12.zTop);
+  });
+});
+
+describe('measureBulbClearance', () => {
+  it('shrinks with bigger bulbs', () => {
+    const small = measureBulbClearance({ ...TEST_PARAMS, bulbType: 'B11' });
+    const large = measureBulbClearance({ ...TEST_PARAMS, bulbType: 'G25' });
+    expect(large.minClearance).toBeLessThan(small.minClearance);
+  });
+
+  it('finds the narrowest part of the shade', () => {
+    // A straight shade: clearance is the inner radius less the bulb radius everywhere
+    const params = withShade({ taper: 0, diameter: 120, wallThickness: 2 }, { bulbType: 'A19' });
+    expect(measureBulbClearance(params).minClearance).toBeCloseTo(58 - 30, 0);
+  });
+});
+
+describe('measureTopVent', () => {
+  it('is the inner width of the shade top', () => {
+    const params = withShade({ diameter: 150, wallThickness: 1.6 });
+    expect(measureTopVent(params)).toBeCloseTo(150 - 2 * 1.6, 0);
+  });
+});
+
+describe('validateLampSafety', () => {
+  it('passes the default lamp', () => {
+    const report = validateLampSafety(TEST_PARAMS);
+    expect(report.issues).toEqual([]);
+    expect(report.minClearance).toBeGreaterThanOrEqual(MIN_BULB_CLEARANCE);
+    expect(report.closed).toBe(true);
+  });
+
+  it('warns when the bulb comes within the minimum clearance', () => {
+    const report = validateLampSafety({ ...TEST_PARAMS, bulbType: 'G25' });
+    expect(report.issues).toEqual([
+      expect.objectContaining({ code: 'bulb-clearance', severity: 'warning' }),
+    ]);
+  });
+
+  it('blocks a bulb that touches the shade', () => {
+    const report = validateLampSafety(withShade({ taper: 0, diameter: 60 }, { bulbType: 'A19' }));
+    expect(report.minClearance).toBeLessThanOrEqual(0);
+    expect(report.issues).toContainEqual(expect.objectContaining({ code: 'bulb-clearance', severity: 'error' }));
+  });
+
+  it('requires a top vent only for shades without cutouts', () => {
+    const narrow = withShade({ taper: 0, diameter: MIN_TOP_VENT_DIAMETER - 5 }, { bulbType: 'B11' });
+    expect(validateLampSafety(narrow).issues.map((i) => i.code)).toContain('top-vent');
+
+    const vented = { ...narrow, lightPattern: 'lattice' as const };
+    expect(validateLampSafety(vented).issues.map((i) => i.code)).not.toContain('top-vent');
+  });
+});
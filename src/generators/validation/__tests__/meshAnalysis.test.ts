@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { booleans, primitives, transforms } from '@jscad/modeling';
+import { generateVase } from '../../vase/vaseGenerator';
+import { convertGeom3ToGeometryResult } from '../../shared/geometryConverter';
+import { DEFAULT_VASE_PARAMS } from '@/types/design';
+import type { VaseParams } from '@/types/design';
+import {
+  computeOverhangScalars,
+  computeThicknessScalars,
+  computeAnalysisScalars,
+} from '../meshAnalysis';
+
+const TEST_PARAMS: VaseParams = {
+  ...DEFAULT_VASE_PARAMS,
+  style: 'classic',
+  resolution: 24,
+  height: 40,
+  taper: 1,
+  ridgeDepth: 0,
+  twistAngle: 0,
+};
+
+describe('computeOverhangScalars', () => {
+  it('returns one value per vertex', () => {
+    const box = transforms.translate([0, 0, 5], primitives.cuboid({ size: [10, 10, 10] }));
+    const result = convertGeom3ToGeometryResult(box);
+    expect(computeOverhangScalars(result).length).toBe(result.positions.length / 3);
+  });
+
+  it('is zero for walls, tops and faces on the build plate', () => {
+    const box = transforms.translate([0, 0, 5], primitives.cuboid({ size: [10, 10, 10] }));
+    const scalars = computeOverhangScalars(convertGeom3ToGeometryResult(box));
+    expect(Math.max(...Array.from(scalars))).toBe(0);
+  });
+
+  it('marks the underside of a raised ledge at 90°', () => {
+    const base = transforms.translate([0, 0, 10], primitives.cuboid({ size: [10, 10, 20] }));
+    const ledge = transforms.translate([0, 0, 25], primitives.cuboid({ size: [30, 30, 10] }));
+    const result = convertGeom3ToGeometryResult(booleans.union(base, ledge));
+    const scalars = computeOverhangScalars(result);
+
+    for (let i = 0; i < scalars.length; i++) {
+      const z = result.positions[i * 3 + 2];
+      if (scalars[i] > 0) {
+        expect(z).toBeCloseTo(20, 6);
+        expect(scalars[i]).toBeCloseTo(90, 3);
+      }
+    }
+    expect(Array.from(scalars).some((v) => v > 89)).toBe(true);
+  });
+});
+
+describe('computeThicknessScalars', () => {
+  it('reports the wall thickness on the side walls of a straight vase', () => {
+    const result = convertGeom3ToGeometryResult(generateVase(TEST_PARAMS));
+    const scalars = computeThicknessScalars(result, TEST_PARAMS);
+
+    let wallSamples = 0;
+    for (let i = 0; i < scalars.length; i++) {
+      const z = result.positions[i * 3 + 2];
+      if (z > TEST_PARAMS.baseThickness + 0.5) {
+        expect(scalars[i]).toBeCloseTo(TEST_PARAMS.wallThickness, 1);
+        wallSamples++;
+      }
+    }
+    expect(wallSamples).toBeGreaterThan(0);
+  });
+
+  it('reports baseThickness inside the solid base', () => {
+    const result = convertGeom3ToGeometryResult(generateVase(TEST_PARAMS));
+    const scalars = computeThicknessScalars(result, TEST_PARAMS);
+    for (let i = 0; i < scalars.length; i++) {
+      if (result.positions[i * 3 + 2] < TEST_PARAMS.baseThickness - 0.5) {
+        expect(scalars[i]).toBe(TEST_PARAMS.baseThickness);
+      }
+    }
+  });
+
+  it('matches the untwisted thickness on twisted layers', () => {
+    // No base offset, so inner and outer layers share the same twist at every height
+    const straight: VaseParams = {
+      ...TEST_PARAMS,
+      crossSection: 'polygon',
+      polygonSides: 5,
+      baseThickness: 0,
+    };
+    const twisted: VaseParams = { ...straight, twistAngle: 90 };
+
+    const maxWallThickness = (params: VaseParams) => {
+      const result = convertGeom3ToGeometryResult(generateVase(params));
+      const scalars = computeThicknessScalars(result, params);
+      let max = 0;
+      for (let i = 0; i < scalars.length; i++) {
+        if (result.positions[i * 3 + 2] > 0.5) {
+          max = Math.max(max, scalars[i]);
+        }
+      }
+      return max;
+    };
+
+    // Without undoing the twist, rotated corners would read several mm thick
+    expect(maxWallThickness(twisted)).toBeCloseTo(maxWallThickness(straight), 1);
+  });
+});
+
+describe('computeAnalysisScalars', () => {
+  it('returns undefined when analysis is off', () => {
+    const result = convertGeom3ToGeometryResult(primitives.cuboid({ size: [1, 1, 1] }));
+    expect(computeAnalysisScalars(result, TEST_PARAMS, 'none')).toBeUndefined();
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_VASE_PARAMS } from '@/types/design';
+import type { VaseParams } from '@/types/design';
+import { hasFoldedPath, checkSpiralizeCompatibility } from '../spiralizeCheck';
+
+/** CCW regular polygon */
+function regularPolygon(radius: number, sides: number): [number, number][] {
+  const pts: [number, number][] = [];
+  for (let i = 0; i < sides; i++) {
+    const a = (i / sides) * Math.PI * 2;
+    pts.push([Math.cos(a) * radius, Math.sin(a) * radius]);
+  }
+  return pts;
+}
+
+/** CCW circle with one thin radial spike of the given base width */
+function circleWithSpike(radius: number, spikeLength: number, baseWidth: number): [number, number][] {
+  const pts = regularPolygon(radius, 64).slice(1);
+  const half = baseWidth / 2 / radius;
+  return [
+    [Math.cos(-half) * radius, Math.sin(-half) * radius],
+    [radius + spikeLength, 0],
+    [Math.cos(half) * radius, Math.sin(half) * radius],
+    ...pts,
+  ];
+}
+
+describe('hasFoldedPath', () => {
+  it('accepts smooth convex outlines', () => {
+    expect(hasFoldedPath(regularPolygon(40, 64))).toBe(false);
+  });
+
+  it('accepts a spike wider than the line', () => {
+    expect(hasFoldedPath(circleWithSpike(30, 5, 2))).toBe(false);
+  });
+
+  it('rejects a spike thinner than the line', () => {
+    expect(hasFoldedPath(circleWithSpike(30, 5, 0.2))).toBe(true);
+  });
+
+  it('scales with line width', () => {
+    const outline = circleWithSpike(30, 5, 1);
+    expect(hasFoldedPath(outline, 0.4)).toBe(false);
+    expect(hasFoldedPath(outline, 2)).toBe(true);
+  });
+});
+
+describe('checkSpiralizeCompatibility', () => {
+  const base: VaseParams = { ...DEFAULT_VASE_PARAMS, taper: 1, vaseModeOptimized: true };
+
+  it('passes the default design', () => {
+    expect(checkSpiralizeCompatibility(base)).toEqual({ compatible: true, height: null });
+  });
+
+  it('passes ridged classic vases', () => {
+    const result = checkSpiralizeCompatibility({
+      ...base,
+      style: 'classic',
+      ridgeCount: 32,
+      ridgeDepth: 20,
+      ridgeProfile: 'sharp',
+    });
+    expect(result.compatible).toBe(true);
+  });
+
+  it('flags dense fins on a narrow body', () => {
+    const result = checkSpiralizeCompatibility({
+      ...base,
+      diameter: 40,
+      finCount: 80,
+      finHeight: 6,
+      finWidth: 1,
+    });
+    expect(result.compatible).toBe(false);
+    expect(result.height).not.toBeNull();
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import { booleans, primitives, transforms } from '@jscad/modeling';
+import { generateVase } from '../../vase/vaseGenerator';
+import { DEFAULT_VASE_PARAMS } from '@/types/design';
+import type { VaseParams } from '@/types/design';
+import { MIN_WALL_THICKNESS } from '@/types/validation';
+import {
+  measureLayerThickness,
+  measureWallThickness,
+  measureOverhangs,
+  measureSize,
+  validateVase,
+} from '../vaseValidator';
+
+const TEST_PARAMS: VaseParams = {
+  ...DEFAULT_VASE_PARAMS,
+  style: 'classic',
+  resolution: 24,
+  height: 60,
+  taper: 1,
+};
+
+/** Square outline of half-width h centred on the origin (CCW) */
+function square(h: number): [number, number][] {
+  return [[-h, -h], [h, -h], [h, h], [-h, h]];
+}
+
+describe('measureLayerThickness', () => {
+  it('measures the gap between nested outlines', () => {
+    expect(measureLayerThickness(square(10), square(8))).toBeCloseTo(2, 6);
+  });
+
+  it('returns 0 when the inner outline pokes through', () => {
+    expect(measureLayerThickness(square(10), square(11))).toBe(0);
+  });
+});
+
+describe('measureWallThickness', () => {
+  it('matches wallThickness for a straight-sided vase', () => {
+    const { minThickness } = measureWallThickness(TEST_PARAMS);
+    // Polygonal outlines differ from the true offset by a few hundredths
+    expect(minThickness).toBeCloseTo(TEST_PARAMS.wallThickness, 1);
+  });
+
+  it('shrinks with the wall thickness parameter', () => {
+    const thin = measureWallThickness({ ...TEST_PARAMS, wallThickness: 0.5 });
+    expect(thin.minThickness).toBeLessThan(MIN_WALL_THICKNESS);
+  });
+});
+
+describe('measureOverhangs', () => {
+  it('reports no overhang for a box resting on the plate', () => {
+    const box = transforms.translate([0, 0, 10], primitives.cuboid({ size: [20, 20, 20] }));
+    const result = measureOverhangs(box);
+    expect(result.maxAngle).toBe(0);
+    expect(result.area).toBe(0);
+  });
+
+  it('flags the underside of a raised ledge', () => {
+    const base = transforms.translate([0, 0, 10], primitives.cuboid({ size: [10, 10, 20] }));
+    const ledge = transforms.translate([0, 0, 25], primitives.cuboid({ size: [30, 30, 10] }));
+    const result = measureOverhangs(booleans.union(base, ledge), 60);
+    expect(result.maxAngle).toBeCloseTo(90, 6);
+    // Ledge underside minus the footprint of the column below it
+    expect(result.area).toBeCloseTo(30 * 30 - 10 * 10, 3);
+  });
+});
+
+describe('measureSize', () => {
+  it('returns bounding box extents', () => {
+    const cyl = transforms.translate(
+      [0, 0, 15],
+      primitives.cylinder({ radius: 10, height: 30, segments: 32 })
+    );
+    const [x, y, z] = measureSize(cyl);
+    expect(x).toBeCloseTo(20, 6);
+    expect(y).toBeCloseTo(20, 6);
+    expect(z).toBeCloseTo(30, 6);
+  });
+});
+
+describe('validateVase', () => {
+  it('passes a default straight vase', () => {
+    const report = validateVase(TEST_PARAMS, generateVase(TEST_PARAMS));
+    expect(report.issues).toEqual([]);
+    expect(report.fitsBed).toBe(true);
+    expect(report.printer).toBe('bed-256');
+  });
+
+  it('warns about thin walls', () => {
+    const params = { ...TEST_PARAMS, wallThickness: 0.5 };
+    const report = validateVase(params, generateVase(params));
+    const issue = report.issues.find((i) => i.code === 'thin-wall');
+    expect(issue?.severity).toBe('warning');
+  });
+
+  it('checks the mesh against the selected printer bed', () => {
+    const params = { ...TEST_PARAMS, height: 300 };
+    const geom = generateVase(params);
+    expect(validateVase(params, geom, 'bed-256').issues.map((i) => i.code)).toContain('bed-fit');
+    expect(validateVase(params, geom, 'bed-300').fitsBed).toBe(true);
+  });
+
+  it('skips the wall check in vase mode', () => {
+    const params = { ...TEST_PARAMS, wallThickness: 0.5, vaseModeOptimized: true };
+    const report = validateVase(params, generateVase(params));
+    expect(report.minWallThickness).toBeNull();
+    expect(report.issues.map((i) => i.code)).not.toContain('thin-wall');
+  });
+
+  it('warns when fins break spiralize in vase mode', () => {
+    const params: VaseParams = {
+      ...TEST_PARAMS,
+      style: 'spiral-fin',
+      diameter: 40,
+      finCount: 80,
+      finHeight: 6,
+      finWidth: 1,
+      vaseModeOptimized: true,
+    };
+    const report = validateVase(params, generateVase(params));
+    const issue = report.issues.find((i) => i.code === 'spiralize');
+    expect(issue?.severity).toBe('warning');
+  });
+
+  it('warns about overhangs on a strongly flared rim', () => {
+    const params: VaseParams = {
+      ...TEST_PARAMS,
+      profileShape: 'trumpet',
+      trumpetFlare: 1.5,
+      trumpetCurvature: 8,
+    };
+    const report = validateVase(params, generateVase(params));
+    expect(report.maxOverhangAngle).toBeGreaterThan(60);
+    expect(report.issues.map((i) => i.code)).toContain('overhang');
+  });
+});
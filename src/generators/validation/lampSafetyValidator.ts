@@ -0,0 +1,127 @@
+/**
+ * Bulb clearance and heat checks for lamps.
+ * Pure function: (LampParams) => LampSafetyReport
+ *
+ * Checks:
+ * 1. Bulb clearance — samples the shade's inner wall over its whole height
+ *    and measures the closest approach to the chosen bulb's envelope
+ *    (getBulbEnvelope). Light-pattern openings are ignored, so the result
+ *    errs on the safe side.
+ * 2. Top vent — a shade without cutouts only sheds heat through its top, so
+ *    the top opening must be at least MIN_TOP_VENT_DIAMETER across.
+ */
+
+import type { LampParams } from '@/types/design';
+import type { LampSafetyReport, ValidationIssue } from '@/types/validation';
+import { createLayerSampler } from '../shared/layerSampler';
+import {
+  distanceToBulb,
+  getBulbEnvelope,
+  getLipHeight,
+  toShellParams,
+} from '../lamp/lampDimensions';
+import { MIN_BULB_CLEARANCE, MIN_TOP_VENT_DIAMETER } from '../lamp/socketConstants';
+
+/** Number of heights sampled up the shade */
+const SAFETY_SAMPLE_LAYERS = 48;
+/** Cross-section resolution cap for the wall samples */
+const SAFETY_SAMPLE_RESOLUTION = 96;
+
+export interface ClearanceMeasurement {
+  minClearance: number;
+  height: number;
+}
+
+/** Closest approach (mm) of the shade's inner wall to the bulb envelope */
+export function measureBulbClearance(params: LampParams): ClearanceMeasurement {
+  const shade = toShellParams(params.shade);
+  const sampleInner = createLayerSampler(shade, {
+    resolution: Math.min(params.resolution, SAFETY_SAMPLE_RESOLUTION),
+    wallInset: shade.wallThickness,
+    skipModulation: shade.smoothInnerWall,
+    invertProfile: true,
+  });
+  const envelope = getBulbEnvelope(params);
+  const shadeBottom = params.base.height + getLipHeight(params);
+
+  let minClearance = Infinity;
+  let minHeight = shadeBottom;
+  for (let i = 0; i <= SAFETY_SAMPLE_LAYERS; i++) {
+    const t = i / SAFETY_SAMPLE_LAYERS;
+    const z = shadeBottom + t * shade.height;
+    for (const [x, y] of sampleInner(t)) {
+      const d = distanceToBulb(Math.hypot(x, y), z, envelope);
+      if (d < minClearance) {
+        minClearance = d;
+        minHeight = z;
+      }
+    }
+  }
+
+  return { minClearance, height: minHeight };
+}
+
+/** Narrowest width (mm) of the shade's top opening, across its centre */
+export function measureTopVent(params: LampParams): number {
+  const shade = toShellParams(params.shade);
+  const sampleInner = createLayerSampler(shade, {
+    resolution: Math.min(params.resolution, SAFETY_SAMPLE_RESOLUTION),
+    wallInset: shade.wallThickness,
+    skipModulation: shade.smoothInnerWall,
+    invertProfile: true,
+  });
+
+  let minRadius = Infinity;
+  for (const [x, y] of sampleInner(1)) {
+    minRadius = Math.min(minRadius, Math.hypot(x, y));
+  }
+  return Number.isFinite(minRadius) ? 2 * minRadius : 0;
+}
+
+/**
+ * Check a lamp design for bulb clearance and heat venting.
+ * Pure function — no side effects.
+ */
+export function validateLampSafety(params: LampParams): LampSafetyReport {
+  const clearance = measureBulbClearance(params);
+  const topVentDiameter = measureTopVent(params);
+  const closed = params.lightPattern === 'none';
+  const issues: ValidationIssue[] = [];
+
+  if (clearance.minClearance <= 0) {
+    issues.push({
+      code: 'bulb-clearance',
+      severity: 'error',
+      message:
+        `The ${params.bulbType} bulb touches the shade near ${clearance.height.toFixed(0)} mm — ` +
+        'widen the shade or choose a smaller bulb',
+    });
+  } else if (clearance.minClearance < MIN_BULB_CLEARANCE) {
+    issues.push({
+      code: 'bulb-clearance',
+      severity: 'warning',
+      message:
+        `The ${params.bulbType} bulb is ${clearance.minClearance.toFixed(1)} mm from the shade near ` +
+        `${clearance.height.toFixed(0)} mm (minimum ${MIN_BULB_CLEARANCE} mm)`,
+    });
+  }
+
+  if (closed && topVentDiameter < MIN_TOP_VENT_DIAMETER) {
+    issues.push({
+      code: 'top-vent',
+      severity: 'error',
+      message:
+        `Top opening is ${topVentDiameter.toFixed(0)} mm across — a shade without cutouts ` +
+        `needs at least ${MIN_TOP_VENT_DIAMETER} mm to vent heat`,
+    });
+  }
+
+  return {
+    bulb: params.bulbType,
+    minClearance: clearance.minClearance,
+    minClearanceHeight: clearance.height,
+    topVentDiameter,
+    closed,
+    issues,
+  };
+}
@@ -0,0 +1,159 @@
+/**
+ * Per-vertex analysis channels for the viewport overlay.
+ * Pure functions: (GeometryResult, VaseParams) => Float32Array
+ *
+ * Both run on the flat-shaded preview mesh, one value per vertex:
+ * 1. Overhang — face angle from vertical in degrees (0 for upward-facing
+ *    faces and faces resting on the build plate)
+ * 2. Thickness — local surface-normal wall thickness in mm, measured against
+ *    the same layer outlines the shell builder extrudes
+ */
+
+import type { VaseParams } from '@/types/design';
+import type { AnalysisMode, GeometryResult } from '@/types/geometry';
+import {
+  createLayerSampler,
+  getLayerTwist,
+  getSlopeCompensation,
+} from '../shared/layerSampler';
+import { BED_CONTACT_TOLERANCE, distanceToOutline } from './vaseValidator';
+
+interface ThicknessLayer {
+  outer: [number, number][];
+  outerTwist: number;
+  /** null below the solid base, where there is no inner surface */
+  inner: [number, number][] | null;
+  innerTwist: number;
+  slopeCompensation: number;
+}
+
+/** Per-vertex overhang angle in degrees from vertical */
+export function computeOverhangScalars(result: GeometryResult): Float32Array {
+  const { positions, normals, indices } = result;
+  const scalars = new Float32Array(positions.length / 3);
+
+  let bedZ = Infinity;
+  for (let i = 2; i < positions.length; i += 3) {
+    if (positions[i] < bedZ) bedZ = positions[i];
+  }
+  const contactZ = bedZ + BED_CONTACT_TOLERANCE;
+
+  for (let i = 0; i < indices.length; i += 3) {
+    const a = indices[i];
+    const b = indices[i + 1];
+    const c = indices[i + 2];
+    const onBed =
+      positions[a * 3 + 2] < contactZ &&
+      positions[b * 3 + 2] < contactZ &&
+      positions[c * 3 + 2] < contactZ;
+
+    // Flat shading: every vertex of a triangle carries the face normal
+    const nz = normals[a * 3 + 2];
+    const angle = onBed || nz >= 0 ? 0 : (Math.asin(Math.min(1, -nz)) * 180) / Math.PI;
+    scalars[a] = angle;
+    scalars[b] = angle;
+    scalars[c] = angle;
+  }
+
+  return scalars;
+}
+
+/**
+ * Per-vertex wall thickness in mm.
+ * Each vertex lies on either the outer or the inner surface, so its distance
+ * to the other surface's outline (at the same world height, un-twisted) is
+ * the local horizontal thickness. Vertices inside the solid base report
+ * baseThickness.
+ */
+export function computeThicknessScalars(
+  result: GeometryResult,
+  params: VaseParams
+): Float32Array {
+  const { positions } = result;
+  const scalars = new Float32Array(positions.length / 3);
+
+  const sampleOuter = createLayerSampler(params, {
+    resolution: params.resolution,
+    wallInset: 0,
+  });
+  const sampleInner = createLayerSampler(params, {
+    resolution: params.resolution,
+    wallInset: params.wallThickness,
+    skipModulation: params.smoothInnerWall,
+    heightOffset: params.baseThickness,
+  });
+
+  // Slices share a handful of distinct heights — build each layer once
+  const layers = new Map<string, ThicknessLayer>();
+  const layerAt = (z: number): ThicknessLayer => {
+    const key = z.toFixed(3);
+    let layer = layers.get(key);
+    if (!layer) {
+      const tOuter = Math.max(0, Math.min(1, z / params.height));
+      const hasInner = z >= params.baseThickness - BED_CONTACT_TOLERANCE;
+      const tInner = Math.max(0, (z - params.baseThickness) / params.height);
+      layer = {
+        outer: sampleOuter(tOuter),
+        outerTwist: getLayerTwist(params, tOuter),
+        inner: hasInner ? sampleInner(tInner) : null,
+        // Faceted inner shells twist with the outer band at the same height
+        innerTwist: getLayerTwist(params, params.faceted ? tOuter : tInner),
+        slopeCompensation: getSlopeCompensation(params, tOuter),
+      };
+      layers.set(key, layer);
+    }
+    return layer;
+  };
+
+  // Flat shading repeats each position ~6 times — measure each one once
+  const measured = new Map<string, number>();
+
+  for (let i = 0; i < scalars.length; i++) {
+    const x = positions[i * 3];
+    const y = positions[i * 3 + 1];
+    const z = positions[i * 3 + 2];
+    const key = `${x},${y},${z}`;
+
+    let thickness = measured.get(key);
+    if (thickness === undefined) {
+      const layer = layerAt(z);
+      if (!layer.inner) {
+        thickness = params.baseThickness;
+      } else {
+        const [ox, oy] = untwist(x, y, layer.outerTwist);
+        const [ix, iy] = untwist(x, y, layer.innerTwist);
+        const dOuter = distanceToOutline(ox, oy, layer.outer);
+        const dInner = distanceToOutline(ix, iy, layer.inner);
+        thickness = Math.max(dOuter, dInner) / layer.slopeCompensation;
+      }
+      measured.set(key, thickness);
+    }
+    scalars[i] = thickness;
+  }
+
+  return scalars;
+}
+
+/** Rotate a point by -angle to undo a layer's twist */
+function untwist(x: number, y: number, angle: number): [number, number] {
+  const cos = Math.cos(-angle);
+  const sin = Math.sin(-angle);
+  return [cos * x - sin * y, sin * x + cos * y];
+}
+
+/** Compute the scalar channel for an analysis mode, or undefined when there is none */
+export function computeAnalysisScalars(
+  result: GeometryResult,
+  params: VaseParams,
+  mode: AnalysisMode
+): Float32Array | undefined {
+  switch (mode) {
+    case 'overhang':
+      return computeOverhangScalars(result);
+    case 'thickness':
+      // Vase mode has no modelled inner wall — the slicer decides it
+      return params.vaseModeOptimized ? undefined : computeThicknessScalars(result, params);
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Slicer vase-mode (spiralize) compatibility check.
+ * Pure function: (VaseParams) => SpiralizeCheck
+ *
+ * Spiralize prints the outer outline as one continuous line whose centre
+ * runs half a line width inside the surface. Outlines are polar by
+ * construction, so the only way that path can cross itself is a fin or
+ * ridge crest narrower than the line: offsetting the outline inward makes
+ * an edge shrink past zero length there and the path folds back on itself.
+ * No JSCAD — safe to run on the main thread.
+ */
+
+import type { VaseParams } from '@/types/design';
+import { SPIRALIZE_LINE_WIDTH } from '@/types/validation';
+import { createLayerSampler } from '../shared/layerSampler';
+
+/** Number of heights sampled */
+const SPIRALIZE_SAMPLE_LAYERS = 32;
+
+export interface SpiralizeCheck {
+  compatible: boolean;
+  /** Z (mm) of the lowest layer whose spiral path self-intersects, null if none */
+  height: number | null;
+}
+
+/**
+ * True when the nozzle-centre path (outline offset inward by half a line
+ * width) folds back on itself anywhere along the layer.
+ *
+ * An inward offset by h trims h·tan(θ/2) off each end of an edge, where θ is
+ * the CCW turn at that corner (negative turns at concave corners lengthen
+ * it). An edge trimmed by more than its length reverses — the path folds.
+ */
+export function hasFoldedPath(
+  outline: [number, number][],
+  lineWidth: number = SPIRALIZE_LINE_WIDTH
+): boolean {
+  const n = outline.length;
+  const h = lineWidth / 2;
+
+  // Trim at each vertex from the turn between its incoming and outgoing edges
+  const trims: number[] = [];
+  for (let i = 0; i < n; i++) {
+    const prev = outline[(i - 1 + n) % n];
+    const curr = outline[i];
+    const next = outline[(i + 1) % n];
+    const ax = curr[0] - prev[0];
+    const ay = curr[1] - prev[1];
+    const bx = next[0] - curr[0];
+    const by = next[1] - curr[1];
+    const turn = Math.atan2(ax * by - ay * bx, ax * bx + ay * by);
+    trims.push(h * Math.tan(turn / 2));
+  }
+
+  for (let i = 0; i < n; i++) {
+    const j = (i + 1) % n;
+    const length = Math.hypot(outline[j][0] - outline[i][0], outline[j][1] - outline[i][1]);
+    if (trims[i] + trims[j] > length) return true;
+  }
+  return false;
+}
+
+/** Check every sampled layer of the outer outline for spiralize self-intersections */
+export function checkSpiralizeCompatibility(
+  params: VaseParams,
+  lineWidth: number = SPIRALIZE_LINE_WIDTH
+): SpiralizeCheck {
+  const sampleOuter = createLayerSampler(params, {
+    resolution: params.resolution,
+    wallInset: 0,
+  });
+
+  for (let i = 0; i <= SPIRALIZE_SAMPLE_LAYERS; i++) {
+    const t = i / SPIRALIZE_SAMPLE_LAYERS;
+    if (hasFoldedPath(sampleOuter(t), lineWidth)) {
+      return { compatible: false, height: t * params.height };
+    }
+  }
+
+  return { compatible: true, height: null };
+}
@@ -0,0 +1,284 @@
+/**
+ * Print validation for vases.
+ * Pure function: (VaseParams, Geom3, printer) => ValidationReport
+ *
+ * Checks:
+ * 1. Wall thickness — rebuilds the outer and inner layer outlines exactly as
+ *    generateVase does (including offsetPolygonInward's minRadius clamping)
+ *    and measures the closest inner→outer distance per layer, corrected to
+ *    surface-normal thickness on sloped walls
+ * 2. Overhangs — per-face angle from vertical on the final mesh, ignoring
+ *    faces resting on the build plate (lowest Z)
+ * 3. Bed fit — mesh bounding box against the selected printer profile
+ *
+ * In vase mode the slicer generates the wall, so the wall check is replaced
+ * by the spiralize compatibility check.
+ */
+
+import { geometries } from '@jscad/modeling';
+import type { Geom3 } from '@jscad/modeling';
+import type { VaseParams } from '@/types/design';
+import type {
+  PrinterProfileId,
+  ValidationIssue,
+  ValidationReport,
+} from '@/types/validation';
+import {
+  PRINTER_PROFILES,
+  DEFAULT_PRINTER_PROFILE,
+  MIN_WALL_THICKNESS,
+  MAX_OVERHANG_ANGLE,
+  SPIRALIZE_LINE_WIDTH,
+} from '@/types/validation';
+import { createLayerSampler, getSlopeCompensation } from '../shared/layerSampler';
+import { checkSpiralizeCompatibility } from './spiralizeCheck';
+
+/** Number of heights sampled for wall thickness */
+const WALL_SAMPLE_LAYERS = 32;
+/** Cross-section resolution cap for wall measurement (keeps O(n·m) cheap) */
+const WALL_SAMPLE_RESOLUTION = 96;
+/** Faces with every vertex within this distance of the lowest Z are on the build plate */
+export const BED_CONTACT_TOLERANCE = 0.01;
+/** Overhang area below this (mm²) is treated as numerical noise */
+const OVERHANG_AREA_TOLERANCE = 1;
+
+export interface WallMeasurement {
+  minThickness: number;
+  height: number;
+}
+
+export interface OverhangMeasurement {
+  maxAngle: number;
+  area: number;
+}
+
+/** Distance from point p to segment ab */
+function pointSegmentDistance(
+  px: number, py: number,
+  ax: number, ay: number,
+  bx: number, by: number
+): number {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lenSq = dx * dx + dy * dy;
+  let u = lenSq > 0 ? ((px - ax) * dx + (py - ay) * dy) / lenSq : 0;
+  u = Math.max(0, Math.min(1, u));
+  const cx = ax + u * dx - px;
+  const cy = ay + u * dy - py;
+  return Math.sqrt(cx * cx + cy * cy);
+}
+
+/** Even-odd ray cast point-in-polygon test */
+function isInsidePolygon(px: number, py: number, polygon: [number, number][]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if ((yi > py) !== (yj > py) && px < ((xj - xi) * (py - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/** Distance from a point to the nearest edge of a closed outline */
+export function distanceToOutline(
+  px: number,
+  py: number,
+  outline: [number, number][]
+): number {
+  let min = Infinity;
+  for (let i = 0; i < outline.length; i++) {
+    const [ax, ay] = outline[i];
+    const [bx, by] = outline[(i + 1) % outline.length];
+    const d = pointSegmentDistance(px, py, ax, ay, bx, by);
+    if (d < min) min = d;
+  }
+  return min;
+}
+
+/**
+ * Minimum wall thickness between two layer outlines.
+ * Returns 0 if any inner point pokes through the outer outline.
+ */
+export function measureLayerThickness(
+  outer: [number, number][],
+  inner: [number, number][]
+): number {
+  let min = Infinity;
+  for (const [px, py] of inner) {
+    if (!isInsidePolygon(px, py, outer)) return 0;
+    const d = distanceToOutline(px, py, outer);
+    if (d < min) min = d;
+  }
+  return min;
+}
+
+/** Measure the thinnest side wall over the vase height (above the solid base) */
+export function measureWallThickness(params: VaseParams): WallMeasurement {
+  const resolution = Math.min(params.resolution, WALL_SAMPLE_RESOLUTION);
+  const sampleOuter = createLayerSampler(params, { resolution, wallInset: 0 });
+  const sampleInner = createLayerSampler(params, {
+    resolution,
+    wallInset: params.wallThickness,
+    skipModulation: params.smoothInnerWall,
+    heightOffset: params.baseThickness,
+  });
+
+  let minThickness = Infinity;
+  let minHeight = params.baseThickness;
+
+  for (let i = 0; i <= WALL_SAMPLE_LAYERS; i++) {
+    // Inner shell is raised by baseThickness, so sample world heights above it
+    const z = params.baseThickness + (i / WALL_SAMPLE_LAYERS) * (params.height - params.baseThickness);
+    const tOuter = z / params.height;
+    const tInner = (z - params.baseThickness) / params.height;
+
+    const horizontal = measureLayerThickness(sampleOuter(tOuter), sampleInner(tInner));
+    const thickness = horizontal / getSlopeCompensation(params, tOuter);
+
+    if (thickness < minThickness) {
+      minThickness = thickness;
+      minHeight = z;
+    }
+  }
+
+  return { minThickness, height: minHeight };
+}
+
+/** Worst overhang angle (degrees from vertical) and area beyond the limit */
+export function measureOverhangs(
+  geom: Geom3,
+  limitDeg: number = MAX_OVERHANG_ANGLE
+): OverhangMeasurement {
+  const polygons = geometries.geom3.toPolygons(geom);
+  let bedZ = Infinity;
+  for (const poly of polygons) {
+    for (const v of poly.vertices) {
+      if (v[2] < bedZ) bedZ = v[2];
+    }
+  }
+  const contactZ = bedZ + BED_CONTACT_TOLERANCE;
+
+  let maxAngle = 0;
+  let area = 0;
+
+  for (const poly of polygons) {
+    const verts = poly.vertices;
+    if (verts.length < 3) continue;
+    if (verts.every((v) => v[2] < contactZ)) continue;
+
+    // Newell's method: normal direction and 2× polygon area in one pass
+    let nx = 0;
+    let ny = 0;
+    let nz = 0;
+    for (let i = 0; i < verts.length; i++) {
+      const [x0, y0, z0] = verts[i];
+      const [x1, y1, z1] = verts[(i + 1) % verts.length];
+      nx += (y0 - y1) * (z0 + z1);
+      ny += (z0 - z1) * (x0 + x1);
+      nz += (x0 - x1) * (y0 + y1);
+    }
+    const len = Math.sqrt(nx * nx + ny * ny + nz * nz);
+    if (len === 0 || nz >= 0) continue;
+
+    // Downward-facing: 0° = vertical wall, 90° = flat ceiling
+    const angle = (Math.asin(Math.min(1, -nz / len)) * 180) / Math.PI;
+    if (angle > maxAngle) maxAngle = angle;
+    if (angle > limitDeg) area += len / 2;
+  }
+
+  return { maxAngle, area };
+}
+
+/** Axis-aligned bounding box extents of a Geom3 */
+export function measureSize(geom: Geom3): [number, number, number] {
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (const poly of geometries.geom3.toPolygons(geom)) {
+    for (const v of poly.vertices) {
+      for (let k = 0; k < 3; k++) {
+        if (v[k] < min[k]) min[k] = v[k];
+        if (v[k] > max[k]) max[k] = v[k];
+      }
+    }
+  }
+  if (!Number.isFinite(min[0])) return [0, 0, 0];
+  return [max[0] - min[0], max[1] - min[1], max[2] - min[2]];
+}
+
+/**
+ * Validate a generated vase for FDM printability.
+ * Pure function — no side effects.
+ */
+export function validateVase(
+  params: VaseParams,
+  geom: Geom3,
+  printerId: PrinterProfileId = DEFAULT_PRINTER_PROFILE
+): ValidationReport {
+  const printer = PRINTER_PROFILES[printerId];
+  const wall = params.vaseModeOptimized ? null : measureWallThickness(params);
+  const overhang = measureOverhangs(geom);
+  const size = measureSize(geom);
+  const issues: ValidationIssue[] = [];
+
+  if (params.vaseModeOptimized) {
+    const spiralize = checkSpiralizeCompatibility(params);
+    if (!spiralize.compatible) {
+      issues.push({
+        code: 'spiralize',
+        severity: 'warning',
+        message:
+          `Fins or ridges narrower than a ${SPIRALIZE_LINE_WIDTH} mm line near ` +
+          `${(spiralize.height ?? 0).toFixed(0)} mm — vase mode will self-intersect`,
+      });
+    }
+  } else if (wall && wall.minThickness <= 0.01) {
+    issues.push({
+      code: 'wall-breach',
+      severity: 'error',
+      message: `Inner wall breaks through the outer surface near ${wall.height.toFixed(0)} mm`,
+    });
+  } else if (wall && wall.minThickness < MIN_WALL_THICKNESS) {
+    issues.push({
+      code: 'thin-wall',
+      severity: 'warning',
+      message:
+        `Wall is ${wall.minThickness.toFixed(2)} mm near ${wall.height.toFixed(0)} mm ` +
+        `(minimum ${MIN_WALL_THICKNESS} mm)`,
+    });
+  }
+
+  if (overhang.area > OVERHANG_AREA_TOLERANCE) {
+    issues.push({
+      code: 'overhang',
+      severity: 'warning',
+      message:
+        `Overhang up to ${overhang.maxAngle.toFixed(0)}° over ${overhang.area.toFixed(0)} mm² ` +
+        `(limit ${MAX_OVERHANG_ANGLE}°)`,
+    });
+  }
+
+  const fitsBed =
+    size[0] <= printer.bedX && size[1] <= printer.bedY && size[2] <= printer.maxZ;
+  if (!fitsBed) {
+    issues.push({
+      code: 'bed-fit',
+      severity: 'warning',
+      message:
+        `${size[0].toFixed(0)} × ${size[1].toFixed(0)} × ${size[2].toFixed(0)} mm ` +
+        `exceeds the ${printer.bedX} × ${printer.bedY} × ${printer.maxZ} mm build volume`,
+    });
+  }
+
+  return {
+    minWallThickness: wall ? wall.minThickness : null,
+    minWallHeight: wall ? wall.height : null,
+    maxOverhangAngle: overhang.maxAngle,
+    overhangArea: overhang.area,
+    size,
+    printer: printerId,
+    fitsBed,
+    issues,
+  };
+}
@@ -5,11 +5,17 @@ import {
   createStarPoints,
   applyRidgeModulation,
   applyFinModulation,
+  applyWaveDisplacement,
+  getWaveModulation,
+  BASKET_STRANDS,
   createCrossSection,
   getBaseRadiusAtAngle,
   createFinCrossSection,
+  getLayerShapeRadius,
+  hasCrossSectionMorph,
 } from '../crossSections';
-import type { CrossSection } from '@/types/design';
+import { DEFAULT_VASE_PARAMS } from '@/types/design';
+import type { CrossSection, VaseParams } from '@/types/design';
 
 // Helper: compute distance from origin for a 2D point
 function distFromOrigin([x, y]: [number, number]): number {
@@ -306,6 +312,57 @@ describe('applyFinModulation', () => {
   });
 });
 
+describe('applyWaveDisplacement', () => {
+  const circlePoints = createCirclePoints(10, 96);
+
+  it('returns unchanged points for no pattern or zero amplitude', () => {
+    expect(applyWaveDisplacement(circlePoints, 0.3, 'none', 3, 8, 4)).toBe(circlePoints);
+    expect(applyWaveDisplacement(circlePoints, 0.3, 'diagonal', 0, 8, 4)).toBe(circlePoints);
+  });
+
+  it('keeps every radius within [r, r + amplitude]', () => {
+    for (const pattern of ['vertical', 'diagonal', 'basket'] as const) {
+      for (const t of [0, 0.13, 0.5, 0.77, 1]) {
+        applyWaveDisplacement(circlePoints, t, pattern, 3, 8, 5).forEach((pt) => {
+          expect(distFromOrigin(pt)).toBeGreaterThanOrEqual(10 - 1e-9);
+          expect(distFromOrigin(pt)).toBeLessThanOrEqual(13 + 1e-9);
+        });
+      }
+    }
+  });
+
+  it('vertical waves vary with height only', () => {
+    const radii = applyWaveDisplacement(circlePoints, 0.1, 'vertical', 3, 8, 4).map(distFromOrigin);
+    radii.forEach((r) => expect(r).toBeCloseTo(radii[0], 10));
+    // A crest every 1/rows, flush with the base and rim
+    expect(getWaveModulation('vertical', 0, 0.125, 8, 4)).toBeCloseTo(1, 10);
+    expect(getWaveModulation('vertical', 0, 0, 8, 4)).toBeCloseTo(0, 10);
+    expect(getWaveModulation('vertical', 0, 1, 8, 4)).toBeCloseTo(0, 10);
+  });
+
+  it('diagonal lattice alternates crests along both axes', () => {
+    const around = Math.PI / 8; // half a cycle for 8 waves
+    expect(getWaveModulation('diagonal', 0, 0, 8, 4)).toBeCloseTo(1, 10);
+    expect(getWaveModulation('diagonal', around, 0, 8, 4)).toBeCloseTo(0, 10);
+    expect(getWaveModulation('diagonal', around, 0.125, 8, 4)).toBeCloseTo(1, 10);
+  });
+
+  it('basket weave alternates strand direction and meets flush at block edges', () => {
+    const block = (2 * Math.PI) / 8;
+    // Along a block edge every strand has dived to zero
+    for (let i = 0; i <= 20; i++) {
+      expect(getWaveModulation('basket', block, i / 80, 8, 4)).toBeCloseTo(0, 6);
+      expect(getWaveModulation('basket', (i / 20) * block, 0.25, 8, 4)).toBeCloseTo(0, 6);
+    }
+    // Horizontal strands in the first block, vertical strands in the next
+    const crossing = 1 / (4 * BASKET_STRANDS * 2);
+    expect(getWaveModulation('basket', block / 2, crossing, 8, 4)).toBeCloseTo(1, 6);
+    expect(getWaveModulation('basket', block / 2, crossing * 2, 8, 4)).toBeCloseTo(0, 6);
+    const vertical = block + block / (BASKET_STRANDS * 2);
+    expect(getWaveModulation('basket', vertical, 0.125, 8, 4)).toBeCloseTo(1, 6);
+  });
+});
+
 describe('getBaseRadiusAtAngle', () => {
   const R = 40; // base radius
 
@@ -491,6 +548,49 @@ describe('getBaseRadiusAtAngle', () => {
     });
   });
 
+  describe('noise', () => {
+    const NOISE = { noiseAmplitude: 0.2, noiseFrequency: 2, noiseOctaves: 3, noiseSeed: 4 };
+
+    it('stays within R * (1 ± amplitude)', () => {
+      for (let i = 0; i < 360; i++) {
+        const r = getBaseRadiusAtAngle((i / 360) * 2 * Math.PI, 'noise', R, NOISE);
+        expect(r).toBeGreaterThanOrEqual(R * 0.8 - 1e-9);
+        expect(r).toBeLessThanOrEqual(R * 1.2 + 1e-9);
+      }
+    });
+
+    it('is a circle at zero amplitude', () => {
+      expect(getBaseRadiusAtAngle(1.3, 'noise', R, { ...NOISE, noiseAmplitude: 0 })).toBe(R);
+    });
+
+    it('closes without a seam', () => {
+      const r0 = getBaseRadiusAtAngle(0, 'noise', R, NOISE);
+      expect(getBaseRadiusAtAngle(2 * Math.PI, 'noise', R, NOISE)).toBeCloseTo(r0, 9);
+      expect(getBaseRadiusAtAngle(-1e-6, 'noise', R, NOISE)).toBeCloseTo(r0, 4);
+    });
+
+    it('depends on the seed and drifts with noiseZ', () => {
+      const at = (sub: object) => getBaseRadiusAtAngle(0.7, 'noise', R, { ...NOISE, ...sub });
+      expect(at({})).toBe(at({}));
+      expect(at({ noiseSeed: 5 })).not.toBeCloseTo(at({}), 3);
+      expect(at({ noiseZ: 0.5 })).not.toBeCloseTo(at({}), 3);
+    });
+  });
+
+  describe('custom', () => {
+    const RADII = [1, 0.5, 1, 0.5, 1, 0.5, 1, 0.5];
+
+    it('scales the stored radii, interpolating between them', () => {
+      expect(getBaseRadiusAtAngle(0, 'custom', R, { customRadii: RADII })).toBeCloseTo(R, 9);
+      expect(getBaseRadiusAtAngle(Math.PI / 4, 'custom', R, { customRadii: RADII })).toBeCloseTo(R / 2, 9);
+      expect(getBaseRadiusAtAngle(Math.PI / 8, 'custom', R, { customRadii: RADII })).toBeCloseTo(R * 0.75, 9);
+    });
+
+    it('is a circle without an outline', () => {
+      expect(getBaseRadiusAtAngle(1.1, 'custom', R)).toBe(R);
+    });
+  });
+
   describe('polygon (continuous)', () => {
     it('returns baseRadius at vertex angles for hexagon', () => {
       // Polygon radius at vertex should be baseRadius
@@ -523,7 +623,7 @@ describe('getBaseRadiusAtAngle', () => {
   describe('all shapes produce finite positive radii', () => {
     const shapes: CrossSection[] = [
       'circle', 'oval', 'squircle', 'superellipse',
-      'heart', 'teardrop', 'petal', 'leaf',
+      'heart', 'teardrop', 'petal', 'leaf', 'noise',
       'polygon', 'star', 'gear', 'flower',
     ];
 
@@ -539,6 +639,8 @@ describe('getBaseRadiusAtAngle', () => {
           starInnerRatio: 0.5,
           gearTeeth: 12,
           petalCount: 5,
+          noiseAmplitude: 0.4,
+          noiseOctaves: 5,
         });
         expect(r).toBeGreaterThan(0);
         expect(Number.isFinite(r)).toBe(true);
@@ -694,3 +796,36 @@ describe('createFinCrossSection', () => {
     expect(r2.length).toBeGreaterThan(r1.length);
   });
 });
+
+describe('getLayerShapeRadius (cross-section morph)', () => {
+  const SQUARE_TO_CIRCLE: VaseParams = {
+    ...DEFAULT_VASE_PARAMS,
+    crossSection: 'polygon',
+    polygonSides: 4,
+    crossSectionMorph: true,
+    crossSectionTop: 'circle',
+    crossSectionEasing: 'linear',
+  };
+  const square = (angle: number) => getBaseRadiusAtAngle(angle, 'polygon', 1, { polygonSides: 4 });
+  const ANGLE = Math.PI / 4 + 0.1;
+
+  it('is the bottom shape at t=0 and the top shape at t=1', () => {
+    expect(getLayerShapeRadius(SQUARE_TO_CIRCLE, 0)(ANGLE)).toBeCloseTo(square(ANGLE), 12);
+    expect(getLayerShapeRadius(SQUARE_TO_CIRCLE, 1)(ANGLE)).toBeCloseTo(1, 12);
+  });
+
+  it('blends radially by the eased height', () => {
+    const mid = (square(ANGLE) + 1) / 2;
+    expect(getLayerShapeRadius(SQUARE_TO_CIRCLE, 0.5)(ANGLE)).toBeCloseTo(mid, 12);
+    const easedIn = getLayerShapeRadius({ ...SQUARE_TO_CIRCLE, crossSectionEasing: 'easeIn' }, 0.5)(ANGLE);
+    // Ease-in stays closer to the square at mid-height
+    expect(Math.abs(easedIn - square(ANGLE))).toBeLessThan(Math.abs(mid - square(ANGLE)));
+  });
+
+  it('ignores the top shape when not morphing or when both ends match', () => {
+    const off = { ...SQUARE_TO_CIRCLE, crossSectionMorph: false };
+    expect(hasCrossSectionMorph(off)).toBe(false);
+    expect(hasCrossSectionMorph({ ...SQUARE_TO_CIRCLE, crossSectionTop: 'polygon' })).toBe(false);
+    expect(getLayerShapeRadius(off, 1)(ANGLE)).toBeCloseTo(square(ANGLE), 12);
+  });
+});
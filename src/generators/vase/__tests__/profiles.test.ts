@@ -1,6 +1,11 @@
 import { describe, it, expect } from 'vitest';
-import { getProfileScale, getTwistProgress } from '../profiles';
-import type { TwistEasing } from '@/types/design';
+import {
+  getProfileScale,
+  getTwistProgress,
+  getBezierProfileScale,
+  getShellProfileScale,
+} from '../profiles';
+import type { ProfileControlPoint, ProfileShape, TwistEasing } from '@/types/design';
 
 describe('getProfileScale', () => {
   describe('curve=0 (cylinder) at taper=1.0', () => {
@@ -122,6 +127,200 @@ describe('getProfileScale', () => {
   });
 });
 
+describe('getProfileScale (named shapes)', () => {
+  const shapes: ProfileShape[] = ['classic', 'flared', 's-curve', 'shouldered', 'amphora', 'trumpet'];
+
+  it('defaults to the classic shape', () => {
+    expect(getProfileScale(1, 0.5, 1)).toBe(getProfileScale(1, 0.5, 1, 'classic'));
+  });
+
+  it.each(shapes)('%s: positive and finite for all t', (shape) => {
+    for (let i = 0; i <= 100; i++) {
+      const val = getProfileScale(0, i / 100, 1, shape);
+      expect(Number.isFinite(val)).toBe(true);
+      expect(val).toBeGreaterThan(0);
+    }
+  });
+
+  it.each(shapes)('%s: continuous (no jumps between adjacent samples)', (shape) => {
+    let prev = getProfileScale(0, 0, 1, shape);
+    for (let i = 1; i <= 200; i++) {
+      const curr = getProfileScale(0, i / 200, 1, shape);
+      expect(Math.abs(curr - prev)).toBeLessThan(0.05);
+      prev = curr;
+    }
+  });
+
+  it.each(shapes)('%s: taper multiplies the shape factor', (shape) => {
+    const base = getProfileScale(0, 0.8, 1, shape);
+    expect(getProfileScale(0, 0.8, 1.5, shape)).toBeCloseTo(base * 1.4, 5);
+  });
+
+  describe('flared', () => {
+    it('is straight below flareStart', () => {
+      expect(getProfileScale(0, 0.5, 1, 'flared', { flareStart: 0.6 })).toBe(1);
+    });
+
+    it('reaches 1 + flareAmount at the lip', () => {
+      expect(getProfileScale(0, 1, 1, 'flared', { flareStart: 0.6, flareAmount: 0.7 })).toBeCloseTo(1.7);
+    });
+  });
+
+  describe('s-curve', () => {
+    it('bellies out below and pinches in above the midpoint', () => {
+      const sub = { sCurveAmount: 0.3, sCurveMidpoint: 0.4 };
+      expect(getProfileScale(0, 0.2, 1, 's-curve', sub)).toBeGreaterThan(1.25);
+      expect(getProfileScale(0, 0.4, 1, 's-curve', sub)).toBeCloseTo(1);
+      expect(getProfileScale(0, 0.7, 1, 's-curve', sub)).toBeLessThan(0.75);
+    });
+
+    it('returns to 1 at both ends', () => {
+      expect(getProfileScale(0, 0, 1, 's-curve')).toBeCloseTo(1);
+      expect(getProfileScale(0, 1, 1, 's-curve')).toBeCloseTo(1);
+    });
+  });
+
+  describe('shouldered', () => {
+    it('is straight below the shoulder and narrows to the neck ratio', () => {
+      const sub = { shoulderHeight: 0.6, neckRatio: 0.4 };
+      expect(getProfileScale(0, 0.5, 1, 'shouldered', sub)).toBe(1);
+      expect(getProfileScale(0, 1, 1, 'shouldered', sub)).toBeCloseTo(0.4);
+    });
+
+    it('is monotonically non-increasing', () => {
+      let prev = getProfileScale(0, 0, 1, 'shouldered');
+      for (let i = 1; i <= 100; i++) {
+        const curr = getProfileScale(0, i / 100, 1, 'shouldered');
+        expect(curr).toBeLessThanOrEqual(prev + 1e-10);
+        prev = curr;
+      }
+    });
+  });
+
+  describe('amphora', () => {
+    it('is widest at the belly height', () => {
+      const sub = { bellyHeight: 0.35, neckRatio: 0.5 };
+      const belly = getProfileScale(0, 0.35, 1, 'amphora', sub);
+      expect(belly).toBeCloseTo(1.25);
+      for (let i = 0; i <= 100; i++) {
+        expect(getProfileScale(0, i / 100, 1, 'amphora', sub)).toBeLessThanOrEqual(belly + 1e-10);
+      }
+    });
+
+    it('has a lip slightly wider than the neck', () => {
+      const sub = { neckRatio: 0.5 };
+      expect(getProfileScale(0, 0.85, 1, 'amphora', sub)).toBeCloseTo(0.5);
+      expect(getProfileScale(0, 1, 1, 'amphora', sub)).toBeCloseTo(0.62);
+    });
+  });
+
+  describe('trumpet', () => {
+    it('starts at 1 and reaches 1 + flare at the mouth', () => {
+      const sub = { trumpetFlare: 1.2, trumpetCurvature: 5 };
+      expect(getProfileScale(0, 0, 1, 'trumpet', sub)).toBeCloseTo(1);
+      expect(getProfileScale(0, 1, 1, 'trumpet', sub)).toBeCloseTo(2.2);
+    });
+
+    it('higher curvature keeps the stem narrower for longer', () => {
+      const gentle = getProfileScale(0, 0.5, 1, 'trumpet', { trumpetCurvature: 1 });
+      const steep = getProfileScale(0, 0.5, 1, 'trumpet', { trumpetCurvature: 8 });
+      expect(steep).toBeLessThan(gentle);
+    });
+  });
+});
+
+describe('getBezierProfileScale', () => {
+  const sCurve: ProfileControlPoint[] = [
+    { t: 0, scale: 0.8 },
+    { t: 0.33, scale: 1.5 },
+    { t: 0.67, scale: 0.6 },
+    { t: 1, scale: 1.2 },
+  ];
+
+  it('passes through the first and last control points', () => {
+    expect(getBezierProfileScale(sCurve, 0)).toBeCloseTo(0.8, 5);
+    expect(getBezierProfileScale(sCurve, 1)).toBeCloseTo(1.2, 5);
+  });
+
+  it('flat control points give a constant scale', () => {
+    const flat: ProfileControlPoint[] = [
+      { t: 0, scale: 1.3 },
+      { t: 0.5, scale: 1.3 },
+      { t: 1, scale: 1.3 },
+    ];
+    for (let i = 0; i <= 10; i++) {
+      expect(getBezierProfileScale(flat, i / 10)).toBeCloseTo(1.3, 5);
+    }
+  });
+
+  it('two points interpolate linearly', () => {
+    const line: ProfileControlPoint[] = [
+      { t: 0, scale: 1 },
+      { t: 1, scale: 2 },
+    ];
+    expect(getBezierProfileScale(line, 0.25)).toBeCloseTo(1.25, 5);
+    expect(getBezierProfileScale(line, 0.5)).toBeCloseTo(1.5, 5);
+  });
+
+  it('stays within the convex hull of the control points', () => {
+    for (let i = 0; i <= 100; i++) {
+      const val = getBezierProfileScale(sCurve, i / 100);
+      expect(val).toBeGreaterThanOrEqual(0.6 - 1e-9);
+      expect(val).toBeLessThanOrEqual(1.5 + 1e-9);
+    }
+  });
+
+  it('clamps t outside the control point range', () => {
+    expect(getBezierProfileScale(sCurve, -0.5)).toBeCloseTo(0.8, 5);
+    expect(getBezierProfileScale(sCurve, 1.5)).toBeCloseTo(1.2, 5);
+  });
+
+  it('single point returns its scale', () => {
+    expect(getBezierProfileScale([{ t: 0.5, scale: 0.7 }], 0.1)).toBe(0.7);
+  });
+});
+
+describe('getShellProfileScale', () => {
+  const profilePoints: ProfileControlPoint[] = [
+    { t: 0, scale: 1 },
+    { t: 1, scale: 0.5 },
+  ];
+
+  it('curve mode delegates to getProfileScale', () => {
+    const params = { profileMode: 'curve' as const, profileShape: 'classic' as const, profileCurve: 0.5, taper: 1.2, profilePoints };
+    expect(getShellProfileScale(params, 0.4)).toBe(getProfileScale(0.5, 0.4, 1.2));
+  });
+
+  it('curve mode passes the named shape and its sub-params', () => {
+    const params = {
+      profileMode: 'curve' as const,
+      profileShape: 'flared' as const,
+      profileCurve: 0,
+      taper: 1,
+      profilePoints,
+      flareStart: 0.5,
+      flareAmount: 0.4,
+    };
+    expect(getShellProfileScale(params, 1)).toBeCloseTo(1.4);
+  });
+
+  it('custom mode uses the Bezier control points', () => {
+    const params = { profileMode: 'custom' as const, profileShape: 'classic' as const, profileCurve: 0.5, taper: 1.2, profilePoints };
+    expect(getShellProfileScale(params, 1)).toBeCloseTo(0.5, 5);
+  });
+
+  it('custom mode with fewer than two points falls back to the curve', () => {
+    const params = {
+      profileMode: 'custom' as const,
+      profileShape: 'classic' as const,
+      profileCurve: 0,
+      taper: 1,
+      profilePoints: [{ t: 0, scale: 2 }],
+    };
+    expect(getShellProfileScale(params, 0.5)).toBe(1);
+  });
+});
+
 describe('getTwistProgress', () => {
   describe('boundary values: all easings', () => {
     const easings: TwistEasing[] = ['linear', 'easeIn', 'easeOut', 'easeInOut'];
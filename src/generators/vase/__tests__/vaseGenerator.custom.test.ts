@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { generateVase } from '../vaseGenerator';
+import { createLayerSampler } from '../../shared/layerSampler';
+import { CUSTOM_OUTLINE_SAMPLES, outlineToRadii } from '../../shared/customOutline';
+import { weldGeom3 } from '../../shared/meshWeld';
+import { findOpenEdges } from '../../shared/meshRepair';
+import { DEFAULT_VASE_PARAMS } from '@/types/design';
+import type { VaseParams } from '@/types/design';
+import type { Point2 } from '../../shared/voronoi';
+
+/** Triangle, drawn clockwise as from an SVG */
+const TRIANGLE: Point2[] = [[0, 0], [-8, 14], [8, 14]];
+
+const TEST_PARAMS: VaseParams = {
+  ...DEFAULT_VASE_PARAMS,
+  style: 'classic',
+  resolution: 48,
+  height: 80,
+  diameter: 60,
+  taper: 1,
+  profileCurve: 0,
+  ridgeDepth: 0,
+  twistAngle: 0,
+  crossSection: 'custom',
+  customCrossSection: outlineToRadii(TRIANGLE)!.radii,
+};
+
+const radii = (params: VaseParams, t: number) =>
+  createLayerSampler(params, { resolution: params.resolution, wallInset: 0 })(t)
+    .map(([x, y]) => Math.hypot(x, y));
+
+describe('generateVase (custom cross-section)', () => {
+  it('follows the stored outline at every stored angle', () => {
+    const r = radii(TEST_PARAMS, 0.5);
+    expect(r).toHaveLength(TEST_PARAMS.customCrossSection.length);
+    r.forEach((radius, i) =>
+      expect(radius).toBeCloseTo((TEST_PARAMS.diameter / 2) * TEST_PARAMS.customCrossSection[i], 6)
+    );
+  });
+
+  it('samples an oversized outline at no more than the stored sample count', () => {
+    const params = { ...TEST_PARAMS, customCrossSection: Array(100000).fill(1) };
+    expect(radii(params, 0.5)).toHaveLength(CUSTOM_OUTLINE_SAMPLES);
+  });
+
+  it('builds a round body without an outline', () => {
+    const r = radii({ ...TEST_PARAMS, customCrossSection: [] }, 0.5);
+    r.forEach((radius) => expect(radius).toBeCloseTo(TEST_PARAMS.diameter / 2, 6));
+  });
+
+  it('exports as a closed mesh', () => {
+    expect(findOpenEdges(weldGeom3(generateVase(TEST_PARAMS)))).toEqual([]);
+    expect(findOpenEdges(weldGeom3(generateVase({ ...TEST_PARAMS, twistAngle: 60 })))).toEqual([]);
+  });
+});
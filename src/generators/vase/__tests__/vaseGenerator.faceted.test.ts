@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { geometries } from '@jscad/modeling';
+import { generateVase } from '../vaseGenerator';
+import { buildDecorativeShell } from '../../shared/shellBuilder';
+import { createLayerSampler, getFacetSliceHeights } from '../../shared/layerSampler';
+import { weldGeom3 } from '../../shared/meshWeld';
+import { findOpenEdges } from '../../shared/meshRepair';
+import { measureWallThickness } from '../../validation/vaseValidator';
+import { DEFAULT_VASE_PARAMS } from '@/types/design';
+import type { VaseParams } from '@/types/design';
+
+const TEST_PARAMS: VaseParams = {
+  ...DEFAULT_VASE_PARAMS,
+  style: 'classic',
+  resolution: 64,
+  height: 100,
+  diameter: 70,
+  taper: 0.7,
+  profileCurve: 0.5,
+  twistAngle: 0,
+  faceted: true,
+  facetCount: 9,
+  facetBands: 6,
+  facetJitter: 3,
+  facetSeed: 4,
+};
+
+function distinctVertices(params: VaseParams): number {
+  const shell = buildDecorativeShell(params, { resolution: params.resolution, wallInset: 0 });
+  const keys = new Set<string>();
+  for (const poly of geometries.geom3.toPolygons(shell)) {
+    for (const [x, y, z] of poly.vertices) {
+      keys.add(`${x.toFixed(4)},${y.toFixed(4)},${z.toFixed(4)}`);
+    }
+  }
+  return keys.size;
+}
+
+describe('generateVase (faceted)', () => {
+  it('decimates the outer shell to facetCount × (facetBands + 1) vertices', () => {
+    expect(distinctVertices(TEST_PARAMS)).toBe(9 * 7);
+    expect(distinctVertices({ ...TEST_PARAMS, facetCount: 5, facetBands: 3, facetJitter: 0 })).toBe(5 * 4);
+  });
+
+  it('ignores resolution and ridges', () => {
+    const coarse = { ...TEST_PARAMS, resolution: 32 };
+    const ridged = { ...TEST_PARAMS, resolution: 256, ridgeCount: 16, ridgeDepth: 4 };
+    expect(createLayerSampler(ridged, { resolution: 256, wallInset: 0 })(0.5)).toEqual(
+      createLayerSampler(coarse, { resolution: 32, wallInset: 0 })(0.5)
+    );
+  });
+
+  it('jitters vertices reproducibly for a seed', () => {
+    const sample = (params: VaseParams) =>
+      createLayerSampler(params, { resolution: 64, wallInset: 0 })(0.5);
+    expect(sample(TEST_PARAMS)).toEqual(sample(TEST_PARAMS));
+    expect(sample({ ...TEST_PARAMS, facetSeed: 5 })).not.toEqual(sample(TEST_PARAMS));
+
+    const radii = sample(TEST_PARAMS).map(([x, y]) => Math.hypot(x, y));
+    const smooth = sample({ ...TEST_PARAMS, facetJitter: 0 }).map(([x, y]) => Math.hypot(x, y));
+    radii.forEach((r, i) => expect(Math.abs(r - smooth[i])).toBeLessThanOrEqual(3 + 1e-9));
+    expect(radii).not.toEqual(smooth);
+  });
+
+  it('slices a raised inner shell at the outer band edges', () => {
+    const heights = getFacetSliceHeights(TEST_PARAMS, TEST_PARAMS.baseThickness);
+    expect(heights[0]).toBe(0);
+    expect(heights[heights.length - 1]).toBe(1);
+    heights.slice(1, -1).forEach((t) => {
+      const bandPosition = (t * TEST_PARAMS.height + TEST_PARAMS.baseThickness) / (TEST_PARAMS.height / 6);
+      expect(bandPosition).toBeCloseTo(Math.round(bandPosition), 9);
+    });
+  });
+
+  it('keeps the full wall thickness behind every facet', () => {
+    for (const params of [
+      TEST_PARAMS,
+      { ...TEST_PARAMS, profileShape: 'amphora' as const, taper: 1 },
+      { ...TEST_PARAMS, facetCount: 24, facetBands: 12, facetJitter: 5, twistAngle: 180 },
+    ]) {
+      const { minThickness } = measureWallThickness(params);
+      expect(minThickness).toBeGreaterThanOrEqual(params.wallThickness - 1e-6);
+    }
+  });
+
+  it('exports as a closed mesh', () => {
+    const twisted = generateVase({ ...TEST_PARAMS, twistAngle: 90 });
+    expect(findOpenEdges(weldGeom3(twisted))).toEqual([]);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { geometries, measurements } from '@jscad/modeling';
+import { generateVase } from '../vaseGenerator';
+import { weldGeom3 } from '../../shared/meshWeld';
+import { findOpenEdges } from '../../shared/meshRepair';
+import { layoutHoneycombCells } from '../../shared/surfacePattern';
+import { DEFAULT_VASE_PARAMS } from '@/types/design';
+import type { VaseParams } from '@/types/design';
+
+const TEST_PARAMS: VaseParams = {
+  ...DEFAULT_VASE_PARAMS,
+  style: 'classic',
+  resolution: 32,
+  height: 60,
+  diameter: 60,
+  taper: 1,
+  ridgeDepth: 0,
+  twistAngle: 0,
+  surfacePattern: 'honeycomb',
+  patternCellSize: 10,
+  patternBarWidth: 3,
+  patternBandStart: 0.2,
+  patternBandEnd: 0.8,
+};
+
+describe('generateVase (honeycomb pattern)', () => {
+  const solid = generateVase({ ...TEST_PARAMS, surfacePattern: 'none' });
+  const cut = generateVase(TEST_PARAMS);
+
+  it('removes wall material for every cell', () => {
+    const { cells } = layoutHoneycombCells(TEST_PARAMS, {
+      resolution: TEST_PARAMS.resolution,
+      wallThickness: TEST_PARAMS.wallThickness,
+      baseThickness: TEST_PARAMS.baseThickness,
+    });
+    const r = TEST_PARAMS.patternCellSize / Math.sqrt(3);
+    const hexArea = (3 * Math.sqrt(3) / 2) * r * r;
+    const removed = measurements.measureVolume(solid) - measurements.measureVolume(cut);
+    // Roughly cell area × wall thickness per cell (the polygonal wall is not exact)
+    expect(removed).toBeGreaterThan(cells.length * hexArea * TEST_PARAMS.wallThickness * 0.8);
+    expect(removed).toBeLessThan(cells.length * hexArea * TEST_PARAMS.wallThickness * 1.2);
+  });
+
+  it('leaves the base and rim bands untouched', () => {
+    const bandBottom = TEST_PARAMS.patternBandStart * TEST_PARAMS.height;
+    const bandTop = TEST_PARAMS.patternBandEnd * TEST_PARAMS.height;
+    const outer = TEST_PARAMS.diameter / 2;
+    const inner = outer - TEST_PARAMS.wallThickness;
+
+    for (const poly of geometries.geom3.toPolygons(cut)) {
+      for (const [x, y, z] of poly.vertices) {
+        if (z > bandBottom - 1e-6 && z < bandTop + 1e-6) continue;
+        const onCap = z < 1e-6 || Math.abs(z - TEST_PARAMS.baseThickness) < 1e-6 ||
+          z > TEST_PARAMS.height - 1e-6;
+        if (onCap) continue;
+        const r = Math.hypot(x, y);
+        expect(Math.abs(r - outer) < 0.5 || Math.abs(r - inner) < 0.5).toBe(true);
+      }
+    }
+  });
+
+  it('exports as a closed mesh', () => {
+    expect(findOpenEdges(weldGeom3(cut))).toEqual([]);
+  });
+
+  it('is ignored in vase mode', () => {
+    const vaseMode = generateVase({ ...TEST_PARAMS, vaseModeOptimized: true });
+    const plain = generateVase({ ...TEST_PARAMS, surfacePattern: 'none', vaseModeOptimized: true });
+    expect(measurements.measureVolume(vaseMode)).toBeCloseTo(measurements.measureVolume(plain), 6);
+  });
+});
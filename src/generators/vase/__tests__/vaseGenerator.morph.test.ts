@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { generateVase } from '../vaseGenerator';
+import { createLayerSampler } from '../../shared/layerSampler';
+import { weldGeom3 } from '../../shared/meshWeld';
+import { findOpenEdges } from '../../shared/meshRepair';
+import { measureWallThickness } from '../../validation/vaseValidator';
+import { DEFAULT_VASE_PARAMS } from '@/types/design';
+import type { VaseParams } from '@/types/design';
+
+const TEST_PARAMS: VaseParams = {
+  ...DEFAULT_VASE_PARAMS,
+  style: 'classic',
+  resolution: 64,
+  height: 80,
+  diameter: 60,
+  taper: 1,
+  profileCurve: 0,
+  ridgeDepth: 0,
+  twistAngle: 0,
+  crossSection: 'polygon',
+  polygonSides: 4,
+  crossSectionMorph: true,
+  crossSectionTop: 'circle',
+  crossSectionEasing: 'easeInOut',
+};
+
+/** Spread between the largest and smallest radius of a layer */
+function radialSpread(params: VaseParams, t: number): number {
+  const radii = createLayerSampler(params, { resolution: params.resolution, wallInset: 0 })(t)
+    .map(([x, y]) => Math.hypot(x, y));
+  return Math.max(...radii) - Math.min(...radii);
+}
+
+describe('generateVase (cross-section morph)', () => {
+  it('rounds a square base off into a circular lip', () => {
+    // Square: corner 30 mm, flat 30·cos 45° ≈ 21.2 mm
+    expect(radialSpread(TEST_PARAMS, 0)).toBeCloseTo(30 - 30 * Math.SQRT1_2, 1);
+    expect(radialSpread(TEST_PARAMS, 1)).toBeCloseTo(0, 9);
+    const spreads = [0, 0.25, 0.5, 0.75, 1].map((t) => radialSpread(TEST_PARAMS, t));
+    for (let i = 1; i < spreads.length; i++) expect(spreads[i]).toBeLessThan(spreads[i - 1]);
+  });
+
+  it('keeps a single shape when morphing is off', () => {
+    const off = { ...TEST_PARAMS, crossSectionMorph: false };
+    expect(radialSpread(off, 1)).toBeCloseTo(radialSpread(off, 0), 9);
+  });
+
+  it('keeps the wall thickness while morphing', () => {
+    const { minThickness } = measureWallThickness(TEST_PARAMS);
+    expect(minThickness).toBeGreaterThanOrEqual(TEST_PARAMS.wallThickness * 0.95);
+  });
+
+  it('exports as a closed mesh', () => {
+    const geom = generateVase({ ...TEST_PARAMS, crossSectionTop: 'flower', twistAngle: 45 });
+    expect(findOpenEdges(weldGeom3(geom))).toEqual([]);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { generateVase } from '../vaseGenerator';
+import { createLayerSampler } from '../../shared/layerSampler';
+import { weldGeom3 } from '../../shared/meshWeld';
+import { findOpenEdges } from '../../shared/meshRepair';
+import { measureWallThickness } from '../../validation/vaseValidator';
+import { DEFAULT_VASE_PARAMS } from '@/types/design';
+import type { VaseParams } from '@/types/design';
+
+const TEST_PARAMS: VaseParams = {
+  ...DEFAULT_VASE_PARAMS,
+  style: 'classic',
+  resolution: 48,
+  height: 80,
+  diameter: 60,
+  taper: 1,
+  profileCurve: 0,
+  ridgeDepth: 0,
+  twistAngle: 0,
+  crossSection: 'noise',
+  noiseAmplitude: 0.2,
+  noiseFrequency: 2,
+  noiseOctaves: 3,
+  noiseSeed: 3,
+  noiseHeightVariation: 1.5,
+};
+
+const radii = (params: VaseParams, t: number) =>
+  createLayerSampler(params, { resolution: params.resolution, wallInset: 0 })(t)
+    .map(([x, y]) => Math.hypot(x, y));
+
+describe('generateVase (noise cross-section)', () => {
+  it('distorts the circle reproducibly for a seed', () => {
+    const r = radii(TEST_PARAMS, 0.3);
+    expect(Math.max(...r) - Math.min(...r)).toBeGreaterThan(2);
+    expect(radii(TEST_PARAMS, 0.3)).toEqual(r);
+    expect(radii({ ...TEST_PARAMS, noiseSeed: 4 }, 0.3)).not.toEqual(r);
+  });
+
+  it('varies from layer to layer only with height drift', () => {
+    expect(radii(TEST_PARAMS, 0.8)).not.toEqual(radii(TEST_PARAMS, 0.2));
+    const still = { ...TEST_PARAMS, noiseHeightVariation: 0 };
+    expect(radii(still, 0.8)).toEqual(radii(still, 0.2));
+  });
+
+  it('keeps the wall thickness on a drifting outline', () => {
+    const { minThickness } = measureWallThickness(TEST_PARAMS);
+    expect(minThickness).toBeGreaterThanOrEqual(TEST_PARAMS.wallThickness * 0.95);
+  });
+
+  it('exports as a closed mesh', () => {
+    const geom = generateVase({ ...TEST_PARAMS, twistAngle: 60 });
+    expect(findOpenEdges(weldGeom3(geom))).toEqual([]);
+  });
+});
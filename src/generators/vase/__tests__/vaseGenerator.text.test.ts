@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { geometries, measurements } from '@jscad/modeling';
+import { generateVase } from '../vaseGenerator';
+import { getShellProfileScale } from '../profiles';
+import { buildDecorativeShell } from '../../shared/shellBuilder';
+import { createTextMapper, layoutText } from '../../shared/surfaceText';
+import { weldGeom3 } from '../../shared/meshWeld';
+import { findOpenEdges } from '../../shared/meshRepair';
+import { DEFAULT_VASE_PARAMS } from '@/types/design';
+import type { VaseParams } from '@/types/design';
+
+const TEST_PARAMS: VaseParams = {
+  ...DEFAULT_VASE_PARAMS,
+  style: 'classic',
+  resolution: 48,
+  height: 60,
+  diameter: 50,
+  profileCurve: 0.5,
+  taper: 0.8,
+  ridgeDepth: 0,
+  twistAngle: 0,
+  textContent: 'LUX',
+  textWrapAngle: 60,
+  textDepth: 1,
+};
+
+const layoutOptions = (params: VaseParams) => ({
+  wallThickness: params.wallThickness,
+  baseThickness: params.baseThickness,
+});
+
+describe('generateVase (text)', () => {
+  it('raises letters by textDepth on the curved, tapered outer surface', () => {
+    const layout = layoutText(TEST_PARAMS, layoutOptions(TEST_PARAMS))!;
+    const shell = buildDecorativeShell(TEST_PARAMS, {
+      resolution: TEST_PARAMS.resolution,
+      wallInset: 0,
+      text: layout,
+    });
+    const mapper = createTextMapper(TEST_PARAMS, layout);
+    let maxRelief = 0;
+    for (const poly of geometries.geom3.toPolygons(shell)) {
+      for (const [x, y, z] of poly.vertices) {
+        const t = z / TEST_PARAMS.height;
+        const surface = (TEST_PARAMS.diameter / 2) * getShellProfileScale(TEST_PARAMS, t);
+        const relief = Math.hypot(x, y) - surface;
+        expect(relief).toBeCloseTo(mapper(Math.atan2(y, x), t), 6);
+        maxRelief = Math.max(maxRelief, relief);
+      }
+    }
+    expect(maxRelief).toBeCloseTo(TEST_PARAMS.textDepth, 6);
+  });
+
+  it('embossing adds material and engraving removes it', () => {
+    // A hairline emboss samples the surface exactly like the real text does
+    const reference = measurements.measureVolume(generateVase({ ...TEST_PARAMS, textDepth: 1e-6 }));
+    const embossed = measurements.measureVolume(generateVase(TEST_PARAMS));
+    const engraved = measurements.measureVolume(generateVase({ ...TEST_PARAMS, textMode: 'engrave' }));
+    expect(embossed).toBeGreaterThan(reference + 1);
+    expect(engraved).toBeLessThan(reference - 1);
+  });
+
+  it('is ignored for empty or whitespace-only text', () => {
+    const plain = measurements.measureVolume(generateVase({ ...TEST_PARAMS, textContent: '' }));
+    expect(measurements.measureVolume(generateVase({ ...TEST_PARAMS, textContent: '   ' })))
+      .toBeCloseTo(plain, 6);
+  });
+
+  it('exports as a closed mesh', () => {
+    const geom = generateVase({ ...TEST_PARAMS, twistAngle: 45, textMode: 'engrave', textContent: 'Hi 2026.' });
+    expect(findOpenEdges(weldGeom3(geom))).toEqual([]);
+  });
+});
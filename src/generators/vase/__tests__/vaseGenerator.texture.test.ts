@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { geometries, measurements } from '@jscad/modeling';
+import { generateVase } from '../vaseGenerator';
+import { buildDecorativeShell } from '../../shared/shellBuilder';
+import { createTextureMapper } from '../../shared/heightmap';
+import type { Heightmap } from '../../shared/heightmap';
+import { weldGeom3 } from '../../shared/meshWeld';
+import { findOpenEdges } from '../../shared/meshRepair';
+import { DEFAULT_VASE_PARAMS } from '@/types/design';
+import type { VaseParams } from '@/types/design';
+
+const TEST_PARAMS: VaseParams = {
+  ...DEFAULT_VASE_PARAMS,
+  style: 'classic',
+  resolution: 48,
+  height: 60,
+  diameter: 50,
+  taper: 1,
+  ridgeDepth: 0,
+  twistAngle: 0,
+  textureDepth: 1.5,
+  textureTilesU: 3,
+  textureTilesV: 2,
+};
+
+/** Radial gradient "logo": bright centre fading to black at the edges */
+function makeSpot(size: number): Heightmap {
+  const values = new Float32Array(size * size);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const d = Math.hypot(x + 0.5 - size / 2, y + 0.5 - size / 2) / (size / 2);
+      values[y * size + x] = Math.max(0, 1 - d);
+    }
+  }
+  return { width: size, height: size, values };
+}
+
+const SPOT = makeSpot(12);
+
+describe('generateVase (heightmap texture)', () => {
+  it('displaces the outer surface by depth × pixel value', () => {
+    const shell = buildDecorativeShell(TEST_PARAMS, {
+      resolution: TEST_PARAMS.resolution,
+      wallInset: 0,
+      heightmap: SPOT,
+    });
+    const mapper = createTextureMapper(TEST_PARAMS, SPOT);
+    const radius = TEST_PARAMS.diameter / 2;
+    for (const poly of geometries.geom3.toPolygons(shell)) {
+      for (const [x, y, z] of poly.vertices) {
+        const expected = radius + mapper(Math.atan2(y, x), z / TEST_PARAMS.height);
+        expect(Math.hypot(x, y)).toBeCloseTo(expected, 6);
+      }
+    }
+  });
+
+  it('only adds material and leaves the cavity untouched', () => {
+    const outer = (heightmap: Heightmap | null) =>
+      measurements.measureVolume(
+        buildDecorativeShell(TEST_PARAMS, { resolution: TEST_PARAMS.resolution, wallInset: 0, heightmap })
+      );
+    const plain = measurements.measureVolume(generateVase(TEST_PARAMS));
+    const textured = measurements.measureVolume(generateVase(TEST_PARAMS, SPOT));
+    expect(textured).toBeGreaterThan(plain);
+    // All added volume is the embossing on the outer shell
+    expect(textured - plain).toBeCloseTo(outer(SPOT) - outer(null), 3);
+  });
+
+  it('is ignored without an image or with zero depth', () => {
+    const plain = measurements.measureVolume(generateVase(TEST_PARAMS));
+    expect(measurements.measureVolume(generateVase({ ...TEST_PARAMS, textureDepth: 0 }, SPOT)))
+      .toBeCloseTo(plain, 6);
+  });
+
+  it('exports as a closed mesh', () => {
+    const geom = generateVase({ ...TEST_PARAMS, twistAngle: 45, textureRotation: 30 }, SPOT);
+    expect(findOpenEdges(weldGeom3(geom))).toEqual([]);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { geometries, measurements } from '@jscad/modeling';
+import { generateVase } from '../vaseGenerator';
+import { DEFAULT_VASE_PARAMS } from '@/types/design';
+import type { VaseParams } from '@/types/design';
+
+const TEST_PARAMS: VaseParams = {
+  ...DEFAULT_VASE_PARAMS,
+  style: 'classic',
+  resolution: 24,
+  height: 40,
+  taper: 1,
+  ridgeDepth: 0,
+  twistAngle: 0,
+};
+
+describe('generateVase (vase-mode optimized)', () => {
+  it('emits a solid body with no inner cavity', () => {
+    const solid = generateVase({ ...TEST_PARAMS, vaseModeOptimized: true });
+    const hollow = generateVase(TEST_PARAMS);
+
+    // Solid cylinder volume ≈ πr²h (the polygonal section is slightly smaller),
+    // far more than the double-walled shell
+    const r = TEST_PARAMS.diameter / 2;
+    const expected = Math.PI * r * r * TEST_PARAMS.height;
+    expect(measurements.measureVolume(solid)).toBeGreaterThan(expected * 0.98);
+    expect(measurements.measureVolume(solid)).toBeLessThanOrEqual(expected);
+    expect(measurements.measureVolume(solid)).toBeGreaterThan(
+      measurements.measureVolume(hollow) * 3
+    );
+  });
+
+  it('has no faces above the base other than the outer wall and top cap', () => {
+    const solid = generateVase({ ...TEST_PARAMS, vaseModeOptimized: true });
+    const r = TEST_PARAMS.diameter / 2;
+    for (const poly of geometries.geom3.toPolygons(solid)) {
+      for (const [x, y, z] of poly.vertices) {
+        const onCap = z < 1e-6 || z > TEST_PARAMS.height - 1e-6;
+        if (!onCap) {
+          expect(Math.hypot(x, y)).toBeCloseTo(r, 0);
+        }
+      }
+    }
+  });
+
+  it('keeps the same outer bounds as the double-walled vase', () => {
+    const solid = generateVase({ ...TEST_PARAMS, vaseModeOptimized: true });
+    const hollow = generateVase(TEST_PARAMS);
+    const [sMin, sMax] = measurements.measureBoundingBox(solid);
+    const [hMin, hMax] = measurements.measureBoundingBox(hollow);
+    for (let k = 0; k < 3; k++) {
+      expect(sMin[k]).toBeCloseTo(hMin[k], 4);
+      expect(sMax[k]).toBeCloseTo(hMax[k], 4);
+    }
+  });
+});
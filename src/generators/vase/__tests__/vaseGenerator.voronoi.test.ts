@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { measurements } from '@jscad/modeling';
+import { generateVase } from '../vaseGenerator';
+import { weldGeom3 } from '../../shared/meshWeld';
+import { findOpenEdges } from '../../shared/meshRepair';
+import { layoutVoronoiCells } from '../../shared/surfacePattern';
+import { DEFAULT_VASE_PARAMS } from '@/types/design';
+import type { VaseParams } from '@/types/design';
+
+const TEST_PARAMS: VaseParams = {
+  ...DEFAULT_VASE_PARAMS,
+  style: 'classic',
+  resolution: 32,
+  height: 60,
+  diameter: 60,
+  taper: 1,
+  ridgeDepth: 0,
+  twistAngle: 0,
+  surfacePattern: 'voronoi',
+  patternCellCount: 12,
+  patternBarWidth: 3,
+  patternRelaxIterations: 2,
+  patternSeed: 5,
+  patternBandStart: 0.2,
+  patternBandEnd: 0.8,
+};
+
+const OPTIONS = {
+  resolution: TEST_PARAMS.resolution,
+  wallThickness: TEST_PARAMS.wallThickness,
+  baseThickness: TEST_PARAMS.baseThickness,
+};
+
+describe('generateVase (Voronoi pattern)', () => {
+  const solid = generateVase({ ...TEST_PARAMS, surfacePattern: 'none' });
+  const cut = generateVase(TEST_PARAMS);
+
+  it('removes the cell area from the wall', () => {
+    const { cells } = layoutVoronoiCells(TEST_PARAMS, OPTIONS);
+    const cellArea = cells.reduce((sum, cell) => {
+      let area = 0;
+      for (let i = 0; i < cell.length; i++) {
+        const [u0, v0] = cell[i];
+        const [u1, v1] = cell[(i + 1) % cell.length];
+        area += (u0 * v1 - u1 * v0) / 2;
+      }
+      return sum + area;
+    }, 0);
+
+    const removed = measurements.measureVolume(solid) - measurements.measureVolume(cut);
+    expect(removed).toBeGreaterThan(cellArea * TEST_PARAMS.wallThickness * 0.8);
+    expect(removed).toBeLessThan(cellArea * TEST_PARAMS.wallThickness * 1.2);
+  });
+
+  it('is reproducible for a seed and changes with it', () => {
+    const first = layoutVoronoiCells(TEST_PARAMS, OPTIONS);
+    expect(layoutVoronoiCells(TEST_PARAMS, OPTIONS)).toEqual(first);
+    const other = layoutVoronoiCells({ ...TEST_PARAMS, patternSeed: 6 }, OPTIONS);
+    expect(other.cells).not.toEqual(first.cells);
+  });
+
+  it('exports as a closed mesh', () => {
+    expect(findOpenEdges(weldGeom3(cut))).toEqual([]);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { geometries } from '@jscad/modeling';
+import { generateVase } from '../vaseGenerator';
+import { getWaveModulation } from '../crossSections';
+import { weldGeom3 } from '../../shared/meshWeld';
+import { findOpenEdges } from '../../shared/meshRepair';
+import { buildDecorativeShell } from '../../shared/shellBuilder';
+import { getLayerTwist } from '../../shared/layerSampler';
+import { DEFAULT_VASE_PARAMS } from '@/types/design';
+import type { VaseParams } from '@/types/design';
+
+const TEST_PARAMS: VaseParams = {
+  ...DEFAULT_VASE_PARAMS,
+  style: 'classic',
+  resolution: 48,
+  height: 60,
+  diameter: 50,
+  taper: 1,
+  ridgeDepth: 0,
+  twistAngle: 0,
+  wavePattern: 'diagonal',
+  waveAmplitude: 2,
+  waveCount: 6,
+  waveRows: 3,
+};
+
+/** Slice vertices of the outer shell */
+function outerVertices(params: VaseParams): [number, number, number][] {
+  const shell = buildDecorativeShell(params, { resolution: params.resolution, wallInset: 0 });
+  const result: [number, number, number][] = [];
+  for (const poly of geometries.geom3.toPolygons(shell)) {
+    for (const v of poly.vertices) result.push([v[0], v[1], v[2]]);
+  }
+  return result;
+}
+
+describe('generateVase (surface waves)', () => {
+  it('displaces the outer wall by amplitude · f(θ, z)', () => {
+    const radius = TEST_PARAMS.diameter / 2;
+    outerVertices(TEST_PARAMS).forEach(([x, y, z]) => {
+      const f = getWaveModulation('diagonal', Math.atan2(y, x), z / TEST_PARAMS.height, 6, 3);
+      expect(Math.hypot(x, y)).toBeCloseTo(radius + TEST_PARAMS.waveAmplitude * f, 6);
+    });
+  });
+
+  it('spirals the pattern with the twist', () => {
+    const twisted = { ...TEST_PARAMS, twistAngle: 45 };
+    const radius = TEST_PARAMS.diameter / 2;
+    outerVertices(twisted).forEach(([x, y, z]) => {
+      const t = z / twisted.height;
+      const angle = Math.atan2(y, x) - getLayerTwist(twisted, t);
+      const f = getWaveModulation('diagonal', angle, t, 6, 3);
+      expect(Math.hypot(x, y)).toBeCloseTo(radius + twisted.waveAmplitude * f, 6);
+    });
+  });
+
+  it('exports as a closed mesh', () => {
+    for (const wavePattern of ['vertical', 'basket'] as const) {
+      const geom = generateVase({ ...TEST_PARAMS, wavePattern, twistAngle: 60 });
+      expect(findOpenEdges(weldGeom3(geom))).toEqual([]);
+    }
+  });
+});
@@ -5,11 +5,21 @@
  *
  * Shape families:
  * - Smooth: circle, oval, squircle, superellipse
- * - Organic: heart, teardrop, petal, leaf
+ * - Organic: heart, teardrop, petal, leaf, noise (seeded Perlin-distorted circle)
  * - Geometric: polygon, star, gear, flower
+ * - Custom: a drawn or imported outline stored as a radius table
  */
 
-import type { CrossSection, RidgeProfile, VaseParams } from '@/types/design';
+import type {
+  CrossSection,
+  DecorativeShellParams,
+  RidgeProfile,
+  VaseParams,
+  WavePattern,
+} from '@/types/design';
+import { sampleCustomRadius } from '../shared/customOutline';
+import { fractalNoise3 } from '../shared/noise';
+import { getTwistProgress } from './profiles';
 
 /** Create a circle cross-section as an array of 2D points */
 export function createCirclePoints(
@@ -96,6 +106,76 @@ export function applyRidgeModulation(
   });
 }
 
+/** Parallel strands in each basket-weave block */
+export const BASKET_STRANDS = 3;
+
+/** Samples needed per wave cycle (or basket block) to resolve its shape */
+export function getWaveSamplesPerCycle(pattern: WavePattern): number {
+  return pattern === 'basket' ? BASKET_STRANDS * 4 : 8;
+}
+
+/**
+ * Surface wave height in [0, 1] at angle θ and normalized height t.
+ * - vertical: rings rippling up the height (waveRows cycles)
+ * - diagonal: two crossing helical waves — a lattice of diamond bumps
+ * - basket: checkerboard blocks of BASKET_STRANDS strands, alternately
+ *   horizontal and vertical, each tapering to 0 at its block edges so
+ *   neighbouring blocks meet without a step
+ */
+export function getWaveModulation(
+  pattern: WavePattern,
+  angle: number,
+  t: number,
+  waveCount: number,
+  waveRows: number
+): number {
+  const around = angle * waveCount;
+  const along = 2 * Math.PI * waveRows * t;
+
+  switch (pattern) {
+    case 'vertical':
+      return (1 - Math.cos(along)) / 2;
+    case 'diagonal':
+      return (1 + Math.cos(around) * Math.cos(along)) / 2;
+    case 'basket': {
+      // Block coordinates: u wraps around the body, v runs up it
+      const u = around / (2 * Math.PI);
+      const v = waveRows * t;
+      const fu = u - Math.floor(u);
+      const fv = v - Math.floor(v);
+      const horizontal = (Math.floor(u) + Math.floor(v)) % 2 === 0;
+      const across = horizontal ? fv : fu;
+      const lengthwise = horizontal ? fu : fv;
+      return Math.abs(Math.sin(Math.PI * BASKET_STRANDS * across)) *
+        Math.sqrt(Math.sin(Math.PI * lengthwise));
+    }
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Displace cross-section points outward by amplitude · f(θ, t) — a 2D
+ * surface wave, unlike ridges which only vary with angle.
+ */
+export function applyWaveDisplacement(
+  points: [number, number][],
+  t: number,
+  pattern: WavePattern,
+  amplitude: number,
+  waveCount: number,
+  waveRows: number
+): [number, number][] {
+  if (pattern === 'none' || amplitude <= 0) return points;
+
+  return points.map(([x, y]) => {
+    const angle = Math.atan2(y, x);
+    const r = Math.sqrt(x * x + y * y);
+    const displacedR = r + amplitude * getWaveModulation(pattern, angle, t, waveCount, waveRows);
+    return [Math.cos(angle) * displacedR, Math.sin(angle) * displacedR] as [number, number];
+  });
+}
+
 /** Apply continuous sinusoidal fin modulation to a set of cross-section points */
 export function applyFinModulation(
   points: [number, number][],
@@ -135,6 +215,36 @@ export interface ShapeSubParams {
   starInnerRatio?: number;
   gearTeeth?: number;
   petalCount?: number;
+  noiseAmplitude?: number;
+  noiseFrequency?: number;
+  noiseOctaves?: number;
+  noiseSeed?: number;
+  noiseZ?: number;            // position in the noise field — varies with height
+  customRadii?: number[];     // unit radii of the custom outline
+}
+
+/**
+ * Shape sub-params of a design at normalized height t. Only the noise
+ * shape changes with height: its field is walked noiseHeightVariation
+ * units from base to rim.
+ */
+export function getShapeSubParams(params: DecorativeShellParams, t: number = 0): ShapeSubParams {
+  return {
+    ovalRatio: params.ovalRatio,
+    squircleN: params.squircleN,
+    superN: params.superN,
+    polygonSides: params.polygonSides,
+    starPoints: params.starPoints,
+    starInnerRatio: params.starInnerRatio,
+    gearTeeth: params.gearTeeth,
+    petalCount: params.petalCount,
+    noiseAmplitude: params.noiseAmplitude,
+    noiseFrequency: params.noiseFrequency,
+    noiseOctaves: params.noiseOctaves,
+    noiseSeed: params.noiseSeed,
+    noiseZ: t * params.noiseHeightVariation,
+    customRadii: params.customCrossSection,
+  };
 }
 
 /**
@@ -227,11 +337,63 @@ export function getBaseRadiusAtAngle(
       return baseRadius * (1 + 0.3 * Math.cos(petals * angle));
     }
 
+    case 'noise': {
+      // r = R * (1 + A*fbm(f*cos(theta), f*sin(theta), z)) — sampling the
+      // field on a circle keeps the outline seamless at theta = 2*PI
+      const amplitude = subParams.noiseAmplitude ?? 0.15;
+      const frequency = subParams.noiseFrequency ?? 2;
+      const n = fractalNoise3(
+        Math.cos(angle) * frequency,
+        Math.sin(angle) * frequency,
+        subParams.noiseZ ?? 0,
+        subParams.noiseOctaves ?? 3,
+        subParams.noiseSeed ?? 1
+      );
+      return baseRadius * (1 + amplitude * n);
+    }
+
+    case 'custom':
+      // No outline yet reads as a circle
+      return baseRadius * sampleCustomRadius(subParams.customRadii ?? [], angle);
+
     default:
       return baseRadius;
   }
 }
 
+/** True when the layer outline blends from crossSection to crossSectionTop */
+export function hasCrossSectionMorph(params: DecorativeShellParams): boolean {
+  return params.crossSectionMorph && params.crossSectionTop !== params.crossSection;
+}
+
+/** True when the bottom shape — or, when morphing, the top shape — is `shape` */
+export function usesCrossSection(params: DecorativeShellParams, shape: CrossSection): boolean {
+  return params.crossSection === shape ||
+    (hasCrossSectionMorph(params) && params.crossSectionTop === shape);
+}
+
+/**
+ * Unit body radius as a function of angle for the layer at normalized
+ * height t. When morphing, the bottom and top shapes (sharing the same
+ * sub-params) are blended radially by the eased height, so e.g. a square
+ * base rounds off into a circular lip.
+ */
+export function getLayerShapeRadius(
+  params: DecorativeShellParams,
+  t: number
+): (angle: number) => number {
+  const subParams = getShapeSubParams(params, t);
+  if (!hasCrossSectionMorph(params)) {
+    return (angle) => getBaseRadiusAtAngle(angle, params.crossSection, 1, subParams);
+  }
+  const blend = getTwistProgress(params.crossSectionEasing, Math.max(0, Math.min(1, t)));
+  return (angle) => {
+    const bottom = getBaseRadiusAtAngle(angle, params.crossSection, 1, subParams);
+    const top = getBaseRadiusAtAngle(angle, params.crossSectionTop, 1, subParams);
+    return bottom + (top - bottom) * blend;
+  };
+}
+
 /**
  * Heart shape radius via parametric curve.
  * Pre-computes lookup table for smooth interpolation.
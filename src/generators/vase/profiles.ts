@@ -1,24 +1,62 @@
 /**
  * Profile curves: map normalized height t ∈ [0,1] to a scale factor.
  *
- * profileCurve ∈ [-1, 1]:
+ * Each ProfileShape defines a silhouette factor that is multiplied by the
+ * linear taper. The 'classic' shape is driven by profileCurve ∈ [-1, 1]:
  *   -1 = strong hourglass (pinches inward at middle)
  *    0 = cylinder (straight sides, modified by taper)
  *   +1 = strong bulbous (belly outward at middle)
  *
- * radius(t) = (diameter/2) * getProfileScale(curve, t, taper)
+ * Shape families:
+ * - classic: sine belly/pinch (profileCurve)
+ * - flared: straight body opening into a flared lip
+ * - s-curve: belly below the inflection, neck above it
+ * - shouldered: straight body rounding into a narrow neck
+ * - amphora: narrow foot, high belly, neck and small lip
+ * - trumpet: exponential bell widening toward the mouth
+ *
+ * radius(t) = (diameter/2) * getProfileScale(curve, t, taper, shape, subParams)
+ *
+ * In 'custom' profile mode the silhouette is instead a single Bezier curve
+ * through the user's control points (t → scale), ignoring curve and taper.
  *
  * Twist easing: map normalized height t ∈ [0,1] to a twist progress factor.
  */
 
-import type { TwistEasing } from '@/types/design';
+import type {
+  DecorativeShellParams,
+  ProfileControlPoint,
+  ProfileShape,
+  TwistEasing,
+} from '@/types/design';
+
+// --- Profile shape sub-params for getProfileScale ---
+
+export interface ProfileShapeParams {
+  flareStart?: number;
+  flareAmount?: number;
+  sCurveAmount?: number;
+  sCurveMidpoint?: number;
+  shoulderHeight?: number;
+  neckRatio?: number;
+  bellyHeight?: number;
+  trumpetFlare?: number;
+  trumpetCurvature?: number;
+}
+
+/** Hermite smoothstep on [0,1] (zero slope at both ends) */
+function smoothstep(x: number): number {
+  const c = Math.min(1, Math.max(0, x));
+  return c * c * (3 - 2 * c);
+}
 
 /**
  * Get the profile scale factor at normalized height t.
  *
- * curve: -1.0 to 1.0 (hourglass ↔ bulbous)
+ * curve: -1.0 to 1.0 (hourglass ↔ bulbous), used by the 'classic' shape
  * t: 0.0 to 1.0 (bottom to top)
  * taper: ratio of top width to base width
+ * shape: silhouette family (defaults to 'classic')
  *
  * At curve=0: pure linear taper
  * At curve=+1: 40% outward belly at midpoint
@@ -27,11 +65,146 @@ import type { TwistEasing } from '@/types/design';
 export function getProfileScale(
   curve: number,
   t: number,
-  taper: number
+  taper: number,
+  shape: ProfileShape = 'classic',
+  subParams: ProfileShapeParams = {}
 ): number {
   const linearTaper = 1 + (taper - 1) * t;
-  const curveFactor = curve * Math.sin(Math.PI * t) * 0.4;
-  return linearTaper * (1 + curveFactor);
+  return linearTaper * getShapeFactor(curve, t, shape, subParams);
+}
+
+/** Silhouette factor of a profile shape before taper is applied */
+function getShapeFactor(
+  curve: number,
+  t: number,
+  shape: ProfileShape,
+  subParams: ProfileShapeParams
+): number {
+  switch (shape) {
+    case 'classic':
+      return 1 + curve * Math.sin(Math.PI * t) * 0.4;
+
+    case 'flared': {
+      // Straight until flareStart, then quadratic opening (zero slope at the join)
+      const start = subParams.flareStart ?? 0.6;
+      const amount = subParams.flareAmount ?? 0.5;
+      if (t <= start) return 1;
+      const u = (t - start) / (1 - start);
+      return 1 + amount * u * u;
+    }
+
+    case 's-curve': {
+      // One full sine period, warped so the inflection lands on the midpoint:
+      // phi(t) = t + k·t(1-t) with phi(mid) = 0.5 (monotonic for mid ∈ [0.3, 0.7])
+      const amount = subParams.sCurveAmount ?? 0.25;
+      const mid = subParams.sCurveMidpoint ?? 0.5;
+      const k = (0.5 - mid) / (mid * (1 - mid));
+      const phi = t + k * t * (1 - t);
+      return 1 + amount * Math.sin(2 * Math.PI * phi);
+    }
+
+    case 'shouldered': {
+      // Straight body, shoulder rounds in over 60% of the remaining height, then neck
+      const shoulder = subParams.shoulderHeight ?? 0.7;
+      const neck = subParams.neckRatio ?? 0.55;
+      if (t <= shoulder) return 1;
+      const u = (t - shoulder) / (1 - shoulder);
+      return 1 - (1 - neck) * smoothstep(u / 0.6);
+    }
+
+    case 'amphora': {
+      // Keyframes: foot → belly → neck → lip, cosine-eased between them
+      const belly = subParams.bellyHeight ?? 0.4;
+      const neck = subParams.neckRatio ?? 0.55;
+      const keys: [number, number][] = [
+        [0, 0.65],
+        [belly, 1.25],
+        [0.85, neck],
+        [1, neck + 0.12],
+      ];
+      for (let i = 0; i < keys.length - 1; i++) {
+        const [t0, s0] = keys[i];
+        const [t1, s1] = keys[i + 1];
+        if (t <= t1 || i === keys.length - 2) {
+          const u = Math.min(1, Math.max(0, (t - t0) / (t1 - t0)));
+          const eased = (1 - Math.cos(Math.PI * u)) / 2;
+          return s0 + (s1 - s0) * eased;
+        }
+      }
+      return 1;
+    }
+
+    case 'trumpet': {
+      // Exponential bell: normalized (e^(k·t) - 1) / (e^k - 1)
+      const flare = subParams.trumpetFlare ?? 0.8;
+      const k = Math.max(0.1, subParams.trumpetCurvature ?? 4);
+      return 1 + flare * (Math.exp(k * t) - 1) / (Math.exp(k) - 1);
+    }
+
+    default:
+      return 1 + curve * Math.sin(Math.PI * t) * 0.4;
+  }
+}
+
+// --- Custom Bezier profile ---
+
+/** Profile-related subset of the shell params */
+export type ProfileParams = Pick<
+  DecorativeShellParams,
+  'profileMode' | 'profileCurve' | 'taper' | 'profilePoints' | 'profileShape'
+> &
+  ProfileShapeParams;
+
+/** De Casteljau evaluation of one Bezier coordinate at parameter u */
+function bezierCoordinate(values: number[], u: number): number {
+  const work = values.slice();
+  for (let level = work.length - 1; level > 0; level--) {
+    for (let i = 0; i < level; i++) {
+      work[i] = work[i] * (1 - u) + work[i + 1] * u;
+    }
+  }
+  return work[0];
+}
+
+/**
+ * Get the scale factor of a custom Bezier profile at normalized height t.
+ *
+ * The control points form a single Bezier curve of degree (n - 1) in the
+ * (t, scale) plane. Because the control points are sorted by t, the curve's
+ * t coordinate is monotonic in the Bezier parameter u, so we bisect on u
+ * to find the point at the requested height.
+ */
+export function getBezierProfileScale(
+  points: ProfileControlPoint[],
+  t: number
+): number {
+  if (points.length === 0) return 1;
+  if (points.length === 1) return points[0].scale;
+
+  const ts = points.map((p) => p.t);
+  const scales = points.map((p) => p.scale);
+  const target = Math.min(Math.max(t, ts[0]), ts[ts.length - 1]);
+
+  let lo = 0;
+  let hi = 1;
+  for (let i = 0; i < 40; i++) {
+    const mid = (lo + hi) / 2;
+    if (bezierCoordinate(ts, mid) < target) lo = mid;
+    else hi = mid;
+  }
+
+  return bezierCoordinate(scales, (lo + hi) / 2);
+}
+
+/**
+ * Get the profile scale for a shell layer, dispatching on profileMode.
+ * This is what the shell builder samples per slice.
+ */
+export function getShellProfileScale(params: ProfileParams, t: number): number {
+  if (params.profileMode === 'custom' && params.profilePoints.length >= 2) {
+    return getBezierProfileScale(params.profilePoints, t);
+  }
+  return getProfileScale(params.profileCurve, t, params.taper, params.profileShape, params);
 }
 
 // --- Twist easing functions ---
@@ -6,12 +6,23 @@
  * 1. Build outer shell using shared buildDecorativeShell
  * 2. Build inner shell (wallThickness inward, optionally smooth)
  * 3. Subtract inner from outer to create hollow vase
+ * 4. Cut surface pattern openings (honeycomb) through the wall
+ *
+ * An optional heightmap embosses the outer shell only, so the wall behind
+ * the texture keeps its full thickness. Text is likewise laid onto the
+ * outer shell; engraving depth is capped so a floor of wall remains.
+ *
+ * In vase-mode-optimized output steps 2–4 are skipped: the slicer's
+ * spiralize mode derives the single wall and base from the solid body.
  */
 
 import { booleans, transforms } from '@jscad/modeling';
 import type { Geom3 } from '@jscad/modeling';
 import type { VaseParams } from '@/types/design';
 import { buildDecorativeShell } from '../shared/shellBuilder';
+import { buildPatternCutters } from '../shared/surfacePattern';
+import { layoutText } from '../shared/surfaceText';
+import type { Heightmap } from '../shared/heightmap';
 
 // Re-export for backward compatibility (used by existing tests)
 export { offsetPolygonInward } from '../shared/offsetPolygon';
@@ -20,19 +31,29 @@ export { offsetPolygonInward } from '../shared/offsetPolygon';
  * Generate a complete vase from parameters.
  * Pure function — no side effects.
  */
-export function generateVase(params: VaseParams): Geom3 {
+export function generateVase(params: VaseParams, heightmap: Heightmap | null = null): Geom3 {
+  const text = layoutText(params, {
+    wallThickness: params.wallThickness,
+    baseThickness: params.baseThickness,
+  });
+
   // Build outer shell (solid)
   const outerShell = buildDecorativeShell(params, {
     resolution: params.resolution,
     wallInset: 0,
+    heightmap,
+    text,
   });
 
+  if (params.vaseModeOptimized) return outerShell;
+
   // Build inner shell (per-point inward offset by wallThickness)
   const forceSmooth = params.smoothInnerWall;
   const innerShell = buildDecorativeShell(params, {
     resolution: params.resolution,
     wallInset: params.wallThickness,
     skipModulation: forceSmooth,
+    heightOffset: params.baseThickness,
   });
 
   // Move inner shell up by baseThickness so the bottom is solid
@@ -44,5 +65,15 @@ export function generateVase(params: VaseParams): Geom3 {
   // Subtract inner from outer to create hollow shell
   const hollowShell = booleans.subtract(outerShell, innerShellRaised);
 
-  return hollowShell;
+  const cutters = buildPatternCutters(params, {
+    resolution: params.resolution,
+    wallThickness: params.wallThickness,
+    baseThickness: params.baseThickness,
+    heightmap,
+    text,
+  });
+  if (cutters.length === 0) return hollowShell;
+
+  // One subtract against the union is far cheaper than one per cell
+  return booleans.subtract(hollowShell, booleans.union(...cutters));
 }
@@ -1,9 +1,29 @@
 import * as Comlink from 'comlink';
 import { serialize } from '@jscad/stl-serializer';
-import type { VaseParams } from '@/types/design';
-import type { GeometryResult, GeometryWorkerAPI } from '@/types/geometry';
+import type { Geom3 } from '@jscad/modeling';
+import type { LampParams, VaseParams } from '@/types/design';
+import type { LampSafetyReport, PrinterProfileId, ValidationReport } from '@/types/validation';
+import type {
+  AnalysisMode,
+  GeometryResult,
+  GeometryWorkerAPI,
+  LampExportFormat,
+  MeshExportOptions,
+  TextureInfo,
+} from '@/types/geometry';
 import { generateVase } from './vase/vaseGenerator';
+import { LAMP_PARTS, LAMP_PART_NAMES, generateLamp, generateLampPartForPrint, layoutOnPlate } from './lamp';
 import { convertGeom3ToGeometryResult } from './shared/geometryConverter';
+import { weldGeom3 } from './shared/meshWeld';
+import { serialize3MF, serializeLamp3MF } from './export/threeMf';
+import { createZip } from './export/zipWriter';
+import { serializeOBJ } from './export/obj';
+import { serializePLY } from './export/ply';
+import { validateVase } from './validation/vaseValidator';
+import { validateLampSafety } from './validation/lampSafetyValidator';
+import { computeAnalysisScalars } from './validation/meshAnalysis';
+import { decodeHeightmap } from './shared/heightmap';
+import type { Heightmap } from './shared/heightmap';
 
 function concatenateBuffers(buffers: ArrayBuffer[]): ArrayBuffer {
   const totalLength = buffers.reduce((sum, buf) => sum + buf.byteLength, 0);
@@ -16,27 +36,134 @@ function concatenateBuffers(buffers: ArrayBuffer[]): ArrayBuffer {
   return result.buffer;
 }
 
+/** Export at no less than the default preview resolution */
+function toExportParams(params: VaseParams): VaseParams {
+  return {
+    ...params,
+    resolution: Math.max(params.resolution, 128),
+  };
+}
+
+// Decoded texture image, applied to every preview and export
+let heightmap: Heightmap | null = null;
+// The same image as uploaded (PNG), embedded in 3MF exports
+let textureImage: Uint8Array | null = null;
+// Bumped whenever the texture changes so cached previews are not reused
+let textureVersion = 0;
+
+// Last preview geometry, reused by validateVase for the same params
+let lastPreview: { key: string; geom: Geom3 } | null = null;
+
+function generatePreview(params: VaseParams): Geom3 {
+  const key = `${textureVersion}:${JSON.stringify(params)}`;
+  if (lastPreview?.key === key) return lastPreview.geom;
+  const geom = generateVase(params, heightmap);
+  lastPreview = { key, geom };
+  return geom;
+}
+
 const api: GeometryWorkerAPI = {
-  async generateVase(params: VaseParams): Promise<GeometryResult> {
-    const geom = generateVase(params);
+  async setTexture(image: ArrayBuffer | null): Promise<TextureInfo | null> {
+    // Cleared first so a failed decode leaves no stale texture behind
+    heightmap = null;
+    textureImage = null;
+    textureVersion++;
+    if (image) {
+      heightmap = await decodeHeightmap(image);
+      textureImage = new Uint8Array(image);
+      // A preview generated while decoding must not be reused
+      textureVersion++;
+    }
+    return heightmap ? { width: heightmap.width, height: heightmap.height } : null;
+  },
+
+  async generateVase(
+    params: VaseParams,
+    analysis: AnalysisMode = 'none'
+  ): Promise<GeometryResult> {
+    const geom = generatePreview(params);
     const result = convertGeom3ToGeometryResult(geom);
-    return Comlink.transfer(result, [
-      result.positions.buffer,
-      result.normals.buffer,
-      result.indices.buffer,
-    ]);
+    const transfers: ArrayBuffer[] = [
+      result.positions.buffer as ArrayBuffer,
+      result.normals.buffer as ArrayBuffer,
+      result.indices.buffer as ArrayBuffer,
+    ];
+
+    const scalars = computeAnalysisScalars(result, params, analysis);
+    if (scalars) {
+      result.scalars = scalars;
+      result.analysis = analysis;
+      transfers.push(scalars.buffer as ArrayBuffer);
+    }
+
+    return Comlink.transfer(result, transfers);
   },
 
   async exportSTL(params: VaseParams): Promise<ArrayBuffer> {
-    const exportParams: VaseParams = {
-      ...params,
-      resolution: Math.max(params.resolution, 128),
-    };
-    const geom = generateVase(exportParams);
+    const geom = generateVase(toExportParams(params), heightmap);
     const buffers = serialize({ binary: true }, geom);
     const combined = concatenateBuffers(buffers);
     return Comlink.transfer(combined, [combined]);
   },
+
+  async export3MF(params: VaseParams): Promise<ArrayBuffer> {
+    const geom = generateVase(toExportParams(params), heightmap);
+    // Embed the params as designed (not the export resolution bump)
+    const bytes = serialize3MF(geom, params, { texture: textureImage ?? undefined });
+    const buffer = bytes.buffer as ArrayBuffer;
+    return Comlink.transfer(buffer, [buffer]);
+  },
+
+  async exportOBJ(params: VaseParams, options: MeshExportOptions): Promise<ArrayBuffer> {
+    const mesh = weldGeom3(generateVase(toExportParams(params), heightmap));
+    const text = serializeOBJ(mesh, { normals: options.normals });
+    const buffer = new TextEncoder().encode(text).buffer as ArrayBuffer;
+    return Comlink.transfer(buffer, [buffer]);
+  },
+
+  async exportPLY(params: VaseParams, options: MeshExportOptions): Promise<ArrayBuffer> {
+    const mesh = weldGeom3(generateVase(toExportParams(params), heightmap));
+    const buffer = serializePLY(mesh, { normals: options.normals }).buffer as ArrayBuffer;
+    return Comlink.transfer(buffer, [buffer]);
+  },
+
+  async generateLamp(params: LampParams): Promise<GeometryResult> {
+    const result = convertGeom3ToGeometryResult(generateLamp(params));
+    return Comlink.transfer(result, [
+      result.positions.buffer as ArrayBuffer,
+      result.normals.buffer as ArrayBuffer,
+      result.indices.buffer as ArrayBuffer,
+    ]);
+  },
+
+  async exportLamp(params: LampParams, format: LampExportFormat): Promise<ArrayBuffer> {
+    const parts = LAMP_PARTS.map((part) => generateLampPartForPrint(params, part));
+    const bytes =
+      format === '3mf'
+        ? serializeLamp3MF(
+            layoutOnPlate(parts).map((geom, i) => ({ name: LAMP_PART_NAMES[LAMP_PARTS[i]], geom })),
+            params
+          )
+        : createZip(
+            parts.map((geom, i) => ({
+              path: `luminaforge-lamp-${LAMP_PARTS[i]}.stl`,
+              data: new Uint8Array(concatenateBuffers(serialize({ binary: true }, geom))),
+            }))
+          );
+    const buffer = bytes.buffer as ArrayBuffer;
+    return Comlink.transfer(buffer, [buffer]);
+  },
+
+  async validateVase(
+    params: VaseParams,
+    printer: PrinterProfileId
+  ): Promise<ValidationReport> {
+    return validateVase(params, generatePreview(params), printer);
+  },
+
+  async validateLamp(params: LampParams): Promise<LampSafetyReport> {
+    return validateLampSafety(params);
+  },
 };
 
 Comlink.expose(api);
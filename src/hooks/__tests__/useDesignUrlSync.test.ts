@@ -0,0 +1,34 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import { useDesignUrlSync } from '../useDesignUrlSync';
+import { useDesignStore } from '@/store/designStore';
+import { DEFAULT_VASE_PARAMS } from '@/types/design';
+import { DESIGN_QUERY_PARAM, encodeDesign } from '@/store/urlState';
+
+describe('useDesignUrlSync', () => {
+  afterEach(() => {
+    window.history.replaceState(null, '', '/');
+    useDesignStore.getState().setObjectType('vase');
+    useDesignStore.getState().setParams({ ...DEFAULT_VASE_PARAMS });
+  });
+
+  it('hydrates a shared vase link as a vase, even over a lamp', () => {
+    const params = { ...DEFAULT_VASE_PARAMS, height: 250 };
+    window.history.replaceState(null, '', `/editor?${DESIGN_QUERY_PARAM}=${encodeDesign(params)}`);
+    useDesignStore.getState().setObjectType('lamp');
+
+    const { unmount } = renderHook(() => useDesignUrlSync());
+    const state = useDesignStore.getState();
+    expect(state.objectType).toBe('vase');
+    expect(state.params.height).toBe(250);
+    unmount();
+  });
+
+  it('leaves the object type alone without a shared design', () => {
+    useDesignStore.getState().setObjectType('lamp');
+
+    const { unmount } = renderHook(() => useDesignUrlSync());
+    expect(useDesignStore.getState().objectType).toBe('lamp');
+    unmount();
+  });
+});
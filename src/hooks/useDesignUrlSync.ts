@@ -0,0 +1,43 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useDesignStore } from '@/store/designStore';
+import { DEFAULT_VASE_PARAMS } from '@/types/design';
+import { readDesignFromSearch, withDesignInUrl } from '@/store/urlState';
+
+/** Quiet period before the URL catches up with slider drags */
+const URL_SYNC_DEBOUNCE_MS = 300;
+
+/**
+ * Two-way binding between the design store and the page URL:
+ * hydrates the store from `?d=` once on mount, then keeps the URL in sync
+ * (replaceState — no history entry per slider tick).
+ */
+export function useDesignUrlSync(): void {
+  useEffect(() => {
+    const overrides = readDesignFromSearch(window.location.search);
+    if (overrides) {
+      const { setObjectType, setParams, clearHistory } = useDesignStore.getState();
+      // `?d=` only carries vase params
+      setObjectType('vase');
+      setParams({ ...DEFAULT_VASE_PARAMS, ...overrides });
+      // The shared design is the starting point — not an undoable edit
+      clearHistory();
+    }
+
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const unsubscribe = useDesignStore.subscribe((state, prev) => {
+      if (state.params === prev.params) return;
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        const url = withDesignInUrl(window.location.href, state.params);
+        window.history.replaceState(window.history.state, '', url);
+      }, URL_SYNC_DEBOUNCE_MS);
+    });
+
+    return () => {
+      unsubscribe();
+      if (timer) clearTimeout(timer);
+    };
+  }, []);
+}
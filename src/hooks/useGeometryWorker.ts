@@ -2,24 +2,68 @@
 
 import { useEffect, useRef, useState, useCallback } from 'react';
 import * as Comlink from 'comlink';
-import type { GeometryResult, GeometryWorkerAPI } from '@/types/geometry';
+import type {
+  ExportFormat,
+  GeometryResult,
+  GeometryWorkerAPI,
+  MeshExportOptions,
+} from '@/types/geometry';
+import type { LampSafetyReport, ValidationReport } from '@/types/validation';
+import type { LampParams, ObjectType, TextureImage, VaseParams } from '@/types/design';
 import { useDesignStore } from '@/store/designStore';
+import { useViewportStore } from '@/store/viewportStore';
 
 const DEBOUNCE_MS = 150;
 
+const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  stl: 'application/octet-stream',
+  '3mf': 'model/3mf',
+  obj: 'model/obj',
+  ply: 'application/octet-stream',
+};
+
+/** Generated geometry with the design it was generated from */
+interface Generation {
+  geometry: GeometryResult;
+  objectType: ObjectType;
+  vaseParams: VaseParams;
+  lampParams: LampParams;
+}
+
+/** Trigger a browser download of an export buffer */
+function downloadBuffer(buffer: ArrayBuffer, filename: string, type: string): void {
+  const blob = new Blob([buffer], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+/** Filesystem-safe timestamp for export filenames */
+function exportTimestamp(): string {
+  return new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+}
+
 export function useGeometryWorker(): {
   geometry: GeometryResult | null;
   isGenerating: boolean;
   error: string | null;
-  exportSTL: () => Promise<void>;
+  validation: ValidationReport | null;
+  lampSafety: LampSafetyReport | null;
+  exportModel: (format: ExportFormat, options: MeshExportOptions) => Promise<void>;
 } {
-  const [geometry, setGeometry] = useState<GeometryResult | null>(null);
+  const [generation, setGeneration] = useState<Generation | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [validation, setValidation] = useState<ValidationReport | null>(null);
+  const [lampSafety, setLampSafety] = useState<LampSafetyReport | null>(null);
 
   const workerRef = useRef<Worker | null>(null);
   const apiRef = useRef<Comlink.Remote<GeometryWorkerAPI> | null>(null);
   const generationIdRef = useRef(0);
+  const validationIdRef = useRef(0);
   const debounceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // Initialize worker once
@@ -39,6 +83,12 @@ export function useGeometryWorker(): {
 
   // Subscribe to param changes and trigger debounced generation
   const vaseParams = useDesignStore((s) => s.params);
+  const objectType = useDesignStore((s) => s.objectType);
+  const lampParams = useDesignStore((s) => s.lampParams);
+  const textureImage = useDesignStore((s) => s.textureImage);
+  const analysisMode = useViewportStore((s) => s.analysisMode);
+  // Texture image the worker currently holds (undefined = never sent)
+  const sentTextureRef = useRef<TextureImage | null | undefined>(undefined);
 
   useEffect(() => {
     setIsGenerating(true);
@@ -54,12 +104,20 @@ export function useGeometryWorker(): {
       const thisGeneration = ++generationIdRef.current;
 
       try {
-        const result = await api.generateVase(vaseParams);
+        if (sentTextureRef.current !== textureImage) {
+          // Marked before decoding so an unreadable image is reported once, not per edit
+          sentTextureRef.current = textureImage;
+          await api.setTexture(textureImage ? textureImage.data : null);
+        }
+        const result =
+          objectType === 'lamp'
+            ? await api.generateLamp(lampParams)
+            : await api.generateVase(vaseParams, analysisMode);
 
         // Discard stale results
         if (thisGeneration !== generationIdRef.current) return;
 
-        setGeometry(result);
+        setGeneration({ geometry: result, objectType, vaseParams, lampParams });
         setError(null);
       } catch (err) {
         // Discard stale errors
@@ -79,32 +137,93 @@ export function useGeometryWorker(): {
         clearTimeout(debounceTimerRef.current);
       }
     };
-  }, [vaseParams]);
+  }, [objectType, vaseParams, lampParams, textureImage, analysisMode]);
 
-  const exportSTL = useCallback(async () => {
+  // Validate whenever new geometry lands or the printer profile changes,
+  // against the params the geometry came from rather than the live ones, so
+  // validation never races the debounced generation. The worker reuses its
+  // cached preview geometry for the same params.
+  const printerProfile = useViewportStore((s) => s.printerProfile);
+
+  useEffect(() => {
+    const api = apiRef.current;
+    if (!api || !generation) return;
+
+    const thisValidation = ++validationIdRef.current;
+    // Lamps get the bulb safety check instead of the print check
+    if (generation.objectType === 'lamp') {
+      setValidation(null);
+      api
+        .validateLamp(generation.lampParams)
+        .then((report) => {
+          if (thisValidation === validationIdRef.current) setLampSafety(report);
+        })
+        .catch(() => {
+          // Keep the previous report on failure
+        });
+      return;
+    }
+    setLampSafety(null);
+    api
+      .validateVase(generation.vaseParams, printerProfile)
+      .then((report) => {
+        if (thisValidation === validationIdRef.current) setValidation(report);
+      })
+      .catch(() => {
+        // Validation is advisory — keep the previous report on failure
+      });
+  }, [generation, printerProfile]);
+
+  const exportModel = useCallback(async (format: ExportFormat, options: MeshExportOptions) => {
     const api = apiRef.current;
     if (!api) return;
 
     try {
       setIsGenerating(true);
-      const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
-
-      const stlBuffer = await api.exportSTL(vaseParams);
-      const filename = `luminaforge-vase-${timestamp}.stl`;
-
-      const blob = new Blob([stlBuffer], { type: 'application/octet-stream' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = filename;
-      a.click();
-      URL.revokeObjectURL(url);
+      if (objectType === 'lamp') {
+        // One download holding every part: STLs are zipped, 3MF holds an object per part
+        const lampFormat = format === '3mf' ? '3mf' : 'stl';
+        const buffer = await api.exportLamp(lampParams, lampFormat);
+        downloadBuffer(
+          buffer,
+          `luminaforge-lamp-${exportTimestamp()}.${lampFormat === 'stl' ? 'zip' : '3mf'}`,
+          lampFormat === 'stl' ? 'application/zip' : EXPORT_MIME_TYPES['3mf']
+        );
+        return;
+      }
+      let buffer: ArrayBuffer;
+      switch (format) {
+        case '3mf':
+          buffer = await api.export3MF(vaseParams);
+          break;
+        case 'obj':
+          buffer = await api.exportOBJ(vaseParams, options);
+          break;
+        case 'ply':
+          buffer = await api.exportPLY(vaseParams, options);
+          break;
+        case 'stl':
+        default:
+          buffer = await api.exportSTL(vaseParams);
+      }
+      downloadBuffer(
+        buffer,
+        `luminaforge-vase-${exportTimestamp()}.${format}`,
+        EXPORT_MIME_TYPES[format]
+      );
     } catch (err) {
       setError(err instanceof Error ? err.message : String(err));
     } finally {
       setIsGenerating(false);
     }
-  }, [vaseParams]);
-
-  return { geometry, isGenerating, error, exportSTL };
+  }, [objectType, vaseParams, lampParams]);
+
+  return {
+    geometry: generation?.geometry ?? null,
+    isGenerating,
+    error,
+    validation,
+    lampSafety,
+    exportModel,
+  };
 }
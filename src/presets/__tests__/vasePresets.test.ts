@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { generateVase } from '@/generators/vase/vaseGenerator';
+import { validateVase } from '@/generators/validation/vaseValidator';
+import { weldGeom3 } from '@/generators/shared/meshWeld';
+import { findOpenEdges } from '@/generators/shared/meshRepair';
+import { DEFAULT_VASE_PARAMS } from '@/types/design';
+import {
+  VASE_PRESETS,
+  PRESET_CATEGORIES,
+  getPreset,
+  resolvePresetParams,
+} from '../vasePresets';
+
+/** Lower than the shipped resolution to keep the suite fast; shapes are unchanged */
+const TEST_RESOLUTION = 48;
+
+describe('preset registry', () => {
+  it('has unique, URL-safe ids', () => {
+    const ids = VASE_PRESETS.map((p) => p.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    ids.forEach((id) => expect(id).toMatch(/^[a-z0-9-]+$/));
+  });
+
+  it('only overrides known params', () => {
+    const known = Object.keys(DEFAULT_VASE_PARAMS);
+    VASE_PRESETS.forEach((preset) => {
+      Object.keys(preset.params).forEach((key) => expect(known).toContain(key));
+    });
+  });
+
+  it('uses only declared categories', () => {
+    const categories = PRESET_CATEGORIES.map((c) => c.value);
+    VASE_PRESETS.forEach((preset) => expect(categories).toContain(preset.category));
+  });
+
+  it('getPreset finds presets by id', () => {
+    expect(getPreset('amphora')?.name).toBe('Amphora');
+    expect(getPreset('missing')).toBeUndefined();
+  });
+
+  it('resolvePresetParams overlays the preset on the defaults', () => {
+    const preset = VASE_PRESETS[0];
+    const params = resolvePresetParams(preset);
+    expect(params).toEqual({ ...DEFAULT_VASE_PARAMS, ...preset.params });
+  });
+});
+
+describe.each(VASE_PRESETS.map((p) => [p.id, p] as const))('preset %s', (_id, preset) => {
+  const params = { ...resolvePresetParams(preset), resolution: TEST_RESOLUTION };
+  const geom = generateVase(params);
+
+  it('passes print validation with no issues', () => {
+    const report = validateVase(params, geom);
+    expect(report.issues).toEqual([]);
+  });
+
+  it('generates closed manifold geometry', () => {
+    const mesh = weldGeom3(geom);
+    expect(mesh.indices.length).toBeGreaterThan(0);
+    expect(findOpenEdges(mesh)).toEqual([]);
+  });
+});
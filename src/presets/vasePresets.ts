@@ -0,0 +1,158 @@
+import type { VaseParams } from '@/types/design';
+import { DEFAULT_VASE_PARAMS } from '@/types/design';
+import type { PresetCategory, VasePreset } from '@/types/preset';
+
+export const PRESET_CATEGORIES: { value: PresetCategory; label: string }[] = [
+  { value: 'classic', label: 'Classic' },
+  { value: 'sculptural', label: 'Sculptural' },
+  { value: 'geometric', label: 'Geometric' },
+  { value: 'organic', label: 'Organic' },
+];
+
+/**
+ * Curated preset library. Every entry must validate cleanly and produce
+ * manifold geometry (enforced by presets tests).
+ */
+export const VASE_PRESETS: VasePreset[] = [
+  {
+    id: 'ribbed-cylinder',
+    name: 'Ribbed Cylinder',
+    category: 'classic',
+    tags: ['ridges', 'straight', 'beginner'],
+    description: 'Straight walls with soft vertical ribs.',
+    params: {
+      style: 'classic',
+      taper: 1,
+      twistAngle: 0,
+      ridgeCount: 24,
+      ridgeDepth: 2,
+      height: 160,
+    },
+  },
+  {
+    id: 'spiral-fin',
+    name: 'Spiral Fin',
+    category: 'sculptural',
+    tags: ['fins', 'twist'],
+    description: 'Dense fins sweeping half a turn around a gently tapered body.',
+    params: {
+      style: 'spiral-fin',
+      taper: 0.9,
+      twistAngle: 180,
+    },
+  },
+  {
+    id: 'twisted-star',
+    name: 'Twisted Star',
+    category: 'geometric',
+    tags: ['star', 'twist'],
+    description: 'Six-point star section rotating a third of a turn.',
+    params: {
+      style: 'classic',
+      crossSection: 'star',
+      starPoints: 6,
+      starInnerRatio: 0.65,
+      twistAngle: 120,
+      ridgeDepth: 0,
+      taper: 0.85,
+      height: 170,
+    },
+  },
+  {
+    id: 'amphora',
+    name: 'Amphora',
+    category: 'classic',
+    tags: ['amphora', 'belly', 'neck'],
+    description: 'Full belly narrowing to a slim neck.',
+    params: {
+      style: 'classic',
+      profileShape: 'amphora',
+      bellyHeight: 0.4,
+      neckRatio: 0.6,
+      wallThickness: 2.4,
+      taper: 1,
+      twistAngle: 0,
+      ridgeDepth: 0,
+      height: 180,
+    },
+  },
+  {
+    id: 'gear-column',
+    name: 'Gear Column',
+    category: 'geometric',
+    tags: ['gear', 'twist', 'tall'],
+    description: 'Toothed column with a slow quarter twist.',
+    params: {
+      style: 'classic',
+      crossSection: 'gear',
+      gearTeeth: 16,
+      twistAngle: 90,
+      ridgeDepth: 0,
+      taper: 1.1,
+      diameter: 70,
+      height: 200,
+    },
+  },
+  {
+    id: 'petal-bud',
+    name: 'Petal Bud',
+    category: 'organic',
+    tags: ['flower', 's-curve'],
+    description: 'Five-petal section on a soft S-curve silhouette.',
+    params: {
+      style: 'classic',
+      crossSection: 'flower',
+      petalCount: 5,
+      profileShape: 's-curve',
+      sCurveAmount: 0.15,
+      twistAngle: 45,
+      ridgeDepth: 0,
+      taper: 0.9,
+      height: 140,
+    },
+  },
+  {
+    id: 'soft-squircle',
+    name: 'Soft Squircle',
+    category: 'organic',
+    tags: ['squircle', 'belly'],
+    description: 'Rounded-square body with a gentle belly.',
+    params: {
+      style: 'classic',
+      crossSection: 'squircle',
+      squircleN: 3,
+      profileShape: 'classic',
+      profileCurve: 0.4,
+      twistAngle: 0,
+      ridgeDepth: 0,
+      taper: 1,
+      height: 150,
+    },
+  },
+  {
+    id: 'spiralize-ribs',
+    name: 'Spiralize Ribs',
+    category: 'sculptural',
+    tags: ['vase mode', 'ridges', 'twist'],
+    description: 'Single-wall body for the slicer’s vase mode, with twisted ribs.',
+    params: {
+      style: 'classic',
+      vaseModeOptimized: true,
+      ridgeCount: 16,
+      ridgeDepth: 3,
+      twistAngle: 60,
+      taper: 1.15,
+      height: 170,
+    },
+  },
+];
+
+/** Look up a preset by id */
+export function getPreset(id: string): VasePreset | undefined {
+  return VASE_PRESETS.find((p) => p.id === id);
+}
+
+/** Full params for a preset: defaults overlaid with the preset's overrides */
+export function resolvePresetParams(preset: VasePreset): VaseParams {
+  return { ...DEFAULT_VASE_PARAMS, ...preset.params };
+}
@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { StoreApi } from 'zustand';
+import {
+  createDesignStore,
+  HISTORY_COALESCE_MS,
+  HISTORY_LIMIT,
+  type DesignState,
+} from '../designStore';
+import { DEFAULT_VASE_PARAMS } from '@/types/design';
+
+describe('designStore history', () => {
+  let store: StoreApi<DesignState>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    store = createDesignStore();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /** Let enough time pass that the next edit starts a new undo step */
+  const pause = () => vi.advanceTimersByTime(HISTORY_COALESCE_MS + 1);
+
+  it('starts with empty history', () => {
+    expect(store.getState().past).toEqual([]);
+    expect(store.getState().future).toEqual([]);
+  });
+
+  it('undo restores the previous params', () => {
+    store.getState().setParam('height', 200);
+    store.getState().undo();
+    expect(store.getState().params.height).toBe(DEFAULT_VASE_PARAMS.height);
+    expect(store.getState().vaseParams.height).toBe(DEFAULT_VASE_PARAMS.height);
+  });
+
+  it('redo re-applies an undone edit', () => {
+    store.getState().setParam('height', 200);
+    store.getState().undo();
+    store.getState().redo();
+    expect(store.getState().params.height).toBe(200);
+    expect(store.getState().future).toEqual([]);
+  });
+
+  it('undo and redo are no-ops at the ends of history', () => {
+    const before = store.getState().params;
+    store.getState().undo();
+    store.getState().redo();
+    expect(store.getState().params).toBe(before);
+  });
+
+  it('a new edit clears the redo stack', () => {
+    store.getState().setParam('height', 200);
+    store.getState().undo();
+    pause();
+    store.getState().setParam('diameter', 100);
+    expect(store.getState().future).toEqual([]);
+  });
+
+  describe('coalescing', () => {
+    it('merges a rapid drag of one slider into a single step', () => {
+      for (let h = 151; h <= 180; h++) {
+        store.getState().setParam('height', h);
+        vi.advanceTimersByTime(16);
+      }
+      expect(store.getState().past).toHaveLength(1);
+
+      store.getState().undo();
+      expect(store.getState().params.height).toBe(DEFAULT_VASE_PARAMS.height);
+    });
+
+    it('keeps separate steps for different params', () => {
+      store.getState().setParam('height', 200);
+      store.getState().setParam('diameter', 100);
+      expect(store.getState().past).toHaveLength(2);
+    });
+
+    it('keeps separate steps for edits of one param after a pause', () => {
+      store.getState().setParam('height', 200);
+      pause();
+      store.getState().setParam('height', 210);
+      expect(store.getState().past).toHaveLength(2);
+
+      store.getState().undo();
+      expect(store.getState().params.height).toBe(200);
+    });
+
+    it('does not merge across an undo', () => {
+      store.getState().setParam('height', 200);
+      store.getState().undo();
+      store.getState().setParam('height', 210);
+      expect(store.getState().past).toHaveLength(1);
+      store.getState().undo();
+      expect(store.getState().params.height).toBe(DEFAULT_VASE_PARAMS.height);
+    });
+
+    it('coalesces setParams by its set of changed keys', () => {
+      store.getState().setParams({ height: 200, diameter: 100 });
+      store.getState().setParams({ diameter: 101, height: 201 });
+      expect(store.getState().past).toHaveLength(1);
+      store.getState().setParams({ height: 202 });
+      expect(store.getState().past).toHaveLength(2);
+    });
+  });
+
+  it('ignores edits that change nothing', () => {
+    store.getState().setParam('height', DEFAULT_VASE_PARAMS.height);
+    store.getState().setParams({ diameter: DEFAULT_VASE_PARAMS.diameter });
+    expect(store.getState().past).toEqual([]);
+  });
+
+  it('resetParams is undoable', () => {
+    store.getState().setParam('height', 200);
+    store.getState().resetParams();
+    store.getState().undo();
+    expect(store.getState().params.height).toBe(200);
+  });
+
+  it('caps history at HISTORY_LIMIT steps', () => {
+    for (let i = 0; i < HISTORY_LIMIT + 10; i++) {
+      store.getState().setParam('height', 100 + i);
+      pause();
+    }
+    expect(store.getState().past).toHaveLength(HISTORY_LIMIT);
+  });
+
+  it('clearHistory drops both stacks but keeps params', () => {
+    store.getState().setParam('height', 200);
+    pause();
+    store.getState().setParam('height', 210);
+    store.getState().undo();
+    store.getState().clearHistory();
+    expect(store.getState().past).toEqual([]);
+    expect(store.getState().future).toEqual([]);
+    expect(store.getState().params.height).toBe(200);
+  });
+});
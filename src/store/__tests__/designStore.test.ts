@@ -1,7 +1,7 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import type { StoreApi } from 'zustand';
 import { createDesignStore, type DesignState } from '../designStore';
-import { DEFAULT_VASE_PARAMS } from '@/types/design';
+import { DEFAULT_LAMP_PARAMS, DEFAULT_VASE_PARAMS } from '@/types/design';
 
 describe('designStore', () => {
   let store: StoreApi<DesignState>;
@@ -137,4 +137,43 @@ describe('designStore', () => {
       expect(store.getState().params.height).toBe(250);
     });
   });
+
+  describe('lamp', () => {
+    it('starts in vase mode with default lamp params', () => {
+      expect(store.getState().objectType).toBe('vase');
+      expect(store.getState().lampParams).toEqual(DEFAULT_LAMP_PARAMS);
+    });
+
+    it('switches object type without touching either design', () => {
+      store.getState().setParam('height', 220);
+      store.getState().setObjectType('lamp');
+      expect(store.getState().objectType).toBe('lamp');
+      expect(store.getState().params.height).toBe(220);
+      expect(store.getState().lampParams).toEqual(DEFAULT_LAMP_PARAMS);
+    });
+
+    it('updates lamp-wide and per-part params independently', () => {
+      store.getState().setLampParam('socketType', 'E14');
+      store.getState().setLampBaseParam('height', 60);
+      store.getState().setLampShadeParam('crossSection', 'star');
+
+      const { lampParams } = store.getState();
+      expect(lampParams.socketType).toBe('E14');
+      expect(lampParams.base.height).toBe(60);
+      expect(lampParams.shade.height).toBe(DEFAULT_LAMP_PARAMS.shade.height);
+      expect(lampParams.shade.crossSection).toBe('star');
+      expect(lampParams.base.crossSection).toBe(DEFAULT_LAMP_PARAMS.base.crossSection);
+    });
+
+    it('keeps lamp edits out of the vase history', () => {
+      store.getState().setLampBaseParam('height', 60);
+      expect(store.getState().past).toHaveLength(0);
+    });
+
+    it('resets lamp params to defaults', () => {
+      store.getState().setLampShadeParam('height', 90);
+      store.getState().resetLampParams();
+      expect(store.getState().lampParams).toEqual(DEFAULT_LAMP_PARAMS);
+    });
+  });
 });
@@ -0,0 +1,199 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_VASE_PARAMS, MAX_TEXT_LENGTH } from '@/types/design';
+import type { VaseParams } from '@/types/design';
+import {
+  PARAM_ALIASES,
+  URL_SCHEMA_VERSION,
+  DESIGN_QUERY_PARAM,
+  encodeDesign,
+  decodeDesign,
+  readDesignFromSearch,
+  withDesignInUrl,
+} from '../urlState';
+import { CUSTOM_OUTLINE_SAMPLES, MIN_CUSTOM_RADIUS } from '@/generators/shared/customOutline';
+import { MAX_PROFILE_POINTS, PROFILE_SCALE_RANGE } from '@/types/paramRanges';
+
+/** Build a raw encoded string from an arbitrary payload */
+function encodeRaw(version: number, payload: unknown): string {
+  const b64 = Buffer.from(JSON.stringify(payload), 'utf8').toString('base64url');
+  return `${version}.${b64}`;
+}
+
+describe('PARAM_ALIASES', () => {
+  it('has a unique alias per param', () => {
+    const aliases = Object.values(PARAM_ALIASES);
+    expect(new Set(aliases).size).toBe(aliases.length);
+  });
+
+  it('covers every default param', () => {
+    expect(Object.keys(PARAM_ALIASES).sort()).toEqual(Object.keys(DEFAULT_VASE_PARAMS).sort());
+  });
+});
+
+describe('encodeDesign', () => {
+  it('returns an empty string for the default design', () => {
+    expect(encodeDesign({ ...DEFAULT_VASE_PARAMS })).toBe('');
+  });
+
+  it('prefixes the schema version and uses only base64url characters', () => {
+    const encoded = encodeDesign({ ...DEFAULT_VASE_PARAMS, height: 200 });
+    expect(encoded.startsWith(`${URL_SCHEMA_VERSION}.`)).toBe(true);
+    expect(encoded.slice(2)).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+
+  it('only includes non-default keys, under their aliases', () => {
+    const encoded = encodeDesign({ ...DEFAULT_VASE_PARAMS, height: 200, crossSection: 'star' });
+    const json = Buffer.from(encoded.slice(2), 'base64url').toString('utf8');
+    expect(JSON.parse(json)).toEqual({ h: 200, cs: 'star' });
+  });
+
+  it('stays short for a typical tweak', () => {
+    const encoded = encodeDesign({ ...DEFAULT_VASE_PARAMS, height: 180, twistAngle: 90 });
+    expect(encoded.length).toBeLessThan(40);
+  });
+});
+
+describe('decodeDesign', () => {
+  it('round-trips every kind of value', () => {
+    const params: VaseParams = {
+      ...DEFAULT_VASE_PARAMS,
+      height: 212,
+      taper: 0.35,
+      style: 'classic',
+      crossSection: 'gear',
+      smoothInnerWall: false,
+      vaseModeOptimized: true,
+      profileMode: 'custom',
+      profilePoints: [
+        { t: 0, scale: 0.8 },
+        { t: 0.5, scale: 1.4 },
+        { t: 1, scale: 0.6 },
+      ],
+    };
+    const decoded = decodeDesign(encodeDesign(params));
+    expect({ ...DEFAULT_VASE_PARAMS, ...decoded }).toEqual(params);
+  });
+
+  it('rounds numbers to four decimals', () => {
+    const decoded = decodeDesign(encodeDesign({ ...DEFAULT_VASE_PARAMS, taper: 1.123456789 }));
+    expect(decoded?.taper).toBe(1.1235);
+  });
+
+  it('round-trips a custom outline, rounded to three decimals', () => {
+    const radii = Array.from({ length: 12 }, (_, i) => 0.5 + i / 24 + 1e-5);
+    const decoded = decodeDesign(
+      encodeDesign({ ...DEFAULT_VASE_PARAMS, crossSection: 'custom', customCrossSection: radii })
+    );
+    expect(decoded?.customCrossSection).toEqual(radii.map((r) => Number(r.toFixed(3))));
+  });
+
+  it('drops custom outlines that are too short or not positive', () => {
+    expect(decodeDesign(encodeRaw(URL_SCHEMA_VERSION, { cx: [1, 1, 1] }))).toEqual({});
+    expect(decodeDesign(encodeRaw(URL_SCHEMA_VERSION, { cx: Array(8).fill(0) }))).toEqual({});
+    expect(decodeDesign(encodeRaw(URL_SCHEMA_VERSION, { cx: Array(8).fill(1) }))).toEqual({
+      customCrossSection: Array(8).fill(1),
+    });
+  });
+
+  it('drops custom outlines longer than the stored sample count', () => {
+    const cx = Array(CUSTOM_OUTLINE_SAMPLES + 1).fill(1);
+    expect(decodeDesign(encodeRaw(URL_SCHEMA_VERSION, { cx }))).toEqual({});
+  });
+
+  it('clamps custom outline radii to the stored range', () => {
+    const cx = [0.01, 5, 0.5, 1, 1, 1, 1, 1];
+    expect(decodeDesign(encodeRaw(URL_SCHEMA_VERSION, { cx }))?.customCrossSection).toEqual([
+      MIN_CUSTOM_RADIUS, 1, 0.5, 1, 1, 1, 1, 1,
+    ]);
+  });
+
+  it('rejects unsupported schema versions', () => {
+    expect(decodeDesign(encodeRaw(URL_SCHEMA_VERSION + 1, { h: 200 }))).toBeNull();
+  });
+
+  it('rejects malformed input', () => {
+    expect(decodeDesign('')).toBeNull();
+    expect(decodeDesign('garbage')).toBeNull();
+    expect(decodeDesign(`${URL_SCHEMA_VERSION}.!!!`)).toBeNull();
+    expect(decodeDesign(encodeRaw(URL_SCHEMA_VERSION, [1, 2]))).toBeNull();
+  });
+
+  it('drops unknown aliases and mistyped values', () => {
+    const decoded = decodeDesign(
+      encodeRaw(URL_SCHEMA_VERSION, { h: 'tall', d: 120, zz: 5, si: true, pp: [0, 1, 1] })
+    );
+    expect(decoded).toEqual({ diameter: 120 });
+  });
+
+  it('clamps numbers to their slider range', () => {
+    const decoded = decodeDesign(
+      encodeRaw(URL_SCHEMA_VERSION, { h: 5000, d: -20, rs: 100000, wn: 1e9, ks: 42 })
+    );
+    expect(decoded).toEqual({ height: 400, diameter: 40, resolution: 256, waveCount: 48, noiseSeed: 42 });
+  });
+
+  it('clamps profile points to the editor range', () => {
+    const decoded = decodeDesign(encodeRaw(URL_SCHEMA_VERSION, { pp: [-0.5, 0.01, 0.4, 50, 1.5, 1] }));
+    expect(decoded?.profilePoints).toEqual([
+      { t: 0, scale: PROFILE_SCALE_RANGE.min },
+      { t: 0.4, scale: PROFILE_SCALE_RANGE.max },
+      { t: 1, scale: 1 },
+    ]);
+  });
+
+  it('drops profiles that are unsorted, unpinned or oversized', () => {
+    const decodeProfile = (pp: number[]) => decodeDesign(encodeRaw(URL_SCHEMA_VERSION, { pp }));
+    expect(decodeProfile([0.9, -5, 0.1, 50, 0, 1e6, 1, 1])).toEqual({});
+    expect(decodeProfile([0, 1, 0.6, 1, 0.6, 1, 1, 1])).toEqual({});
+    expect(decodeProfile([0.1, 1, 1, 1])).toEqual({});
+    expect(decodeProfile([0, 1, 0.9, 1])).toEqual({});
+
+    const evenlySpaced = (count: number) => {
+      const pp: number[] = [];
+      for (let i = 0; i < count; i++) pp.push(i / (count - 1), 1);
+      return pp;
+    };
+    expect(decodeProfile(evenlySpaced(MAX_PROFILE_POINTS + 1))).toEqual({});
+    expect(decodeProfile(evenlySpaced(MAX_PROFILE_POINTS))?.profilePoints).toHaveLength(MAX_PROFILE_POINTS);
+  });
+
+  it('drops strings outside a param\'s options and truncates free text', () => {
+    const decoded = decodeDesign(
+      encodeRaw(URL_SCHEMA_VERSION, {
+        cs: 'hexagon',
+        ct: 'star',
+        st: 'baroque',
+        wp: 'zigzag-ish',
+        ps: '../etc',
+        td: 'ccw',
+        tx: 'x'.repeat(500),
+      })
+    );
+    expect(decoded).toEqual({
+      crossSectionTop: 'star',
+      twistDirection: 'ccw',
+      textContent: 'x'.repeat(MAX_TEXT_LENGTH),
+    });
+  });
+});
+
+describe('URL helpers', () => {
+  it('readDesignFromSearch reads the design param', () => {
+    const encoded = encodeDesign({ ...DEFAULT_VASE_PARAMS, height: 90 });
+    expect(readDesignFromSearch(`?${DESIGN_QUERY_PARAM}=${encoded}`)).toEqual({ height: 90 });
+    expect(readDesignFromSearch('?other=1')).toBeNull();
+  });
+
+  it('withDesignInUrl sets and clears the param, keeping others', () => {
+    const url = withDesignInUrl('https://example.com/editor?x=1', {
+      ...DEFAULT_VASE_PARAMS,
+      height: 90,
+    });
+    const parsed = new URL(url);
+    expect(parsed.searchParams.get('x')).toBe('1');
+    expect(readDesignFromSearch(parsed.search)).toEqual({ height: 90 });
+
+    const cleared = withDesignInUrl(url, { ...DEFAULT_VASE_PARAMS });
+    expect(new URL(cleared).searchParams.has(DESIGN_QUERY_PARAM)).toBe(false);
+  });
+});
@@ -13,6 +13,11 @@ describe('viewportStore', () => {
     expect(state.autoRotate).toBe(false);
     expect(state.showGrid).toBe(true);
     expect(state.isSidebarOpen).toBe(true);
+    expect(state.printerProfile).toBe('bed-256');
+    expect(state.analysisMode).toBe('none');
+    expect(state.lightPreview).toBe(false);
+    expect(state.lightDimmer).toBe(0.8);
+    expect(state.lightColorTemperature).toBe(2700);
   });
 
   it('toggleAutoRotate flips autoRotate', () => {
@@ -47,6 +52,34 @@ describe('viewportStore', () => {
     expect(store.getState().isSidebarOpen).toBe(true);
   });
 
+  it('setPrinterProfile selects the validation build volume', () => {
+    store.getState().setPrinterProfile('bed-220');
+    expect(store.getState().printerProfile).toBe('bed-220');
+  });
+
+  it('setAnalysisMode switches the model color map', () => {
+    store.getState().setAnalysisMode('overhang');
+    expect(store.getState().analysisMode).toBe('overhang');
+
+    store.getState().setAnalysisMode('none');
+    expect(store.getState().analysisMode).toBe('none');
+  });
+
+  it('toggleLightPreview flips lightPreview', () => {
+    store.getState().toggleLightPreview();
+    expect(store.getState().lightPreview).toBe(true);
+
+    store.getState().toggleLightPreview();
+    expect(store.getState().lightPreview).toBe(false);
+  });
+
+  it('setLightDimmer and setLightColorTemperature tune the preview bulb', () => {
+    store.getState().setLightDimmer(0.25);
+    store.getState().setLightColorTemperature(5000);
+    expect(store.getState().lightDimmer).toBe(0.25);
+    expect(store.getState().lightColorTemperature).toBe(5000);
+  });
+
   it('toggling one value does not affect others', () => {
     store.getState().toggleAutoRotate();
     expect(store.getState().showGrid).toBe(true);
@@ -1,51 +1,167 @@
 import { create } from 'zustand';
 import { createStore } from 'zustand/vanilla';
-import type { VaseParams } from '@/types/design';
-import { DEFAULT_VASE_PARAMS } from '@/types/design';
+import type {
+  DecorativeShellParams,
+  LampParams,
+  ObjectType,
+  TextureImage,
+  VaseParams,
+} from '@/types/design';
+import { DEFAULT_LAMP_PARAMS, DEFAULT_VASE_PARAMS } from '@/types/design';
+
+/** Maximum number of undo steps kept */
+export const HISTORY_LIMIT = 100;
+
+/** Edits to the same param(s) closer together than this merge into one undo step */
+export const HISTORY_COALESCE_MS = 500;
 
 export interface DesignState {
   /** Backward-compatible alias for vaseParams — existing code reads s.params */
   params: VaseParams;
   vaseParams: VaseParams;
 
+  /** Snapshots before each undoable edit, oldest first */
+  past: VaseParams[];
+  /** Snapshots that were undone, most recently undone last */
+  future: VaseParams[];
+
+  /** Heightmap image for surface texture — not in history or the share URL */
+  textureImage: TextureImage | null;
+
+  /** Which object the editor designs; the other keeps its params */
+  objectType: ObjectType;
+  /** Lamp design — not in history or the share URL */
+  lampParams: LampParams;
+
   // Vase setters
   setParam: <K extends keyof VaseParams>(key: K, value: VaseParams[K]) => void;
   setParams: (partial: Partial<VaseParams>) => void;
   resetParams: () => void;
+
+  setTextureImage: (image: TextureImage | null) => void;
+
+  setObjectType: (type: ObjectType) => void;
+
+  // Lamp setters
+  setLampParam: <K extends keyof LampParams>(key: K, value: LampParams[K]) => void;
+  setLampBaseParam: <K extends keyof DecorativeShellParams>(key: K, value: DecorativeShellParams[K]) => void;
+  setLampShadeParam: <K extends keyof DecorativeShellParams>(key: K, value: DecorativeShellParams[K]) => void;
+  resetLampParams: () => void;
+
+  // History
+  undo: () => void;
+  redo: () => void;
+  clearHistory: () => void;
 }
 
-const stateCreator = (set: (fn: (state: DesignState) => Partial<DesignState>) => void): DesignState => ({
-  params: { ...DEFAULT_VASE_PARAMS },
-  vaseParams: { ...DEFAULT_VASE_PARAMS },
-
-  // Vase setters — update both params and vaseParams for backward compat
-  setParam: (key, value) =>
-    set((state) => {
-      const newVaseParams = { ...state.vaseParams, [key]: value };
-      return {
-        vaseParams: newVaseParams,
-        params: newVaseParams,
-      };
-    }),
-
-  setParams: (partial) =>
-    set((state) => {
-      const newVaseParams = { ...state.vaseParams, ...partial };
-      return {
-        vaseParams: newVaseParams,
-        params: newVaseParams,
-      };
-    }),
-
-  resetParams: () =>
-    set(() => {
-      const newVaseParams = { ...DEFAULT_VASE_PARAMS };
-      return {
-        vaseParams: newVaseParams,
-        params: newVaseParams,
-      };
-    }),
-});
+const stateCreator = (set: (fn: (state: DesignState) => Partial<DesignState>) => void): DesignState => {
+  // Last edit (param keys + time) — a slider drag fires many setParam calls
+  // for the same key in quick succession; they collapse into one undo step.
+  let lastEdit: { key: string; time: number } | null = null;
+
+  /** Apply new params, recording the previous ones unless coalesced */
+  const commit = (state: DesignState, next: VaseParams, editKey: string | null): Partial<DesignState> => {
+    const now = Date.now();
+    const coalesce =
+      editKey !== null &&
+      lastEdit !== null &&
+      lastEdit.key === editKey &&
+      now - lastEdit.time < HISTORY_COALESCE_MS;
+    lastEdit = editKey === null ? null : { key: editKey, time: now };
+
+    return {
+      vaseParams: next,
+      params: next,
+      past: coalesce ? state.past : [...state.past, state.vaseParams].slice(-HISTORY_LIMIT),
+      future: [],
+    };
+  };
+
+  return {
+    params: { ...DEFAULT_VASE_PARAMS },
+    vaseParams: { ...DEFAULT_VASE_PARAMS },
+    past: [],
+    future: [],
+    textureImage: null,
+    objectType: 'vase',
+    lampParams: DEFAULT_LAMP_PARAMS,
+
+    // Vase setters — update both params and vaseParams for backward compat
+    setParam: (key, value) =>
+      set((state) => {
+        if (state.vaseParams[key] === value) return {};
+        const newVaseParams = { ...state.vaseParams, [key]: value };
+        return commit(state, newVaseParams, key);
+      }),
+
+    setParams: (partial) =>
+      set((state) => {
+        const keys = (Object.keys(partial) as (keyof VaseParams)[]).filter(
+          (k) => state.vaseParams[k] !== partial[k]
+        );
+        if (keys.length === 0) return {};
+        const newVaseParams = { ...state.vaseParams, ...partial };
+        return commit(state, newVaseParams, keys.sort().join(','));
+      }),
+
+    resetParams: () =>
+      set((state) => {
+        const newVaseParams = { ...DEFAULT_VASE_PARAMS };
+        return commit(state, newVaseParams, null);
+      }),
+
+    setTextureImage: (image) => set(() => ({ textureImage: image })),
+
+    setObjectType: (type) => set(() => ({ objectType: type })),
+
+    setLampParam: (key, value) =>
+      set((state) => ({ lampParams: { ...state.lampParams, [key]: value } })),
+
+    setLampBaseParam: (key, value) =>
+      set((state) => ({
+        lampParams: { ...state.lampParams, base: { ...state.lampParams.base, [key]: value } },
+      })),
+
+    setLampShadeParam: (key, value) =>
+      set((state) => ({
+        lampParams: { ...state.lampParams, shade: { ...state.lampParams.shade, [key]: value } },
+      })),
+
+    resetLampParams: () => set(() => ({ lampParams: DEFAULT_LAMP_PARAMS })),
+
+    undo: () =>
+      set((state) => {
+        if (state.past.length === 0) return {};
+        const previous = state.past[state.past.length - 1];
+        lastEdit = null;
+        return {
+          vaseParams: previous,
+          params: previous,
+          past: state.past.slice(0, -1),
+          future: [...state.future, state.vaseParams],
+        };
+      }),
+
+    redo: () =>
+      set((state) => {
+        if (state.future.length === 0) return {};
+        const next = state.future[state.future.length - 1];
+        lastEdit = null;
+        return {
+          vaseParams: next,
+          params: next,
+          past: [...state.past, state.vaseParams],
+          future: state.future.slice(0, -1),
+        };
+      }),
+
+    clearHistory: () =>
+      set(() => {
+        lastEdit = null;
+        return { past: [], future: [] };
+      }),
+  };
+};
 
 /** React hook for accessing the design store */
 export const useDesignStore = create<DesignState>()(stateCreator);
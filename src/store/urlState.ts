@@ -0,0 +1,292 @@
+/**
+ * Compact, versioned encoding of VaseParams for shareable URLs.
+ *
+ * Format: `?d=<version>.<payload>` where payload is base64url(JSON) of an
+ * object holding only the params that differ from DEFAULT_VASE_PARAMS,
+ * keyed by short aliases. Decoding is forgiving: unknown aliases and values
+ * of the wrong type are dropped, numbers are clamped to their slider range,
+ * strings outside a param's options are dropped, an unknown version yields null.
+ */
+
+import type { ProfileControlPoint, VaseParams } from '@/types/design';
+import { DEFAULT_VASE_PARAMS, MAX_TEXT_LENGTH } from '@/types/design';
+import {
+  CUSTOM_OUTLINE_SAMPLES,
+  MIN_CUSTOM_RADIUS,
+  MIN_CUSTOM_SAMPLES,
+} from '@/generators/shared/customOutline';
+import {
+  MAX_PROFILE_POINTS,
+  PARAM_OPTIONS,
+  PARAM_RANGES,
+  PROFILE_SCALE_RANGE,
+} from '@/types/paramRanges';
+import type { ParamRange } from '@/types/paramRanges';
+
+/** Query parameter holding the encoded design */
+export const DESIGN_QUERY_PARAM = 'd';
+
+/** Bump when aliases or value encodings change incompatibly */
+export const URL_SCHEMA_VERSION = 1;
+
+/** Short key aliases — every param must have one, and they must never be reused */
+export const PARAM_ALIASES: Record<keyof VaseParams, string> = {
+  height: 'h',
+  diameter: 'd',
+  taper: 'tp',
+  wallThickness: 'wt',
+  style: 'st',
+  profileCurve: 'pc',
+  profileMode: 'pm',
+  profileShape: 'ps',
+  flareStart: 'fs',
+  flareAmount: 'fa',
+  sCurveAmount: 'sa',
+  sCurveMidpoint: 'sm',
+  shoulderHeight: 'sh',
+  neckRatio: 'nr',
+  bellyHeight: 'bh',
+  trumpetFlare: 'tf',
+  trumpetCurvature: 'tc',
+  profilePoints: 'pp',
+  twistAngle: 'tw',
+  twistDirection: 'td',
+  twistEasing: 'te',
+  ridgeCount: 'rc',
+  ridgeDepth: 'rd',
+  ridgeProfile: 'rp',
+  smoothInnerWall: 'si',
+  wavePattern: 'wp',
+  waveAmplitude: 'wa',
+  waveCount: 'wn',
+  waveRows: 'wr',
+  crossSection: 'cs',
+  crossSectionMorph: 'cm',
+  crossSectionTop: 'ct',
+  crossSectionEasing: 'ce',
+  polygonSides: 'ns',
+  starPoints: 'sp',
+  starInnerRatio: 'sr',
+  ovalRatio: 'or',
+  squircleN: 'qn',
+  superN: 'un',
+  gearTeeth: 'gt',
+  petalCount: 'pt',
+  noiseAmplitude: 'ka',
+  noiseFrequency: 'kf',
+  noiseOctaves: 'ko',
+  noiseSeed: 'ks',
+  noiseHeightVariation: 'kh',
+  customCrossSection: 'cx',
+  finCount: 'fc',
+  finHeight: 'fh',
+  finWidth: 'fw',
+  surfacePattern: 'sf',
+  patternCellSize: 'cz',
+  patternBarWidth: 'bw',
+  patternCellCount: 'cn',
+  patternRelaxIterations: 'ri',
+  patternSeed: 'sd',
+  patternBandStart: 'bs',
+  patternBandEnd: 'be',
+  faceted: 'fx',
+  facetCount: 'fn',
+  facetBands: 'fb',
+  facetJitter: 'fj',
+  facetSeed: 'fe',
+  textureDepth: 'xd',
+  textureTilesU: 'xu',
+  textureTilesV: 'xv',
+  textureOffsetU: 'xo',
+  textureOffsetV: 'xp',
+  textureRotation: 'xr',
+  textureInvert: 'xi',
+  textContent: 'tx',
+  textMode: 'tm',
+  textPosition: 'tv',
+  textWrapAngle: 'ta',
+  textDepth: 'tk',
+  baseThickness: 'bt',
+  resolution: 'rs',
+  vaseModeOptimized: 'vm',
+};
+
+const ALIAS_TO_KEY: Record<string, keyof VaseParams> = {};
+(Object.keys(PARAM_ALIASES) as (keyof VaseParams)[]).forEach((key) => {
+  ALIAS_TO_KEY[PARAM_ALIASES[key]] = key;
+});
+
+/** Slider range of each numeric param */
+const NUMBER_RANGES: Partial<Record<keyof VaseParams, ParamRange>> = PARAM_RANGES;
+
+/** Accepted values of each string param */
+const STRING_OPTIONS: Partial<Record<keyof VaseParams, readonly string[]>> = PARAM_OPTIONS;
+
+/** Longest accepted value of each free-text param */
+const TEXT_LENGTHS: Partial<Record<keyof VaseParams, number>> = { textContent: MAX_TEXT_LENGTH };
+
+/** Decimal places kept for numbers — finer than any slider step */
+const NUMBER_PRECISION = 4;
+
+/** Decimal places kept for custom outline radii — 0.1 mm on a 100 mm radius */
+const OUTLINE_PRECISION = 3;
+
+function roundNumber(value: number, precision: number = NUMBER_PRECISION): number {
+  return Number(value.toFixed(precision));
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+function isEqualValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Encode one param value to its compact JSON form */
+function encodeValue(key: keyof VaseParams, value: VaseParams[keyof VaseParams]): unknown {
+  if (key === 'profilePoints') {
+    // [{t, scale}, ...] → [t, scale, t, scale, ...]
+    const flat: number[] = [];
+    (value as ProfileControlPoint[]).forEach((p) => {
+      flat.push(roundNumber(p.t), roundNumber(p.scale));
+    });
+    return flat;
+  }
+  if (key === 'customCrossSection') {
+    return (value as number[]).map((r) => roundNumber(r, OUTLINE_PRECISION));
+  }
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'number') return roundNumber(value);
+  return value;
+}
+
+/** Decode one param value, or undefined if it doesn't match the param's type or options */
+function decodeValue(key: keyof VaseParams, raw: unknown): unknown {
+  const fallback = DEFAULT_VASE_PARAMS[key];
+
+  if (key === 'profilePoints') {
+    if (!Array.isArray(raw) || raw.length < 4 || raw.length % 2 !== 0) return undefined;
+    if (raw.length > MAX_PROFILE_POINTS * 2) return undefined;
+    if (!raw.every((v) => typeof v === 'number' && Number.isFinite(v))) return undefined;
+    const points: ProfileControlPoint[] = [];
+    for (let i = 0; i < raw.length; i += 2) {
+      points.push({
+        t: clamp(raw[i], 0, 1),
+        scale: clamp(raw[i + 1], PROFILE_SCALE_RANGE.min, PROFILE_SCALE_RANGE.max),
+      });
+    }
+    // As the editor keeps them: ends pinned to the base and rim, heights strictly increasing
+    if (points[0].t !== 0 || points[points.length - 1].t !== 1) return undefined;
+    for (let i = 1; i < points.length; i++) {
+      if (points[i].t <= points[i - 1].t) return undefined;
+    }
+    return points;
+  }
+  if (key === 'customCrossSection') {
+    if (!Array.isArray(raw) || raw.length > CUSTOM_OUTLINE_SAMPLES) return undefined;
+    if (raw.length > 0 && raw.length < MIN_CUSTOM_SAMPLES) return undefined;
+    if (!raw.every((v) => typeof v === 'number' && Number.isFinite(v) && v > 0)) return undefined;
+    return (raw as number[]).map((r) => clamp(r, MIN_CUSTOM_RADIUS, 1));
+  }
+  if (typeof fallback === 'boolean') {
+    return raw === 1 || raw === 0 ? raw === 1 : undefined;
+  }
+  if (typeof fallback === 'number') {
+    if (typeof raw !== 'number' || !Number.isFinite(raw)) return undefined;
+    const range = NUMBER_RANGES[key];
+    return range ? clamp(raw, range.min, range.max) : raw;
+  }
+  if (typeof fallback === 'string') {
+    if (typeof raw !== 'string') return undefined;
+    const options = STRING_OPTIONS[key];
+    if (options) return options.indexOf(raw) >= 0 ? raw : undefined;
+    const maxLength = TEXT_LENGTHS[key];
+    return maxLength !== undefined ? raw.slice(0, maxLength) : raw;
+  }
+  return undefined;
+}
+
+/** base64url without padding (RFC 4648 §5) */
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string): string {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '==='.slice((base64.length + 3) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Encode params as `<version>.<base64url>`.
+ * Returns an empty string when every param is at its default.
+ */
+export function encodeDesign(params: VaseParams): string {
+  const payload: Record<string, unknown> = {};
+  (Object.keys(PARAM_ALIASES) as (keyof VaseParams)[]).forEach((key) => {
+    const value = params[key];
+    if (value === undefined || isEqualValue(value, DEFAULT_VASE_PARAMS[key])) return;
+    payload[PARAM_ALIASES[key]] = encodeValue(key, value);
+  });
+
+  if (Object.keys(payload).length === 0) return '';
+  return `${URL_SCHEMA_VERSION}.${toBase64Url(JSON.stringify(payload))}`;
+}
+
+/**
+ * Decode an encoded design into the params it overrides.
+ * Returns null for malformed input or an unsupported schema version.
+ */
+export function decodeDesign(encoded: string): Partial<VaseParams> | null {
+  const dot = encoded.indexOf('.');
+  if (dot < 0) return null;
+  if (Number(encoded.slice(0, dot)) !== URL_SCHEMA_VERSION) return null;
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(fromBase64Url(encoded.slice(dot + 1)));
+  } catch {
+    return null;
+  }
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) return null;
+
+  const result: Partial<VaseParams> = {};
+  const entries = payload as Record<string, unknown>;
+  Object.keys(entries).forEach((alias) => {
+    const key = ALIAS_TO_KEY[alias];
+    if (!key) return;
+    const value = decodeValue(key, entries[alias]);
+    if (value !== undefined) {
+      (result as Record<string, unknown>)[key] = value;
+    }
+  });
+  return result;
+}
+
+/** Read design overrides from a URL query string (e.g. `location.search`) */
+export function readDesignFromSearch(search: string): Partial<VaseParams> | null {
+  const encoded = new URLSearchParams(search).get(DESIGN_QUERY_PARAM);
+  return encoded ? decodeDesign(encoded) : null;
+}
+
+/**
+ * Return `url` with the design query param set to `params`
+ * (or removed when everything is default). Other query params are kept.
+ */
+export function withDesignInUrl(url: string, params: VaseParams): string {
+  const next = new URL(url);
+  const encoded = encodeDesign(params);
+  if (encoded) {
+    next.searchParams.set(DESIGN_QUERY_PARAM, encoded);
+  } else {
+    next.searchParams.delete(DESIGN_QUERY_PARAM);
+  }
+  return next.toString();
+}
@@ -1,14 +1,32 @@
 import { create } from 'zustand';
 import { createStore } from 'zustand/vanilla';
+import type { AnalysisMode } from '@/types/geometry';
+import type { PrinterProfileId } from '@/types/validation';
+import { DEFAULT_PRINTER_PROFILE } from '@/types/validation';
 
 export interface ViewportState {
   autoRotate: boolean;
   showGrid: boolean;
   isSidebarOpen: boolean;
+  /** Build volume used for print validation */
+  printerProfile: PrinterProfileId;
+  /** Per-vertex analysis color map shown on the model ('none' = normal material) */
+  analysisMode: AnalysisMode;
+  /** Lamps only: dark room lit by the bulb, with the shade's shadows on a floor and wall */
+  lightPreview: boolean;
+  /** Bulb brightness in the light preview, 0–1 */
+  lightDimmer: number;
+  /** Bulb color temperature in the light preview, K */
+  lightColorTemperature: number;
   toggleAutoRotate: () => void;
   toggleGrid: () => void;
   toggleSidebar: () => void;
   setSidebarOpen: (open: boolean) => void;
+  setPrinterProfile: (id: PrinterProfileId) => void;
+  setAnalysisMode: (mode: AnalysisMode) => void;
+  toggleLightPreview: () => void;
+  setLightDimmer: (level: number) => void;
+  setLightColorTemperature: (kelvin: number) => void;
 }
 
 const stateCreator = (
@@ -17,6 +35,11 @@ const stateCreator = (
   autoRotate: false,
   showGrid: true,
   isSidebarOpen: true,
+  printerProfile: DEFAULT_PRINTER_PROFILE,
+  analysisMode: 'none',
+  lightPreview: false,
+  lightDimmer: 0.8,
+  lightColorTemperature: 2700,
 
   toggleAutoRotate: () =>
     set((state) => ({ autoRotate: !state.autoRotate })),
@@ -29,6 +52,21 @@ const stateCreator = (
 
   setSidebarOpen: (open) =>
     set(() => ({ isSidebarOpen: open })),
+
+  setPrinterProfile: (id) =>
+    set(() => ({ printerProfile: id })),
+
+  setAnalysisMode: (mode) =>
+    set(() => ({ analysisMode: mode })),
+
+  toggleLightPreview: () =>
+    set((state) => ({ lightPreview: !state.lightPreview })),
+
+  setLightDimmer: (level) =>
+    set(() => ({ lightDimmer: level })),
+
+  setLightColorTemperature: (kelvin) =>
+    set(() => ({ lightColorTemperature: kelvin })),
 });
 
 /** React hook for viewport UI state */
@@ -2,13 +2,40 @@ export type VaseStyle = 'classic' | 'spiral-fin';
 
 export type CrossSection =
   | 'circle' | 'oval' | 'squircle' | 'superellipse'   // smooth
-  | 'heart' | 'teardrop' | 'petal' | 'leaf'            // organic
-  | 'polygon' | 'star' | 'gear' | 'flower';            // geometric
+  | 'heart' | 'teardrop' | 'petal' | 'leaf' | 'noise'  // organic
+  | 'polygon' | 'star' | 'gear' | 'flower'             // geometric
+  | 'custom';                                          // drawn or imported outline
 
 export type RidgeProfile = 'round' | 'sharp' | 'flat';
 
 export type TwistEasing = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut';
 
+/** 2D surface waves r += A·f(θ, z) — 'none' leaves the surface as is */
+export type WavePattern = 'none' | 'vertical' | 'diagonal' | 'basket';
+
+/** Raised letters on the wall, or letters cut into it */
+export type TextMode = 'emboss' | 'engrave';
+
+/** Longest text laid onto the wall — longer input is truncated */
+export const MAX_TEXT_LENGTH = 40;
+
+/** Openings cut through the wall — 'none' keeps a solid wall */
+export type SurfacePattern = 'none' | 'honeycomb' | 'voronoi';
+
+/** Named silhouette families — 'classic' is the sine belly/pinch driven by profileCurve */
+export type ProfileShape =
+  | 'classic' | 'flared' | 's-curve'
+  | 'shouldered' | 'amphora' | 'trumpet';
+
+/** 'curve' = profileShape + taper, 'custom' = user-drawn Bezier silhouette */
+export type ProfileMode = 'curve' | 'custom';
+
+/** Bezier control point for a custom profile silhouette */
+export interface ProfileControlPoint {
+  t: number;                  // normalized height, 0 (bottom) to 1 (top)
+  scale: number;              // radius multiplier of diameter/2, 0.2-2.0
+}
+
 // Shared decorative params used by vase generator
 export interface DecorativeShellParams {
   height: number;             // mm
@@ -18,6 +45,18 @@ export interface DecorativeShellParams {
 
   style: VaseStyle;
   profileCurve: number;       // -1.0 to 1.0 (hourglass to bulbous)
+  profileMode: ProfileMode;
+  profileShape: ProfileShape;
+  flareStart: number;         // 0.3-0.95, normalized height where the flare begins
+  flareAmount: number;        // 0.1-1.0, extra radius scale at the lip
+  sCurveAmount: number;       // 0.05-0.5, belly/neck amplitude
+  sCurveMidpoint: number;     // 0.3-0.7, normalized height of the inflection
+  shoulderHeight: number;     // 0.4-0.9, normalized height of the shoulder
+  neckRatio: number;          // 0.3-0.9, neck radius relative to body (shouldered/amphora)
+  bellyHeight: number;        // 0.2-0.6, normalized height of the amphora belly
+  trumpetFlare: number;       // 0.2-1.5, extra radius scale at the mouth
+  trumpetCurvature: number;   // 1-8, exponential steepness of the bell
+  profilePoints: ProfileControlPoint[];  // sorted by t, first at t=0, last at t=1
 
   twistAngle: number;         // degrees, 0-720
   twistDirection: 'cw' | 'ccw';
@@ -27,7 +66,15 @@ export interface DecorativeShellParams {
   ridgeProfile: RidgeProfile;
   smoothInnerWall: boolean;
 
+  wavePattern: WavePattern;
+  waveAmplitude: number;      // mm, 0-6, outward displacement at a wave crest
+  waveCount: number;          // 1-48, waves (or basket blocks) around the body
+  waveRows: number;           // 1-40, waves (or basket blocks) up the height
+
   crossSection: CrossSection;
+  crossSectionMorph: boolean;  // blend from crossSection (base) to crossSectionTop (rim)
+  crossSectionTop: CrossSection;
+  crossSectionEasing: TwistEasing;  // how the blend progresses with height
   polygonSides: number;       // 3-12
   starPoints: number;         // 3-12
   starInnerRatio: number;     // 0.2-0.8
@@ -37,18 +84,61 @@ export interface DecorativeShellParams {
   superN: number;             // 0.5-5
   gearTeeth: number;          // 6-24
   petalCount: number;         // 3-8
+  noiseAmplitude: number;     // 0-0.4, radial distortion as a fraction of the radius
+  noiseFrequency: number;     // 0.5-6, noise features around the body
+  noiseOctaves: number;       // 1-5, detail layers at doubling frequency
+  noiseSeed: number;          // 0-9999
+  noiseHeightVariation: number;  // 0-4, noise units the outline drifts from base to rim
+  customCrossSection: number[];  // unit radii at evenly spaced angles (max 1), [] = circle
 
   finCount: number;           // 30-80
   finHeight: number;          // mm, 1-6
   finWidth: number;           // broadness factor, 0.5-4.0
+
+  surfacePattern: SurfacePattern;
+  patternCellSize: number;    // mm, 6-30, hexagon width across flats
+  patternBarWidth: number;    // mm, 1.2-6, solid strut between neighbouring cells
+  patternCellCount: number;   // 8-150, Voronoi seeds
+  patternRelaxIterations: number;  // 0-10, Lloyd relaxation passes (evens out Voronoi cells)
+  patternSeed: number;        // 0-9999, Voronoi random seed
+  patternBandStart: number;   // 0-0.5, normalized height where cells begin
+  patternBandEnd: number;     // 0.5-1, normalized height where cells end
+
+  faceted: boolean;           // low-poly: flat facets instead of a smooth surface
+  facetCount: number;         // 3-48, facets around the cross-section
+  facetBands: number;         // 2-40, facet bands up the height
+  facetJitter: number;        // mm, 0-5, seeded radial vertex displacement
+  facetSeed: number;          // 0-9999, jitter random seed
+
+  textureDepth: number;       // mm, 0-5, outward displacement of a white texel
+  textureTilesU: number;      // 1-12, image repeats around the body
+  textureTilesV: number;      // 1-12, image repeats up the height
+  textureOffsetU: number;     // 0-1, tile fraction shifted around the body
+  textureOffsetV: number;     // 0-1, tile fraction shifted up the height
+  textureRotation: number;    // degrees, -180-180
+  textureInvert: boolean;     // true = dark pixels are raised
+
+  textContent: string;        // up to 40 ASCII characters, '' = no text
+  textMode: TextMode;
+  textPosition: number;       // 0.1-0.9, normalized height of the text centre line
+  textWrapAngle: number;      // degrees, 20-300, arc the text spans around the body
+  textDepth: number;          // mm, 0.4-3, relief height or engraving depth
+}
+
+/** User-supplied heightmap image; decoded in the geometry worker, not part of the URL */
+export interface TextureImage {
+  name: string;
+  data: ArrayBuffer;          // encoded PNG bytes
 }
 
 export interface VaseParams extends DecorativeShellParams {
   baseThickness: number;      // mm, 1-6
   resolution: number;         // segments, 32-256
+  vaseModeOptimized: boolean; // single solid body for slicer vase mode (no inner shell)
 }
 
-export const DEFAULT_VASE_PARAMS: VaseParams = {
+/** Decorative defaults shared by the vase and the lamp parts */
+const DEFAULT_SHELL_PARAMS: DecorativeShellParams = {
   height: 150,
   diameter: 80,
   taper: 0,
@@ -56,6 +146,23 @@ export const DEFAULT_VASE_PARAMS: VaseParams = {
 
   style: 'spiral-fin',
   profileCurve: 0.0,
+  profileMode: 'curve',
+  profileShape: 'classic',
+  flareStart: 0.6,
+  flareAmount: 0.5,
+  sCurveAmount: 0.25,
+  sCurveMidpoint: 0.5,
+  shoulderHeight: 0.7,
+  neckRatio: 0.55,
+  bellyHeight: 0.4,
+  trumpetFlare: 0.8,
+  trumpetCurvature: 4,
+  profilePoints: [
+    { t: 0, scale: 1 },
+    { t: 0.33, scale: 1 },
+    { t: 0.67, scale: 1 },
+    { t: 1, scale: 1 },
+  ],
 
   twistAngle: 180,
   twistDirection: 'ccw',
@@ -65,7 +172,15 @@ export const DEFAULT_VASE_PARAMS: VaseParams = {
   ridgeProfile: 'round',
   smoothInnerWall: true,
 
+  wavePattern: 'none',
+  waveAmplitude: 2,
+  waveCount: 12,
+  waveRows: 8,
+
   crossSection: 'circle',
+  crossSectionMorph: false,
+  crossSectionTop: 'circle',
+  crossSectionEasing: 'linear',
   polygonSides: 6,
   starPoints: 5,
   starInnerRatio: 0.5,
@@ -75,11 +190,148 @@ export const DEFAULT_VASE_PARAMS: VaseParams = {
   superN: 2.5,
   gearTeeth: 12,
   petalCount: 5,
+  noiseAmplitude: 0.15,
+  noiseFrequency: 2,
+  noiseOctaves: 3,
+  noiseSeed: 1,
+  noiseHeightVariation: 1,
+  customCrossSection: [],
 
   finCount: 55,
   finHeight: 3.5,
   finWidth: 2.2,
 
+  surfacePattern: 'none',
+  patternCellSize: 12,
+  patternBarWidth: 2.5,
+  patternCellCount: 40,
+  patternRelaxIterations: 2,
+  patternSeed: 1,
+  patternBandStart: 0.15,
+  patternBandEnd: 0.85,
+
+  faceted: false,
+  facetCount: 12,
+  facetBands: 8,
+  facetJitter: 0,
+  facetSeed: 1,
+
+  textureDepth: 1,
+  textureTilesU: 1,
+  textureTilesV: 1,
+  textureOffsetU: 0,
+  textureOffsetV: 0,
+  textureRotation: 0,
+  textureInvert: false,
+
+  textContent: '',
+  textMode: 'emboss',
+  textPosition: 0.5,
+  textWrapAngle: 90,
+  textDepth: 1,
+};
+
+export const DEFAULT_VASE_PARAMS: VaseParams = {
+  ...DEFAULT_SHELL_PARAMS,
   baseThickness: 2,
   resolution: 128,
+  vaseModeOptimized: false,
 } as const;
+
+/** Which object the editor designs */
+export type ObjectType = 'vase' | 'lamp';
+
+/** Edison screw socket sizes (E12/E26 US, E14/E27 EU) */
+export type SocketType = 'E12' | 'E14' | 'E26' | 'E27';
+
+/** Bulb shapes the shade is checked against (sizes in BULB_CLEARANCES) */
+export type BulbType = 'A19' | 'A15' | 'ST64' | 'B11' | 'G25';
+
+/** How the shade's sleeve meets the base lip: a snug fit, a looser, shorter seat, or a screw thread */
+export type ConnectionType = 'friction-fit' | 'gravity-sit' | 'threaded';
+
+/** Screw-thread cross-section: 60° V, 30° trapezoid, or square (flank angles in THREAD_PROFILES) */
+export type ThreadProfile = 'triangular' | 'trapezoidal' | 'square';
+
+/** Light-pattern cutouts through the lamp shade */
+export type LightPattern = 'none' | 'lattice' | 'spiral-slots' | 'shadow-lines';
+
+/** Lattice openings: diamonds on a staggered grid, or squares in rows */
+export type LatticeShape = 'diamond' | 'square';
+
+/** Shadow lines: vertical slots all around, or horizontal slots up the shade */
+export type ShadowLineDirection = 'radial' | 'parallel';
+
+/**
+ * A two-part lamp: a base holding the socket and a shade that slips over
+ * the base's top lip. Part tapers are offsets (0 = straight), as in the
+ * taper comment above; the shade's profile runs upside down, so its
+ * narrow end meets the base.
+ */
+export interface LampParams {
+  base: DecorativeShellParams;
+  shade: DecorativeShellParams;
+  socketType: SocketType;
+  bulbType: BulbType;
+  connectionType: ConnectionType;
+  wireChannelEnabled: boolean;
+  resolution: number;         // segments, 32-256
+
+  // Threaded connection — right-hand thread on the base lip, matching groove in the shade sleeve
+  threadPitch: number;        // mm, 2-6, rise per turn
+  threadProfile: ThreadProfile;
+  threadClearance: number;    // mm, 0.1-0.6, gap between male and female flanks
+  threadTurns: number;        // 1-4
+
+  // Shade light pattern — each pattern keeps bars at least LIGHT_PATTERN_MIN_BAR wide
+  lightPattern: LightPattern;
+  latticeShape: LatticeShape;
+  latticeCellSize: number;    // mm, 6-30, opening width
+  latticeBarWidth: number;    // mm, 2-8
+  slotCount: number;          // 4-48 spiral slots around the shade
+  slotWidth: number;          // mm, 1.5-12
+  shadowLineDirection: ShadowLineDirection;
+  shadowLineCount: number;    // 4-60 slots around (radial) or rows up (parallel)
+  shadowLineWidth: number;    // mm, 1-8
+}
+
+export const DEFAULT_LAMP_PARAMS: LampParams = {
+  base: {
+    ...DEFAULT_SHELL_PARAMS,
+    height: 120,
+    diameter: 100,
+    taper: -0.15,
+    wallThickness: 2,
+    style: 'classic',
+    ridgeCount: 12,
+    ridgeDepth: 3,
+    twistAngle: 90,
+  },
+  shade: {
+    ...DEFAULT_SHELL_PARAMS,
+    height: 180,
+    diameter: 150,
+    taper: -0.45,
+    wallThickness: 1.6,
+  },
+  socketType: 'E26',
+  bulbType: 'A15',
+  connectionType: 'friction-fit',
+  wireChannelEnabled: true,
+  resolution: 64,
+
+  threadPitch: 3,
+  threadProfile: 'triangular',
+  threadClearance: 0.3,
+  threadTurns: 2,
+
+  lightPattern: 'none',
+  latticeShape: 'diamond',
+  latticeCellSize: 12,
+  latticeBarWidth: 3,
+  slotCount: 12,
+  slotWidth: 4,
+  shadowLineDirection: 'radial',
+  shadowLineCount: 24,
+  shadowLineWidth: 2,
+};
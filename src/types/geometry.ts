@@ -1,10 +1,54 @@
+/** Per-vertex quantity computed for the viewport analysis overlay */
+export type AnalysisMode = 'none' | 'overhang' | 'thickness';
+
 export interface GeometryResult {
   positions: Float32Array;
   normals: Float32Array;
   indices: Uint32Array;
+  /** Optional per-vertex scalar channel: degrees (overhang) or mm (thickness) */
+  scalars?: Float32Array;
+  /** Quantity stored in `scalars` */
+  analysis?: AnalysisMode;
+}
+
+export type ExportFormat = 'stl' | '3mf' | 'obj' | 'ply';
+
+export interface MeshExportOptions {
+  /** Include smooth per-vertex normals (OBJ `vn`, PLY nx/ny/nz) */
+  normals: boolean;
+}
+
+/** The separately printed parts of a lamp */
+export type LampPart = 'base' | 'shade';
+
+/** Lamp exports: a zip of one STL per part, or one 3MF with an object per part */
+export type LampExportFormat = Extract<ExportFormat, 'stl' | '3mf'>;
+
+/** Size of the decoded heightmap texture */
+export interface TextureInfo {
+  width: number;
+  height: number;
 }
 
 export interface GeometryWorkerAPI {
-  generateVase(params: import('./design').VaseParams): Promise<GeometryResult>;
+  /** Decode and keep a heightmap image for all later generation (null clears it) */
+  setTexture(image: ArrayBuffer | null): Promise<TextureInfo | null>;
+  generateVase(
+    params: import('./design').VaseParams,
+    analysis?: AnalysisMode
+  ): Promise<GeometryResult>;
   exportSTL(params: import('./design').VaseParams): Promise<ArrayBuffer>;
+  export3MF(params: import('./design').VaseParams): Promise<ArrayBuffer>;
+  exportOBJ(params: import('./design').VaseParams, options: MeshExportOptions): Promise<ArrayBuffer>;
+  exportPLY(params: import('./design').VaseParams, options: MeshExportOptions): Promise<ArrayBuffer>;
+  /** Base and shade assembled, for the preview */
+  generateLamp(params: import('./design').LampParams): Promise<GeometryResult>;
+  /** Every lamp part in its print orientation, in one download */
+  exportLamp(params: import('./design').LampParams, format: LampExportFormat): Promise<ArrayBuffer>;
+  validateVase(
+    params: import('./design').VaseParams,
+    printer: import('./validation').PrinterProfileId
+  ): Promise<import('./validation').ValidationReport>;
+  /** Bulb clearance and heat checks */
+  validateLamp(params: import('./design').LampParams): Promise<import('./validation').LampSafetyReport>;
 }
@@ -33,6 +33,11 @@ declare module '@jscad/modeling' {
     intersect: (...geometries: Geom3[]) => Geom3;
   };
 
+  export const measurements: {
+    measureVolume: (geometry: Geom3) => number;
+    measureBoundingBox: (geometry: Geom3) => [Vec3, Vec3];
+  };
+
   export interface Slice {
     vertices: Vec3[];
   }
@@ -50,6 +55,16 @@ declare module '@jscad/modeling' {
       options: { segments?: number; angle?: number },
       geometry: Geom2
     ) => Geom3;
+    /** Sweeps a profile in the XZ half-plane (x = radius) around Z, rising `pitch` per turn */
+    extrudeHelical: (
+      options: {
+        angle?: number;
+        startAngle?: number;
+        pitch?: number;
+        segmentsPerRotation?: number;
+      },
+      geometry: Geom2
+    ) => Geom3;
     extrudeFromSlices: (
       options: {
         numberOfSlices: number;
@@ -70,6 +85,7 @@ declare module '@jscad/modeling' {
       toPoints: (geometry: Geom2) => [number, number][];
     };
     geom3: {
+      fromPoints: (listOfLists: Vec3[][]) => Geom3;
       toPolygons: (geometry: Geom3) => Polygon[];
     };
     poly3: {
@@ -77,6 +93,21 @@ declare module '@jscad/modeling' {
     };
   };
 
+  export const text: {
+    /** Hershey single-stroke font: one polyline per stroke, baseline at y = 0 */
+    vectorText: (
+      options: {
+        xOffset?: number;
+        yOffset?: number;
+        height?: number;
+        letterSpacing?: number;
+        align?: 'left' | 'center' | 'right';
+        input?: string;
+      },
+      text?: string
+    ) => [number, number][][];
+  };
+
   export const maths: {
     vec3: {
       subtract: (out: Vec3, a: Vec3, b: Vec3) => Vec3;
@@ -0,0 +1,105 @@
+/**
+ * Accepted values of the vase params: the parameter panel's slider ranges
+ * and option lists, and the custom profile editor's limits. The panel
+ * builds its controls from these and the share-URL decoder clamps to them.
+ */
+
+import type { CrossSection, VaseParams } from './design';
+
+export interface ParamRange {
+  min: number;
+  max: number;
+}
+
+/** Every cross-section, in picker order */
+export const CROSS_SECTIONS = [
+  'circle', 'oval', 'squircle', 'superellipse',
+  'heart', 'teardrop', 'petal', 'leaf', 'noise',
+  'polygon', 'star', 'gear', 'flower',
+  'custom',
+] as const satisfies readonly CrossSection[];
+
+/** Slider range of each numeric param */
+export const PARAM_RANGES = {
+  height: { min: 50, max: 400 },
+  diameter: { min: 40, max: 200 },
+  flareStart: { min: 0.3, max: 0.95 },
+  flareAmount: { min: 0.1, max: 1 },
+  sCurveAmount: { min: 0.05, max: 0.5 },
+  sCurveMidpoint: { min: 0.3, max: 0.7 },
+  shoulderHeight: { min: 0.4, max: 0.9 },
+  bellyHeight: { min: 0.2, max: 0.6 },
+  neckRatio: { min: 0.3, max: 0.9 },
+  trumpetFlare: { min: 0.2, max: 1.5 },
+  trumpetCurvature: { min: 1, max: 8 },
+  taper: { min: 0.3, max: 1.7 },
+  profileCurve: { min: -1, max: 1 },
+  twistAngle: { min: 0, max: 720 },
+  ovalRatio: { min: 0.4, max: 1.0 },
+  squircleN: { min: 2.5, max: 5 },
+  superN: { min: 0.5, max: 5 },
+  polygonSides: { min: 3, max: 12 },
+  starPoints: { min: 3, max: 12 },
+  starInnerRatio: { min: 0.2, max: 0.8 },
+  gearTeeth: { min: 6, max: 24 },
+  petalCount: { min: 3, max: 8 },
+  noiseAmplitude: { min: 0, max: 0.4 },
+  noiseFrequency: { min: 0.5, max: 6 },
+  noiseOctaves: { min: 1, max: 5 },
+  noiseHeightVariation: { min: 0, max: 4 },
+  noiseSeed: { min: 0, max: 9999 },
+  ridgeCount: { min: 0, max: 32 },
+  ridgeDepth: { min: 0, max: 20 },
+  finCount: { min: 30, max: 80 },
+  finHeight: { min: 1, max: 6 },
+  finWidth: { min: 0.5, max: 4 },
+  patternCellSize: { min: 6, max: 30 },
+  patternBarWidth: { min: 1.2, max: 6 },
+  patternCellCount: { min: 8, max: 150 },
+  patternRelaxIterations: { min: 0, max: 10 },
+  patternSeed: { min: 0, max: 9999 },
+  patternBandStart: { min: 0, max: 0.5 },
+  patternBandEnd: { min: 0.5, max: 1 },
+  waveAmplitude: { min: 0, max: 6 },
+  waveCount: { min: 1, max: 48 },
+  waveRows: { min: 1, max: 40 },
+  textureDepth: { min: 0, max: 5 },
+  textureTilesU: { min: 1, max: 12 },
+  textureTilesV: { min: 1, max: 12 },
+  textureOffsetU: { min: 0, max: 1 },
+  textureOffsetV: { min: 0, max: 1 },
+  textureRotation: { min: -180, max: 180 },
+  facetCount: { min: 3, max: 48 },
+  facetBands: { min: 2, max: 40 },
+  facetJitter: { min: 0, max: 5 },
+  facetSeed: { min: 0, max: 9999 },
+  wallThickness: { min: 0.8, max: 4 },
+  baseThickness: { min: 1, max: 6 },
+  resolution: { min: 32, max: 256 },
+  textDepth: { min: 0.4, max: 3 },
+  textPosition: { min: 0.1, max: 0.9 },
+  textWrapAngle: { min: 20, max: 300 },
+} satisfies { [K in keyof VaseParams]?: ParamRange };
+
+/** Accepted values of each string param, in panel order */
+export const PARAM_OPTIONS = {
+  style: ['classic', 'spiral-fin'],
+  crossSection: CROSS_SECTIONS,
+  crossSectionTop: CROSS_SECTIONS,
+  crossSectionEasing: ['linear', 'easeIn', 'easeOut', 'easeInOut'],
+  profileMode: ['curve', 'custom'],
+  profileShape: ['classic', 'flared', 's-curve', 'shouldered', 'amphora', 'trumpet'],
+  twistDirection: ['cw', 'ccw'],
+  twistEasing: ['linear', 'easeIn', 'easeOut', 'easeInOut'],
+  ridgeProfile: ['round', 'sharp', 'flat'],
+  surfacePattern: ['none', 'honeycomb', 'voronoi'],
+  wavePattern: ['none', 'vertical', 'diagonal', 'basket'],
+  textMode: ['emboss', 'engrave'],
+} as const satisfies { [K in keyof VaseParams]?: readonly VaseParams[K][] };
+
+/** Radius scale range of a custom profile control point */
+export const PROFILE_SCALE_RANGE: ParamRange = { min: 0.2, max: 2 };
+/** Minimum height gap between neighbouring custom profile control points */
+export const PROFILE_MIN_T_GAP = 0.02;
+/** Most control points a custom profile can hold at that spacing */
+export const MAX_PROFILE_POINTS = Math.floor(1 / PROFILE_MIN_T_GAP) + 1;
@@ -0,0 +1,13 @@
+import type { VaseParams } from './design';
+
+export type PresetCategory = 'classic' | 'sculptural' | 'geometric' | 'organic';
+
+/** A curated starting design — only the params that differ from the defaults */
+export interface VasePreset {
+  id: string;                 // stable, URL-safe
+  name: string;
+  category: PresetCategory;
+  tags: string[];
+  description: string;
+  params: Partial<VaseParams>;
+}
@@ -0,0 +1,62 @@
+import type { BulbType } from './design';
+
+export type PrinterProfileId = 'bed-220' | 'bed-256' | 'bed-300' | 'bed-350';
+
+export interface PrinterProfile {
+  id: PrinterProfileId;
+  label: string;
+  bedX: number;               // mm
+  bedY: number;               // mm
+  maxZ: number;               // mm
+}
+
+/** Common FDM build volumes (spec: 220 / 256 / 300 / 350 mm beds) */
+export const PRINTER_PROFILES: Record<PrinterProfileId, PrinterProfile> = {
+  'bed-220': { id: 'bed-220', label: '220 × 220 × 250 (Ender 3 class)', bedX: 220, bedY: 220, maxZ: 250 },
+  'bed-256': { id: 'bed-256', label: '256 × 256 × 256 (Bambu X1/P1)', bedX: 256, bedY: 256, maxZ: 256 },
+  'bed-300': { id: 'bed-300', label: '300 × 300 × 400 (CR-10 class)', bedX: 300, bedY: 300, maxZ: 400 },
+  'bed-350': { id: 'bed-350', label: '350 × 350 × 340 (Voron 350)', bedX: 350, bedY: 350, maxZ: 340 },
+};
+
+export const DEFAULT_PRINTER_PROFILE: PrinterProfileId = 'bed-256';
+
+/** FDM minimum printable wall, mm */
+export const MIN_WALL_THICKNESS = 0.8;
+/** Maximum unsupported overhang, degrees from vertical */
+export const MAX_OVERHANG_ANGLE = 60;
+/** Typical slicer line width in vase (spiralize) mode, mm */
+export const SPIRALIZE_LINE_WIDTH = 0.45;
+
+export type ValidationCode =
+  | 'thin-wall' | 'wall-breach' | 'overhang' | 'bed-fit' | 'spiralize'
+  | 'bulb-clearance' | 'top-vent';
+
+/** 'error' blocks export, 'warning' asks for confirmation */
+export type ValidationSeverity = 'warning' | 'error';
+
+export interface ValidationIssue {
+  code: ValidationCode;
+  severity: ValidationSeverity;
+  message: string;
+}
+
+export interface ValidationReport {
+  minWallThickness: number | null;  // mm, surface-normal; null in vase mode (slicer sets the wall)
+  minWallHeight: number | null;     // mm, Z where the thinnest wall was found
+  maxOverhangAngle: number;   // degrees from vertical, 0 = none
+  overhangArea: number;       // mm², area beyond MAX_OVERHANG_ANGLE
+  size: [number, number, number];  // bounding box extents, mm
+  printer: PrinterProfileId;
+  fitsBed: boolean;
+  issues: ValidationIssue[];
+}
+
+/** Bulb clearance and heat checks for a lamp design */
+export interface LampSafetyReport {
+  bulb: BulbType;
+  minClearance: number;       // mm, bulb envelope to shade inner wall; negative = overlap
+  minClearanceHeight: number; // mm above the table, where the closest point was found
+  topVentDiameter: number;    // mm, narrowest width of the shade's top opening
+  closed: boolean;            // no light-pattern cutouts — heat leaves through the top only
+  issues: ValidationIssue[];
+}